@@ -40,7 +40,7 @@ export default async () => {
             return "No last-used channel found yet."
           }
 
-          if (!target || target.channel !== "telegram" || typeof target.userID !== "string") {
+          if (!target || typeof target.channel !== "string" || typeof target.userID !== "string") {
             return "Last-used channel data is invalid."
           }
 
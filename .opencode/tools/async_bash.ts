@@ -1,4 +1,7 @@
 import { tool } from "@opencode-ai/plugin"
+import { isChannelName } from "../../src/channels/types"
+import { IdentityStore } from "../../src/core/identity-store"
+import { WhitelistStore } from "../../src/core/whitelist-store"
 
 const SEP = "/"
 const defaultTimeoutMs = Number.parseInt(Bun.env.ASYNC_BASH_DEFAULT_TIMEOUT_MS || "86400000", 10)
@@ -24,7 +27,13 @@ async function run(cmd: string[]): Promise<boolean> {
   return proc.exitCode === 0
 }
 
-function resolvePaths(worktree?: string): { root: string; queueDir: string; lastChannelFile: string; whitelistFile: string } {
+function resolvePaths(worktree?: string): {
+  root: string
+  queueDir: string
+  lastChannelFile: string
+  whitelistFile: string
+  identitiesFile: string
+} {
   const root =
     (typeof worktree === "string" && worktree.trim()) ||
     (typeof Bun.env.MONCLAW_ROOT === "string" && Bun.env.MONCLAW_ROOT.trim()) ||
@@ -50,6 +59,7 @@ function resolvePaths(worktree?: string): { root: string; queueDir: string; last
     queueDir,
     lastChannelFile: joinPath(dataDir, "last-channel.json"),
     whitelistFile: joinPath(dataDir, "whitelist.json"),
+    identitiesFile: joinPath(dataDir, "identities.json"),
   }
 }
 
@@ -73,25 +83,37 @@ async function loadJson(path: string): Promise<any> {
   return JSON.parse(await Bun.file(path).text())
 }
 
-async function currentTarget(lastChannelFile: string): Promise<{ channel: "telegram"; userID: string }> {
+async function currentTarget(lastChannelFile: string): Promise<{ channel: string; userID: string }> {
   const raw = await loadJson(lastChannelFile)
-  if (!raw || raw.channel !== "telegram" || typeof raw.userID !== "string") {
+  if (!raw || typeof raw.channel !== "string" || typeof raw.userID !== "string") {
     throw new Error("No valid last-used channel/user is available.")
   }
-  return { channel: "telegram", userID: raw.userID }
+  return { channel: raw.channel, userID: raw.userID }
 }
 
-async function ensureTargetWhitelisted(userID: string, whitelistFile: string): Promise<void> {
-  let parsed
+// Same check as the router: the strongest role among the person's linked accounts decides.
+async function ensureTargetAllowed(channel: string, userID: string, paths: { whitelistFile: string; identitiesFile: string }): Promise<void> {
+  if (!isChannelName(channel)) {
+    throw new Error("Target user is not whitelisted for async_bash notifications.")
+  }
+  // load() only reads; the running MonClaw process owns these files.
+  const whitelist = new WhitelistStore(paths.whitelistFile)
   try {
-    parsed = await loadJson(whitelistFile)
+    await whitelist.load()
   } catch {
     throw new Error("Whitelist is unavailable. async_bash is blocked.")
   }
-  const allowed = Array.isArray(parsed?.telegram) ? parsed.telegram.map(String) : []
-  if (!allowed.includes(String(userID))) {
+  const identities = new IdentityStore(paths.identitiesFile)
+  // No identities file yet just means no linked accounts.
+  await identities.load().catch(() => undefined)
+  const accounts = identities.accountsFor(channel, String(userID))
+  const role = whitelist.roleFor(accounts)
+  if (!role) {
     throw new Error("Target user is not whitelisted for async_bash notifications.")
   }
+  if (!whitelist.can(accounts, "async_bash")) {
+    throw new Error(`Target user's role (${role}) is not allowed to run async_bash.`)
+  }
 }
 
 function makeJobID(): string {
@@ -114,6 +136,10 @@ export default tool({
       throw new Error("Blocked by async_bash safety policy: dangerous command pattern detected.")
     }
 
+    // Check who asked before bothering anyone with an approval they could not use.
+    const target = await currentTarget(paths.lastChannelFile)
+    await ensureTargetAllowed(target.channel, target.userID, paths)
+
     await context.ask({
       permission: "tool.async_bash.execute",
       patterns: [command],
@@ -128,9 +154,6 @@ export default tool({
 
     const timeoutMsRaw = Number.isFinite(args.timeoutMs) ? Number(args.timeoutMs) : defaultTimeoutMs
     const timeoutMs = Math.max(1000, timeoutMsRaw)
-    const target = await currentTarget(paths.lastChannelFile)
-    await ensureTargetWhitelisted(target.userID, paths.whitelistFile)
-
     await run(["mkdir", "-p", paths.queueDir])
 
     const id = makeJobID()
@@ -0,0 +1,384 @@
+import type { Logger } from "pino"
+import { basename } from "../utils/path"
+import type { InboxKind } from "../utils/inbox"
+import { parseTextCommand, type ChannelAdapter, type ChannelHandlers, type ChannelPrompt, type IncomingMedia } from "./types"
+
+type DiscordAdapterOptions = {
+  token: string
+  logger: Logger
+  apiUrl?: string
+}
+
+type GatewayPayload = {
+  op: number
+  d?: unknown
+  s?: number | null
+  t?: string | null
+}
+
+type DiscordUser = {
+  id: string
+  bot?: boolean
+}
+
+type DiscordAttachment = {
+  id: string
+  filename: string
+  url: string
+  size?: number
+  content_type?: string
+}
+
+type DiscordMessage = {
+  id: string
+  channel_id: string
+  author?: DiscordUser
+  content?: string
+  flags?: number
+  attachments?: DiscordAttachment[]
+}
+
+type DiscordInteraction = {
+  id: string
+  token: string
+  type: number
+  application_id: string
+  channel_id?: string
+  user?: DiscordUser
+  member?: { user?: DiscordUser }
+  message?: { id: string; channel_id: string }
+  data?: {
+    name?: string
+    custom_id?: string
+    options?: Array<{ name: string; value?: unknown }>
+  }
+}
+
+const DEFAULT_API_URL = "https://discord.com/api/v10"
+
+// GUILDS | GUILD_MESSAGES | DIRECT_MESSAGES | MESSAGE_CONTENT
+const GATEWAY_INTENTS = (1 << 0) | (1 << 9) | (1 << 12) | (1 << 15)
+
+const OP_DISPATCH = 0
+const OP_HEARTBEAT = 1
+const OP_IDENTIFY = 2
+const OP_RECONNECT = 7
+const OP_INVALID_SESSION = 9
+const OP_HELLO = 10
+
+const INTERACTION_APPLICATION_COMMAND = 2
+const INTERACTION_MESSAGE_COMPONENT = 3
+
+const CALLBACK_CHANNEL_MESSAGE = 4
+const CALLBACK_DEFERRED_UPDATE = 6
+
+const MESSAGE_FLAG_EPHEMERAL = 1 << 6
+const MESSAGE_FLAG_VOICE = 1 << 13
+
+const COMPONENT_ACTION_ROW = 1
+const COMPONENT_BUTTON = 2
+const BUTTON_PRIMARY = 1
+const BUTTON_DANGER = 4
+
+function mediaKind(attachment: DiscordAttachment, flags: number): InboxKind | null {
+  const contentType = attachment.content_type ?? ""
+  if ((flags & MESSAGE_FLAG_VOICE) !== 0 || contentType.startsWith("audio/")) return "voice"
+  if (contentType.startsWith("image/")) return "photo"
+  return null
+}
+
+function pickFileExtension(fileName: string, fallback: string): string {
+  const match = fileName.match(/(\.[A-Za-z0-9]+)$/)
+  return match ? match[1] : fallback
+}
+
+function promptComponents(prompt: ChannelPrompt): unknown[] {
+  return prompt.buttons.slice(0, 5).map((row) => ({
+    type: COMPONENT_ACTION_ROW,
+    components: row.slice(0, 5).map((button) => ({
+      type: COMPONENT_BUTTON,
+      style: button.action.startsWith("apr:r:") ? BUTTON_DANGER : BUTTON_PRIMARY,
+      label: button.label.slice(0, 80),
+      custom_id: button.action.slice(0, 100),
+    })),
+  }))
+}
+
+export class DiscordAdapter implements ChannelAdapter {
+  readonly name = "discord" as const
+  readonly displayName = "Discord"
+  readonly maxMessageLength = 1900
+  private readonly apiUrl: string
+  private readonly directChats = new Map<string, string>()
+  private socket?: WebSocket
+  private heartbeatTimer?: ReturnType<typeof setInterval>
+  private sequence: number | null = null
+  private botUserID = ""
+  private applicationID = ""
+  private stopped = false
+  private resolveStopped?: () => void
+
+  constructor(private readonly opts: DiscordAdapterOptions) {
+    this.apiUrl = (opts.apiUrl ?? DEFAULT_API_URL).replace(/\/+$/g, "")
+  }
+
+  async start(handlers: ChannelHandlers): Promise<void> {
+    const gateway = await this.request<{ url: string }>("GET", "/gateway/bot")
+    const stoppedPromise = new Promise<void>((resolve) => {
+      this.resolveStopped = resolve
+    })
+    this.connect(gateway.url, handlers)
+    await stoppedPromise
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer)
+    this.socket?.close(1000)
+    this.resolveStopped?.()
+  }
+
+  async sendText(chatID: string, text: string): Promise<void> {
+    await this.request("POST", `/channels/${chatID}/messages`, { content: text })
+  }
+
+  async sendFile(chatID: string, filePath: string, caption?: string): Promise<void> {
+    const form = new FormData()
+    form.append("payload_json", JSON.stringify({ content: caption ?? "", attachments: [{ id: 0, filename: basename(filePath) }] }))
+    form.append("files[0]", new Blob([await Bun.file(filePath).arrayBuffer()]), basename(filePath))
+    await this.request("POST", `/channels/${chatID}/messages`, form)
+  }
+
+  async sendPrompt(chatID: string, prompt: ChannelPrompt): Promise<void> {
+    await this.request("POST", `/channels/${chatID}/messages`, {
+      content: prompt.text,
+      components: promptComponents(prompt),
+    })
+  }
+
+  async sendTyping(chatID: string): Promise<void> {
+    await this.request("POST", `/channels/${chatID}/typing`)
+  }
+
+  async openDirectChat(userID: string): Promise<string> {
+    const cached = this.directChats.get(userID)
+    if (cached) return cached
+    const channel = await this.request<{ id: string }>("POST", "/users/@me/channels", { recipient_id: userID })
+    this.directChats.set(userID, channel.id)
+    return channel.id
+  }
+
+  private connect(gatewayUrl: string, handlers: ChannelHandlers): void {
+    const url = new URL(gatewayUrl)
+    url.searchParams.set("v", "10")
+    url.searchParams.set("encoding", "json")
+    const socket = new WebSocket(url.toString())
+    this.socket = socket
+
+    socket.addEventListener("message", (event) => {
+      let payload: GatewayPayload
+      try {
+        payload = JSON.parse(String(event.data)) as GatewayPayload
+      } catch {
+        return
+      }
+      void this.handlePayload(payload, handlers).catch((error) => {
+        this.opts.logger.error({ err: error, op: payload.op, type: payload.t }, "discord gateway event failed")
+      })
+    })
+
+    socket.addEventListener("close", (event) => {
+      if (this.heartbeatTimer) clearInterval(this.heartbeatTimer)
+      this.heartbeatTimer = undefined
+      if (this.stopped) return
+      this.opts.logger.warn({ code: event.code }, "discord gateway closed; reconnecting")
+      setTimeout(() => this.connect(gatewayUrl, handlers), 5000)
+    })
+
+    socket.addEventListener("error", () => {
+      this.opts.logger.warn("discord gateway socket error")
+    })
+  }
+
+  private send(payload: GatewayPayload): void {
+    this.socket?.send(JSON.stringify(payload))
+  }
+
+  private async handlePayload(payload: GatewayPayload, handlers: ChannelHandlers): Promise<void> {
+    if (typeof payload.s === "number") this.sequence = payload.s
+
+    if (payload.op === OP_HELLO) {
+      const interval = Number((payload.d as { heartbeat_interval?: number } | undefined)?.heartbeat_interval ?? 41250)
+      if (this.heartbeatTimer) clearInterval(this.heartbeatTimer)
+      this.heartbeatTimer = setInterval(() => this.send({ op: OP_HEARTBEAT, d: this.sequence }), interval)
+      this.send({
+        op: OP_IDENTIFY,
+        d: {
+          token: this.opts.token,
+          intents: GATEWAY_INTENTS,
+          properties: { os: process.platform, browser: "monclaw", device: "monclaw" },
+        },
+      })
+      return
+    }
+
+    if (payload.op === OP_HEARTBEAT) {
+      this.send({ op: OP_HEARTBEAT, d: this.sequence })
+      return
+    }
+
+    if (payload.op === OP_RECONNECT || payload.op === OP_INVALID_SESSION) {
+      this.socket?.close(4000)
+      return
+    }
+
+    if (payload.op !== OP_DISPATCH) return
+
+    if (payload.t === "READY") {
+      const ready = payload.d as { user?: DiscordUser; application?: { id?: string } }
+      this.botUserID = ready.user?.id ?? ""
+      this.applicationID = ready.application?.id ?? ""
+      await this.registerCommands(handlers)
+      this.opts.logger.info({ botUserID: this.botUserID }, "discord gateway ready")
+      return
+    }
+
+    if (payload.t === "MESSAGE_CREATE") {
+      await this.handleMessage(payload.d as DiscordMessage, handlers)
+      return
+    }
+
+    if (payload.t === "INTERACTION_CREATE") {
+      await this.handleInteraction(payload.d as DiscordInteraction, handlers)
+    }
+  }
+
+  private async registerCommands(handlers: ChannelHandlers): Promise<void> {
+    if (!this.applicationID) return
+    try {
+      await this.request(
+        "PUT",
+        `/applications/${this.applicationID}/commands`,
+        handlers.commands.map((command) => ({
+          name: command.name,
+          description: command.description,
+          type: 1,
+          options: [{ type: 3, name: "args", description: "Command arguments", required: false }],
+        })),
+      )
+    } catch (error) {
+      this.opts.logger.warn({ err: error }, "discord command registration failed")
+    }
+  }
+
+  private async handleMessage(message: DiscordMessage, handlers: ChannelHandlers): Promise<void> {
+    const author = message.author
+    if (!author || author.bot || author.id === this.botUserID) return
+
+    const chatID = message.channel_id
+    const userID = author.id
+    const text = message.content ?? ""
+
+    const attachment = message.attachments?.[0]
+    const kind = attachment ? mediaKind(attachment, message.flags ?? 0) : null
+    if (attachment && kind) {
+      await handlers.onMessage({ chatID, userID, text, media: this.media(kind, attachment) })
+      return
+    }
+
+    const command = parseTextCommand(text)
+    if (command && handlers.commands.some((item) => item.name === command.name)) {
+      await handlers.onCommand({ chatID, userID, ...command })
+      return
+    }
+
+    await handlers.onMessage({ chatID, userID, text })
+  }
+
+  private async handleInteraction(interaction: DiscordInteraction, handlers: ChannelHandlers): Promise<void> {
+    const userID = interaction.member?.user?.id ?? interaction.user?.id ?? ""
+    const chatID = interaction.channel_id ?? interaction.message?.channel_id ?? ""
+
+    if (interaction.type === INTERACTION_APPLICATION_COMMAND) {
+      const name = interaction.data?.name ?? ""
+      const rawArgs = interaction.data?.options?.find((option) => option.name === "args")?.value
+      const args = typeof rawArgs === "string" ? rawArgs : ""
+      await this.interactionCallback(interaction, {
+        type: CALLBACK_CHANNEL_MESSAGE,
+        data: { content: `Running /${name}...`, flags: MESSAGE_FLAG_EPHEMERAL },
+      })
+      await handlers.onCommand({ chatID, userID, name, args })
+      return
+    }
+
+    if (interaction.type !== INTERACTION_MESSAGE_COMPONENT) return
+
+    // Components must be acknowledged within three seconds; answers arrive as follow-ups.
+    await this.interactionCallback(interaction, { type: CALLBACK_DEFERRED_UPDATE })
+    await handlers.onAction({
+      chatID,
+      userID,
+      action: interaction.data?.custom_id ?? "",
+      acknowledge: async (text) => {
+        await this.request("POST", `/webhooks/${interaction.application_id}/${interaction.token}`, {
+          content: text,
+          flags: MESSAGE_FLAG_EPHEMERAL,
+        })
+      },
+      clearButtons: async () => {
+        if (!interaction.message) return
+        await this.request("PATCH", `/channels/${interaction.message.channel_id}/messages/${interaction.message.id}`, {
+          components: [],
+        })
+      },
+    })
+  }
+
+  private async interactionCallback(interaction: DiscordInteraction, body: unknown): Promise<void> {
+    await this.request("POST", `/interactions/${interaction.id}/${interaction.token}/callback`, body)
+  }
+
+  private media(kind: InboxKind, attachment: DiscordAttachment): IncomingMedia {
+    return {
+      kind,
+      fetch: async () => {
+        const response = await fetch(attachment.url)
+        if (!response.ok) {
+          throw new Error(`discord attachment download failed: HTTP ${response.status}`)
+        }
+        return {
+          data: new Uint8Array(await response.arrayBuffer()),
+          extension: pickFileExtension(attachment.filename, kind === "voice" ? ".ogg" : ".jpg"),
+          metadata: {
+            discord: {
+              attachmentID: attachment.id,
+              fileName: attachment.filename,
+              fileSize: attachment.size,
+              mimeType: attachment.content_type,
+            },
+          },
+        }
+      },
+    }
+  }
+
+  private async request<T = unknown>(method: string, path: string, body?: unknown): Promise<T> {
+    const headers: Record<string, string> = { Authorization: `Bot ${this.opts.token}` }
+    let payload: BodyInit | undefined
+    if (body instanceof FormData) {
+      payload = body
+    } else if (body !== undefined) {
+      headers["Content-Type"] = "application/json"
+      payload = JSON.stringify(body)
+    }
+
+    const response = await fetch(`${this.apiUrl}${path}`, { method, headers, body: payload })
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "")
+      throw new Error(`discord ${method} ${path} failed: HTTP ${response.status}${detail ? ` ${detail}` : ""}`)
+    }
+    if (response.status === 204) return undefined as T
+    const text = await response.text()
+    return (text ? JSON.parse(text) : undefined) as T
+  }
+}
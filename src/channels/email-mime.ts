@@ -0,0 +1,337 @@
+export type MailAddress = {
+  address: string
+  name?: string
+}
+
+export type MailAttachment = {
+  filename: string
+  contentType: string
+  data: Uint8Array
+}
+
+export type ParsedMail = {
+  messageID: string
+  inReplyTo?: string
+  references: string[]
+  from?: MailAddress
+  subject: string
+  text: string
+  attachments: MailAttachment[]
+  autoSubmitted: boolean
+  // Topmost Authentication-Results header, the one added by the receiving server.
+  authenticationResults?: string
+}
+
+export type OutgoingMail = {
+  from: string
+  to: string
+  subject: string
+  messageID: string
+  inReplyTo?: string
+  references?: string[]
+  text: string
+  attachment?: MailAttachment
+}
+
+type MimePart = {
+  headers: Map<string, string>
+  body: Uint8Array
+}
+
+const CRLF = "\r\n"
+
+function indexOfBytes(haystack: Uint8Array, needle: Uint8Array, from = 0): number {
+  outer: for (let i = from; i <= haystack.length - needle.length; i += 1) {
+    for (let j = 0; j < needle.length; j += 1) {
+      if (haystack[i + j] !== needle[j]) continue outer
+    }
+    return i
+  }
+  return -1
+}
+
+function latin1(data: Uint8Array): string {
+  let out = ""
+  for (const byte of data) out += String.fromCharCode(byte)
+  return out
+}
+
+function decodeCharset(data: Uint8Array, charset = "utf-8"): string {
+  try {
+    return new TextDecoder(charset.toLowerCase()).decode(data)
+  } catch {
+    return new TextDecoder("utf-8").decode(data)
+  }
+}
+
+function decodeQuotedPrintable(input: string, underscoreIsSpace = false): Uint8Array {
+  const text = underscoreIsSpace ? input.replace(/_/g, " ") : input.replace(/=\r?\n/g, "")
+  const bytes: number[] = []
+  for (let i = 0; i < text.length; i += 1) {
+    const ch = text[i]
+    if (ch === "=" && /^[0-9A-Fa-f]{2}$/.test(text.slice(i + 1, i + 3))) {
+      bytes.push(Number.parseInt(text.slice(i + 1, i + 3), 16))
+      i += 2
+      continue
+    }
+    bytes.push(ch.charCodeAt(0) & 0xff)
+  }
+  return new Uint8Array(bytes)
+}
+
+function decodeBase64(input: string): Uint8Array {
+  return new Uint8Array(Buffer.from(input.replace(/[^A-Za-z0-9+/=]/g, ""), "base64"))
+}
+
+// RFC 2047 encoded words, e.g. =?UTF-8?B?SGVsbG8=?=
+function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/\?=\s+=\?/g, "?==?")
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_match, charset: string, encoding: string, text: string) => {
+      const data = encoding.toUpperCase() === "B" ? decodeBase64(text) : decodeQuotedPrintable(text, true)
+      return decodeCharset(data, charset)
+    })
+}
+
+function parseHeaders(block: string): Map<string, string> {
+  const headers = new Map<string, string>()
+  const unfolded = block.replace(/\r?\n[ \t]+/g, " ")
+  for (const line of unfolded.split(/\r?\n/)) {
+    const idx = line.indexOf(":")
+    if (idx <= 0) continue
+    const key = line.slice(0, idx).trim().toLowerCase()
+    // Keep the first occurrence; later duplicates are usually added by relays.
+    if (!headers.has(key)) headers.set(key, line.slice(idx + 1).trim())
+  }
+  return headers
+}
+
+function headerParams(value: string): { value: string; params: Record<string, string> } {
+  const [first, ...rest] = value.split(";")
+  const params: Record<string, string> = {}
+  for (const item of rest) {
+    const idx = item.indexOf("=")
+    if (idx <= 0) continue
+    const key = item.slice(0, idx).trim().toLowerCase()
+    let raw = item.slice(idx + 1).trim()
+    if (raw.startsWith('"') && raw.endsWith('"')) raw = raw.slice(1, -1)
+    // RFC 2231 extended values: filename*=utf-8''na%C3%AFve.txt
+    if (key.endsWith("*")) {
+      const match = raw.match(/^([^']*)'[^']*'(.*)$/)
+      params[key.slice(0, -1)] = match ? decodeCharset(new Uint8Array(Buffer.from(decodeURIComponent(match[2]), "latin1")), match[1] || "utf-8") : raw
+      continue
+    }
+    params[key] = decodeEncodedWords(raw)
+  }
+  return { value: (first ?? "").trim().toLowerCase(), params }
+}
+
+function splitPart(raw: Uint8Array): MimePart {
+  let idx = indexOfBytes(raw, new Uint8Array([13, 10, 13, 10]))
+  let sepLength = 4
+  const lfIdx = indexOfBytes(raw, new Uint8Array([10, 10]))
+  if (idx < 0 || (lfIdx >= 0 && lfIdx < idx)) {
+    idx = lfIdx
+    sepLength = 2
+  }
+  if (idx < 0) return { headers: parseHeaders(latin1(raw)), body: new Uint8Array() }
+  return { headers: parseHeaders(latin1(raw.subarray(0, idx))), body: raw.subarray(idx + sepLength) }
+}
+
+function decodeBody(part: MimePart): Uint8Array {
+  const encoding = (part.headers.get("content-transfer-encoding") ?? "").toLowerCase()
+  if (encoding === "base64") return decodeBase64(latin1(part.body))
+  if (encoding === "quoted-printable") return decodeQuotedPrintable(latin1(part.body))
+  return part.body
+}
+
+function splitMultipart(body: Uint8Array, boundary: string): Uint8Array[] {
+  const delimiter = new TextEncoder().encode(`--${boundary}`)
+  const parts: Uint8Array[] = []
+  let start = indexOfBytes(body, delimiter)
+  while (start >= 0) {
+    let contentStart = start + delimiter.length
+    if (body[contentStart] === 45 && body[contentStart + 1] === 45) break
+    if (body[contentStart] === 13) contentStart += 1
+    if (body[contentStart] === 10) contentStart += 1
+    const next = indexOfBytes(body, delimiter, contentStart)
+    if (next < 0) break
+    let contentEnd = next
+    if (body[contentEnd - 1] === 10) contentEnd -= 1
+    if (body[contentEnd - 1] === 13) contentEnd -= 1
+    parts.push(body.subarray(contentStart, contentEnd))
+    start = next
+  }
+  return parts
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|tr)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+}
+
+function collectParts(part: MimePart, out: { text?: string; html?: string; attachments: MailAttachment[] }): void {
+  const contentType = headerParams(part.headers.get("content-type") ?? "text/plain")
+  const disposition = headerParams(part.headers.get("content-disposition") ?? "")
+
+  if (contentType.value.startsWith("multipart/") && contentType.params.boundary) {
+    for (const child of splitMultipart(part.body, contentType.params.boundary)) {
+      collectParts(splitPart(child), out)
+    }
+    return
+  }
+
+  const filename = disposition.params.filename ?? contentType.params.name
+  const data = decodeBody(part)
+  if (disposition.value === "attachment" || (filename && !contentType.value.startsWith("text/"))) {
+    out.attachments.push({ filename: filename ?? "attachment", contentType: contentType.value, data })
+    return
+  }
+  if (contentType.value === "text/plain" && out.text === undefined) {
+    out.text = decodeCharset(data, contentType.params.charset)
+    return
+  }
+  if (contentType.value === "text/html" && out.html === undefined) {
+    out.html = decodeCharset(data, contentType.params.charset)
+  }
+}
+
+export function normalizeMessageID(value: string | undefined): string {
+  return (value ?? "").trim().replace(/^<|>$/g, "")
+}
+
+function parseMessageIDs(value: string | undefined): string[] {
+  return Array.from((value ?? "").matchAll(/<([^>]+)>/g), (match) => match[1])
+}
+
+export function parseAddress(value: string | undefined): MailAddress | undefined {
+  if (!value) return undefined
+  const decoded = decodeEncodedWords(value)
+  const angle = decoded.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>/)
+  if (angle) return { address: angle[2].trim().toLowerCase(), name: angle[1].trim() || undefined }
+  const bare = decoded.match(/[^\s<>,;]+@[^\s<>,;]+/)
+  return bare ? { address: bare[0].toLowerCase() } : undefined
+}
+
+export function parseMail(raw: Uint8Array): ParsedMail {
+  const root = splitPart(raw)
+  const collected: { text?: string; html?: string; attachments: MailAttachment[] } = { attachments: [] }
+  collectParts(root, collected)
+  const autoSubmitted = (root.headers.get("auto-submitted") ?? "no").toLowerCase()
+  const precedence = (root.headers.get("precedence") ?? "").toLowerCase()
+
+  return {
+    messageID: normalizeMessageID(root.headers.get("message-id")),
+    inReplyTo: parseMessageIDs(root.headers.get("in-reply-to"))[0],
+    references: parseMessageIDs(root.headers.get("references")),
+    from: parseAddress(root.headers.get("from")),
+    subject: decodeEncodedWords(root.headers.get("subject") ?? ""),
+    text: (collected.text ?? (collected.html ? htmlToText(collected.html) : "")).replace(/\r\n/g, "\n"),
+    attachments: collected.attachments,
+    autoSubmitted: autoSubmitted !== "no" || ["bulk", "junk", "list", "auto_reply"].includes(precedence),
+    authenticationResults: root.headers.get("authentication-results"),
+  }
+}
+
+function alignedDomain(value: string | undefined, fromDomain: string): boolean {
+  const domain = value?.toLowerCase().replace(/^.*@/, "").replace(/\.$/, "")
+  if (!domain?.includes(".")) return false
+  // Relaxed alignment: the same domain or one of them a subdomain of the other.
+  return domain === fromDomain || fromDomain.endsWith(`.${domain}`) || domain.endsWith(`.${fromDomain}`)
+}
+
+/**
+ * True when the receiving server recorded a DMARC, DKIM or SPF pass for the From domain.
+ * Only the topmost Authentication-Results header counts; older ones travel with the message and can be forged.
+ * The header must also name `authservID`, or a sender could simply write their own passing header.
+ */
+export function senderAuthenticated(mail: ParsedMail, authservID: string): boolean {
+  const fromDomain = mail.from?.address.split("@")[1]
+  if (!fromDomain || !mail.authenticationResults || !authservID) return false
+  const [server = "", ...results] = mail.authenticationResults.split(";")
+  if (server.trim().split(/\s+/)[0]?.toLowerCase() !== authservID.toLowerCase()) return false
+
+  for (const result of results) {
+    const method = result.trim().match(/^(dmarc|dkim|spf)\s*=\s*([a-z]+)/i)
+    if (!method || method[2].toLowerCase() !== "pass") continue
+    const props = new Map(Array.from(result.matchAll(/\b([a-z]+\.[a-z-]+)\s*=\s*"?([^\s;"]+)/gi), (match) => [match[1].toLowerCase(), match[2]]))
+    const kind = method[1].toLowerCase()
+    const identities =
+      kind === "dmarc" ? [props.get("header.from")] : kind === "dkim" ? [props.get("header.d"), props.get("header.i")] : [props.get("smtp.mailfrom")]
+    if (identities.some((value) => alignedDomain(value, fromDomain))) return true
+  }
+  return false
+}
+
+/** Drops quoted history and signatures so only the newly written reply reaches the assistant. */
+export function stripQuotedReply(text: string): string {
+  const out: string[] = []
+  for (const line of text.split("\n")) {
+    if (/^On .+wrote:\s*$/.test(line.trim()) || line.trim() === "-----Original Message-----") break
+    if (line === "-- ") break
+    if (line.startsWith(">")) continue
+    out.push(line)
+  }
+  return out.join("\n").trim()
+}
+
+function encodeHeader(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value
+  return `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`
+}
+
+function wrapBase64(data: Uint8Array): string {
+  return (Buffer.from(data).toString("base64").match(/.{1,76}/g) ?? []).join(CRLF)
+}
+
+export function buildMail(mail: OutgoingMail): string {
+  const headers = [
+    `From: ${mail.from}`,
+    `To: ${mail.to}`,
+    `Subject: ${encodeHeader(mail.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${mail.messageID}>`,
+    ...(mail.inReplyTo ? [`In-Reply-To: <${mail.inReplyTo}>`] : []),
+    ...(mail.references?.length ? [`References: ${mail.references.map((id) => `<${id}>`).join(" ")}`] : []),
+    "MIME-Version: 1.0",
+  ]
+  const textPart = [
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    wrapBase64(new TextEncoder().encode(mail.text)),
+  ]
+
+  if (!mail.attachment) {
+    return [...headers, ...textPart].join(CRLF)
+  }
+
+  const boundary = `monclaw-${crypto.randomUUID()}`
+  const filename = encodeHeader(mail.attachment.filename)
+  return [
+    ...headers,
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    ...textPart,
+    `--${boundary}`,
+    `Content-Type: ${mail.attachment.contentType}; name="${filename}"`,
+    "Content-Transfer-Encoding: base64",
+    `Content-Disposition: attachment; filename="${filename}"`,
+    "",
+    wrapBase64(mail.attachment.data),
+    `--${boundary}--`,
+    "",
+  ].join(CRLF)
+}
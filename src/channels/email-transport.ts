@@ -0,0 +1,265 @@
+import { connect as netConnect, type Socket } from "node:net"
+import { connect as tlsConnect } from "node:tls"
+
+export type MailServerOptions = {
+  host: string
+  port: number
+  // Implicit TLS (IMAPS 993 / SMTPS 465). Plain connections upgrade via STARTTLS; credentials are never sent without TLS.
+  secure: boolean
+  username?: string
+  password?: string
+}
+
+export type SmtpEnvelope = {
+  from: string
+  to: string[]
+}
+
+const COMMAND_TIMEOUT_MS = 30_000
+
+/** Buffers a socket so protocol code can read CRLF lines and fixed-size literals in order. */
+class SocketReader {
+  private buffer = Buffer.alloc(0)
+  private waiter?: () => void
+  private error?: Error
+  private ended = false
+
+  constructor(readonly socket: Socket) {
+    socket.on("data", (chunk: Buffer) => {
+      this.buffer = Buffer.concat([this.buffer, chunk])
+      this.wake()
+    })
+    socket.on("error", (error) => {
+      this.error = error
+      this.wake()
+    })
+    socket.on("close", () => {
+      this.ended = true
+      this.wake()
+    })
+  }
+
+  async readLine(): Promise<string> {
+    for (;;) {
+      const idx = this.buffer.indexOf("\r\n")
+      if (idx >= 0) {
+        const line = this.buffer.subarray(0, idx).toString("utf8")
+        this.buffer = this.buffer.subarray(idx + 2)
+        return line
+      }
+      await this.wait()
+    }
+  }
+
+  async readBytes(length: number): Promise<Buffer> {
+    while (this.buffer.length < length) await this.wait()
+    const out = this.buffer.subarray(0, length)
+    this.buffer = this.buffer.subarray(length)
+    return Buffer.from(out)
+  }
+
+  write(data: string): void {
+    this.socket.write(data)
+  }
+
+  close(): void {
+    this.socket.destroy()
+  }
+
+  private wake(): void {
+    const waiter = this.waiter
+    this.waiter = undefined
+    waiter?.()
+  }
+
+  private async wait(): Promise<void> {
+    if (this.error) throw this.error
+    if (this.ended) throw new Error("connection closed by server")
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error("mail server timed out")), COMMAND_TIMEOUT_MS)
+      this.waiter = () => {
+        clearTimeout(timer)
+        resolve()
+      }
+    })
+    if (this.error) throw this.error
+  }
+}
+
+async function openSocket(opts: MailServerOptions): Promise<Socket> {
+  return new Promise<Socket>((resolve, reject) => {
+    const socket = opts.secure
+      ? tlsConnect({ host: opts.host, port: opts.port, servername: opts.host }, () => resolve(socket))
+      : netConnect({ host: opts.host, port: opts.port }, () => resolve(socket))
+    socket.once("error", reject)
+  })
+}
+
+async function upgradeToTls(socket: Socket, host: string): Promise<Socket> {
+  return new Promise<Socket>((resolve, reject) => {
+    const secured = tlsConnect({ socket, servername: host }, () => resolve(secured))
+    secured.once("error", reject)
+  })
+}
+
+function imapQuote(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`
+}
+
+/** Minimal IMAP4rev1 client: enough to poll a mailbox for unseen messages and mark them read. */
+export class ImapClient {
+  private reader?: SocketReader
+  private tagCounter = 0
+
+  constructor(private readonly opts: MailServerOptions) {}
+
+  async connect(): Promise<void> {
+    this.reader = new SocketReader(await openSocket(this.opts))
+    const greeting = await this.reader.readLine()
+    if (!greeting.startsWith("* OK") && !greeting.startsWith("* PREAUTH")) {
+      throw new Error(`imap greeting rejected: ${greeting}`)
+    }
+    if (greeting.startsWith("* OK")) {
+      try {
+        if (!this.opts.secure) await this.startTls()
+        await this.command(`LOGIN ${imapQuote(this.opts.username ?? "")} ${imapQuote(this.opts.password ?? "")}`)
+      } catch (error) {
+        this.reader?.close()
+        throw error
+      }
+    }
+  }
+
+  async select(mailbox: string): Promise<void> {
+    await this.command(`SELECT ${imapQuote(mailbox)}`)
+  }
+
+  async searchUnseen(): Promise<number[]> {
+    const { lines } = await this.command("UID SEARCH UNSEEN")
+    const uids: number[] = []
+    for (const line of lines) {
+      if (!line.startsWith("* SEARCH")) continue
+      for (const token of line.slice("* SEARCH".length).trim().split(/\s+/)) {
+        const uid = Number.parseInt(token, 10)
+        if (Number.isFinite(uid)) uids.push(uid)
+      }
+    }
+    return uids
+  }
+
+  async fetchRaw(uid: number): Promise<Uint8Array | null> {
+    const { literals } = await this.command(`UID FETCH ${uid} (BODY.PEEK[])`)
+    return literals[0] ? new Uint8Array(literals[0]) : null
+  }
+
+  async markSeen(uid: number): Promise<void> {
+    await this.command(`UID STORE ${uid} +FLAGS.SILENT (\\Seen)`)
+  }
+
+  async logout(): Promise<void> {
+    try {
+      await this.command("LOGOUT")
+    } catch {
+      // Servers may drop the connection right after BYE.
+    } finally {
+      this.reader?.close()
+    }
+  }
+
+  private async startTls(): Promise<void> {
+    const { lines } = await this.command("CAPABILITY")
+    if (!lines.some((line) => /^\* CAPABILITY\b.*\bSTARTTLS\b/i.test(line))) {
+      throw new Error("imap server does not offer STARTTLS; refusing to send LOGIN over a plain connection")
+    }
+    await this.command("STARTTLS")
+    const socket = this.reader?.socket
+    if (!socket) throw new Error("imap client is not connected")
+    this.reader = new SocketReader(await upgradeToTls(socket, this.opts.host))
+  }
+
+  private async command(text: string): Promise<{ lines: string[]; literals: Buffer[] }> {
+    const reader = this.reader
+    if (!reader) throw new Error("imap client is not connected")
+    this.tagCounter += 1
+    const tag = `M${this.tagCounter}`
+    reader.write(`${tag} ${text}\r\n`)
+
+    const lines: string[] = []
+    const literals: Buffer[] = []
+    for (;;) {
+      let line = await reader.readLine()
+      // A trailing {N} announces N raw bytes before the rest of the response line.
+      let literal = line.match(/\{(\d+)\}$/)
+      while (literal) {
+        literals.push(await reader.readBytes(Number.parseInt(literal[1], 10)))
+        const rest = await reader.readLine()
+        line = `${line}${rest}`
+        literal = rest.match(/\{(\d+)\}$/)
+      }
+      if (line.startsWith(`${tag} `)) {
+        const status = line.slice(tag.length + 1)
+        if (!status.startsWith("OK")) throw new Error(`imap ${text.split(" ")[0]} failed: ${status}`)
+        return { lines, literals }
+      }
+      lines.push(line)
+    }
+  }
+}
+
+async function readSmtpReply(reader: SocketReader): Promise<{ code: number; lines: string[] }> {
+  const lines: string[] = []
+  for (;;) {
+    const line = await reader.readLine()
+    lines.push(line.slice(4))
+    if (line[3] !== "-") return { code: Number.parseInt(line.slice(0, 3), 10), lines }
+  }
+}
+
+async function smtpCommand(reader: SocketReader, command: string, expect: number[]): Promise<string[]> {
+  reader.write(`${command}\r\n`)
+  const reply = await readSmtpReply(reader)
+  if (!expect.includes(reply.code)) {
+    const verb = command.startsWith("AUTH") ? "AUTH" : command.split(/[ :]/)[0]
+    throw new Error(`smtp ${verb} failed: ${reply.code} ${reply.lines.join(" ")}`)
+  }
+  return reply.lines
+}
+
+/** Sends one RFC 5322 message, negotiating STARTTLS when available and AUTH PLAIN only over TLS. */
+export async function sendSmtp(opts: MailServerOptions, envelope: SmtpEnvelope, message: string): Promise<void> {
+  let socket = await openSocket(opts)
+  let reader = new SocketReader(socket)
+  try {
+    const greeting = await readSmtpReply(reader)
+    if (greeting.code !== 220) throw new Error(`smtp greeting rejected: ${greeting.code}`)
+    const extensions = await smtpCommand(reader, "EHLO monclaw", [250])
+
+    let encrypted = opts.secure
+    if (!encrypted && extensions.some((line) => line.toUpperCase() === "STARTTLS")) {
+      await smtpCommand(reader, "STARTTLS", [220])
+      socket = await upgradeToTls(socket, opts.host)
+      reader = new SocketReader(socket)
+      await smtpCommand(reader, "EHLO monclaw", [250])
+      encrypted = true
+    }
+
+    if (opts.username) {
+      // A stripped STARTTLS offer must not turn into a cleartext password.
+      if (!encrypted) throw new Error("smtp server does not offer STARTTLS; refusing to send AUTH over a plain connection")
+      const credentials = Buffer.from(`\0${opts.username}\0${opts.password ?? ""}`, "utf8").toString("base64")
+      await smtpCommand(reader, `AUTH PLAIN ${credentials}`, [235])
+    }
+
+    await smtpCommand(reader, `MAIL FROM:<${envelope.from}>`, [250])
+    for (const to of envelope.to) {
+      await smtpCommand(reader, `RCPT TO:<${to}>`, [250, 251])
+    }
+    await smtpCommand(reader, "DATA", [354])
+    // Dot-stuffing: lines starting with "." get an extra "." so they are not read as end of data.
+    const body = message.replace(/\r?\n/g, "\r\n").replace(/^\./gm, "..")
+    await smtpCommand(reader, `${body}\r\n.`, [250])
+    await smtpCommand(reader, "QUIT", [221]).catch(() => [])
+  } finally {
+    reader.close()
+  }
+}
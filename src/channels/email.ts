@@ -0,0 +1,408 @@
+import type { Logger } from "pino"
+import { readJson, writeJson } from "../utils/fs"
+import type { InboxKind } from "../utils/inbox"
+import { basename } from "../utils/path"
+import { signAction, type SignedAction } from "../utils/signed-link"
+import { buildMail, parseMail, senderAuthenticated, stripQuotedReply, type MailAttachment, type ParsedMail } from "./email-mime"
+import { ImapClient, sendSmtp, type MailServerOptions } from "./email-transport"
+import {
+  parseTextCommand,
+  type ChannelAdapter,
+  type ChannelButton,
+  type ChannelHandlers,
+  type ChannelPrompt,
+  type IncomingMedia,
+} from "./types"
+
+type EmailAdapterOptions = {
+  address: string
+  fromName?: string
+  imap: MailServerOptions
+  smtp: MailServerOptions
+  mailbox?: string
+  pollSeconds?: number
+  threadsFile: string
+  // Signed approval links are only rendered when both are set; the HTTP API serves them.
+  linkSecret?: string
+  linkBaseUrl?: string
+  linkTtlMinutes?: number
+  // Only trust Authentication-Results written by this server (its authserv-id, e.g. mx.example.com).
+  authservID: string
+  // Mail from rejected senders is dropped without a reply to avoid backscatter.
+  acceptSender?: (address: string, text: string) => boolean
+  logger: Logger
+}
+
+type EmailThread = {
+  address: string
+  subject: string
+  lastMessageID: string
+  references: string[]
+  updatedAt: string
+}
+
+type ThreadData = {
+  threads: Record<string, EmailThread>
+  messageRoots: Record<string, string>
+}
+
+type PendingPrompt = {
+  chatID: string
+  buttons: ChannelButton[]
+}
+
+// chatIDs with this prefix start a new thread with the given address (used for proactive messages).
+const NEW_THREAD_PREFIX = "new:"
+const MAX_REFERENCES = 20
+const MAX_THREADS = 500
+const MAX_MESSAGE_ROOTS = 5000
+const MAX_TRACKED_PROMPTS = 200
+
+function attachmentKind(contentType: string): InboxKind {
+  if (contentType.startsWith("audio/")) return "voice"
+  if (contentType.startsWith("image/")) return "photo"
+  return "document"
+}
+
+function pickFileExtension(fileName: string, contentType: string): string {
+  const match = fileName.match(/(\.[A-Za-z0-9]+)$/)
+  if (match) return match[1]
+  const subtype = contentType.split("/")[1]?.split(/[;+]/)[0]
+  return subtype ? `.${subtype}` : ".bin"
+}
+
+function replySubject(subject: string): string {
+  const trimmed = subject.trim() || "MonClaw"
+  return /^re:/i.test(trimmed) ? trimmed : `Re: ${trimmed}`
+}
+
+function firstLine(text: string): string {
+  return text.split("\n").find((line) => line.trim())?.trim() ?? ""
+}
+
+export class EmailAdapter implements ChannelAdapter {
+  readonly name = "email" as const
+  readonly displayName = "Email"
+  readonly maxMessageLength = 100_000
+  readonly sessionPerChat = true
+  private readonly domain: string
+  private readonly prompts = new Map<string, PendingPrompt>()
+  private data: ThreadData = { threads: {}, messageRoots: {} }
+  private handlers?: ChannelHandlers
+  private stopped = false
+  private wakePoll?: () => void
+
+  constructor(private readonly opts: EmailAdapterOptions) {
+    this.domain = opts.address.split("@")[1] ?? "monclaw.local"
+  }
+
+  async start(handlers: ChannelHandlers): Promise<void> {
+    this.handlers = handlers
+    try {
+      const loaded = await readJson<Partial<ThreadData>>(this.opts.threadsFile)
+      this.data = { threads: loaded.threads ?? {}, messageRoots: loaded.messageRoots ?? {} }
+    } catch {
+      // First run: no threads yet.
+    }
+
+    this.opts.logger.info({ address: this.opts.address, mailbox: this.opts.mailbox ?? "INBOX" }, "email polling started")
+    const intervalMs = Math.max(1, this.opts.pollSeconds ?? 30) * 1000
+    while (!this.stopped) {
+      try {
+        await this.poll(handlers)
+      } catch (error) {
+        this.opts.logger.warn({ err: error }, "email poll failed")
+      }
+      if (this.stopped) break
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, intervalMs)
+        this.wakePoll = () => {
+          clearTimeout(timer)
+          resolve()
+        }
+      })
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true
+    this.wakePoll?.()
+  }
+
+  async sendText(chatID: string, text: string): Promise<string> {
+    return this.send(chatID, text)
+  }
+
+  async sendFile(chatID: string, filePath: string, caption?: string): Promise<void> {
+    const file = Bun.file(filePath)
+    const attachment: MailAttachment = {
+      filename: basename(filePath),
+      contentType: String(file.type || "application/octet-stream").split(";")[0],
+      data: new Uint8Array(await file.arrayBuffer()),
+    }
+    await this.send(chatID, caption || attachment.filename, attachment)
+  }
+
+  async sendPrompt(chatID: string, prompt: ChannelPrompt): Promise<void> {
+    const buttons = prompt.buttons.flat()
+    const thread = this.data.threads[chatID]
+    const lines = [
+      prompt.text,
+      "",
+      ...buttons.map((button, i) => `${i + 1}. ${button.label}`),
+      "",
+      "Reply to this email with the option number or its name on the first line.",
+    ]
+
+    if (this.opts.linkSecret && this.opts.linkBaseUrl && thread) {
+      const base = this.opts.linkBaseUrl.replace(/\/+$/g, "")
+      const expiresAt = Date.now() + Math.max(1, this.opts.linkTtlMinutes ?? 24 * 60) * 60_000
+      lines.push("", "Or open one of these links:")
+      for (const button of buttons) {
+        const token = signAction(this.opts.linkSecret, {
+          channel: this.name,
+          chatID,
+          userID: thread.address,
+          action: button.action,
+          label: button.label,
+          expiresAt,
+        })
+        lines.push(`${button.label}: ${base}/links/${token}`)
+      }
+    }
+
+    const messageID = await this.send(chatID, lines.join("\n"))
+    this.prompts.set(messageID, { chatID: this.data.messageRoots[messageID] ?? chatID, buttons })
+    if (this.prompts.size > MAX_TRACKED_PROMPTS) {
+      const oldest = this.prompts.keys().next().value
+      if (oldest) this.prompts.delete(oldest)
+    }
+  }
+
+  async openDirectChat(userID: string): Promise<string> {
+    return `${NEW_THREAD_PREFIX}${userID}`
+  }
+
+  /** Runs an approval chosen through a signed link; returns the text to show on the confirmation page. */
+  async handleSignedAction(action: SignedAction): Promise<string> {
+    if (!this.handlers) return "Email channel is not running."
+    let acknowledgement = "Done."
+    await this.handlers.onAction({
+      chatID: action.chatID,
+      userID: action.userID,
+      action: action.action,
+      acknowledge: async (text) => {
+        acknowledgement = text
+      },
+      clearButtons: async () => {
+        this.dropPrompts(action.chatID)
+      },
+    })
+    return acknowledgement
+  }
+
+  private async poll(handlers: ChannelHandlers): Promise<void> {
+    const client = new ImapClient(this.opts.imap)
+    await client.connect()
+    try {
+      await client.select(this.opts.mailbox ?? "INBOX")
+      for (const uid of await client.searchUnseen()) {
+        const raw = await client.fetchRaw(uid)
+        // Mark first so a message that breaks handling is not retried forever.
+        await client.markSeen(uid)
+        if (!raw) continue
+        try {
+          await this.handleMail(parseMail(raw), handlers)
+        } catch (error) {
+          this.opts.logger.error({ err: error, uid }, "email message handling failed")
+        }
+      }
+    } finally {
+      await client.logout()
+    }
+  }
+
+  private async handleMail(mail: ParsedMail, handlers: ChannelHandlers): Promise<void> {
+    const sender = mail.from?.address
+    if (!sender || sender === this.opts.address.toLowerCase()) return
+    if (mail.autoSubmitted) {
+      this.opts.logger.info({ sender, subject: mail.subject }, "email auto-reply ignored")
+      return
+    }
+
+    // From is trivial to forge: without a DKIM/SPF/DMARC pass the mail could be from anyone.
+    if (!senderAuthenticated(mail, this.opts.authservID)) {
+      this.opts.logger.warn({ sender, authenticationResults: mail.authenticationResults }, "email without sender authentication dropped")
+      return
+    }
+
+    const text = stripQuotedReply(mail.text)
+    if (this.opts.acceptSender && !this.opts.acceptSender(sender, text)) {
+      this.opts.logger.warn({ sender }, "email from unknown sender dropped")
+      return
+    }
+
+    const messageID = mail.messageID || this.newMessageID()
+    const chatID = this.resolveRoot(mail, messageID, sender)
+    const thread = this.data.threads[chatID]
+    this.data.threads[chatID] = {
+      address: sender,
+      subject: thread?.subject ?? mail.subject,
+      lastMessageID: messageID,
+      references: this.appendReference(mail.references.length > 0 ? mail.references : (thread?.references ?? []), messageID),
+      updatedAt: new Date().toISOString(),
+    }
+    // A reused Message-ID must not redirect replies to someone else's message into this thread.
+    this.data.messageRoots[messageID] ??= chatID
+    await this.persist()
+
+    const promptID = mail.inReplyTo && this.prompts.has(mail.inReplyTo) ? mail.inReplyTo : this.latestPromptID(chatID)
+    const prompt = promptID ? this.prompts.get(promptID) : undefined
+    const answer = firstLine(text)
+    if (promptID && prompt) {
+      const byNumber = /^\d+$/.test(answer) ? prompt.buttons[Number.parseInt(answer, 10) - 1] : undefined
+      const button = byNumber ?? prompt.buttons.find((item) => item.label.toLowerCase() === answer.toLowerCase())
+      if (button) {
+        await handlers.onAction({
+          chatID,
+          userID: sender,
+          action: button.action,
+          acknowledge: async (ack) => {
+            await this.send(chatID, ack)
+          },
+          clearButtons: async () => {
+            this.prompts.delete(promptID)
+          },
+        })
+        return
+      }
+    }
+
+    const command = parseTextCommand(answer)
+    if (command && handlers.commands.some((item) => item.name === command.name)) {
+      await handlers.onCommand({ chatID, userID: sender, ...command })
+      return
+    }
+
+    const attachments = mail.attachments.map((attachment) => this.media(attachment, messageID))
+    await handlers.onMessage({
+      chatID,
+      userID: sender,
+      text: text || (attachments.length > 0 ? "" : mail.subject),
+      ...(attachments.length > 0 ? { attachments } : {}),
+    })
+  }
+
+  private resolveRoot(mail: ParsedMail, messageID: string, sender: string): string {
+    // Prefer a thread we already know about, then the oldest referenced message.
+    const known = [mail.inReplyTo, ...mail.references].find((id) => id && Object.hasOwn(this.data.messageRoots, id))
+    const root = known ? this.data.messageRoots[known] : (mail.references[0] ?? mail.inReplyTo ?? messageID)
+    if (this.isThreadOf(root, sender)) return root
+    // Message IDs are chosen by the sender; naming another person's message must not join their thread and session.
+    this.opts.logger.warn({ sender, root }, "email references another sender's thread; starting a new one")
+    return this.isThreadOf(messageID, sender) ? messageID : this.newMessageID()
+  }
+
+  private isThreadOf(root: string, sender: string): boolean {
+    if (!Object.hasOwn(this.data.threads, root)) return true
+    return this.data.threads[root]?.address === sender
+  }
+
+  private latestPromptID(chatID: string): string | undefined {
+    let latest: string | undefined
+    for (const [id, prompt] of this.prompts) {
+      if (prompt.chatID === chatID) latest = id
+    }
+    return latest
+  }
+
+  private dropPrompts(chatID: string): void {
+    for (const [id, prompt] of this.prompts) {
+      if (prompt.chatID === chatID) this.prompts.delete(id)
+    }
+  }
+
+  private media(attachment: MailAttachment, messageID: string): IncomingMedia {
+    return {
+      kind: attachmentKind(attachment.contentType),
+      fetch: async () => ({
+        data: attachment.data,
+        extension: pickFileExtension(attachment.filename, attachment.contentType),
+        metadata: {
+          email: {
+            messageID,
+            fileName: attachment.filename,
+            fileSize: attachment.data.byteLength,
+            mimeType: attachment.contentType,
+          },
+        },
+      }),
+    }
+  }
+
+  private async send(chatID: string, text: string, attachment?: MailAttachment): Promise<string> {
+    const messageID = this.newMessageID()
+    let root = chatID
+    let thread = this.data.threads[chatID]
+
+    if (chatID.startsWith(NEW_THREAD_PREFIX)) {
+      root = messageID
+      thread = {
+        address: chatID.slice(NEW_THREAD_PREFIX.length),
+        subject: "MonClaw",
+        lastMessageID: messageID,
+        references: [],
+        updatedAt: new Date().toISOString(),
+      }
+    }
+    if (!thread) throw new Error(`unknown email thread ${chatID}`)
+
+    const isNewThread = root === messageID
+    const from = this.opts.fromName ? `"${this.opts.fromName.replace(/"/g, "")}" <${this.opts.address}>` : this.opts.address
+    const raw = buildMail({
+      from,
+      to: thread.address,
+      subject: isNewThread ? thread.subject : replySubject(thread.subject),
+      messageID,
+      inReplyTo: isNewThread ? undefined : thread.lastMessageID,
+      references: isNewThread ? undefined : thread.references,
+      text,
+      attachment,
+    })
+    await sendSmtp(this.opts.smtp, { from: this.opts.address, to: [thread.address] }, raw)
+
+    this.data.threads[root] = {
+      ...thread,
+      lastMessageID: messageID,
+      references: this.appendReference(thread.references, messageID),
+      updatedAt: new Date().toISOString(),
+    }
+    this.data.messageRoots[messageID] = root
+    await this.persist()
+    return messageID
+  }
+
+  private appendReference(references: string[], messageID: string): string[] {
+    const next = references.filter((id) => id !== messageID)
+    next.push(messageID)
+    // Keep the thread root plus the most recent messages, as mail clients do.
+    return next.length > MAX_REFERENCES ? [next[0], ...next.slice(-(MAX_REFERENCES - 1))] : next
+  }
+
+  private newMessageID(): string {
+    return `${Date.now()}.${crypto.randomUUID()}@${this.domain}`
+  }
+
+  private async persist(): Promise<void> {
+    const threads = Object.entries(this.data.threads)
+    if (threads.length > MAX_THREADS) {
+      threads.sort((a, b) => a[1].updatedAt.localeCompare(b[1].updatedAt))
+      this.data.threads = Object.fromEntries(threads.slice(-MAX_THREADS))
+    }
+    const roots = Object.entries(this.data.messageRoots)
+    if (roots.length > MAX_MESSAGE_ROOTS) {
+      this.data.messageRoots = Object.fromEntries(roots.slice(-MAX_MESSAGE_ROOTS))
+    }
+    await writeJson(this.opts.threadsFile, this.data)
+  }
+}
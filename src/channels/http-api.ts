@@ -0,0 +1,315 @@
+import { timingSafeEqual } from "node:crypto"
+import type { Logger } from "pino"
+import type { AssistantCore, PendingPermission, PendingQuestion, PermissionReply } from "../core/assistant"
+import type { AuditLog } from "../core/audit-log"
+import { BudgetExceededError } from "../core/cost-store"
+import { verifyAction, type SignedAction } from "../utils/signed-link"
+import type { ChannelName } from "./types"
+
+export type SignedActionHandler = (action: SignedAction) => Promise<string>
+
+type HttpApiOptions = {
+  token: string
+  hostname: string
+  port: number
+  assistant: AssistantCore
+  logger: Logger
+  // Approvals are audited by the assistant; memory writes made here are recorded directly.
+  auditLog?: AuditLog
+  // Approval links embedded in messages (email) are authorized by their signature instead of the bearer token.
+  signedActions?: {
+    secret: string
+    handlers: Partial<Record<ChannelName, SignedActionHandler>>
+  }
+}
+
+export type HttpApiServer = {
+  port: number
+  stop: () => void
+}
+
+type AskBody = {
+  text?: unknown
+  userID?: unknown
+  session?: unknown
+}
+
+const SSE_KEEPALIVE_MS = 15_000
+// Bearer-token callers are not tied to a chat account.
+const HTTP_API_ACTOR = "api:http"
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message)
+  }
+}
+
+function json(data: unknown, status = 200): Response {
+  return Response.json(data, { status })
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+function htmlPage(body: string, status = 200): Response {
+  return new Response(`<!doctype html><html><head><meta charset="utf-8"><title>MonClaw</title></head><body>${body}</body></html>`, {
+    status,
+    headers: { "Content-Type": "text/html; charset=utf-8" },
+  })
+}
+
+function isAuthorized(req: Request, token: string): boolean {
+  const header = req.headers.get("authorization") ?? ""
+  if (!header.startsWith("Bearer ")) return false
+  const expected = Buffer.from(token)
+  const received = Buffer.from(header.slice("Bearer ".length).trim())
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+async function readBody<T>(req: Request): Promise<T> {
+  try {
+    return (await req.json()) as T
+  } catch {
+    throw new HttpError(400, "Request body must be valid JSON.")
+  }
+}
+
+function wantsStream(req: Request, url: URL): boolean {
+  const stream = url.searchParams.get("stream")
+  if (stream === "1" || stream === "true") return true
+  return (req.headers.get("accept") ?? "").includes("text/event-stream")
+}
+
+function sseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+function isPermissionReply(value: unknown): value is PermissionReply {
+  return value === "once" || value === "always" || value === "reject"
+}
+
+function parseAnswers(value: unknown): string[][] | null {
+  if (!Array.isArray(value)) return null
+  const answers: string[][] = []
+  for (const item of value) {
+    if (typeof item === "string") {
+      answers.push([item])
+      continue
+    }
+    if (!Array.isArray(item) || !item.every((entry) => typeof entry === "string")) return null
+    answers.push(item)
+  }
+  return answers
+}
+
+export function startHttpApi(opts: HttpApiOptions): HttpApiServer {
+  const { assistant, logger } = opts
+
+  const parseAsk = (body: AskBody) => {
+    const text = typeof body.text === "string" ? body.text.trim() : ""
+    if (!text) throw new HttpError(400, "Field `text` is required.")
+    const userID = typeof body.userID === "string" && body.userID.trim() ? body.userID.trim() : "api"
+    const session = typeof body.session === "string" && body.session.trim() ? body.session.trim() : undefined
+    return { text, userID, sessionKey: session ? `api:${session}` : undefined }
+  }
+
+  const handleAsk = async (req: Request, url: URL): Promise<Response> => {
+    const input = parseAsk(await readBody<AskBody>(req))
+    if (!wantsStream(req, url)) {
+      const answer = await assistant.ask({ channel: "api", ...input })
+      return json({ answer })
+    }
+
+    const sessionID = input.sessionKey ? await assistant.getChatSessionID(input.sessionKey) : await assistant.getMainSessionID()
+    const encoder = new TextEncoder()
+    const cleanups: Array<() => void> = []
+    // Set once the answer is finished or the client went away; the answer keeps running either way.
+    let closed = false
+    const stream = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        const send = (chunk: string) => {
+          if (closed) return
+          try {
+            controller.enqueue(encoder.encode(chunk))
+          } catch (error) {
+            // A disconnect can race the cancel callback; a throw here would surface as an unhandled rejection.
+            logger.debug({ err: error, sessionID }, "http api stream write after disconnect")
+          }
+        }
+        const close = () => {
+          if (closed) return
+          closed = true
+          for (const cleanup of cleanups) cleanup()
+          try {
+            controller.close()
+          } catch (error) {
+            logger.debug({ err: error, sessionID }, "http api stream close after disconnect")
+          }
+        }
+
+        send(sseEvent("started", { sessionID }))
+        const keepalive = setInterval(() => send(": keepalive\n\n"), SSE_KEEPALIVE_MS)
+        cleanups.push(() => clearInterval(keepalive))
+        cleanups.push(
+          assistant.onPermissionAsked((item) => {
+            if (item.sessionID === sessionID) send(sseEvent("permission", item))
+          }),
+        )
+        cleanups.push(
+          assistant.onQuestionAsked((item) => {
+            if (item.sessionID === sessionID) send(sseEvent("question", item))
+          }),
+        )
+
+        // Text parts arrive as their full text so far; forward only what was added since the last event.
+        const streamed = new Map<string, string>()
+        cleanups.push(
+          assistant.onTextDelta((delta) => {
+            if (delta.sessionID !== sessionID) return
+            const before = streamed.get(delta.partID) ?? ""
+            if (delta.text === before) return
+            streamed.set(delta.partID, delta.text)
+            const base = { messageID: delta.messageID, partID: delta.partID }
+            if (delta.text.startsWith(before)) send(sseEvent("delta", { ...base, text: delta.text.slice(before.length) }))
+            else send(sseEvent("delta", { ...base, text: delta.text, reset: true }))
+          }),
+        )
+
+        void assistant
+          .ask({ channel: "api", ...input })
+          .then((answer) => {
+            send(sseEvent("done", { text: answer }))
+          })
+          .catch((error) => {
+            logger.error({ err: error, sessionID }, "http api streamed ask failed")
+            send(sseEvent("error", { error: error instanceof Error ? error.message : String(error) }))
+          })
+          .finally(close)
+      },
+      cancel: () => {
+        if (closed) return
+        closed = true
+        for (const cleanup of cleanups) cleanup()
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      },
+    })
+  }
+
+  const handleListApprovals = async (): Promise<Response> => {
+    const [permissions, questions] = await Promise.all([assistant.listPendingPermissions(), assistant.listPendingQuestions()])
+    return json({ permissions, questions })
+  }
+
+  const replyToPermission = async (item: PendingPermission, body: Record<string, unknown>): Promise<Response> => {
+    if (!isPermissionReply(body.reply)) {
+      throw new HttpError(400, "Field `reply` must be one of once, always, reject.")
+    }
+    const message = typeof body.message === "string" ? body.message : undefined
+    await assistant.replyPermission(item.id, body.reply, message, item.sessionID, HTTP_API_ACTOR)
+    logger.info({ requestID: item.id, reply: body.reply }, "permission replied via http api")
+    return json({ ok: true, type: "permission", id: item.id })
+  }
+
+  const replyToQuestion = async (item: PendingQuestion, body: Record<string, unknown>): Promise<Response> => {
+    if (body.reject === true) {
+      await assistant.rejectQuestion(item.id, HTTP_API_ACTOR)
+      logger.info({ requestID: item.id }, "question rejected via http api")
+      return json({ ok: true, type: "question", id: item.id })
+    }
+    const answers = parseAnswers(body.answers)
+    if (!answers || answers.length !== item.questions.length) {
+      throw new HttpError(400, `Field \`answers\` must contain one entry per question (${item.questions.length}).`)
+    }
+    await assistant.replyQuestion(item.id, answers, HTTP_API_ACTOR)
+    logger.info({ requestID: item.id }, "question answered via http api")
+    return json({ ok: true, type: "question", id: item.id })
+  }
+
+  const handleReplyApproval = async (req: Request, requestID: string): Promise<Response> => {
+    const body = await readBody<Record<string, unknown>>(req)
+    const permission = (await assistant.listPendingPermissions()).find((item) => item.id === requestID)
+    if (permission) return replyToPermission(permission, body)
+    const question = (await assistant.listPendingQuestions()).find((item) => item.id === requestID)
+    if (question) return replyToQuestion(question, body)
+    throw new HttpError(404, `No pending approval or question with id ${requestID}.`)
+  }
+
+  const handleRemember = async (req: Request): Promise<Response> => {
+    const body = await readBody<{ text?: unknown; userID?: unknown }>(req)
+    const text = typeof body.text === "string" ? body.text.trim() : ""
+    if (!text) throw new HttpError(400, "Field `text` is required.")
+    const userID = typeof body.userID === "string" && body.userID.trim() ? body.userID.trim() : "api"
+    await assistant.remember(text, `api:${userID}`)
+    const detail = text.length > 200 ? `${text.slice(0, 199)}…` : text
+    await opts.auditLog?.record({ action: "remember", actor: HTTP_API_ACTOR, detail }).catch((error: unknown) => {
+      logger.warn({ err: error, action: "remember", actor: HTTP_API_ACTOR }, "failed to write audit entry")
+    })
+    return json({ ok: true })
+  }
+
+  const handleSignedLink = async (req: Request, token: string): Promise<Response> => {
+    const signed = opts.signedActions
+    const action = signed ? verifyAction(signed.secret, token) : null
+    const handler = action ? signed?.handlers[action.channel as ChannelName] : undefined
+    if (!action || !handler) return htmlPage("<p>This link is invalid or has expired.</p>", 404)
+
+    // Mail scanners prefetch links, so GET only renders a confirmation form and POST performs the action.
+    if (req.method === "GET") {
+      return htmlPage(
+        `<p>Confirm: <strong>${escapeHtml(action.label ?? action.action)}</strong></p><form method="post"><button type="submit">Confirm</button></form>`,
+      )
+    }
+    if (req.method !== "POST") throw new HttpError(405, "Method not allowed.")
+    const result = await handler(action)
+    logger.info({ channel: action.channel, userID: action.userID, action: action.action }, "signed link action handled")
+    return htmlPage(`<p>${escapeHtml(result)}</p>`)
+  }
+
+  const route = async (req: Request): Promise<Response> => {
+    const url = new URL(req.url)
+    const linkMatch = url.pathname.match(/^\/links\/([^/]+)$/)
+    if (linkMatch) return handleSignedLink(req, decodeURIComponent(linkMatch[1]))
+    if (!isAuthorized(req, opts.token)) throw new HttpError(401, "Missing or invalid bearer token.")
+
+    if (url.pathname === "/ask" && req.method === "POST") return handleAsk(req, url)
+    if (url.pathname === "/approvals" && req.method === "GET") return handleListApprovals()
+    const approvalMatch = url.pathname.match(/^\/approvals\/([^/]+)$/)
+    if (approvalMatch && req.method === "POST") return handleReplyApproval(req, decodeURIComponent(approvalMatch[1]))
+    if (url.pathname === "/remember" && req.method === "POST") return handleRemember(req)
+    throw new HttpError(404, "Not found.")
+  }
+
+  const server = Bun.serve({
+    hostname: opts.hostname,
+    port: opts.port,
+    // Answers can take minutes, longer than Bun's default idle timeout.
+    idleTimeout: 0,
+    fetch: async (req: Request) => {
+      try {
+        return await route(req)
+      } catch (error) {
+        if (error instanceof HttpError) return json({ error: error.message }, error.status)
+        if (error instanceof BudgetExceededError) return json({ error: error.message }, 429)
+        logger.error({ err: error, method: req.method, url: req.url }, "http api request failed")
+        return json({ error: "Internal error." }, 500)
+      }
+    },
+  })
+
+  logger.info({ hostname: opts.hostname, port: server.port }, "http api listening")
+  return {
+    port: server.port,
+    stop: () => server.stop(true),
+  }
+}
@@ -0,0 +1,363 @@
+import type { Logger } from "pino"
+import { basename } from "../utils/path"
+import type { InboxKind } from "../utils/inbox"
+import { parseTextCommand, type ChannelAdapter, type ChannelButton, type ChannelHandlers, type ChannelPrompt, type IncomingMedia } from "./types"
+
+type MatrixAdapterOptions = {
+  homeserverUrl: string
+  accessToken: string
+  logger: Logger
+  syncTimeoutMs?: number
+}
+
+type MatrixEvent = {
+  type?: string
+  event_id?: string
+  sender?: string
+  content?: Record<string, unknown>
+}
+
+type MatrixSync = {
+  next_batch?: string
+  rooms?: {
+    join?: Record<string, { timeline?: { events?: MatrixEvent[] } }>
+    invite?: Record<string, unknown>
+  }
+}
+
+type PendingPrompt = {
+  roomID: string
+  buttons: ChannelButton[]
+}
+
+// Keycap emoji used as reaction "buttons" on prompt messages.
+const OPTION_KEYS = ["1️⃣", "2️⃣", "3️⃣", "4️⃣", "5️⃣", "6️⃣", "7️⃣", "8️⃣", "9️⃣"]
+const MAX_TRACKED_PROMPTS = 200
+
+function mediaKind(content: Record<string, unknown>): InboxKind | null {
+  if (content.msgtype === "m.audio") return "voice"
+  if (content.msgtype === "m.image") return "photo"
+  return null
+}
+
+function pickFileExtension(fileName: string, mimeType: string | undefined, fallback: string): string {
+  const match = fileName.match(/(\.[A-Za-z0-9]+)$/)
+  if (match) return match[1]
+  const subtype = mimeType?.split("/")[1]?.split(/[;+]/)[0]
+  return subtype ? `.${subtype}` : fallback
+}
+
+function parseMxc(uri: string): { server: string; mediaID: string } | null {
+  const match = uri.match(/^mxc:\/\/([^/]+)\/(.+)$/)
+  if (!match) return null
+  return { server: match[1], mediaID: match[2] }
+}
+
+function replyTarget(content: Record<string, unknown>): string | undefined {
+  const relates = content["m.relates_to"] as { "m.in_reply_to"?: { event_id?: unknown } } | undefined
+  const eventID = relates?.["m.in_reply_to"]?.event_id
+  return typeof eventID === "string" ? eventID : undefined
+}
+
+function stripReplyFallback(body: string): string {
+  return body
+    .split("\n")
+    .filter((line) => !line.startsWith("> "))
+    .join("\n")
+    .trim()
+}
+
+export class MatrixAdapter implements ChannelAdapter {
+  readonly name = "matrix" as const
+  readonly displayName = "Matrix"
+  readonly maxMessageLength = 8000
+  readonly sessionPerChat = true
+  private readonly baseUrl: string
+  private readonly prompts = new Map<string, PendingPrompt>()
+  private readonly warnedEncryptedRooms = new Set<string>()
+  private userID = ""
+  private stopped = false
+  private syncAbort?: AbortController
+  private txnCounter = 0
+
+  constructor(private readonly opts: MatrixAdapterOptions) {
+    this.baseUrl = opts.homeserverUrl.replace(/\/+$/g, "")
+  }
+
+  async start(handlers: ChannelHandlers): Promise<void> {
+    const whoami = await this.request<{ user_id: string }>("GET", "/_matrix/client/v3/account/whoami")
+    this.userID = whoami.user_id
+
+    // The first sync only establishes a position so history is not replayed on startup.
+    let since = (await this.sync()).next_batch
+    this.opts.logger.info({ userID: this.userID }, "matrix sync started")
+
+    while (!this.stopped) {
+      try {
+        const result = await this.sync(since)
+        since = result.next_batch ?? since
+        await this.handleSync(result, handlers)
+      } catch (error) {
+        if (this.stopped) break
+        this.opts.logger.warn({ err: error }, "matrix sync failed; retrying")
+        await new Promise((resolve) => setTimeout(resolve, 5000))
+      }
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true
+    this.syncAbort?.abort()
+  }
+
+  async sendText(chatID: string, text: string): Promise<string> {
+    return this.sendEvent(chatID, "m.room.message", { msgtype: "m.text", body: text })
+  }
+
+  async sendFile(chatID: string, filePath: string, caption?: string): Promise<void> {
+    const fileName = basename(filePath)
+    const data = await Bun.file(filePath).arrayBuffer()
+    const upload = await this.request<{ content_uri: string }>(
+      "POST",
+      `/_matrix/media/v3/upload?filename=${encodeURIComponent(fileName)}`,
+      data,
+    )
+    await this.sendEvent(chatID, "m.room.message", {
+      msgtype: "m.file",
+      body: caption || fileName,
+      filename: fileName,
+      url: upload.content_uri,
+      info: { size: data.byteLength },
+    })
+  }
+
+  async sendPrompt(chatID: string, prompt: ChannelPrompt): Promise<void> {
+    const buttons = prompt.buttons.flat().slice(0, OPTION_KEYS.length)
+    const body = [
+      prompt.text,
+      "",
+      ...buttons.map((button, i) => `${i + 1}. ${button.label}`),
+      "",
+      "React with the matching number or reply to this message with it.",
+    ].join("\n")
+    const eventID = await this.sendEvent(chatID, "m.room.message", { msgtype: "m.text", body })
+
+    this.prompts.set(eventID, { roomID: chatID, buttons })
+    if (this.prompts.size > MAX_TRACKED_PROMPTS) {
+      const oldest = this.prompts.keys().next().value
+      if (oldest) this.prompts.delete(oldest)
+    }
+
+    for (let i = 0; i < buttons.length; i += 1) {
+      await this.sendEvent(chatID, "m.reaction", {
+        "m.relates_to": { rel_type: "m.annotation", event_id: eventID, key: OPTION_KEYS[i] },
+      })
+    }
+  }
+
+  async sendTyping(chatID: string): Promise<void> {
+    await this.request(
+      "PUT",
+      `/_matrix/client/v3/rooms/${encodeURIComponent(chatID)}/typing/${encodeURIComponent(this.userID)}`,
+      { typing: true, timeout: 5000 },
+    )
+  }
+
+  async openDirectChat(userID: string): Promise<string> {
+    const path = `/_matrix/client/v3/user/${encodeURIComponent(this.userID)}/account_data/m.direct`
+    let direct: Record<string, string[]> = {}
+    try {
+      direct = await this.request<Record<string, string[]>>("GET", path)
+    } catch {
+      // No direct rooms recorded yet.
+    }
+    const existing = direct[userID]?.[0]
+    if (existing) return existing
+
+    const created = await this.request<{ room_id: string }>("POST", "/_matrix/client/v3/createRoom", {
+      is_direct: true,
+      invite: [userID],
+      preset: "trusted_private_chat",
+    })
+    direct[userID] = [created.room_id, ...(direct[userID] ?? [])]
+    await this.request("PUT", path, direct)
+    return created.room_id
+  }
+
+  private async sync(since?: string): Promise<MatrixSync> {
+    const params = new URLSearchParams({ timeout: since ? String(this.opts.syncTimeoutMs ?? 30_000) : "0" })
+    if (since) params.set("since", since)
+    this.syncAbort = new AbortController()
+    return this.request<MatrixSync>("GET", `/_matrix/client/v3/sync?${params.toString()}`, undefined, this.syncAbort.signal)
+  }
+
+  private async handleSync(result: MatrixSync, handlers: ChannelHandlers): Promise<void> {
+    for (const roomID of Object.keys(result.rooms?.invite ?? {})) {
+      try {
+        await this.request("POST", `/_matrix/client/v3/rooms/${encodeURIComponent(roomID)}/join`, {})
+        this.opts.logger.info({ roomID }, "matrix room invite accepted")
+      } catch (error) {
+        this.opts.logger.warn({ err: error, roomID }, "matrix room join failed")
+      }
+    }
+
+    for (const [roomID, room] of Object.entries(result.rooms?.join ?? {})) {
+      for (const event of room.timeline?.events ?? []) {
+        if (!event.sender || event.sender === this.userID) continue
+        try {
+          await this.handleEvent(roomID, event, handlers)
+        } catch (error) {
+          this.opts.logger.error({ err: error, roomID, eventID: event.event_id }, "matrix event handling failed")
+        }
+      }
+    }
+  }
+
+  private async handleEvent(roomID: string, event: MatrixEvent, handlers: ChannelHandlers): Promise<void> {
+    const sender = event.sender ?? ""
+    const content = event.content ?? {}
+
+    if (event.type === "m.room.encrypted") {
+      await this.warnEncryptedRoom(roomID)
+      return
+    }
+
+    if (event.type === "m.reaction") {
+      const relates = content["m.relates_to"] as { event_id?: unknown; key?: unknown } | undefined
+      if (typeof relates?.event_id !== "string" || typeof relates.key !== "string") return
+      await this.handlePromptChoice(roomID, sender, relates.event_id, OPTION_KEYS.indexOf(relates.key), handlers)
+      return
+    }
+
+    if (event.type !== "m.room.message") return
+    const body = typeof content.body === "string" ? content.body : ""
+
+    const repliedTo = replyTarget(content)
+    if (repliedTo && this.prompts.has(repliedTo)) {
+      const choice = Number.parseInt(stripReplyFallback(body), 10)
+      if (Number.isFinite(choice)) {
+        await this.handlePromptChoice(roomID, sender, repliedTo, choice - 1, handlers)
+        return
+      }
+    }
+
+    const kind = mediaKind(content)
+    if (kind) {
+      await handlers.onMessage({ chatID: roomID, userID: sender, text: "", media: this.media(kind, content) })
+      return
+    }
+
+    const text = repliedTo ? stripReplyFallback(body) : body
+    const command = parseTextCommand(text)
+    if (command && handlers.commands.some((item) => item.name === command.name)) {
+      await handlers.onCommand({ chatID: roomID, userID: sender, ...command })
+      return
+    }
+    await handlers.onMessage({ chatID: roomID, userID: sender, text })
+  }
+
+  private async handlePromptChoice(
+    roomID: string,
+    sender: string,
+    promptEventID: string,
+    index: number,
+    handlers: ChannelHandlers,
+  ): Promise<void> {
+    const prompt = this.prompts.get(promptEventID)
+    const button = prompt?.buttons[index]
+    if (!prompt || !button || prompt.roomID !== roomID) return
+
+    await handlers.onAction({
+      chatID: roomID,
+      userID: sender,
+      action: button.action,
+      acknowledge: async (text) => {
+        await this.sendEvent(roomID, "m.room.message", { msgtype: "m.notice", body: text })
+      },
+      clearButtons: async () => {
+        this.prompts.delete(promptEventID)
+      },
+    })
+  }
+
+  private async warnEncryptedRoom(roomID: string): Promise<void> {
+    if (this.warnedEncryptedRooms.has(roomID)) return
+    this.warnedEncryptedRooms.add(roomID)
+    this.opts.logger.warn({ roomID }, "matrix encrypted event received; point MATRIX_HOMESERVER_URL at pantalaimon to decrypt")
+    await this.sendEvent(roomID, "m.room.message", {
+      msgtype: "m.notice",
+      body: "This room is end-to-end encrypted and MonClaw cannot read it directly. Ask the admin to run MonClaw behind pantalaimon.",
+    })
+  }
+
+  private media(kind: InboxKind, content: Record<string, unknown>): IncomingMedia {
+    return {
+      kind,
+      fetch: async () => {
+        const mxc = typeof content.url === "string" ? parseMxc(content.url) : null
+        if (!mxc) return null
+        const info = (content.info ?? {}) as { mimetype?: string; size?: number }
+        const fileName = typeof content.body === "string" ? content.body : ""
+        const data = await this.download(mxc.server, mxc.mediaID)
+        return {
+          data,
+          extension: pickFileExtension(fileName, info.mimetype, kind === "voice" ? ".ogg" : ".jpg"),
+          metadata: {
+            matrix: {
+              url: content.url,
+              fileName,
+              fileSize: info.size,
+              mimeType: info.mimetype,
+            },
+          },
+        }
+      },
+    }
+  }
+
+  private async download(server: string, mediaID: string): Promise<Uint8Array> {
+    const paths = [
+      `/_matrix/client/v1/media/download/${encodeURIComponent(server)}/${encodeURIComponent(mediaID)}`,
+      `/_matrix/media/v3/download/${encodeURIComponent(server)}/${encodeURIComponent(mediaID)}`,
+    ]
+    let lastStatus = 0
+    for (const path of paths) {
+      const response = await fetch(`${this.baseUrl}${path}`, {
+        headers: { Authorization: `Bearer ${this.opts.accessToken}` },
+      })
+      if (response.ok) return new Uint8Array(await response.arrayBuffer())
+      lastStatus = response.status
+    }
+    throw new Error(`matrix media download failed: HTTP ${lastStatus}`)
+  }
+
+  private async sendEvent(roomID: string, type: string, content: Record<string, unknown>): Promise<string> {
+    this.txnCounter += 1
+    const txnID = `monclaw-${Date.now()}-${this.txnCounter}`
+    const result = await this.request<{ event_id: string }>(
+      "PUT",
+      `/_matrix/client/v3/rooms/${encodeURIComponent(roomID)}/send/${encodeURIComponent(type)}/${txnID}`,
+      content,
+    )
+    return result.event_id
+  }
+
+  private async request<T = unknown>(method: string, path: string, body?: unknown, signal?: AbortSignal): Promise<T> {
+    const headers: Record<string, string> = { Authorization: `Bearer ${this.opts.accessToken}` }
+    let payload: BodyInit | undefined
+    if (body instanceof ArrayBuffer) {
+      headers["Content-Type"] = "application/octet-stream"
+      payload = body
+    } else if (body !== undefined) {
+      headers["Content-Type"] = "application/json"
+      payload = JSON.stringify(body)
+    }
+
+    const response = await fetch(`${this.baseUrl}${path}`, { method, headers, body: payload, signal })
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "")
+      throw new Error(`matrix ${method} ${path.split("?")[0]} failed: HTTP ${response.status}${detail ? ` ${detail}` : ""}`)
+    }
+    return (await response.json()) as T
+  }
+}
@@ -0,0 +1,116 @@
+import type { PendingQuestion, PendingQuestionInfo } from "../core/assistant"
+import type { ChannelButton, ChannelPrompt } from "./types"
+
+/** Progress through one question request: answers so far plus toggles for the current multi-select step. */
+export type QuestionWizard = {
+  requestID: string
+  sessionID: string
+  questions: PendingQuestionInfo[]
+  index: number
+  answers: string[][]
+  selected: number[]
+}
+
+export type WizardAction =
+  | { kind: "pick"; requestID: string; questionIndex: number; optionIndex: number }
+  | { kind: "done"; requestID: string; questionIndex: number }
+  | { kind: "custom"; requestID: string; questionIndex: number }
+
+const SELECTED_MARK = "✓ "
+
+function parseIndex(raw: string | undefined): number | null {
+  const value = Number.parseInt(raw ?? "", 10)
+  return Number.isFinite(value) && value >= 0 ? value : null
+}
+
+// Kept short: Telegram caps callback data at 64 bytes.
+export function encodeWizardAction(action: WizardAction): string {
+  if (action.kind === "pick") return `qst:${action.requestID}:${action.questionIndex}:${action.optionIndex}`
+  return `${action.kind === "done" ? "qsd" : "qsc"}:${action.requestID}:${action.questionIndex}`
+}
+
+export function decodeWizardAction(data: string): WizardAction | null {
+  const parts = data.split(":")
+  const requestID = parts[1]?.trim()
+  const questionIndex = parseIndex(parts[2])
+  if (!requestID || questionIndex === null) return null
+
+  if (parts[0] === "qst" && parts.length === 4) {
+    const optionIndex = parseIndex(parts[3])
+    return optionIndex === null ? null : { kind: "pick", requestID, questionIndex, optionIndex }
+  }
+  if (parts[0] === "qsd" && parts.length === 3) return { kind: "done", requestID, questionIndex }
+  if (parts[0] === "qsc" && parts.length === 3) return { kind: "custom", requestID, questionIndex }
+  return null
+}
+
+export function allowsCustomAnswer(question: PendingQuestionInfo): boolean {
+  // OpenCode allows typed answers unless the question opts out.
+  return question.custom !== false
+}
+
+/** True when every question can be answered with buttons or a typed answer. */
+export function canUseWizard(item: PendingQuestion): boolean {
+  return item.questions.length > 0 && item.questions.every((q) => q.options.length > 0 || allowsCustomAnswer(q))
+}
+
+export function startWizard(item: PendingQuestion): QuestionWizard {
+  return { requestID: item.id, sessionID: item.sessionID, questions: item.questions, index: 0, answers: [], selected: [] }
+}
+
+export function currentQuestion(wizard: QuestionWizard): PendingQuestionInfo | undefined {
+  return wizard.questions[wizard.index]
+}
+
+export function isComplete(wizard: QuestionWizard): boolean {
+  return wizard.index >= wizard.questions.length
+}
+
+/** Records the answer for the current step and moves on; toggles are reset for the next step. */
+export function answerCurrent(wizard: QuestionWizard, labels: string[]): void {
+  wizard.answers[wizard.index] = labels
+  wizard.index += 1
+  wizard.selected = []
+}
+
+export function toggleOption(wizard: QuestionWizard, optionIndex: number): boolean {
+  const at = wizard.selected.indexOf(optionIndex)
+  if (at >= 0) {
+    wizard.selected.splice(at, 1)
+    return false
+  }
+  wizard.selected.push(optionIndex)
+  wizard.selected.sort((a, b) => a - b)
+  return true
+}
+
+export function selectedLabels(wizard: QuestionWizard): string[] {
+  const question = currentQuestion(wizard)
+  if (!question) return []
+  return wizard.selected.map((i) => question.options[i]?.label).filter((label): label is string => Boolean(label))
+}
+
+export function wizardPrompt(wizard: QuestionWizard): ChannelPrompt {
+  const question = currentQuestion(wizard)
+  if (!question) return { text: "All questions answered.", buttons: [] }
+
+  const step = wizard.questions.length > 1 ? ` (${wizard.index + 1}/${wizard.questions.length})` : ""
+  const hint = question.multiple ? "Select one or more options, then tap Done." : ""
+  const text = [`Question${step}: ${question.header}`, question.question, hint, `Request ID: ${wizard.requestID}`]
+    .filter(Boolean)
+    .join("\n")
+
+  const buttons: ChannelButton[][] = question.options.map((option, optionIndex) => {
+    const mark = question.multiple && wizard.selected.includes(optionIndex) ? SELECTED_MARK : ""
+    const action = encodeWizardAction({ kind: "pick", requestID: wizard.requestID, questionIndex: wizard.index, optionIndex })
+    return [{ label: `${mark}${option.label}`, action }]
+  })
+  if (question.multiple) {
+    buttons.push([{ label: "Done", action: encodeWizardAction({ kind: "done", requestID: wizard.requestID, questionIndex: wizard.index }) }])
+  }
+  if (allowsCustomAnswer(question)) {
+    const action = encodeWizardAction({ kind: "custom", requestID: wizard.requestID, questionIndex: wizard.index })
+    buttons.push([{ label: "Type custom answer", action }])
+  }
+  return { text, buttons }
+}
@@ -0,0 +1,49 @@
+import type { IncomingMessage } from "./types"
+
+export const QUEUE_MODES = ["queue", "batch"] as const
+
+// queue: handle waiting messages one prompt each; batch: fold them into a single follow-up prompt.
+export type QueueMode = (typeof QUEUE_MODES)[number]
+
+export function isQueueMode(value: string): value is QueueMode {
+  return (QUEUE_MODES as readonly string[]).includes(value)
+}
+
+const PREVIEW_LENGTH = 80
+
+/**
+ * Removes and returns what to handle next. Batch mode merges the leading run of plain text
+ * messages from the same sender; media always goes on its own because it needs its own prompt.
+ */
+export function takeQueued(queue: IncomingMessage[], mode: QueueMode): IncomingMessage | undefined {
+  const first = queue.shift()
+  if (!first || mode === "queue" || first.media) return first
+
+  const merged: IncomingMessage[] = [first]
+  while (queue.length > 0) {
+    const next = queue[0]
+    if (next.media || next.userID !== first.userID) break
+    merged.push(next)
+    queue.shift()
+  }
+  if (merged.length === 1) return first
+
+  const attachments = merged.flatMap((message) => message.attachments ?? [])
+  return {
+    chatID: first.chatID,
+    userID: first.userID,
+    text: merged
+      .map((message) => message.text.trim())
+      .filter(Boolean)
+      .join("\n\n"),
+    ...(attachments.length > 0 ? { attachments } : {}),
+  }
+}
+
+export function describeQueued(message: IncomingMessage): string {
+  const text = message.text.trim().replace(/\s+/g, " ")
+  const preview = text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH - 1)}…` : text
+  if (message.media) return `[${message.media.kind}]${preview ? ` ${preview}` : ""}`
+  const files = message.attachments?.length ?? 0
+  return files > 0 ? `${preview} (+${files} attachment${files === 1 ? "" : "s"})` : preview
+}
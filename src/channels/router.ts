@@ -0,0 +1,1602 @@
+import type { Logger } from "pino"
+import {
+  AssistantCore,
+  type PendingPermission,
+  type PendingQuestion,
+  type PermissionReply,
+  type SessionAbortResult,
+} from "../core/assistant"
+import { AuditLog, type AuditEntry, type AuditFilter } from "../core/audit-log"
+import { CostStore, formatCostTotals, formatUSD } from "../core/cost-store"
+import { IdentityStore, type LinkedAccount } from "../core/identity-store"
+import { InviteStore } from "../core/invite-store"
+import { PairAttemptStore } from "../core/pair-attempt-store"
+import { PendingInteractionStore, summarizePermission, summarizeQuestion } from "../core/pending-interaction-store"
+import type { SessionMode } from "../core/session-store"
+import { describeUsageRefusal, formatUsageAllowance, usageSubject, UsageStore, type UsageKind } from "../core/usage-store"
+import { isRole, WhitelistStore, type Capability, type Role, type WhitelistEntry } from "../core/whitelist-store"
+import { cancelQueuedAsyncBashJobs } from "../scheduler/async-bash"
+import { splitTextChunks } from "../utils/format-message"
+import { pruneInbox, saveInboxBinary, type InboxKind } from "../utils/inbox"
+import { ackOutbox, listOutbox, queueOutbox } from "../utils/outbox"
+import { describeQueued, takeQueued, type QueueMode } from "./queue"
+import {
+  answerCurrent,
+  canUseWizard,
+  currentQuestion,
+  decodeWizardAction,
+  isComplete,
+  selectedLabels,
+  startWizard,
+  toggleOption,
+  wizardPrompt,
+  type QuestionWizard,
+} from "./question-wizard"
+import {
+  isChannelName,
+  type ChannelAdapter,
+  type ChannelName,
+  type ChannelButton,
+  type ChannelCommand,
+  type ChannelPrompt,
+  type IncomingAction,
+  type IncomingCommand,
+  type IncomingMessage,
+} from "./types"
+
+export type ChannelRouterOptions = {
+  logger: Logger
+  assistant: AssistantCore
+  whitelist: WhitelistStore
+  identities: IdentityStore
+  pairAttempts: PairAttemptStore
+  // Which approvals/questions were announced where; survives restarts and drives reminders.
+  pendingInteractions: PendingInteractionStore
+  auditLog: AuditLog
+  // One-time /pair codes minted with /invite code.
+  invites: InviteStore
+  inviteTtlMinutes: number
+  // Shared legacy token; still accepted next to invite codes when set.
+  pairToken?: string
+  pairMaxAttempts: number
+  pairLockMinutes: number
+  linkCodeTtlMinutes: number
+  // Rate limits and daily quotas for prompts and media, charged per person; unlimited when unset.
+  usage?: UsageStore
+  // Model token usage and cost; prompts are refused once the monthly budget is used up.
+  costs?: CostStore
+  // Defaults to "shared". Adapters with sessionPerChat (threads) always get one session per chat.
+  sessionMode?: SessionMode
+  // Messages that arrive while a chat is busy wait here; depth 0 turns them away as before.
+  queueMode?: QueueMode
+  queueDepth?: number
+  inboxDir: string
+  inboxRetentionDays: number
+  // Where async_bash jobs wait; a revoked user's queued jobs there are cancelled.
+  asyncBashQueueDir?: string
+}
+
+const COMMANDS: ChannelCommand[] = [
+  { name: "start", description: "Start or check bot status" },
+  { name: "pair", description: "Pair your chat account" },
+  { name: "link", description: "Link accounts across chat apps" },
+  { name: "new", description: "Start a new session" },
+  { name: "remember", description: "Save durable memory" },
+  { name: "approvals", description: "List pending approvals/questions" },
+  { name: "approval", description: "Alias of /approvals" },
+  { name: "answer", description: "Answer a pending question" },
+  { name: "queue", description: "Show or clear queued messages" },
+  { name: "stop", description: "Stop the reply in progress" },
+  { name: "usage", description: "Show your remaining allowance" },
+  { name: "cost", description: "Show model token usage and cost" },
+  { name: "audit", description: "Show recent audit log entries (admins)" },
+  { name: "users", description: "List whitelisted users (admins)" },
+  { name: "invite", description: "Whitelist a user (admins)" },
+  { name: "promote", description: "Change a user's role (admins)" },
+  { name: "revoke", description: "Remove a user from the whitelist (admins)" },
+]
+
+const INVITE_USAGE = [
+  "Usage: /invite <[channel:]userID> [admin|member|viewer] to whitelist an account now,",
+  "or /invite code [admin|member|viewer] [[channel:]userID] for a one-time /pair code.",
+].join("\n")
+
+const AUDIT_DEFAULT_LIMIT = 10
+const AUDIT_MAX_LIMIT = 50
+const AUDIT_USAGE = "Usage: /audit [count] [actor=<text>] [action=<name>] [request=<id>] [permission=<text>]"
+
+function encodeApprovalAction(action: PermissionReply, requestID: string): string {
+  const kind = action === "once" ? "o" : action === "always" ? "a" : "r"
+  return `apr:${kind}:${requestID}`
+}
+
+function decodeApprovalAction(data: string): { action: PermissionReply; requestID: string } | null {
+  const parts = data.split(":")
+  if (parts.length !== 3 || parts[0] !== "apr") return null
+  const action = parts[1] === "o" ? "once" : parts[1] === "a" ? "always" : parts[1] === "r" ? "reject" : null
+  if (!action) return null
+  const requestID = parts[2]?.trim()
+  if (!requestID) return null
+  return { action, requestID }
+}
+
+export function approvalButtons(requestID: string): ChannelButton[][] {
+  return [
+    [
+      { label: "Allow once", action: encodeApprovalAction("once", requestID) },
+      { label: "Always allow", action: encodeApprovalAction("always", requestID) },
+    ],
+    [{ label: "Reject", action: encodeApprovalAction("reject", requestID) }],
+  ]
+}
+
+function formatPermissionLine(item: PendingPermission): string {
+  const patterns = item.patterns.length > 0 ? item.patterns.join(", ") : "<none>"
+  return [`Permission: ${item.permission}`, `Patterns: ${patterns}`, `Request ID: ${item.id}`].join("\n")
+}
+
+function formatQuestionLine(item: PendingQuestion, index: number): string {
+  const q = item.questions[index]
+  if (!q) return `Question request: ${item.id}`
+  const mode = q.multiple ? "multiple" : "single"
+  return [
+    `Question: ${q.header}`,
+    q.question,
+    `Mode: ${mode}`,
+    `Request ID: ${item.id}`,
+  ].join("\n")
+}
+
+function permissionPrompt(item: PendingPermission): ChannelPrompt {
+  return { text: formatPermissionLine(item), buttons: approvalButtons(item.id) }
+}
+
+function parseQuestionAnswers(raw: string): Array<Array<string>> {
+  return raw
+    .split(";")
+    .map((group) => group.split(",").map((part) => part.trim()).filter(Boolean))
+}
+
+function buildMediaPrompt(params: { channelLabel: string; kind: InboxKind; filePath: string; caption: string }): string {
+  const header =
+    params.kind === "voice"
+      ? `User sent a ${params.channelLabel} voice message.`
+      : params.kind === "document"
+        ? `User sent a ${params.channelLabel} file upload.`
+        : `User sent a ${params.channelLabel} image upload.`
+  const captionLine = params.caption ? `Caption: ${params.caption}` : "Caption: <none>"
+  return [
+    header,
+    `Saved file path: ${params.filePath}`,
+    captionLine,
+    "Handle this request using available tools and local files.",
+    "If you cannot parse this media type, clearly tell the user and ask for plain text.",
+  ].join("\n")
+}
+
+function buildAttachmentPrompt(params: { channelLabel: string; text: string; filePaths: string[] }): string {
+  return [
+    params.text || "<no message text>",
+    "",
+    `The ${params.channelLabel} message included attachments, saved at:`,
+    ...params.filePaths.map((filePath) => `- ${filePath}`),
+    "Use these files when they are relevant to the request.",
+  ].join("\n")
+}
+
+function formatAccounts(accounts: LinkedAccount[]): string {
+  return accounts.map((account) => `- ${account.channel}: ${account.userID}`).join("\n")
+}
+
+// "<channel>:<userID>", or a bare ID on the caller's channel. Matrix IDs (@alice:example.org) are bare IDs.
+function parseAccountArg(raw: string, fallback: ChannelName): { channel: ChannelName; userID: string } | null {
+  const value = raw.trim()
+  if (!value) return null
+  const splitAt = value.indexOf(":")
+  const prefix = value.slice(0, splitAt)
+  if (splitAt > 0 && isChannelName(prefix)) {
+    const userID = value.slice(splitAt + 1).trim()
+    return userID ? { channel: prefix, userID } : null
+  }
+  return { channel: fallback, userID: value }
+}
+
+function formatWhitelistEntry(entry: WhitelistEntry, self: boolean): string {
+  return `- ${entry.channel}:${entry.userID} ${entry.role}${self ? " (you)" : ""}`
+}
+
+function parseAuditArgs(raw: string): AuditFilter | null {
+  const filter: AuditFilter = { limit: AUDIT_DEFAULT_LIMIT }
+  for (const token of raw.split(/\s+/).filter(Boolean)) {
+    if (/^\d+$/.test(token)) {
+      filter.limit = Math.min(AUDIT_MAX_LIMIT, Math.max(1, Number.parseInt(token, 10)))
+      continue
+    }
+    const splitAt = token.indexOf("=")
+    const key = token.slice(0, splitAt).toLowerCase()
+    const value = token.slice(splitAt + 1)
+    if (splitAt <= 0 || !value) return null
+    if (key === "actor" || key === "user") filter.actor = value
+    else if (key === "action") filter.action = value
+    else if (key === "request") filter.requestID = value
+    else if (key === "permission") filter.permission = value
+    else return null
+  }
+  return filter
+}
+
+function formatAuditEntry(entry: AuditEntry): string {
+  const parts = [entry.at.slice(0, 16).replace("T", " "), entry.actor, entry.action]
+  if (entry.decision) parts.push(entry.decision)
+  if (entry.permission) parts.push(`${entry.permission}: ${entry.patterns?.join(", ") || "<none>"}`)
+  if (entry.detail) parts.push(entry.detail)
+  if (entry.requestID) parts.push(`(${entry.requestID})`)
+  else if (entry.sessionID) parts.push(`(${entry.sessionID})`)
+  return parts.join(" ")
+}
+
+// Chat APIs rate-limit message edits, so streamed text is flushed at most this often.
+const STREAM_EDIT_INTERVAL_MS = 1000
+const STREAM_PLACEHOLDER = "…"
+
+type LiveReply = {
+  update: (text: string) => void
+  finish: (text: string) => Promise<number>
+  cancel: () => Promise<void>
+}
+
+/**
+ * Posts a placeholder and keeps editing it while the answer streams in, rolling over into new
+ * messages once the text passes the transport limit. Returns null when the adapter cannot edit.
+ */
+async function startLiveReply(adapter: ChannelAdapter, chatID: string, onError: (error: unknown) => void): Promise<LiveReply | null> {
+  const editText = adapter.editText?.bind(adapter)
+  if (!editText) return null
+  const firstRef = await adapter.sendText(chatID, STREAM_PLACEHOLDER)
+  if (!firstRef) return null
+
+  const refs: string[] = [firstRef]
+  const shown: string[] = [STREAM_PLACEHOLDER]
+  let latest = ""
+  let closed = false
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let queue: Promise<unknown> = Promise.resolve()
+
+  // Renders run one at a time so edits never overtake each other.
+  const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+    const next = queue.then(task)
+    queue = next.catch(() => {})
+    return next
+  }
+
+  const render = async (text: string): Promise<number> => {
+    const chunks = splitTextChunks(text, adapter.maxMessageLength)
+    for (let i = 0; i < chunks.length; i += 1) {
+      const chunk = chunks[i] ?? ""
+      if (i < refs.length) {
+        if (shown[i] === chunk) continue
+        await editText(chatID, refs[i] ?? "", chunk)
+        shown[i] = chunk
+        continue
+      }
+      refs.push((await adapter.sendText(chatID, chunk)) ?? "")
+      shown.push(chunk)
+    }
+    return chunks.length
+  }
+
+  const removeFrom = async (start: number) => {
+    for (let i = refs.length - 1; i >= start; i -= 1) {
+      const ref = refs[i]
+      if (ref && adapter.deleteText) {
+        await adapter.deleteText(chatID, ref)
+      } else if (ref && shown[i] !== STREAM_PLACEHOLDER) {
+        await editText(chatID, ref, STREAM_PLACEHOLDER)
+      }
+      refs.pop()
+      shown.pop()
+    }
+  }
+
+  return {
+    update: (text) => {
+      if (closed || !text.trim()) return
+      latest = text
+      if (timer) return
+      timer = setTimeout(() => {
+        timer = undefined
+        if (closed) return
+        void enqueue(() => render(latest)).catch(onError)
+      }, STREAM_EDIT_INTERVAL_MS)
+    },
+    finish: async (text) => {
+      closed = true
+      clearTimeout(timer)
+      return enqueue(async () => {
+        const count = await render(text)
+        await removeFrom(count)
+        return count
+      })
+    },
+    cancel: async () => {
+      closed = true
+      clearTimeout(timer)
+      await enqueue(() => removeFrom(0))
+    },
+  }
+}
+
+// Channels started in this process; outbox items are only rerouted to transports that can deliver them.
+const runningChannels = new Set<ChannelName>()
+
+/**
+ * Wires a transport adapter to the shared command, approval, pairing, inbox and outbox logic.
+ * Resolves when the adapter stops receiving messages.
+ */
+export async function startChannel(adapter: ChannelAdapter, opts: ChannelRouterOptions): Promise<void> {
+  const channel = adapter.name
+  let flushingOutbox = false
+  let pruningInbox = false
+  const inboxMaxAgeMs = Math.max(1, opts.inboxRetentionDays) * 24 * 60 * 60 * 1000
+  // Chat ID -> token of the loop handling it; /stop can release a chat before that loop finishes.
+  const activeChats = new Map<string, symbol>()
+  const chatQueues = new Map<string, IncomingMessage[]>()
+  const queueMode = opts.queueMode ?? "queue"
+  const queueDepth = Math.max(0, opts.queueDepth ?? 5)
+  const activeSessionRequests = new Map<string, { chatID: string; userID: string }>()
+  const liveReplies = new Map<string, LiveReply>()
+  // Inline question answering in progress, by question request ID.
+  const questionWizards = new Map<string, QuestionWizard>()
+  // "chatID:userID" -> the wizard step whose answer the sender's next message supplies.
+  const customAnswerWaits = new Map<string, { requestID: string; questionIndex: number }>()
+  // Sessions whose in-flight turn was cancelled with /stop; its late answer is dropped.
+  const stoppedSessions = new Set<string>()
+  runningChannels.add(channel)
+
+  // Whitelist status follows the person: any linked account being whitelisted is enough.
+  const isAllowed = (userID: string): boolean => {
+    return opts.whitelist.isAnyWhitelisted(opts.identities.accountsFor(channel, userID))
+  }
+
+  // Roles follow the person too: the strongest role among linked accounts applies.
+  const can = (userID: string, capability: Capability): boolean => {
+    return opts.whitelist.can(opts.identities.accountsFor(channel, userID), capability)
+  }
+
+  const roleRefusal = (userID: string, action: string): string => {
+    const role = opts.whitelist.roleFor(opts.identities.accountsFor(channel, userID)) ?? "none"
+    return `Your role (${role}) cannot ${action}. Ask an admin.`
+  }
+
+  // Nothing reaches the model once the monthly budget is used up.
+  const withinBudget = async (chatID: string, userID: string): Promise<boolean> => {
+    const status = opts.costs?.budgetStatus()
+    if (status?.state !== "over") return true
+    opts.logger.info({ channel, chatID, userID, spentUSD: status.spent, budgetUSD: status.budget }, "monthly budget exceeded; prompt refused")
+    await adapter.sendText(
+      chatID,
+      `MonClaw has used this month's model budget (${formatUSD(status.spent)} of ${formatUSD(status.budget)}), so new prompts are paused until next month. Ask an admin if this cannot wait.`,
+    )
+    return false
+  }
+
+  // Charges one request; a refusal is explained to the sender and the request is dropped.
+  const chargeUsage = async (chatID: string, userID: string, kind: UsageKind): Promise<boolean> => {
+    if (!opts.usage) return true
+    const decision = await opts.usage.consume(usageSubject(opts.whitelist, opts.identities, channel, userID), kind)
+    if (decision.ok) return true
+    opts.logger.info({ channel, chatID, userID, kind, reason: decision.reason, limit: decision.limit }, "usage limit reached")
+    await adapter.sendText(chatID, describeUsageRefusal(kind, decision))
+    return false
+  }
+
+  // Failing to write the audit trail should not fail the command that was audited.
+  const audit = async (entry: Omit<AuditEntry, "at">) => {
+    await opts.auditLog.record(entry).catch((error: unknown) => {
+      opts.logger.warn({ err: error, channel, action: entry.action, actor: entry.actor }, "failed to write audit entry")
+    })
+  }
+
+  const memorySource = (userID: string): string => {
+    return opts.identities.identityOf(channel, userID) ?? `${channel}:${userID}`
+  }
+
+  const whitelistInstruction = (userID: string): string => {
+    return [
+      "Access restricted.",
+      `Your ${adapter.displayName} ID: ${userID}`,
+      "Send /pair <invite code> to whitelist yourself.",
+      `If you don't have a code, ask an admin for one, or to send /invite ${channel}:${userID} (or add you under '${channel}' in ${opts.whitelist.displayFile()}).`,
+    ].join("\n")
+  }
+
+  const reply = async (chatID: string, text: string) => {
+    const chunks = splitTextChunks(text, adapter.maxMessageLength)
+    for (const chunk of chunks) {
+      await adapter.sendText(chatID, chunk)
+    }
+    return chunks.length
+  }
+
+  // Follow-ups land in the thread of the "waiting" notice on transports that support threads.
+  const followUpChat = (chatID: string, messageRef: string | void): string => {
+    if (!messageRef || !adapter.threadChatID) return chatID
+    return adapter.threadChatID(chatID, messageRef)
+  }
+
+  const sessionMode = opts.sessionMode ?? "shared"
+
+  // Undefined means the shared main session.
+  const sessionKeyFor = (chatID: string, userID: string): string | undefined => {
+    if (adapter.sessionPerChat || adapter.dedicatedSession?.(chatID) || sessionMode === "per-chat") return `${channel}:${chatID}`
+    if (sessionMode === "per-user") return `user:${opts.identities.identityOf(channel, userID) ?? `${channel}:${userID}`}`
+    return undefined
+  }
+
+  const sessionFor = async (chatID: string, userID: string): Promise<string> => {
+    const key = sessionKeyFor(chatID, userID)
+    return key ? opts.assistant.getChatSessionID(key) : opts.assistant.getMainSessionID()
+  }
+
+  const promptQuestion = async (chatID: string, item: PendingQuestion) => {
+    const wizard = questionWizards.get(item.id) ?? startWizard(item)
+    questionWizards.set(item.id, wizard)
+    await adapter.sendPrompt(chatID, wizardPrompt(wizard))
+  }
+
+  // The caller's session first. Reminder and escalation buttons are pressed in whatever chat they reached,
+  // so the person they were sent to, and any admin, may answer the request from anywhere.
+  const findPendingPermission = async (sessionID: string, requestID: string, userID: string) => {
+    const own = (await opts.assistant.listPendingPermissions(sessionID)).find((item) => item.id === requestID)
+    if (own) return own
+    const accounts = opts.identities.accountsFor(channel, userID)
+    const addressed = accounts.some((account) => opts.pendingInteractions.isAddressedTo(requestID, account.channel, account.userID))
+    if (!addressed && opts.whitelist.roleFor(accounts) !== "admin") return undefined
+    return (await opts.assistant.listPendingPermissions()).find((item) => item.id === requestID)
+  }
+
+  const showPendingApprovals = async (chatID: string, userID: string) => {
+    const allowed = isAllowed(userID)
+    if (!allowed) {
+      await adapter.sendText(chatID, whitelistInstruction(userID))
+      return { permissionCount: 0, questionCount: 0 }
+    }
+
+    const sessionID = await sessionFor(chatID, userID)
+    const pending = await opts.assistant.listPendingPermissions(sessionID)
+    const pendingQuestions = await opts.assistant.listPendingQuestions(sessionID)
+
+    for (const item of pending) {
+      await adapter.sendPrompt(chatID, permissionPrompt(item))
+      await opts.pendingInteractions.markAnnounced("permission", item, summarizePermission(item), { channel, chatID, userID })
+    }
+
+    for (const item of pendingQuestions) {
+      await opts.pendingInteractions.markAnnounced("question", item, summarizeQuestion(item), { channel, chatID, userID })
+      if (canUseWizard(item)) {
+        await promptQuestion(chatID, item)
+        continue
+      }
+      for (let i = 0; i < item.questions.length; i += 1) {
+        await adapter.sendText(chatID, formatQuestionLine(item, i))
+      }
+      await adapter.sendText(
+        chatID,
+        ["Reply with /answer <requestID> <answers>.", "For multiple questions use ';' between questions and ',' between labels."].join("\n"),
+      )
+    }
+
+    if (pending.length === 0 && pendingQuestions.length === 0) {
+      await adapter.sendText(chatID, "No pending approvals or questions for the current session.")
+    }
+
+    return { permissionCount: pending.length, questionCount: pendingQuestions.length }
+  }
+
+  const notifyPendingApproval = async (item: PendingPermission) => {
+    if (opts.pendingInteractions.isAnnounced(item.id)) return
+    const target = activeSessionRequests.get(item.sessionID)
+    if (!target) return
+
+    await opts.pendingInteractions.markAnnounced("permission", item, summarizePermission(item), { channel, ...target })
+    await adapter.sendPrompt(target.chatID, permissionPrompt(item))
+    await adapter.sendText(target.chatID, "OpenCode is waiting for approval. Tap a button above or run /approvals.")
+  }
+
+  const notifyPendingQuestion = async (item: PendingQuestion) => {
+    if (opts.pendingInteractions.isAnnounced(item.id)) return
+    const target = activeSessionRequests.get(item.sessionID)
+    if (!target) return
+
+    await opts.pendingInteractions.markAnnounced("question", item, summarizeQuestion(item), { channel, ...target })
+    if (canUseWizard(item)) {
+      await promptQuestion(target.chatID, item)
+      await adapter.sendText(target.chatID, "OpenCode needs your choice. Tap an option above.")
+      return
+    }
+
+    await adapter.sendText(
+      target.chatID,
+      [
+        ...item.questions.map((_, i) => formatQuestionLine(item, i)),
+        "OpenCode needs your answer.",
+        "Reply with /answer <requestID> <answers>.",
+        "For multiple questions use ';' between questions and ',' between labels.",
+      ].join("\n"),
+    )
+  }
+
+  opts.assistant.onPermissionAsked((item) => {
+    void notifyPendingApproval(item).catch((error) => {
+      opts.logger.warn({ err: error, channel, sessionID: item.sessionID, permissionID: item.id }, "failed to notify pending approval")
+    })
+  })
+
+  opts.assistant.onQuestionAsked((item) => {
+    void notifyPendingQuestion(item).catch((error) => {
+      opts.logger.warn({ err: error, channel, sessionID: item.sessionID, requestID: item.id }, "failed to notify pending question")
+    })
+  })
+
+  opts.assistant.onTextDelta((delta) => {
+    liveReplies.get(delta.sessionID)?.update(delta.text)
+  })
+
+  const flushOutbox = async () => {
+    if (flushingOutbox) return
+    flushingOutbox = true
+    try {
+      const pending = await listOutbox(channel)
+      for (const item of pending) {
+        const route = opts.identities.routeFor(channel, item.message.userID)
+        if (route.channel !== channel && runningChannels.has(route.channel)) {
+          await queueOutbox({ ...item.message, channel: route.channel, userID: route.userID })
+          await ackOutbox(item.filePath)
+          opts.logger.info({ channel, userID: item.message.userID, to: route }, "proactive message rerouted to linked account")
+          continue
+        }
+        const chatID = adapter.openDirectChat ? await adapter.openDirectChat(item.message.userID) : item.message.userID
+        let chunkCount = 1
+        if (item.message.buttons) {
+          await adapter.sendPrompt(chatID, { text: item.message.text, buttons: item.message.buttons })
+        } else {
+          chunkCount = await reply(chatID, item.message.text)
+        }
+        await ackOutbox(item.filePath)
+        opts.logger.info({ channel, userID: item.message.userID, chunkCount }, "proactive message sent")
+      }
+    } catch (error) {
+      opts.logger.warn({ err: error, channel }, "outbox flush failed")
+    } finally {
+      flushingOutbox = false
+    }
+  }
+
+  const pruneInboxFiles = async () => {
+    if (pruningInbox) return
+    pruningInbox = true
+    try {
+      const result = await pruneInbox(opts.inboxDir, inboxMaxAgeMs)
+      if (result.deleted > 0) {
+        opts.logger.info({ channel, deleted: result.deleted, kept: result.kept, inboxDir: opts.inboxDir }, "inbox pruned")
+      }
+    } catch (error) {
+      opts.logger.warn({ err: error, channel, inboxDir: opts.inboxDir }, "inbox prune failed")
+    } finally {
+      pruningInbox = false
+    }
+  }
+
+  const continueAfterUserInput = (params: { chatID: string; userID: string; sessionID: string; beforeAssistantSig: string; source: string }) => {
+    void (async () => {
+      try {
+        const text = await opts.assistant.waitForAssistantAfter(params.sessionID, params.beforeAssistantSig)
+        if (!text) return
+        const chunkCount = await reply(params.chatID, text)
+        opts.logger.info(
+          {
+            channel,
+            chatID: params.chatID,
+            userID: params.userID,
+            sessionID: params.sessionID,
+            source: params.source,
+            answerLength: text.length,
+            chunkCount,
+          },
+          "follow-up reply sent",
+        )
+      } catch (error) {
+        opts.logger.warn(
+          { err: error, channel, chatID: params.chatID, userID: params.userID, sessionID: params.sessionID, source: params.source },
+          "follow-up reply failed",
+        )
+      }
+    })()
+  }
+
+  const handleStart = async ({ chatID, userID }: IncomingCommand) => {
+    const allowed = isAllowed(userID)
+    opts.logger.info({ channel, chatID, userID, allowed }, "/start")
+    if (!allowed) {
+      await adapter.sendText(chatID, whitelistInstruction(userID))
+      return
+    }
+    await adapter.sendText(chatID, "MonClaw is online. Try /remember <note>.")
+  }
+
+  const handlePair = async ({ chatID, userID, args }: IncomingCommand) => {
+    const token = args.trim()
+
+    const state = await opts.pairAttempts.getState(channel, userID)
+    if (state.isLocked) {
+      opts.logger.warn({ channel, userID, failedCount: state.failedCount, lockedUntil: state.lockedUntil }, "pair locked")
+      await audit({ action: "pair", actor: `${channel}:${userID}`, decision: "locked" })
+      await adapter.sendText(chatID, "Too many failed attempts. Please try again later.")
+      return
+    }
+
+    if (!token) {
+      await adapter.sendText(chatID, "Usage: /pair <invite code>")
+      return
+    }
+    // Checked first so an already whitelisted account does not burn an invite.
+    const existing = opts.whitelist.roleOf(channel, userID)
+    if (existing) {
+      await opts.pairAttempts.clear(channel, userID)
+      await audit({ action: "pair", actor: `${channel}:${userID}`, decision: "already" })
+      await adapter.sendText(chatID, `You are already whitelisted as ${existing}.`)
+      return
+    }
+
+    const redeemed = await opts.invites.redeem(token, channel, userID)
+    let grant: { role: Role; via: string } | null = null
+    if (redeemed.ok) grant = { role: redeemed.role, via: `invite from ${redeemed.createdBy}` }
+    else if (opts.pairToken && token === opts.pairToken) grant = { role: "member", via: "pair token" }
+
+    if (!grant) {
+      // Codes minted for someone else count as failures too, so a leaked code cannot be probed for free.
+      const next = await opts.pairAttempts.recordFailure(channel, userID, opts.pairMaxAttempts, opts.pairLockMinutes)
+      opts.logger.warn(
+        { channel, userID, reason: redeemed.ok ? undefined : redeemed.reason, failedCount: next.failedCount, isLocked: next.isLocked, lockedUntil: next.lockedUntil },
+        "pair code rejected",
+      )
+      await audit({ action: "pair", actor: `${channel}:${userID}`, decision: next.isLocked ? "locked" : "invalid" })
+      if (next.isLocked) {
+        await adapter.sendText(chatID, "Too many failed attempts. Please try again later.")
+        return
+      }
+      await adapter.sendText(chatID, "Invalid or expired invite code.")
+      return
+    }
+
+    await opts.pairAttempts.clear(channel, userID)
+    await opts.whitelist.add(channel, userID, grant.role)
+    opts.logger.info({ channel, userID, role: grant.role, via: grant.via }, "pairing")
+    await audit({ action: "pair", actor: `${channel}:${userID}`, decision: "paired", detail: `${grant.role} via ${grant.via}` })
+    await adapter.sendText(chatID, `Pairing successful. You are now whitelisted as ${grant.role}.`)
+  }
+
+  const handleLink = async ({ chatID, userID, args }: IncomingCommand) => {
+    const code = args.trim()
+
+    if (!code) {
+      if (!isAllowed(userID)) {
+        await adapter.sendText(chatID, whitelistInstruction(userID))
+        return
+      }
+      const created = await opts.identities.createLinkCode(channel, userID, opts.linkCodeTtlMinutes)
+      opts.logger.info({ channel, userID, expiresAt: created.expiresAt }, "link code created")
+      const accounts = opts.identities.accountsFor(channel, userID)
+      await adapter.sendText(
+        chatID,
+        [
+          `Link code: ${created.code}`,
+          `From your other chat account, send /link ${created.code} within ${opts.linkCodeTtlMinutes} minute(s).`,
+          "The code works once. Anyone holding it can join your identity, so do not share it.",
+          ...(accounts.length > 1 ? ["", "Currently linked accounts:", formatAccounts(accounts)] : []),
+        ].join("\n"),
+      )
+      return
+    }
+
+    // Wrong codes count against the same lock as /pair so codes cannot be guessed.
+    const state = await opts.pairAttempts.getState(channel, userID)
+    if (state.isLocked) {
+      opts.logger.warn({ channel, userID, lockedUntil: state.lockedUntil }, "link locked")
+      await adapter.sendText(chatID, "Too many failed attempts. Please try again later.")
+      return
+    }
+
+    const result = await opts.identities.redeemLinkCode(code, channel, userID)
+    if (!result.ok) {
+      if (result.reason === "same-account") {
+        await adapter.sendText(chatID, "Send this code from the account you want to link, not from the one that created it.")
+        return
+      }
+      const next = await opts.pairAttempts.recordFailure(channel, userID, opts.pairMaxAttempts, opts.pairLockMinutes)
+      opts.logger.warn({ channel, userID, failedCount: next.failedCount, isLocked: next.isLocked }, "link code rejected")
+      await adapter.sendText(
+        chatID,
+        next.isLocked ? "Too many failed attempts. Please try again later." : "Invalid or expired link code.",
+      )
+      return
+    }
+
+    await opts.pairAttempts.clear(channel, userID)
+    opts.logger.info({ channel, userID, identityID: result.identityID, accountCount: result.accounts.length }, "accounts linked")
+    await adapter.sendText(chatID, ["Accounts linked:", formatAccounts(result.accounts)].join("\n"))
+  }
+
+  const handleNew = async ({ chatID, userID }: IncomingCommand) => {
+    const allowed = isAllowed(userID)
+    if (!allowed) {
+      await adapter.sendText(chatID, whitelistInstruction(userID))
+      return
+    }
+    if (!can(userID, "new_session")) {
+      await adapter.sendText(chatID, roleRefusal(userID, "start new sessions"))
+      return
+    }
+    const key = sessionKeyFor(chatID, userID)
+    if (key) {
+      const sessionID = await opts.assistant.startNewChatSession(key, `${channel}:${userID}`)
+      const scope = key.startsWith("user:") ? "you" : "this chat"
+      await audit({ action: "new", actor: `${channel}:${userID}`, sessionID, detail: key })
+      await adapter.sendText(chatID, `Started new session for ${scope}: ${sessionID}`)
+      return
+    }
+    const sessionID = await opts.assistant.startNewMainSession(`${channel}:${userID}`)
+    await audit({ action: "new", actor: `${channel}:${userID}`, sessionID, detail: "shared" })
+    await adapter.sendText(chatID, `Started new shared session: ${sessionID}`)
+  }
+
+  const handleRemember = async ({ chatID, userID, args }: IncomingCommand) => {
+    const allowed = isAllowed(userID)
+    opts.logger.info({ channel, chatID, userID, allowed }, "/remember")
+    if (!allowed) {
+      await adapter.sendText(chatID, whitelistInstruction(userID))
+      return
+    }
+    if (!can(userID, "remember")) {
+      await adapter.sendText(chatID, roleRefusal(userID, "write to long-term memory"))
+      return
+    }
+    const text = args.trim()
+    if (!text) {
+      await adapter.sendText(chatID, "Usage: /remember <text>")
+      return
+    }
+
+    await opts.assistant.remember(text, memorySource(userID))
+    await audit({ action: "remember", actor: `${channel}:${userID}`, detail: text.length > 200 ? `${text.slice(0, 199)}…` : text })
+    await adapter.sendText(chatID, "Saved to long-term memory.")
+  }
+
+  const handleApprovals = async ({ chatID, userID, name }: IncomingCommand) => {
+    const counts = await showPendingApprovals(chatID, userID)
+    opts.logger.info({ channel, chatID, userID, ...counts }, `/${name}`)
+  }
+
+  const handleAnswer = async ({ chatID, userID, args }: IncomingCommand) => {
+    const allowed = isAllowed(userID)
+    if (!allowed) {
+      await adapter.sendText(chatID, whitelistInstruction(userID))
+      return
+    }
+    if (!can(userID, "approve")) {
+      await adapter.sendText(chatID, roleRefusal(userID, "answer questions"))
+      return
+    }
+
+    const raw = args.trim()
+    const splitAt = raw.indexOf(" ")
+    if (!raw || splitAt <= 0) {
+      await adapter.sendText(chatID, "Usage: /answer <requestID> <answers>")
+      return
+    }
+
+    const requestID = raw.slice(0, splitAt).trim()
+    const answerText = raw.slice(splitAt + 1).trim()
+    if (!requestID || !answerText) {
+      await adapter.sendText(chatID, "Usage: /answer <requestID> <answers>")
+      return
+    }
+
+    const sessionID = await sessionFor(chatID, userID)
+    const pending = await opts.assistant.listPendingQuestions(sessionID)
+    const current = pending.find((item) => item.id === requestID)
+    if (!current) {
+      await adapter.sendText(chatID, "Question request not found or already handled.")
+      return
+    }
+
+    const answers = parseQuestionAnswers(answerText)
+    if (answers.length !== current.questions.length) {
+      await adapter.sendText(
+        chatID,
+        `This request expects ${current.questions.length} question answer group(s). Use ';' between questions and ',' between labels.`,
+      )
+      return
+    }
+
+    const beforeAssistantSig = await opts.assistant.getLatestAssistantSignature(sessionID)
+    await opts.assistant.replyQuestion(current.id, answers, `${channel}:${userID}`)
+    await opts.pendingInteractions.remove(current.id)
+    questionWizards.delete(current.id)
+    const waitingRef = await adapter.sendText(chatID, "Answer submitted. Waiting for assistant to continue...")
+    continueAfterUserInput({
+      chatID: followUpChat(chatID, waitingRef),
+      userID,
+      sessionID,
+      beforeAssistantSig,
+      source: "command:answer",
+    })
+  }
+
+  const handleQueue = async ({ chatID, userID, args }: IncomingCommand) => {
+    const allowed = isAllowed(userID)
+    if (!allowed) {
+      await adapter.sendText(chatID, whitelistInstruction(userID))
+      return
+    }
+
+    const queue = chatQueues.get(chatID) ?? []
+    if (args.trim().toLowerCase() === "clear") {
+      chatQueues.delete(chatID)
+      opts.logger.info({ channel, chatID, userID, cleared: queue.length }, "/queue clear")
+      await adapter.sendText(chatID, queue.length > 0 ? `Cleared ${queue.length} queued message(s).` : "Queue is already empty.")
+      return
+    }
+
+    if (queue.length === 0) {
+      const state = activeChats.has(chatID) ? "Working on a message; nothing else is queued." : "Queue is empty."
+      await adapter.sendText(chatID, state)
+      return
+    }
+    const lines = queue.map((message, index) => `${index + 1}. ${describeQueued(message)}`)
+    const footer = queueMode === "batch" ? "They will be sent together as the next prompt." : "They will be answered in order."
+    await adapter.sendText(chatID, [`Queued messages (${queue.length}/${queueDepth}):`, ...lines, footer, "Send /queue clear to drop them."].join("\n"))
+  }
+
+  const handleStop = async ({ chatID, userID }: IncomingCommand) => {
+    const allowed = isAllowed(userID)
+    if (!allowed) {
+      await adapter.sendText(chatID, whitelistInstruction(userID))
+      return
+    }
+    // Stopping rejects every pending approval and question of the session.
+    if (!can(userID, "approve")) {
+      await adapter.sendText(chatID, roleRefusal(userID, "stop sessions"))
+      return
+    }
+
+    const sessionID = await sessionFor(chatID, userID)
+    const running = activeSessionRequests.get(sessionID)
+    if (running) stoppedSessions.add(sessionID)
+    let result: SessionAbortResult
+    try {
+      result = await opts.assistant.abortSession(sessionID, `${channel}:${userID}`)
+    } catch (error) {
+      stoppedSessions.delete(sessionID)
+      opts.logger.error({ err: error, channel, chatID, userID, sessionID }, "/stop failed")
+      await adapter.sendText(chatID, "Could not stop the session. Check server logs.")
+      return
+    }
+
+    const dropped = chatQueues.get(chatID)?.length ?? 0
+    for (const [requestID, wizard] of questionWizards) {
+      if (wizard.sessionID === sessionID) questionWizards.delete(requestID)
+    }
+    customAnswerWaits.delete(`${chatID}:${userID}`)
+    chatQueues.delete(chatID)
+    activeChats.delete(chatID)
+    if (running) activeChats.delete(running.chatID)
+    activeSessionRequests.delete(sessionID)
+    const live = liveReplies.get(sessionID)
+    liveReplies.delete(sessionID)
+    await live?.cancel().catch((error: unknown) => {
+      opts.logger.debug({ err: error, channel, chatID }, "failed to clear streamed reply")
+    })
+
+    const lines: string[] = []
+    if (running || result.aborted) lines.push("Stopped the reply in progress.")
+    if (result.rejectedPermissions > 0) lines.push(`Rejected ${result.rejectedPermissions} pending approval(s).`)
+    if (result.rejectedQuestions > 0) lines.push(`Rejected ${result.rejectedQuestions} pending question(s).`)
+    if (dropped > 0) lines.push(`Dropped ${dropped} queued message(s).`)
+    opts.logger.info({ channel, chatID, userID, sessionID, running: Boolean(running), dropped, ...result }, "/stop")
+    await adapter.sendText(chatID, lines.length > 0 ? lines.join("\n") : "Nothing to stop.")
+  }
+
+  const handleUsage = async ({ chatID, userID }: IncomingCommand) => {
+    if (!isAllowed(userID)) {
+      await adapter.sendText(chatID, whitelistInstruction(userID))
+      return
+    }
+    if (!opts.usage) {
+      await adapter.sendText(chatID, "No usage limits are configured.")
+      return
+    }
+    const subject = usageSubject(opts.whitelist, opts.identities, channel, userID)
+    const lines = opts.usage.allowance(subject).map(formatUsageAllowance)
+    await adapter.sendText(chatID, [`Your allowance (${subject.role ?? "none"}):`, ...lines, "Daily counts reset at 00:00 UTC."].join("\n"))
+  }
+
+  const handleCost = async ({ chatID, userID }: IncomingCommand) => {
+    if (!isAllowed(userID)) {
+      await adapter.sendText(chatID, whitelistInstruction(userID))
+      return
+    }
+    const costs = opts.costs
+    if (!costs) {
+      await adapter.sendText(chatID, "Cost tracking is not enabled.")
+      return
+    }
+    const now = new Date().toISOString()
+    const status = costs.budgetStatus()
+    const monthLine = `This month: ${formatCostTotals(costs.month(status.month))}`
+    const sources = opts.identities.accountsFor(channel, userID).map((account) => `${account.channel}:${account.userID}`)
+    const session = costs.session(await sessionFor(chatID, userID))
+    const lines = [
+      "Model usage (UTC):",
+      `Today: ${formatCostTotals(costs.day(now.slice(0, 10)))}`,
+      status.budget > 0 ? `${monthLine} of ${formatUSD(status.budget)} budget (${Math.floor((status.spent / status.budget) * 100)}%)` : monthLine,
+      `You this month: ${formatCostTotals(costs.user(status.month, sources))}`,
+      `This conversation's session: ${session ? formatCostTotals(session) : "nothing recorded yet"}`,
+    ]
+    if (can(userID, "manage_users")) {
+      const top = costs.topUsers(status.month, 5)
+      if (top.length > 0) lines.push("Top this month:", ...top.map((item) => `- ${item.source}: ${formatCostTotals(item.totals)}`))
+    }
+    await adapter.sendText(chatID, lines.join("\n"))
+  }
+
+  const handleAudit = async ({ chatID, userID, args }: IncomingCommand) => {
+    if (!isAllowed(userID)) {
+      await adapter.sendText(chatID, whitelistInstruction(userID))
+      return
+    }
+    // Reading who did what is part of managing users.
+    if (!can(userID, "manage_users")) {
+      opts.logger.warn({ channel, chatID, userID }, "/audit refused")
+      await adapter.sendText(chatID, roleRefusal(userID, "read the audit log"))
+      return
+    }
+
+    const filter = parseAuditArgs(args)
+    if (!filter) {
+      await adapter.sendText(chatID, AUDIT_USAGE)
+      return
+    }
+    const entries = await opts.auditLog.recent(filter)
+    opts.logger.info({ channel, chatID, userID, ...filter, count: entries.length }, "/audit")
+    if (entries.length === 0) {
+      await adapter.sendText(chatID, "No matching audit entries.")
+      return
+    }
+    await reply(chatID, [`Last ${entries.length} audit entries (${opts.auditLog.displayFile()}):`, ...entries.map(formatAuditEntry)].join("\n"))
+  }
+
+  // Admin-only commands share this gate; returns false after telling the caller why.
+  const requireUserAdmin = async (chatID: string, userID: string, name: string): Promise<boolean> => {
+    if (!isAllowed(userID)) {
+      await adapter.sendText(chatID, whitelistInstruction(userID))
+      return false
+    }
+    if (!can(userID, "manage_users")) {
+      opts.logger.warn({ channel, chatID, userID }, `/${name} refused`)
+      await adapter.sendText(chatID, roleRefusal(userID, "manage users"))
+      return false
+    }
+    return true
+  }
+
+  const isSelf = (userID: string, account: { channel: ChannelName; userID: string }): boolean => {
+    return opts.identities.accountsFor(channel, userID).some((own) => own.channel === account.channel && own.userID === account.userID)
+  }
+
+  const handleUsers = async ({ chatID, userID, name }: IncomingCommand) => {
+    if (!(await requireUserAdmin(chatID, userID, name))) return
+    const entries = opts.whitelist.list()
+    opts.logger.info({ channel, chatID, userID, count: entries.length }, "/users")
+    if (entries.length === 0) {
+      await adapter.sendText(chatID, "The whitelist is empty.")
+      return
+    }
+    await reply(chatID, [`Whitelisted users (${entries.length}):`, ...entries.map((entry) => formatWhitelistEntry(entry, isSelf(userID, entry)))].join("\n"))
+  }
+
+  // /invite code [role] [[channel:]userID]: the code is shown only to the admin, who passes it on.
+  const createInviteCode = async (chatID: string, userID: string, args: string[]) => {
+    const role = (args[0] ?? "member").toLowerCase()
+    const target = args[1] ? parseAccountArg(args[1], channel) : undefined
+    if (!isRole(role) || target === null || args.length > 2) {
+      await adapter.sendText(chatID, INVITE_USAGE)
+      return
+    }
+    const actor = `${channel}:${userID}`
+    const created = await opts.invites.create({ role, createdBy: actor, ttlMinutes: opts.inviteTtlMinutes, ...(target ? { target } : {}) })
+    const scope = target ? `for ${target.channel}:${target.userID}` : "for anyone"
+    await audit({ action: "user.invite", actor, decision: role, detail: `code ${scope}, expires ${created.expiresAt}` })
+    opts.logger.info({ channel, userID, role, target, expiresAt: created.expiresAt }, "invite code created")
+    await adapter.sendText(
+      chatID,
+      [
+        `Invite code: ${created.code}`,
+        `Grants ${role}, ${scope}. Send it with: /pair ${created.code}`,
+        `It works once and expires in ${opts.inviteTtlMinutes} minute(s).`,
+      ].join("\n"),
+    )
+  }
+
+  const handleInvite = async ({ chatID, userID, args, name }: IncomingCommand) => {
+    if (!(await requireUserAdmin(chatID, userID, name))) return
+    const [first = "", ...rest] = args.trim().split(/\s+/)
+    if (first.toLowerCase() === "code") {
+      await createInviteCode(chatID, userID, rest)
+      return
+    }
+    const account = parseAccountArg(first, channel)
+    const role = (rest[0] ?? "member").toLowerCase()
+    if (!account || !isRole(role)) {
+      await adapter.sendText(chatID, INVITE_USAGE)
+      return
+    }
+    const existing = opts.whitelist.roleOf(account.channel, account.userID)
+    if (existing) {
+      await adapter.sendText(chatID, `${account.channel}:${account.userID} is already whitelisted as ${existing}. Use /promote to change the role.`)
+      return
+    }
+    await opts.whitelist.add(account.channel, account.userID, role)
+    await audit({ action: "user.invite", actor: `${channel}:${userID}`, decision: role, detail: `${account.channel}:${account.userID}` })
+    opts.logger.info({ channel, userID, target: account, role }, "user invited")
+    await adapter.sendText(chatID, `Whitelisted ${account.channel}:${account.userID} as ${role}.`)
+  }
+
+  const handlePromote = async ({ chatID, userID, args, name }: IncomingCommand) => {
+    if (!(await requireUserAdmin(chatID, userID, name))) return
+    const [rawAccount = "", rawRole = ""] = args.trim().split(/\s+/)
+    const account = parseAccountArg(rawAccount, channel)
+    const role = rawRole.toLowerCase()
+    if (!account || !isRole(role)) {
+      await adapter.sendText(chatID, "Usage: /promote <[channel:]userID> <admin|member|viewer>")
+      return
+    }
+    const previous = opts.whitelist.roleOf(account.channel, account.userID)
+    if (!previous) {
+      await adapter.sendText(chatID, `${account.channel}:${account.userID} is not whitelisted. Use /invite first.`)
+      return
+    }
+    // Changing your own role could leave nobody able to manage users.
+    if (isSelf(userID, account)) {
+      await adapter.sendText(chatID, "You cannot change your own role. Ask another admin.")
+      return
+    }
+    if (!(await opts.whitelist.setRole(account.channel, account.userID, role))) {
+      await adapter.sendText(chatID, `${account.channel}:${account.userID} is already ${role}.`)
+      return
+    }
+    await audit({ action: "user.promote", actor: `${channel}:${userID}`, decision: role, detail: `${account.channel}:${account.userID} was ${previous}` })
+    opts.logger.info({ channel, userID, target: account, previous, role }, "user role changed")
+    await adapter.sendText(chatID, `${account.channel}:${account.userID} is now ${role} (was ${previous}).`)
+  }
+
+  const handleRevoke = async ({ chatID, userID, args, name }: IncomingCommand) => {
+    if (!(await requireUserAdmin(chatID, userID, name))) return
+    const account = parseAccountArg(args, channel)
+    if (!account) {
+      await adapter.sendText(chatID, "Usage: /revoke <[channel:]userID>")
+      return
+    }
+    if (isSelf(userID, account)) {
+      await adapter.sendText(chatID, "You cannot revoke your own access. Ask another admin.")
+      return
+    }
+    const previous = await opts.whitelist.remove(account.channel, account.userID)
+    if (!previous) {
+      await adapter.sendText(chatID, `${account.channel}:${account.userID} is not whitelisted.`)
+      return
+    }
+
+    // Requests the revoked user was asked to answer are rejected rather than left for nobody.
+    const actor = `${channel}:${userID}`
+    let rejected = 0
+    for (const record of opts.pendingInteractions.list()) {
+      if (record.target?.channel !== account.channel || record.target.userID !== account.userID) continue
+      try {
+        if (record.kind === "permission") {
+          await opts.assistant.replyPermission(record.requestID, "reject", "The requester's access was revoked.", record.sessionID, actor)
+        } else {
+          await opts.assistant.rejectQuestion(record.requestID, actor)
+          questionWizards.delete(record.requestID)
+        }
+        rejected += 1
+      } catch (error) {
+        opts.logger.warn({ err: error, channel, requestID: record.requestID }, "failed to reject request of revoked user")
+      }
+      await opts.pendingInteractions.remove(record.requestID)
+    }
+    const cancelledJobs = opts.asyncBashQueueDir
+      ? await cancelQueuedAsyncBashJobs(opts.asyncBashQueueDir, account.channel, account.userID, `Access revoked by ${actor}.`)
+      : 0
+
+    await audit({
+      action: "user.revoke",
+      actor,
+      decision: previous,
+      detail: `${account.channel}:${account.userID}; rejected ${rejected} request(s), cancelled ${cancelledJobs} job(s)`,
+    })
+    opts.logger.info({ channel, userID, target: account, previous, rejected, cancelledJobs }, "user revoked")
+    const lines = [`Revoked ${account.channel}:${account.userID} (was ${previous}).`]
+    if (rejected > 0) lines.push(`Rejected ${rejected} pending approval(s)/question(s).`)
+    if (cancelledJobs > 0) lines.push(`Cancelled ${cancelledJobs} queued async_bash job(s).`)
+    const linked = opts.identities
+      .accountsFor(account.channel, account.userID)
+      .filter((other) => opts.whitelist.isWhitelisted(other.channel, other.userID))
+    if (linked.length > 0) lines.push(`Still whitelisted through linked accounts: ${linked.map((other) => `${other.channel}:${other.userID}`).join(", ")}`)
+    await adapter.sendText(chatID, lines.join("\n"))
+  }
+
+  const commandHandlers: Record<string, (command: IncomingCommand) => Promise<void>> = {
+    start: handleStart,
+    pair: handlePair,
+    link: handleLink,
+    new: handleNew,
+    remember: handleRemember,
+    approvals: handleApprovals,
+    approval: handleApprovals,
+    answer: handleAnswer,
+    queue: handleQueue,
+    stop: handleStop,
+    usage: handleUsage,
+    cost: handleCost,
+    audit: handleAudit,
+    users: handleUsers,
+    invite: handleInvite,
+    promote: handlePromote,
+    revoke: handleRevoke,
+  }
+
+  const onCommand = async (command: IncomingCommand) => {
+    const handler = commandHandlers[command.name]
+    if (!handler) return
+    await handler(command)
+  }
+
+  // Shows the next question, or submits every answer once the last one is in.
+  const advanceQuestionWizard = async (wizard: QuestionWizard, chatID: string, userID: string, source: string) => {
+    if (!isComplete(wizard)) {
+      await adapter.sendPrompt(chatID, wizardPrompt(wizard))
+      return
+    }
+
+    questionWizards.delete(wizard.requestID)
+    const beforeAssistantSig = await opts.assistant.getLatestAssistantSignature(wizard.sessionID)
+    await opts.assistant.replyQuestion(wizard.requestID, wizard.answers, `${channel}:${userID}`)
+    await opts.pendingInteractions.remove(wizard.requestID)
+    const waitingRef = await adapter.sendText(chatID, "Answer submitted. Waiting for assistant to continue...")
+    continueAfterUserInput({
+      chatID: followUpChat(chatID, waitingRef),
+      userID,
+      sessionID: wizard.sessionID,
+      beforeAssistantSig,
+      source,
+    })
+  }
+
+  const onAction = async (ctx: IncomingAction) => {
+    const parsed = decodeApprovalAction(ctx.action)
+    const wizardAction = decodeWizardAction(ctx.action)
+    if (!parsed && !wizardAction) return
+
+    const { chatID, userID } = ctx
+    if (!userID) {
+      await ctx.acknowledge("Unknown user", true)
+      return
+    }
+    if (!chatID) {
+      await ctx.acknowledge("Unknown chat", true)
+      return
+    }
+    const allowed = isAllowed(userID)
+    if (!allowed) {
+      await ctx.acknowledge("Access restricted", true)
+      return
+    }
+    if (!can(userID, "approve")) {
+      opts.logger.warn({ channel, chatID, userID, requestID: parsed?.requestID ?? wizardAction?.requestID }, "approval refused by role")
+      await ctx.acknowledge(roleRefusal(userID, parsed ? "answer approval requests" : "answer questions"), true)
+      return
+    }
+
+    const sessionID = await sessionFor(chatID, userID)
+
+    if (parsed) {
+      const current = await findPendingPermission(sessionID, parsed.requestID, userID)
+      if (!current) {
+        await ctx.acknowledge("Request already handled or expired.")
+        await ctx.clearButtons()
+        return
+      }
+
+      const beforeAssistantSig = await opts.assistant.getLatestAssistantSignature(sessionID)
+      await opts.assistant.replyPermission(current.id, parsed.action, undefined, current.sessionID, `${channel}:${userID}`)
+      await opts.pendingInteractions.remove(current.id)
+
+      const actionText = parsed.action === "reject" ? "Rejected" : "Approved"
+      await ctx.acknowledge(`${actionText}.`)
+      await ctx.clearButtons()
+
+      if (current.sessionID !== sessionID) {
+        // Asked in another conversation; the assistant continues there, not here.
+        opts.logger.info({ channel, chatID, userID, requestID: current.id, sessionID: current.sessionID, action: parsed.action }, "approval answered from another session")
+        await adapter.sendText(chatID, parsed.action === "reject" ? "Approval rejected." : "Approval submitted.")
+        return
+      }
+
+      if (parsed.action === "reject") {
+        await adapter.sendText(chatID, "Approval rejected.")
+        return
+      }
+
+      const remaining = await opts.assistant.listPendingPermissions(sessionID)
+      if (remaining.length > 0) {
+        await adapter.sendText(chatID, `Approval submitted. ${remaining.length} approval request(s) still pending.`)
+        return
+      }
+
+      const waitingRef = await adapter.sendText(chatID, "Approval submitted. Waiting for assistant to continue...")
+      continueAfterUserInput({
+        chatID: followUpChat(chatID, waitingRef),
+        userID,
+        sessionID,
+        beforeAssistantSig,
+        source: "callback:permission",
+      })
+      return
+    }
+
+    const pendingQuestions = await opts.assistant.listPendingQuestions(sessionID)
+    const current = pendingQuestions.find((item) => item.id === wizardAction?.requestID)
+    if (!current || !wizardAction) {
+      if (wizardAction) questionWizards.delete(wizardAction.requestID)
+      await ctx.acknowledge("Question already handled or expired.")
+      await ctx.clearButtons()
+      return
+    }
+
+    const wizard = questionWizards.get(current.id) ?? startWizard(current)
+    questionWizards.set(current.id, wizard)
+    const question = currentQuestion(wizard)
+    if (!question || wizardAction.questionIndex !== wizard.index) {
+      await ctx.acknowledge("That question was already answered.")
+      await ctx.clearButtons()
+      return
+    }
+
+    const waitKey = `${chatID}:${userID}`
+    if (wizardAction.kind === "custom") {
+      customAnswerWaits.set(waitKey, { requestID: current.id, questionIndex: wizard.index })
+      await ctx.acknowledge("Send your answer as a message.")
+      await adapter.sendText(chatID, `Type your answer to "${question.header}" and send it as your next message.`)
+      return
+    }
+
+    if (wizardAction.kind === "pick") {
+      const option = question.options[wizardAction.optionIndex]
+      if (!option) {
+        await ctx.acknowledge("Invalid option.", true)
+        return
+      }
+      if (question.multiple) {
+        const added = toggleOption(wizard, wizardAction.optionIndex)
+        await ctx.acknowledge(`${added ? "Selected" : "Removed"}: ${option.label}`)
+        const prompt = wizardPrompt(wizard)
+        if (ctx.updatePrompt) {
+          await ctx.updatePrompt(prompt)
+        } else {
+          await ctx.clearButtons()
+          await adapter.sendPrompt(chatID, prompt)
+        }
+        return
+      }
+      answerCurrent(wizard, [option.label])
+      await ctx.acknowledge(`Selected: ${option.label}`)
+    } else {
+      const labels = selectedLabels(wizard)
+      if (labels.length === 0) {
+        await ctx.acknowledge("Select at least one option first.", true)
+        return
+      }
+      answerCurrent(wizard, labels)
+      await ctx.acknowledge(`Selected: ${labels.join(", ")}`)
+    }
+
+    customAnswerWaits.delete(waitKey)
+    await ctx.clearButtons()
+    await advanceQuestionWizard(wizard, chatID, userID, "callback:question")
+  }
+
+  // A typed answer for a "Type custom answer" step; false lets the message through as a normal prompt.
+  const takeCustomAnswer = async (message: IncomingMessage): Promise<boolean> => {
+    const waitKey = `${message.chatID}:${message.userID}`
+    const wait = customAnswerWaits.get(waitKey)
+    const text = message.text.trim()
+    if (!wait || message.media || !text) return false
+    customAnswerWaits.delete(waitKey)
+    // The role may have changed since the button was tapped.
+    if (!can(message.userID, "approve")) return false
+
+    const wizard = questionWizards.get(wait.requestID)
+    if (!wizard || wizard.index !== wait.questionIndex) return false
+    const pending = await opts.assistant.listPendingQuestions(wizard.sessionID)
+    if (!pending.some((item) => item.id === wizard.requestID)) {
+      questionWizards.delete(wizard.requestID)
+      return false
+    }
+
+    // Options toggled before choosing to type are kept alongside the typed answer.
+    answerCurrent(wizard, [...selectedLabels(wizard), text])
+    await advanceQuestionWizard(wizard, message.chatID, message.userID, "message:question")
+    return true
+  }
+
+  const startTyping = async (chatID: string): Promise<() => void> => {
+    if (!adapter.sendTyping) return () => {}
+    const sendTyping = () =>
+      adapter.sendTyping?.(chatID).catch((err: unknown) => {
+        opts.logger.debug({ err, channel, chatID }, "failed to send typing action")
+      })
+    await sendTyping()
+    const typingTimer = setInterval(() => {
+      void sendTyping()
+    }, 3500)
+    return () => clearInterval(typingTimer)
+  }
+
+  const saveAttachments = async (message: IncomingMessage): Promise<string[]> => {
+    const filePaths: string[] = []
+    for (const media of message.attachments ?? []) {
+      const file = await media.fetch()
+      if (!file) continue
+      const saved = await saveInboxBinary({
+        dir: opts.inboxDir,
+        channel,
+        userID: message.userID,
+        kind: media.kind,
+        extension: file.extension,
+        data: file.data,
+        metadata: file.metadata,
+      })
+      filePaths.push(saved.filePath)
+    }
+    return filePaths
+  }
+
+  const handleTextMessage = async (message: IncomingMessage) => {
+    const { chatID, userID } = message
+    const text = message.text.trim()
+    if (!text && !message.attachments?.length) return
+
+    const startedAt = Date.now()
+    const allowed = isAllowed(userID)
+    opts.logger.info({ channel, chatID, userID, allowed, textLength: text.length }, "message received")
+    if (!allowed) {
+      await adapter.sendText(chatID, whitelistInstruction(userID))
+      return
+    }
+    if (!(await withinBudget(chatID, userID))) return
+    if (!(await chargeUsage(chatID, userID, message.attachments?.length ? "media" : "prompt"))) return
+
+    await opts.identities.touch(channel, userID)
+    const sessionID = await sessionFor(chatID, userID)
+    const request = { chatID, userID }
+    activeSessionRequests.set(sessionID, request)
+
+    const stopTyping = await startTyping(chatID)
+    let live: LiveReply | null = null
+    try {
+      const filePaths = await saveAttachments(message)
+      live = await startLiveReply(adapter, chatID, (error) => {
+        opts.logger.debug({ err: error, channel, chatID }, "streamed reply edit failed")
+      })
+      if (live) liveReplies.set(sessionID, live)
+      const answer = await opts.assistant.ask({
+        channel,
+        userID,
+        text: filePaths.length > 0 ? buildAttachmentPrompt({ channelLabel: adapter.displayName, text, filePaths }) : text,
+        sessionKey: sessionKeyFor(chatID, userID),
+      })
+      if (stoppedSessions.delete(sessionID)) {
+        await live?.cancel()
+        opts.logger.info({ channel, chatID, userID, sessionID }, "reply dropped after /stop")
+        return
+      }
+
+      const chunkCount = live ? await live.finish(answer) : await reply(chatID, answer)
+      opts.logger.info(
+        {
+          channel,
+          chatID,
+          userID,
+          durationMs: Date.now() - startedAt,
+          answerLength: answer.length,
+          chunkCount,
+          streamed: live !== null,
+        },
+        "reply sent",
+      )
+    } catch (error) {
+      await live?.cancel().catch((cancelError: unknown) => {
+        opts.logger.debug({ err: cancelError, channel, chatID }, "failed to clear streamed reply")
+      })
+      if (stoppedSessions.delete(sessionID)) return
+      opts.logger.error({ err: error, channel, chatID, userID, durationMs: Date.now() - startedAt }, "message handling failed")
+
+      try {
+        const pending = await showPendingApprovals(chatID, userID)
+        if (pending.permissionCount + pending.questionCount > 0) {
+          await adapter.sendText(chatID, "Your request is waiting for approval or question input. Use the buttons above or run /approvals.")
+          return
+        }
+      } catch (approvalError) {
+        opts.logger.warn({ err: approvalError, channel, chatID, userID }, "failed to check pending approvals")
+      }
+
+      await adapter.sendText(chatID, "I hit an internal error while preparing the reply. Check server logs.")
+    } finally {
+      if (liveReplies.get(sessionID) === live) liveReplies.delete(sessionID)
+      if (activeSessionRequests.get(sessionID) === request) activeSessionRequests.delete(sessionID)
+      stopTyping()
+    }
+  }
+
+  const handleMediaMessage = async (message: IncomingMessage) => {
+    const media = message.media
+    if (!media) return
+    const { chatID, userID } = message
+    const kind = media.kind
+    const startedAt = Date.now()
+    const allowed = isAllowed(userID)
+    if (!allowed) {
+      await adapter.sendText(chatID, whitelistInstruction(userID))
+      return
+    }
+    if (!(await withinBudget(chatID, userID))) return
+    if (!(await chargeUsage(chatID, userID, "media"))) return
+
+    const caption = message.text.trim()
+    await opts.identities.touch(channel, userID)
+    const sessionID = await sessionFor(chatID, userID)
+    const request = { chatID, userID }
+    activeSessionRequests.set(sessionID, request)
+
+    const stopTyping = await startTyping(chatID)
+    try {
+      const file = await media.fetch()
+      if (!file) {
+        await adapter.sendText(chatID, `I could not read this media file from ${adapter.displayName}.`)
+        return
+      }
+
+      const saved = await saveInboxBinary({
+        dir: opts.inboxDir,
+        channel,
+        userID,
+        kind,
+        extension: file.extension,
+        data: file.data,
+        metadata: {
+          ...file.metadata,
+          caption,
+        },
+      })
+
+      const prompt = buildMediaPrompt({ channelLabel: adapter.displayName, kind, filePath: saved.filePath, caption })
+      const answer = await opts.assistant.ask({
+        channel,
+        userID,
+        text: prompt,
+        sessionKey: sessionKeyFor(chatID, userID),
+      })
+      if (stoppedSessions.delete(sessionID)) {
+        opts.logger.info({ channel, chatID, userID, sessionID, kind }, "media reply dropped after /stop")
+        return
+      }
+      const chunkCount = await reply(chatID, answer)
+      opts.logger.info(
+        {
+          channel,
+          chatID,
+          userID,
+          kind,
+          durationMs: Date.now() - startedAt,
+          savedFilePath: saved.filePath,
+          answerLength: answer.length,
+          chunkCount,
+        },
+        "media reply sent",
+      )
+    } catch (error) {
+      if (stoppedSessions.delete(sessionID)) return
+      opts.logger.error({ err: error, channel, chatID, userID, kind, durationMs: Date.now() - startedAt }, "media message handling failed")
+      await adapter.sendText(chatID, "I hit an internal error while handling this media message. Check server logs.")
+    } finally {
+      if (activeSessionRequests.get(sessionID) === request) activeSessionRequests.delete(sessionID)
+      stopTyping()
+    }
+  }
+
+  // Handles a message, then whatever queued up for the chat meanwhile, one turn at a time.
+  const drainChat = async (chatID: string, first: IncomingMessage) => {
+    const token = Symbol(chatID)
+    activeChats.set(chatID, token)
+    try {
+      let next: IncomingMessage | undefined = first
+      while (next) {
+        const handle = next.media ? handleMediaMessage : handleTextMessage
+        // Nobody awaits this loop: a throw here would be an unhandled rejection and stop the process.
+        try {
+          await handle(next)
+        } catch (error) {
+          opts.logger.error({ err: error, channel, chatID, userID: next.userID }, "message handling failed")
+          await adapter.sendText(chatID, "I could not handle this message. Check server logs.").catch((sendError: unknown) => {
+            opts.logger.warn({ err: sendError, channel, chatID }, "failed to report message handling error")
+          })
+        }
+        if (activeChats.get(chatID) !== token) return
+        const queue = chatQueues.get(chatID)
+        next = queue ? takeQueued(queue, queueMode) : undefined
+        if (queue?.length === 0) chatQueues.delete(chatID)
+      }
+    } finally {
+      if (activeChats.get(chatID) === token) activeChats.delete(chatID)
+    }
+  }
+
+  const onMessage = async (message: IncomingMessage) => {
+    if (!message.media && !message.attachments?.length && message.text.trim().startsWith("/")) return
+    if (await takeCustomAnswer(message)) return
+
+    const chatID = message.chatID
+    if (!activeChats.has(chatID)) {
+      void drainChat(chatID, message)
+      return
+    }
+
+    if (!isAllowed(message.userID)) {
+      await adapter.sendText(chatID, whitelistInstruction(message.userID))
+      return
+    }
+    const queue = chatQueues.get(chatID) ?? []
+    if (queue.length >= queueDepth) {
+      await adapter.sendText(
+        chatID,
+        queueDepth === 0
+          ? "Still working on your previous message. You can use /approvals if it is waiting for permission or question input."
+          : `Still working, and the queue is full (${queueDepth} messages). Use /queue to see or clear it.`,
+      )
+      return
+    }
+    queue.push(message)
+    chatQueues.set(chatID, queue)
+    opts.logger.info({ channel, chatID, userID: message.userID, position: queue.length, queueMode }, "message queued")
+    await adapter.sendText(
+      chatID,
+      queueMode === "batch"
+        ? "Still working on your previous message. I'll include this in the next prompt."
+        : `Still working on your previous message. Queued as #${queue.length}.`,
+    )
+  }
+
+  const startPromise = adapter.start({ commands: COMMANDS, onCommand, onMessage, onAction })
+  void pruneInboxFiles()
+  void flushOutbox()
+  setInterval(() => {
+    void pruneInboxFiles()
+  }, 60 * 60 * 1000)
+  setInterval(() => {
+    void flushOutbox()
+  }, 60000)
+  opts.logger.info({ channel }, "channel adapter started")
+  await startPromise
+}
@@ -0,0 +1,352 @@
+import type { Logger } from "pino"
+import { basename } from "../utils/path"
+import type { InboxKind } from "../utils/inbox"
+import type { ChannelAdapter, ChannelHandlers, ChannelPrompt, IncomingMedia } from "./types"
+
+type SlackAdapterOptions = {
+  appToken: string
+  botToken: string
+  logger: Logger
+  apiUrl?: string
+}
+
+type SocketEnvelope = {
+  envelope_id?: string
+  type?: string
+  payload?: unknown
+  reason?: string
+}
+
+type SlackFile = {
+  id: string
+  name?: string
+  mimetype?: string
+  size?: number
+  url_private_download?: string
+}
+
+type SlackMessageEvent = {
+  type?: string
+  subtype?: string
+  user?: string
+  bot_id?: string
+  channel?: string
+  channel_type?: string
+  text?: string
+  ts?: string
+  thread_ts?: string
+  files?: SlackFile[]
+}
+
+type SlackSlashCommand = {
+  command?: string
+  text?: string
+  user_id?: string
+  channel_id?: string
+}
+
+type SlackBlockActions = {
+  type?: string
+  user?: { id?: string }
+  channel?: { id?: string }
+  container?: { channel_id?: string; message_ts?: string }
+  message?: { ts?: string; thread_ts?: string; text?: string }
+  actions?: Array<{ action_id?: string; value?: string }>
+}
+
+const DEFAULT_API_URL = "https://slack.com/api"
+
+// Slash commands are workspace-global, so installs may register them as /monclaw-<name>.
+const COMMAND_PREFIX = /^\/(?:monclaw[-_])?/
+
+function splitChatID(chatID: string): { channel: string; threadTS?: string } {
+  const idx = chatID.indexOf(":")
+  if (idx <= 0) return { channel: chatID }
+  return { channel: chatID.slice(0, idx), threadTS: chatID.slice(idx + 1) || undefined }
+}
+
+function joinChatID(channel: string, threadTS?: string): string {
+  return threadTS ? `${channel}:${threadTS}` : channel
+}
+
+function mediaKind(file: SlackFile): InboxKind | null {
+  const mimeType = file.mimetype ?? ""
+  if (mimeType.startsWith("audio/")) return "voice"
+  if (mimeType.startsWith("image/")) return "photo"
+  return null
+}
+
+function pickFileExtension(fileName: string | undefined, fallback: string): string {
+  const match = fileName?.match(/(\.[A-Za-z0-9]+)$/)
+  return match ? match[1] : fallback
+}
+
+function promptBlocks(prompt: ChannelPrompt): unknown[] {
+  return [
+    { type: "section", text: { type: "plain_text", text: prompt.text } },
+    ...prompt.buttons.map((row) => ({
+      type: "actions",
+      elements: row.map((button) => ({
+        type: "button",
+        text: { type: "plain_text", text: button.label.slice(0, 75) },
+        action_id: button.action,
+        value: button.action,
+        ...(button.action.startsWith("apr:r:") ? { style: "danger" } : {}),
+      })),
+    })),
+  ]
+}
+
+function stripMention(text: string): string {
+  return text.replace(/<@[A-Z0-9]+>/g, "").trim()
+}
+
+export class SlackAdapter implements ChannelAdapter {
+  readonly name = "slack" as const
+  readonly displayName = "Slack"
+  readonly maxMessageLength = 3000
+  private readonly apiUrl: string
+  private readonly directChats = new Map<string, string>()
+  private socket?: WebSocket
+  private stopped = false
+  private resolveStopped?: () => void
+
+  constructor(private readonly opts: SlackAdapterOptions) {
+    this.apiUrl = (opts.apiUrl ?? DEFAULT_API_URL).replace(/\/+$/g, "")
+  }
+
+  async start(handlers: ChannelHandlers): Promise<void> {
+    const stoppedPromise = new Promise<void>((resolve) => {
+      this.resolveStopped = resolve
+    })
+    await this.connect(handlers)
+    await stoppedPromise
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true
+    this.socket?.close(1000)
+    this.resolveStopped?.()
+  }
+
+  async sendText(chatID: string, text: string): Promise<string> {
+    const { channel, threadTS } = splitChatID(chatID)
+    const result = await this.call<{ ts?: string }>(this.opts.botToken, "chat.postMessage", {
+      channel,
+      text,
+      ...(threadTS ? { thread_ts: threadTS } : {}),
+    })
+    return result.ts ?? ""
+  }
+
+  async sendFile(chatID: string, filePath: string, caption?: string): Promise<void> {
+    const { channel, threadTS } = splitChatID(chatID)
+    const data = new Uint8Array(await Bun.file(filePath).arrayBuffer())
+    const fileName = basename(filePath)
+    const upload = await this.call<{ upload_url: string; file_id: string }>(this.opts.botToken, "files.getUploadURLExternal", {
+      filename: fileName,
+      length: data.byteLength,
+    })
+    const response = await fetch(upload.upload_url, { method: "POST", body: data })
+    if (!response.ok) {
+      throw new Error(`slack file upload failed: HTTP ${response.status}`)
+    }
+    await this.call(this.opts.botToken, "files.completeUploadExternal", {
+      files: [{ id: upload.file_id, title: fileName }],
+      channel_id: channel,
+      ...(caption ? { initial_comment: caption } : {}),
+      ...(threadTS ? { thread_ts: threadTS } : {}),
+    })
+  }
+
+  async sendPrompt(chatID: string, prompt: ChannelPrompt): Promise<void> {
+    const { channel, threadTS } = splitChatID(chatID)
+    await this.call(this.opts.botToken, "chat.postMessage", {
+      channel,
+      text: prompt.text,
+      blocks: promptBlocks(prompt),
+      ...(threadTS ? { thread_ts: threadTS } : {}),
+    })
+  }
+
+  async openDirectChat(userID: string): Promise<string> {
+    const cached = this.directChats.get(userID)
+    if (cached) return cached
+    const result = await this.call<{ channel?: { id?: string } }>(this.opts.botToken, "conversations.open", { users: userID })
+    const channelID = result.channel?.id
+    if (!channelID) throw new Error(`slack conversations.open returned no channel for ${userID}`)
+    this.directChats.set(userID, channelID)
+    return channelID
+  }
+
+  threadChatID(chatID: string, messageRef: string): string {
+    const { channel, threadTS } = splitChatID(chatID)
+    return joinChatID(channel, threadTS ?? messageRef)
+  }
+
+  private async connect(handlers: ChannelHandlers): Promise<void> {
+    const result = await this.call<{ url: string }>(this.opts.appToken, "apps.connections.open", {})
+    const socket = new WebSocket(result.url)
+    this.socket = socket
+
+    socket.addEventListener("message", (event) => {
+      let envelope: SocketEnvelope
+      try {
+        envelope = JSON.parse(String(event.data)) as SocketEnvelope
+      } catch {
+        return
+      }
+      // Socket Mode requires every envelope to be acknowledged within three seconds.
+      if (envelope.envelope_id) {
+        socket.send(JSON.stringify({ envelope_id: envelope.envelope_id }))
+      }
+      void this.handleEnvelope(envelope, handlers).catch((error) => {
+        this.opts.logger.error({ err: error, type: envelope.type }, "slack socket event failed")
+      })
+    })
+
+    socket.addEventListener("close", (event) => {
+      if (this.stopped) return
+      this.opts.logger.warn({ code: event.code }, "slack socket closed; reconnecting")
+      setTimeout(() => {
+        void this.connect(handlers).catch((error) => {
+          this.opts.logger.error({ err: error }, "slack socket reconnect failed")
+        })
+      }, 5000)
+    })
+
+    socket.addEventListener("error", () => {
+      this.opts.logger.warn("slack socket error")
+    })
+  }
+
+  private async handleEnvelope(envelope: SocketEnvelope, handlers: ChannelHandlers): Promise<void> {
+    if (envelope.type === "hello") {
+      this.opts.logger.info("slack socket mode connected")
+      return
+    }
+
+    if (envelope.type === "disconnect") {
+      this.opts.logger.info({ reason: envelope.reason }, "slack requested socket refresh")
+      this.socket?.close(4000)
+      return
+    }
+
+    if (envelope.type === "slash_commands") {
+      const payload = (envelope.payload ?? {}) as SlackSlashCommand
+      const name = (payload.command ?? "").replace(COMMAND_PREFIX, "").toLowerCase()
+      if (!payload.user_id || !payload.channel_id || !handlers.commands.some((command) => command.name === name)) return
+      await handlers.onCommand({ chatID: payload.channel_id, userID: payload.user_id, name, args: payload.text ?? "" })
+      return
+    }
+
+    if (envelope.type === "interactive") {
+      await this.handleBlockActions((envelope.payload ?? {}) as SlackBlockActions, handlers)
+      return
+    }
+
+    if (envelope.type === "events_api") {
+      const event = ((envelope.payload ?? {}) as { event?: SlackMessageEvent }).event
+      if (event) await this.handleMessageEvent(event, handlers)
+    }
+  }
+
+  private async handleBlockActions(payload: SlackBlockActions, handlers: ChannelHandlers): Promise<void> {
+    if (payload.type !== "block_actions") return
+    const userID = payload.user?.id ?? ""
+    const channel = payload.channel?.id ?? payload.container?.channel_id ?? ""
+    const messageTS = payload.container?.message_ts ?? payload.message?.ts
+    const threadTS = payload.message?.thread_ts ?? messageTS
+
+    for (const action of payload.actions ?? []) {
+      await handlers.onAction({
+        chatID: channel ? joinChatID(channel, threadTS) : "",
+        userID,
+        action: action.value ?? action.action_id ?? "",
+        acknowledge: async (text) => {
+          await this.call(this.opts.botToken, "chat.postEphemeral", {
+            channel,
+            user: userID,
+            text,
+            ...(threadTS ? { thread_ts: threadTS } : {}),
+          })
+        },
+        clearButtons: async () => {
+          if (!messageTS) return
+          await this.call(this.opts.botToken, "chat.update", {
+            channel,
+            ts: messageTS,
+            text: payload.message?.text ?? "",
+            blocks: [],
+          })
+        },
+      })
+    }
+  }
+
+  private async handleMessageEvent(event: SlackMessageEvent, handlers: ChannelHandlers): Promise<void> {
+    if (event.bot_id || !event.user || !event.channel) return
+    if (event.subtype && event.subtype !== "file_share") return
+
+    // Channel messages are only handled through app_mention to avoid answering every conversation.
+    const isDirect = event.type === "message" && event.channel_type === "im"
+    const isMention = event.type === "app_mention"
+    if (!isDirect && !isMention) return
+
+    const chatID = joinChatID(event.channel, isDirect ? event.thread_ts : event.thread_ts ?? event.ts)
+    const text = isMention ? stripMention(event.text ?? "") : (event.text ?? "")
+    const file = event.files?.[0]
+    const kind = file ? mediaKind(file) : null
+    if (file && kind) {
+      await handlers.onMessage({ chatID, userID: event.user, text, media: this.media(kind, file) })
+      return
+    }
+    await handlers.onMessage({ chatID, userID: event.user, text })
+  }
+
+  private media(kind: InboxKind, file: SlackFile): IncomingMedia {
+    return {
+      kind,
+      fetch: async () => {
+        if (!file.url_private_download) return null
+        const response = await fetch(file.url_private_download, {
+          headers: { Authorization: `Bearer ${this.opts.botToken}` },
+        })
+        if (!response.ok) {
+          throw new Error(`slack file download failed: HTTP ${response.status}`)
+        }
+        return {
+          data: new Uint8Array(await response.arrayBuffer()),
+          extension: pickFileExtension(file.name, kind === "voice" ? ".m4a" : ".jpg"),
+          metadata: {
+            slack: {
+              fileID: file.id,
+              fileName: file.name,
+              fileSize: file.size,
+              mimeType: file.mimetype,
+            },
+          },
+        }
+      },
+    }
+  }
+
+  private async call<T = unknown>(token: string, method: string, body: Record<string, unknown>): Promise<T> {
+    const response = await fetch(`${this.apiUrl}/${method}`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json; charset=utf-8",
+      },
+      body: JSON.stringify(body),
+    })
+    if (!response.ok) {
+      throw new Error(`slack ${method} failed: HTTP ${response.status}`)
+    }
+    const payload = (await response.json()) as { ok?: boolean; error?: string } & T
+    if (!payload.ok) {
+      throw new Error(`slack ${method} failed: ${payload.error ?? "unknown error"}`)
+    }
+    return payload
+  }
+}
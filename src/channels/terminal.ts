@@ -0,0 +1,166 @@
+import { createInterface, type Interface } from "node:readline"
+import type { Logger } from "pino"
+import { parseTextCommand, type ChannelAdapter, type ChannelButton, type ChannelHandlers, type ChannelPrompt } from "./types"
+
+export type TerminalLocalCommand = {
+  description: string
+  run: (args: string) => Promise<string | void>
+}
+
+type TerminalAdapterOptions = {
+  userID: string
+  logger: Logger
+  input?: NodeJS.ReadableStream
+  output?: NodeJS.WritableStream
+  // Commands handled by the REPL itself rather than the channel router (e.g. /heartbeat).
+  localCommands?: Record<string, TerminalLocalCommand>
+}
+
+type PendingPrompt = {
+  id: number
+  buttons: ChannelButton[]
+}
+
+// There is only ever one conversation in the terminal.
+const CHAT_ID = "local"
+
+export class TerminalAdapter implements ChannelAdapter {
+  readonly name = "terminal" as const
+  readonly displayName = "Terminal"
+  readonly maxMessageLength = 100_000
+  private readonly pendingPrompts: PendingPrompt[] = []
+  private readonly output: NodeJS.WritableStream
+  private rl?: Interface
+  private promptCounter = 0
+  private closed = false
+  private resolveStopped?: () => void
+
+  constructor(private readonly opts: TerminalAdapterOptions) {
+    this.output = opts.output ?? process.stdout
+  }
+
+  async start(handlers: ChannelHandlers): Promise<void> {
+    const stoppedPromise = new Promise<void>((resolve) => {
+      this.resolveStopped = resolve
+    })
+    const input = this.opts.input ?? process.stdin
+    const rl = createInterface({ input, output: this.output, terminal: input === process.stdin && process.stdin.isTTY === true })
+    this.rl = rl
+    rl.setPrompt("you> ")
+
+    rl.on("line", (line) => {
+      void this.handleLine(line.trim(), handlers)
+        .catch((error) => {
+          this.opts.logger.error({ err: error }, "terminal input handling failed")
+          this.print(`error: ${error instanceof Error ? error.message : String(error)}`)
+        })
+        .finally(() => {
+          if (!this.closed) rl.prompt(true)
+        })
+    })
+    rl.on("close", () => {
+      this.closed = true
+      this.resolveStopped?.()
+    })
+
+    this.print("MonClaw terminal chat. Type /help for commands, /quit to exit.")
+    rl.prompt()
+    await stoppedPromise
+  }
+
+  async stop(): Promise<void> {
+    this.rl?.close()
+    this.resolveStopped?.()
+  }
+
+  async sendText(_chatID: string, text: string): Promise<void> {
+    this.print(`monclaw> ${text}`)
+  }
+
+  async sendFile(_chatID: string, filePath: string, caption?: string): Promise<void> {
+    this.print(`monclaw> [file] ${filePath}${caption ? ` (${caption})` : ""}`)
+  }
+
+  async sendPrompt(_chatID: string, prompt: ChannelPrompt): Promise<void> {
+    this.promptCounter += 1
+    const buttons = prompt.buttons.flat()
+    this.pendingPrompts.push({ id: this.promptCounter, buttons })
+    this.print(
+      [
+        `monclaw> ${prompt.text}`,
+        ...buttons.map((button, i) => `  ${i + 1}. ${button.label}`),
+        "Type the option number to answer.",
+      ].join("\n"),
+    )
+  }
+
+  private async handleLine(line: string, handlers: ChannelHandlers): Promise<void> {
+    if (!line) return
+
+    // A bare number answers the oldest open prompt; prompts are answered in the order they were shown.
+    const pending = this.pendingPrompts[0]
+    if (pending && /^\d+$/.test(line)) {
+      const button = pending.buttons[Number.parseInt(line, 10) - 1]
+      if (!button) {
+        this.print(`Pick a number between 1 and ${pending.buttons.length}.`)
+        return
+      }
+      await handlers.onAction({
+        chatID: CHAT_ID,
+        userID: this.opts.userID,
+        action: button.action,
+        acknowledge: async (text) => {
+          this.print(text)
+        },
+        clearButtons: async () => {
+          const idx = this.pendingPrompts.findIndex((item) => item.id === pending.id)
+          if (idx >= 0) this.pendingPrompts.splice(idx, 1)
+        },
+      })
+      return
+    }
+
+    const command = parseTextCommand(line)
+    if (command?.name === "quit" || command?.name === "exit") {
+      await this.stop()
+      return
+    }
+    if (command?.name === "help") {
+      this.printHelp(handlers)
+      return
+    }
+    const local = command ? this.opts.localCommands?.[command.name] : undefined
+    if (command && local) {
+      const result = await local.run(command.args)
+      if (result) this.print(result)
+      return
+    }
+    if (command && handlers.commands.some((item) => item.name === command.name)) {
+      await handlers.onCommand({ chatID: CHAT_ID, userID: this.opts.userID, ...command })
+      return
+    }
+    if (command) {
+      this.print(`Unknown command /${command.name}. Type /help for commands.`)
+      return
+    }
+    await handlers.onMessage({ chatID: CHAT_ID, userID: this.opts.userID, text: line })
+  }
+
+  private printHelp(handlers: ChannelHandlers): void {
+    const lines = [
+      ...handlers.commands.map((command) => `/${command.name} - ${command.description}`),
+      ...Object.entries(this.opts.localCommands ?? {}).map(([name, command]) => `/${name} - ${command.description}`),
+      "/quit - Exit the terminal chat",
+    ]
+    this.print(lines.join("\n"))
+  }
+
+  private print(text: string): void {
+    // Clear the half-typed prompt line so replies arriving mid-input stay readable.
+    if (this.rl && this.output === process.stdout && process.stdout.isTTY) {
+      this.output.write("\r\x1b[K")
+    }
+    this.output.write(`${text}\n`)
+    if (this.rl && !this.closed && this.output === process.stdout && process.stdout.isTTY) this.rl.prompt(true)
+  }
+}
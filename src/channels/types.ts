@@ -0,0 +1,98 @@
+import type { InboxKind } from "../utils/inbox"
+
+export const CHANNEL_NAMES = ["telegram", "discord", "slack", "matrix", "whatsapp", "terminal", "email", "webhook"] as const
+
+export type ChannelName = (typeof CHANNEL_NAMES)[number]
+
+export type ChannelButton = {
+  label: string
+  action: string
+}
+
+export type ChannelPrompt = {
+  text: string
+  buttons: ChannelButton[][]
+}
+
+export type ChannelCommand = {
+  name: string
+  description: string
+}
+
+export type IncomingCommand = {
+  chatID: string
+  userID: string
+  name: string
+  args: string
+}
+
+export type IncomingMediaFile = {
+  data: Uint8Array
+  extension: string
+  metadata: Record<string, unknown>
+}
+
+export type IncomingMedia = {
+  kind: InboxKind
+  // Resolves to null when the transport cannot provide a downloadable file.
+  fetch: () => Promise<IncomingMediaFile | null>
+}
+
+export type IncomingMessage = {
+  chatID: string
+  userID: string
+  text: string
+  media?: IncomingMedia
+  // Files sent alongside the text (email). They are saved to the inbox and listed in the prompt.
+  attachments?: IncomingMedia[]
+}
+
+export type IncomingAction = {
+  chatID: string
+  userID: string
+  action: string
+  acknowledge: (text: string, alert?: boolean) => Promise<void>
+  clearButtons: () => Promise<void>
+  // Redraws the prompt the action came from in place; the router falls back to clearing and resending.
+  updatePrompt?: (prompt: ChannelPrompt) => Promise<void>
+}
+
+export type ChannelHandlers = {
+  commands: ChannelCommand[]
+  onCommand: (command: IncomingCommand) => Promise<void>
+  onMessage: (message: IncomingMessage) => Promise<void>
+  onAction: (action: IncomingAction) => Promise<void>
+}
+
+export interface ChannelAdapter {
+  readonly name: ChannelName
+  readonly displayName: string
+  readonly maxMessageLength: number
+  // When true each chat (room) gets its own OpenCode session instead of the shared main session.
+  readonly sessionPerChat?: boolean
+  // Per-chat variant of sessionPerChat, e.g. forum topics inside an otherwise ordinary group.
+  dedicatedSession?(chatID: string): boolean
+  start(handlers: ChannelHandlers): Promise<void>
+  // Resolves to a transport message reference when the transport returns one.
+  sendText(chatID: string, text: string): Promise<string | void>
+  sendFile(chatID: string, filePath: string, caption?: string): Promise<void>
+  sendPrompt(chatID: string, prompt: ChannelPrompt): Promise<void>
+  sendTyping?(chatID: string): Promise<void>
+  // Rewrites a message sent earlier (by the reference sendText returned); enables live streamed replies.
+  editText?(chatID: string, messageRef: string, text: string): Promise<void>
+  deleteText?(chatID: string, messageRef: string): Promise<void>
+  // Maps a user ID to the chat used for proactive delivery when the two differ.
+  openDirectChat?(userID: string): Promise<string>
+  // Chat target that replies in the thread of the given message.
+  threadChatID?(chatID: string, messageRef: string): string
+}
+
+export function isChannelName(value: unknown): value is ChannelName {
+  return typeof value === "string" && (CHANNEL_NAMES as readonly string[]).includes(value)
+}
+
+export function parseTextCommand(text: string): { name: string; args: string } | null {
+  const match = text.trim().match(/^\/([A-Za-z0-9_]+)(?:@\S+)?(?:\s+([\s\S]*))?$/)
+  if (!match) return null
+  return { name: match[1].toLowerCase(), args: (match[2] ?? "").trim() }
+}
@@ -0,0 +1,192 @@
+import { createHmac, timingSafeEqual } from "node:crypto"
+import type { Logger } from "pino"
+import { basename } from "../utils/path"
+import { parseTextCommand, type ChannelAdapter, type ChannelHandlers, type ChannelPrompt } from "./types"
+
+type WebhookAdapterOptions = {
+  secret: string
+  outboundUrl: string
+  logger: Logger
+  port: number
+  hostname?: string
+  inboundPath?: string
+}
+
+type InboundPayload = {
+  userID?: unknown
+  chatID?: unknown
+  text?: unknown
+  action?: unknown
+}
+
+const DEFAULT_INBOUND_PATH = "/webhook/inbound"
+const SIGNATURE_HEADER = "x-monclaw-signature"
+const TIMESTAMP_HEADER = "x-monclaw-timestamp"
+// Signed requests older or newer than this are refused, so a captured request cannot be replayed later.
+const SIGNATURE_MAX_SKEW_SECONDS = 300
+
+// The timestamp is part of the signed text, so it cannot be swapped without the secret.
+function sign(secret: string, timestamp: string, rawBody: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${rawBody}`).digest("hex")}`
+}
+
+function verifySignature(secret: string, rawBody: string, timestamp: string | null, header: string | null, now: number): boolean {
+  if (!header?.startsWith("sha256=") || !timestamp || !/^\d+$/.test(timestamp)) return false
+  if (Math.abs(Math.floor(now / 1000) - Number(timestamp)) > SIGNATURE_MAX_SKEW_SECONDS) return false
+  const expected = Buffer.from(sign(secret, timestamp, rawBody))
+  const received = Buffer.from(header)
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined
+}
+
+/**
+ * Generic JSON bridge: signed POSTs come in on a local listener and every reply is POSTed,
+ * signed with the same secret, to a single outbound URL.
+ */
+export class WebhookAdapter implements ChannelAdapter {
+  readonly name = "webhook" as const
+  readonly displayName = "Webhook"
+  readonly maxMessageLength = 16000
+  private readonly inboundPath: string
+  // Signatures accepted within the skew window, so the same request is not handled twice.
+  private readonly seenSignatures = new Map<string, number>()
+  private server?: ReturnType<typeof Bun.serve>
+  private resolveStopped?: () => void
+
+  constructor(private readonly opts: WebhookAdapterOptions) {
+    this.inboundPath = opts.inboundPath ?? DEFAULT_INBOUND_PATH
+  }
+
+  get port(): number | undefined {
+    return this.server?.port
+  }
+
+  async start(handlers: ChannelHandlers): Promise<void> {
+    const stoppedPromise = new Promise<void>((resolve) => {
+      this.resolveStopped = resolve
+    })
+    this.server = Bun.serve({
+      hostname: this.opts.hostname ?? "127.0.0.1",
+      port: this.opts.port,
+      fetch: (req: Request) => this.handleRequest(req, handlers),
+    })
+    this.opts.logger.info({ port: this.server.port, path: this.inboundPath }, "webhook channel listening")
+    await stoppedPromise
+  }
+
+  async stop(): Promise<void> {
+    this.server?.stop(true)
+    this.resolveStopped?.()
+  }
+
+  async sendText(chatID: string, text: string): Promise<void> {
+    await this.post({ type: "message", chatID, text })
+  }
+
+  async sendFile(chatID: string, filePath: string, caption?: string): Promise<void> {
+    const file = Bun.file(filePath)
+    await this.post({
+      type: "file",
+      chatID,
+      fileName: basename(filePath),
+      mimeType: file.type || "application/octet-stream",
+      caption,
+      data: Buffer.from(await file.arrayBuffer()).toString("base64"),
+    })
+  }
+
+  // Receivers render the buttons however they like and answer by posting `{ userID, chatID, action }` back.
+  async sendPrompt(chatID: string, prompt: ChannelPrompt): Promise<void> {
+    await this.post({ type: "prompt", chatID, text: prompt.text, buttons: prompt.buttons.flat() })
+  }
+
+  private async handleRequest(req: Request, handlers: ChannelHandlers): Promise<Response> {
+    const url = new URL(req.url)
+    if (url.pathname !== this.inboundPath) return new Response("not found", { status: 404 })
+    if (req.method !== "POST") return new Response("method not allowed", { status: 405 })
+
+    const raw = await req.text()
+    const now = Date.now()
+    const signature = req.headers.get(SIGNATURE_HEADER)
+    if (!verifySignature(this.opts.secret, raw, req.headers.get(TIMESTAMP_HEADER), signature, now)) {
+      this.opts.logger.warn("webhook signature mismatch or stale timestamp")
+      return Response.json({ error: "invalid signature" }, { status: 401 })
+    }
+    for (const [seen, expiresAt] of this.seenSignatures) {
+      if (expiresAt <= now) this.seenSignatures.delete(seen)
+    }
+    if (signature && this.seenSignatures.has(signature)) {
+      this.opts.logger.warn("webhook request replayed")
+      return Response.json({ error: "replayed request" }, { status: 409 })
+    }
+    if (signature) this.seenSignatures.set(signature, now + 2 * SIGNATURE_MAX_SKEW_SECONDS * 1000)
+
+    let payload: InboundPayload
+    try {
+      payload = JSON.parse(raw) as InboundPayload
+    } catch {
+      return Response.json({ error: "invalid json" }, { status: 400 })
+    }
+
+    const userID = optionalString(payload.userID)
+    if (!userID) return Response.json({ error: "userID is required" }, { status: 400 })
+    const text = typeof payload.text === "string" ? payload.text : ""
+    const action = optionalString(payload.action)
+    if (!action && !text.trim()) return Response.json({ error: "text or action is required" }, { status: 400 })
+
+    // Answers can take minutes, so accept right away and deliver the reply to the outbound URL.
+    const chatID = optionalString(payload.chatID) ?? userID
+    void this.dispatch({ chatID, userID, text, action }, handlers).catch((error) => {
+      this.opts.logger.error({ err: error, chatID, userID }, "webhook message handling failed")
+    })
+    return Response.json({ ok: true, chatID }, { status: 202 })
+  }
+
+  private async dispatch(
+    message: { chatID: string; userID: string; text: string; action?: string },
+    handlers: ChannelHandlers,
+  ): Promise<void> {
+    const { chatID, userID, text, action } = message
+    if (action) {
+      await handlers.onAction({
+        chatID,
+        userID,
+        action,
+        acknowledge: async (ack) => {
+          await this.sendText(chatID, ack)
+        },
+        // Buttons live in the receiving system; nothing to clear on this side.
+        clearButtons: async () => {},
+      })
+      return
+    }
+
+    const command = parseTextCommand(text)
+    if (command && handlers.commands.some((item) => item.name === command.name)) {
+      await handlers.onCommand({ chatID, userID, ...command })
+      return
+    }
+    await handlers.onMessage({ chatID, userID, text })
+  }
+
+  private async post(payload: Record<string, unknown>): Promise<void> {
+    const body = JSON.stringify(payload)
+    const timestamp = String(Math.floor(Date.now() / 1000))
+    const response = await fetch(this.opts.outboundUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-MonClaw-Timestamp": timestamp,
+        "X-MonClaw-Signature": sign(this.opts.secret, timestamp, body),
+      },
+      body,
+    })
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "")
+      throw new Error(`webhook POST failed: HTTP ${response.status}${detail ? ` ${detail}` : ""}`)
+    }
+  }
+}
@@ -0,0 +1,367 @@
+import { createHmac, timingSafeEqual } from "node:crypto"
+import type { Logger } from "pino"
+import { basename } from "../utils/path"
+import type { InboxKind } from "../utils/inbox"
+import { parseTextCommand, type ChannelAdapter, type ChannelHandlers, type ChannelPrompt, type IncomingMedia } from "./types"
+
+type WhatsAppAdapterOptions = {
+  accessToken: string
+  phoneNumberID: string
+  verifyToken: string
+  appSecret: string
+  logger: Logger
+  port: number
+  hostname?: string
+  webhookPath?: string
+  apiUrl?: string
+}
+
+type WhatsAppMedia = {
+  id?: string
+  mime_type?: string
+  caption?: string
+  filename?: string
+  voice?: boolean
+}
+
+type WhatsAppMessage = {
+  from?: string
+  id?: string
+  type?: string
+  text?: { body?: string }
+  audio?: WhatsAppMedia
+  image?: WhatsAppMedia
+  document?: WhatsAppMedia
+  interactive?: {
+    type?: string
+    button_reply?: { id?: string; title?: string }
+    list_reply?: { id?: string; title?: string }
+  }
+}
+
+type WhatsAppWebhook = {
+  object?: string
+  entry?: Array<{
+    changes?: Array<{
+      field?: string
+      value?: {
+        metadata?: { phone_number_id?: string }
+        messages?: WhatsAppMessage[]
+      }
+    }>
+  }>
+}
+
+const DEFAULT_API_URL = "https://graph.facebook.com/v21.0"
+const DEFAULT_WEBHOOK_PATH = "/webhook/whatsapp"
+
+// Cloud API limits for interactive messages.
+const MAX_REPLY_BUTTONS = 3
+const MAX_LIST_ROWS = 10
+const MAX_INTERACTIVE_BODY = 1024
+
+function mediaKind(message: WhatsAppMessage): { kind: InboxKind; media: WhatsAppMedia } | null {
+  if (message.type === "audio" && message.audio?.id) return { kind: "voice", media: message.audio }
+  if (message.type === "image" && message.image?.id) return { kind: "photo", media: message.image }
+  if (message.type === "document" && message.document?.id && message.document.mime_type?.startsWith("image/")) {
+    return { kind: "photo", media: message.document }
+  }
+  return null
+}
+
+function pickFileExtension(fileName: string | undefined, mimeType: string | undefined, fallback: string): string {
+  const match = fileName?.match(/(\.[A-Za-z0-9]+)$/)
+  if (match) return match[1]
+  const subtype = mimeType?.split("/")[1]?.split(/[;+]/)[0]
+  return subtype ? `.${subtype}` : fallback
+}
+
+function outboundMediaType(fileName: string): "image" | "audio" | "video" | "document" {
+  const ext = fileName.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1] ?? ""
+  if (["jpg", "jpeg", "png"].includes(ext)) return "image"
+  if (["ogg", "mp3", "m4a", "aac", "amr"].includes(ext)) return "audio"
+  if (["mp4", "3gp"].includes(ext)) return "video"
+  return "document"
+}
+
+function mimeTypeFor(fileName: string): string {
+  const ext = fileName.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1] ?? ""
+  const types: Record<string, string> = {
+    jpg: "image/jpeg",
+    jpeg: "image/jpeg",
+    png: "image/png",
+    ogg: "audio/ogg",
+    mp3: "audio/mpeg",
+    m4a: "audio/mp4",
+    aac: "audio/aac",
+    amr: "audio/amr",
+    mp4: "video/mp4",
+    "3gp": "video/3gpp",
+    pdf: "application/pdf",
+    txt: "text/plain",
+  }
+  return types[ext] ?? "application/octet-stream"
+}
+
+function verifySignature(appSecret: string, rawBody: string, header: string | null): boolean {
+  if (!header?.startsWith("sha256=")) return false
+  const expected = Buffer.from(createHmac("sha256", appSecret).update(rawBody).digest("hex"))
+  const received = Buffer.from(header.slice("sha256=".length))
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+export class WhatsAppAdapter implements ChannelAdapter {
+  readonly name = "whatsapp" as const
+  readonly displayName = "WhatsApp"
+  readonly maxMessageLength = 4000
+  private readonly apiUrl: string
+  private readonly webhookPath: string
+  private server?: ReturnType<typeof Bun.serve>
+  private resolveStopped?: () => void
+
+  constructor(private readonly opts: WhatsAppAdapterOptions) {
+    this.apiUrl = (opts.apiUrl ?? DEFAULT_API_URL).replace(/\/+$/g, "")
+    this.webhookPath = opts.webhookPath ?? DEFAULT_WEBHOOK_PATH
+  }
+
+  get port(): number | undefined {
+    return this.server?.port
+  }
+
+  async start(handlers: ChannelHandlers): Promise<void> {
+    const stoppedPromise = new Promise<void>((resolve) => {
+      this.resolveStopped = resolve
+    })
+    this.server = Bun.serve({
+      hostname: this.opts.hostname ?? "127.0.0.1",
+      port: this.opts.port,
+      fetch: (req: Request) => this.handleRequest(req, handlers),
+    })
+    this.opts.logger.info({ port: this.server.port, path: this.webhookPath }, "whatsapp webhook listening")
+    await stoppedPromise
+  }
+
+  async stop(): Promise<void> {
+    this.server?.stop(true)
+    this.resolveStopped?.()
+  }
+
+  async sendText(chatID: string, text: string): Promise<string> {
+    return this.sendMessage(chatID, { type: "text", text: { body: text, preview_url: false } })
+  }
+
+  async sendFile(chatID: string, filePath: string, caption?: string): Promise<void> {
+    const fileName = basename(filePath)
+    const type = outboundMediaType(fileName)
+    const form = new FormData()
+    form.append("messaging_product", "whatsapp")
+    form.append("type", mimeTypeFor(fileName))
+    form.append("file", new Blob([await Bun.file(filePath).arrayBuffer()], { type: mimeTypeFor(fileName) }), fileName)
+
+    const upload = await this.graph<{ id: string }>("POST", `/${this.opts.phoneNumberID}/media`, form)
+    const media: Record<string, unknown> = { id: upload.id }
+    // Audio messages cannot carry a caption, so it is sent as a follow-up text instead.
+    if (caption && type !== "audio") media.caption = caption
+    if (type === "document") media.filename = fileName
+    await this.sendMessage(chatID, { type, [type]: media })
+    if (caption && type === "audio") await this.sendText(chatID, caption)
+  }
+
+  async sendPrompt(chatID: string, prompt: ChannelPrompt): Promise<void> {
+    const buttons = prompt.buttons.flat().slice(0, MAX_LIST_ROWS)
+    let body = prompt.text
+    if (body.length > MAX_INTERACTIVE_BODY) {
+      await this.sendText(chatID, body)
+      body = "Choose an option:"
+    }
+
+    if (buttons.length <= MAX_REPLY_BUTTONS) {
+      await this.sendMessage(chatID, {
+        type: "interactive",
+        interactive: {
+          type: "button",
+          body: { text: body },
+          action: {
+            buttons: buttons.map((button) => ({
+              type: "reply",
+              reply: { id: button.action, title: button.label.slice(0, 20) },
+            })),
+          },
+        },
+      })
+      return
+    }
+
+    await this.sendMessage(chatID, {
+      type: "interactive",
+      interactive: {
+        type: "list",
+        body: { text: body },
+        action: {
+          button: "Options",
+          sections: [
+            {
+              title: "Options",
+              rows: buttons.map((button) => ({ id: button.action, title: button.label.slice(0, 24) })),
+            },
+          ],
+        },
+      },
+    })
+  }
+
+  private async handleRequest(req: Request, handlers: ChannelHandlers): Promise<Response> {
+    const url = new URL(req.url)
+    if (url.pathname !== this.webhookPath) return new Response("not found", { status: 404 })
+
+    if (req.method === "GET") {
+      const mode = url.searchParams.get("hub.mode")
+      const token = url.searchParams.get("hub.verify_token")
+      const challenge = url.searchParams.get("hub.challenge") ?? ""
+      if (mode === "subscribe" && token === this.opts.verifyToken) {
+        this.opts.logger.info("whatsapp webhook verified")
+        return new Response(challenge)
+      }
+      return new Response("forbidden", { status: 403 })
+    }
+
+    if (req.method !== "POST") return new Response("method not allowed", { status: 405 })
+
+    const raw = await req.text()
+    if (!verifySignature(this.opts.appSecret, raw, req.headers.get("x-hub-signature-256"))) {
+      this.opts.logger.warn("whatsapp webhook signature mismatch")
+      return new Response("invalid signature", { status: 401 })
+    }
+
+    let payload: WhatsAppWebhook
+    try {
+      payload = JSON.parse(raw) as WhatsAppWebhook
+    } catch {
+      return new Response("invalid json", { status: 400 })
+    }
+
+    // Acknowledge right away; Meta retries deliveries that are not answered quickly.
+    void this.handleWebhook(payload, handlers).catch((error) => {
+      this.opts.logger.error({ err: error }, "whatsapp webhook handling failed")
+    })
+    return new Response("ok")
+  }
+
+  private async handleWebhook(payload: WhatsAppWebhook, handlers: ChannelHandlers): Promise<void> {
+    if (payload.object !== "whatsapp_business_account") return
+    for (const entry of payload.entry ?? []) {
+      for (const change of entry.changes ?? []) {
+        if (change.field !== "messages") continue
+        const phoneNumberID = change.value?.metadata?.phone_number_id
+        if (phoneNumberID && phoneNumberID !== this.opts.phoneNumberID) continue
+        for (const message of change.value?.messages ?? []) {
+          try {
+            await this.handleMessage(message, handlers)
+          } catch (error) {
+            this.opts.logger.error({ err: error, messageID: message.id }, "whatsapp message handling failed")
+          }
+        }
+      }
+    }
+  }
+
+  private async handleMessage(message: WhatsAppMessage, handlers: ChannelHandlers): Promise<void> {
+    const from = message.from
+    if (!from) return
+
+    if (message.type === "interactive") {
+      const reply = message.interactive?.button_reply ?? message.interactive?.list_reply
+      if (!reply?.id) return
+      await handlers.onAction({
+        chatID: from,
+        userID: from,
+        action: reply.id,
+        acknowledge: async (text) => {
+          await this.sendText(from, text)
+        },
+        // Sent WhatsApp messages cannot be edited, so stale buttons are left in place.
+        clearButtons: async () => {},
+      })
+      return
+    }
+
+    const media = mediaKind(message)
+    if (media) {
+      await handlers.onMessage({
+        chatID: from,
+        userID: from,
+        text: media.media.caption ?? "",
+        media: this.media(media.kind, media.media),
+      })
+      return
+    }
+
+    if (message.type !== "text") return
+    const text = message.text?.body ?? ""
+    const command = parseTextCommand(text)
+    if (command && handlers.commands.some((item) => item.name === command.name)) {
+      await handlers.onCommand({ chatID: from, userID: from, ...command })
+      return
+    }
+    await handlers.onMessage({ chatID: from, userID: from, text })
+  }
+
+  private media(kind: InboxKind, media: WhatsAppMedia): IncomingMedia {
+    return {
+      kind,
+      fetch: async () => {
+        if (!media.id) return null
+        const info = await this.graph<{ url?: string; mime_type?: string; file_size?: number }>("GET", `/${media.id}`)
+        if (!info.url) return null
+        const response = await fetch(info.url, {
+          headers: { Authorization: `Bearer ${this.opts.accessToken}` },
+        })
+        if (!response.ok) {
+          throw new Error(`whatsapp media download failed: HTTP ${response.status}`)
+        }
+        const mimeType = info.mime_type ?? media.mime_type
+        return {
+          data: new Uint8Array(await response.arrayBuffer()),
+          extension: pickFileExtension(media.filename, mimeType, kind === "voice" ? ".ogg" : ".jpg"),
+          metadata: {
+            whatsapp: {
+              mediaID: media.id,
+              fileName: media.filename,
+              fileSize: info.file_size,
+              mimeType,
+              voice: media.voice,
+            },
+          },
+        }
+      },
+    }
+  }
+
+  private async sendMessage(to: string, message: Record<string, unknown>): Promise<string> {
+    const result = await this.graph<{ messages?: Array<{ id?: string }> }>("POST", `/${this.opts.phoneNumberID}/messages`, {
+      messaging_product: "whatsapp",
+      recipient_type: "individual",
+      to,
+      ...message,
+    })
+    return result.messages?.[0]?.id ?? ""
+  }
+
+  private async graph<T = unknown>(method: string, path: string, body?: unknown): Promise<T> {
+    const headers: Record<string, string> = { Authorization: `Bearer ${this.opts.accessToken}` }
+    let payload: BodyInit | undefined
+    if (body instanceof FormData) {
+      payload = body
+    } else if (body !== undefined) {
+      headers["Content-Type"] = "application/json"
+      payload = JSON.stringify(body)
+    }
+
+    const response = await fetch(`${this.apiUrl}${path}`, { method, headers, body: payload })
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "")
+      throw new Error(`whatsapp ${method} ${path} failed: HTTP ${response.status}${detail ? ` ${detail}` : ""}`)
+    }
+    return (await response.json()) as T
+  }
+}
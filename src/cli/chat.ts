@@ -0,0 +1,117 @@
+import { userInfo } from "node:os"
+import pino from "pino"
+import { loadConfig } from "../config"
+import { startChannel } from "../channels/router"
+import { TerminalAdapter } from "../channels/terminal"
+import { ApprovalPolicy } from "../core/approval-policy"
+import { AssistantCore } from "../core/assistant"
+import { AuditLog } from "../core/audit-log"
+import { CostStore } from "../core/cost-store"
+import { IdentityStore } from "../core/identity-store"
+import { InviteStore } from "../core/invite-store"
+import { PairAttemptStore } from "../core/pair-attempt-store"
+import { PendingInteractionStore } from "../core/pending-interaction-store"
+import { SessionStore } from "../core/session-store"
+import { UsageStore } from "../core/usage-store"
+import { WhitelistStore } from "../core/whitelist-store"
+import { MemoryStore } from "../memory/store"
+import { resolvePath } from "../utils/path"
+
+// Ensure OpenCode reads AGENTS.md from this workspace by default.
+process.env.OPENCODE_CONFIG_DIR ??= Bun.cwd
+
+async function main(): Promise<void> {
+  const cfg = await loadConfig()
+  // Logs go to a file so they do not interleave with the conversation.
+  const logFile = resolvePath(Bun.cwd, Bun.env.CHAT_LOG_FILE ?? ".data/chat.log")
+  const logger = pino({ level: cfg.logLevel }, pino.destination({ dest: logFile, mkdir: true, sync: false }))
+
+  const memory = new MemoryStore(cfg.workspaceDir)
+  const sessions = new SessionStore()
+  const whitelist = new WhitelistStore(cfg.whitelistFile)
+  const identities = new IdentityStore(cfg.identitiesFile)
+  const invites = new InviteStore(cfg.invitesFile)
+  const pairAttempts = new PairAttemptStore()
+  const usage = new UsageStore(cfg.usageLimits, cfg.usageFile)
+  const pendingInteractions = new PendingInteractionStore(cfg.pendingInteractionsFile)
+  const approvalPolicy = new ApprovalPolicy(cfg.approvalRulesFile)
+  const auditLog = new AuditLog(cfg.auditLogFile)
+  const costs = new CostStore({ monthlyUSD: cfg.costMonthlyBudget, warnPercent: cfg.costBudgetWarnPercent }, cfg.costsFile)
+  const assistant = new AssistantCore(logger, memory, sessions, {
+    model: cfg.opencodeModel,
+    agent: cfg.opencodeAgent,
+    directory: cfg.opencodeDirectory,
+    serverUrl: cfg.opencodeServerUrl,
+    serverUsername: cfg.opencodeServerUsername,
+    serverPassword: cfg.opencodeServerPassword,
+    replyTimeoutMinutes: cfg.opencodeReplyTimeoutMinutes,
+    heartbeatFile: cfg.heartbeatFile,
+    heartbeatIntervalMinutes: cfg.heartbeatIntervalMinutes,
+    inboxDir: cfg.inboxDir,
+    inboxRetentionDays: cfg.inboxRetentionDays,
+    approvalPolicy,
+    auditLog,
+    costs,
+  })
+
+  await approvalPolicy.init()
+  await auditLog.init()
+  await costs.init()
+  await assistant.init()
+  // The daemon owns these files and may be running: read them without rewriting, and let every change
+  // reload first (see FileChangeQueue). A file that does not exist yet starts out empty.
+  for (const store of [whitelist, identities, invites, usage, pendingInteractions]) {
+    await store.load().catch(() => undefined)
+  }
+  await pairAttempts.init()
+  for (const admin of cfg.adminUsers) await whitelist.setRole(admin.channel, admin.userID, "admin")
+
+  const userID = userInfo().username
+  if (!whitelist.isAnyWhitelisted(identities.accountsFor("terminal", userID))) {
+    console.log(`terminal:${userID} is not whitelisted. Add it to ADMIN_USERS, or /pair with an invite code from an admin.`)
+  }
+
+  const adapter = new TerminalAdapter({
+    userID,
+    logger,
+    localCommands: {
+      heartbeat: {
+        description: "Run heartbeat tasks now and print the summary",
+        run: async () => `heartbeat> ${await assistant.runHeartbeatTasks()}`,
+      },
+    },
+  })
+
+  console.log(`Logs: ${logFile}`)
+  await startChannel(adapter, {
+    logger,
+    assistant,
+    whitelist,
+    identities,
+    pairAttempts,
+    pendingInteractions,
+    auditLog,
+    invites,
+    inviteTtlMinutes: cfg.inviteTtlMinutes,
+    pairToken: cfg.whitelistPairToken,
+    pairMaxAttempts: cfg.pairMaxAttempts,
+    pairLockMinutes: cfg.pairLockMinutes,
+    linkCodeTtlMinutes: cfg.linkCodeTtlMinutes,
+    usage,
+    costs,
+    sessionMode: cfg.sessionMode,
+    queueMode: cfg.queueMode,
+    queueDepth: cfg.queueDepth,
+    inboxDir: cfg.inboxDir,
+    inboxRetentionDays: cfg.inboxRetentionDays,
+    asyncBashQueueDir: cfg.asyncBashQueueDir,
+  })
+
+  await assistant.close()
+  process.exit(0)
+}
+
+void main().catch((error) => {
+  console.error(error instanceof Error ? error.message : String(error))
+  process.exit(1)
+})
@@ -96,7 +96,7 @@ async function main(): Promise<void> {
   const directory = ask("OpenCode directory (optional): ") || current.OPENCODE_DIRECTORY || ""
   if (directory) updates.OPENCODE_DIRECTORY = directory
 
-  console.log("WHITELIST_PAIR_TOKEN allows users to self-pair via '/pair <token>' in chat.")
+  console.log("WHITELIST_PAIR_TOKEN is a legacy shared token for '/pair <token>' (member role); admins can mint one-time codes with '/invite code' instead.")
   const pairTokenPrompt = current.WHITELIST_PAIR_TOKEN
     ? "Whitelist pair token (leave blank to keep current): "
     : "Whitelist pair token (leave blank to disable): "
@@ -1,3 +1,8 @@
+import { isQueueMode, type QueueMode } from "./channels/queue"
+import { isChannelName, type ChannelName } from "./channels/types"
+import { isSessionMode, type SessionMode } from "./core/session-store"
+import { USAGE_KINDS, type UsageKind, type UsageLimit, type UsageLimits } from "./core/usage-store"
+import { isRole, ROLES, type Role } from "./core/whitelist-store"
 import { resolvePath } from "./utils/path"
 
 export type AppConfig = {
@@ -13,6 +18,56 @@ export type AppConfig = {
   asyncBashDefaultTimeoutMs: number
   enableTelegram: boolean
   telegramToken?: string
+  telegramApiUrl?: string
+  telegramAllowedGroups: string[]
+  enableDiscord: boolean
+  discordToken?: string
+  discordApiUrl?: string
+  enableSlack: boolean
+  slackAppToken?: string
+  slackBotToken?: string
+  slackApiUrl?: string
+  enableMatrix: boolean
+  matrixHomeserverUrl?: string
+  matrixAccessToken?: string
+  enableWhatsApp: boolean
+  whatsappAccessToken?: string
+  whatsappPhoneNumberID?: string
+  whatsappVerifyToken?: string
+  whatsappAppSecret?: string
+  whatsappWebhookHost: string
+  whatsappWebhookPort: number
+  whatsappApiUrl?: string
+  enableEmail: boolean
+  emailAddress?: string
+  emailFromName?: string
+  emailImapHost?: string
+  emailImapPort: number
+  emailImapSecure: boolean
+  emailImapUsername?: string
+  emailImapPassword?: string
+  emailSmtpHost?: string
+  emailSmtpPort: number
+  emailSmtpSecure: boolean
+  emailSmtpUsername?: string
+  emailSmtpPassword?: string
+  emailMailbox: string
+  emailPollSeconds: number
+  emailThreadsFile: string
+  emailLinkSecret?: string
+  emailLinkBaseUrl?: string
+  emailLinkTtlMinutes: number
+  emailAuthservID?: string
+  enableWebhook: boolean
+  webhookSecret?: string
+  webhookOutboundUrl?: string
+  webhookHost: string
+  webhookPort: number
+  webhookPath: string
+  enableHttpApi: boolean
+  httpApiToken?: string
+  httpApiHost: string
+  httpApiPort: number
   workspaceDir: string
   opencodeModel?: string
   opencodeAgent?: string
@@ -20,10 +75,34 @@ export type AppConfig = {
   opencodeServerUrl: string
   opencodeServerUsername?: string
   opencodeServerPassword?: string
+  opencodeReplyTimeoutMinutes: number
   whitelistFile: string
   whitelistPairToken?: string
   pairMaxAttempts: number
   pairLockMinutes: number
+  identitiesFile: string
+  linkCodeTtlMinutes: number
+  invitesFile: string
+  inviteTtlMinutes: number
+  approvalRulesFile: string
+  pendingInteractionsFile: string
+  approvalReminderMinutes: number
+  approvalEscalateAfterMinutes: number
+  approvalEscalateTo?: { channel: ChannelName; userID: string }
+  approvalDeadlineMinutes: number
+  auditLogFile: string
+  // Accounts given the admin role in the whitelist on every start.
+  adminUsers: Array<{ channel: ChannelName; userID: string }>
+  usageFile: string
+  // Token-bucket rate (per minute) and daily quota per role and kind; 0 means unlimited.
+  usageLimits: UsageLimits
+  costsFile: string
+  // USD per calendar month (UTC); 0 turns the budget off.
+  costMonthlyBudget: number
+  costBudgetWarnPercent: number
+  sessionMode: SessionMode
+  queueMode: QueueMode
+  queueDepth: number
   inboxDir: string
   inboxRetentionDays: number
 }
@@ -34,12 +113,88 @@ function envBool(value: string | undefined, fallback = false): boolean {
   return v === "1" || v === "true" || v === "yes" || v === "on"
 }
 
+function envSessionMode(value: string | undefined): SessionMode {
+  const mode = value?.trim().toLowerCase() ?? ""
+  if (!mode) return "shared"
+  if (!isSessionMode(mode)) throw new Error(`Invalid SESSION_MODE "${value}". Use shared, per-user or per-chat.`)
+  return mode
+}
+
+function envQueueMode(value: string | undefined): QueueMode {
+  const mode = value?.trim().toLowerCase() ?? ""
+  if (!mode) return "queue"
+  if (!isQueueMode(mode)) throw new Error(`Invalid MESSAGE_QUEUE_MODE "${value}". Use queue or batch.`)
+  return mode
+}
+
+function envAccount(name: string, value: string | undefined): { channel: ChannelName; userID: string } | undefined {
+  const raw = value?.trim() ?? ""
+  if (!raw) return undefined
+  const splitAt = raw.indexOf(":")
+  const channel = raw.slice(0, splitAt)
+  const userID = raw.slice(splitAt + 1).trim()
+  if (splitAt <= 0 || !isChannelName(channel) || !userID) {
+    throw new Error(`Invalid ${name} "${value}". Use <channel>:<userID>, e.g. telegram:123456.`)
+  }
+  return { channel, userID }
+}
+
+function envList(value: string | undefined): string[] {
+  if (!value) return []
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
+
+// "member:10,viewer:5" sets single roles; a bare number sets every role. Unlisted roles keep their default.
+function envRoleInts(name: string, value: string | undefined, fallback: Record<Role, number>): Record<Role, number> {
+  const result = { ...fallback }
+  for (const item of envList(value)) {
+    const splitAt = item.indexOf(":")
+    const role = splitAt < 0 ? "" : item.slice(0, splitAt).trim().toLowerCase()
+    const n = Number.parseInt(splitAt < 0 ? item : item.slice(splitAt + 1), 10)
+    if (!Number.isFinite(n) || n < 0 || (splitAt >= 0 && !isRole(role))) {
+      throw new Error(`Invalid ${name} "${value}". Use a number or <role>:<number> pairs, e.g. member:10,viewer:5.`)
+    }
+    if (splitAt < 0) for (const each of ROLES) result[each] = n
+    else result[role as Role] = n
+  }
+  return result
+}
+
+// Admins are unlimited by default; members and viewers get room for normal chatting.
+const DEFAULT_USAGE_LIMITS: Record<UsageKind, { perMinute: Record<Role, number>; perDay: Record<Role, number> }> = {
+  prompt: { perMinute: { admin: 0, member: 10, viewer: 5 }, perDay: { admin: 0, member: 300, viewer: 100 } },
+  media: { perMinute: { admin: 0, member: 5, viewer: 2 }, perDay: { admin: 0, member: 50, viewer: 20 } },
+  async_bash: { perMinute: { admin: 0, member: 2, viewer: 1 }, perDay: { admin: 0, member: 20, viewer: 5 } },
+}
+
+function envUsageLimits(): UsageLimits {
+  const limits = {} as UsageLimits
+  for (const role of ROLES) limits[role] = {} as Record<UsageKind, UsageLimit>
+  for (const kind of USAGE_KINDS) {
+    const rateName = `RATE_LIMIT_${kind.toUpperCase()}`
+    const quotaName = `DAILY_QUOTA_${kind.toUpperCase()}`
+    const perMinute = envRoleInts(rateName, Bun.env[rateName], DEFAULT_USAGE_LIMITS[kind].perMinute)
+    const perDay = envRoleInts(quotaName, Bun.env[quotaName], DEFAULT_USAGE_LIMITS[kind].perDay)
+    for (const role of ROLES) limits[role][kind] = { perMinute: perMinute[role], perDay: perDay[role] }
+  }
+  return limits
+}
+
 function envInt(value: string | undefined, fallback: number): number {
   if (!value) return fallback
   const n = Number.parseInt(value, 10)
   return Number.isFinite(n) ? n : fallback
 }
 
+function envNumber(value: string | undefined, fallback: number): number {
+  if (!value) return fallback
+  const n = Number.parseFloat(value)
+  return Number.isFinite(n) ? n : fallback
+}
+
 export async function loadConfig(): Promise<AppConfig> {
   const cwd = Bun.cwd
   const workspaceDir = resolvePath(cwd, ".data/workspace")
@@ -61,6 +216,56 @@ export async function loadConfig(): Promise<AppConfig> {
     asyncBashDefaultTimeoutMs: envInt(Bun.env.ASYNC_BASH_DEFAULT_TIMEOUT_MS, 86_400_000),
     enableTelegram: envBool(Bun.env.ENABLE_TELEGRAM, true),
     telegramToken: Bun.env.TELEGRAM_BOT_TOKEN,
+    telegramApiUrl: Bun.env.TELEGRAM_API_URL,
+    telegramAllowedGroups: envList(Bun.env.TELEGRAM_ALLOWED_GROUPS),
+    enableDiscord: envBool(Bun.env.ENABLE_DISCORD, false),
+    discordToken: Bun.env.DISCORD_BOT_TOKEN,
+    discordApiUrl: Bun.env.DISCORD_API_URL,
+    enableSlack: envBool(Bun.env.ENABLE_SLACK, false),
+    slackAppToken: Bun.env.SLACK_APP_TOKEN,
+    slackBotToken: Bun.env.SLACK_BOT_TOKEN,
+    slackApiUrl: Bun.env.SLACK_API_URL,
+    enableMatrix: envBool(Bun.env.ENABLE_MATRIX, false),
+    matrixHomeserverUrl: Bun.env.MATRIX_HOMESERVER_URL,
+    matrixAccessToken: Bun.env.MATRIX_ACCESS_TOKEN,
+    enableWhatsApp: envBool(Bun.env.ENABLE_WHATSAPP, false),
+    whatsappAccessToken: Bun.env.WHATSAPP_ACCESS_TOKEN,
+    whatsappPhoneNumberID: Bun.env.WHATSAPP_PHONE_NUMBER_ID,
+    whatsappVerifyToken: Bun.env.WHATSAPP_VERIFY_TOKEN,
+    whatsappAppSecret: Bun.env.WHATSAPP_APP_SECRET,
+    whatsappWebhookHost: Bun.env.WHATSAPP_WEBHOOK_HOST ?? "127.0.0.1",
+    whatsappWebhookPort: envInt(Bun.env.WHATSAPP_WEBHOOK_PORT, 8787),
+    whatsappApiUrl: Bun.env.WHATSAPP_API_URL,
+    enableEmail: envBool(Bun.env.ENABLE_EMAIL, false),
+    emailAddress: Bun.env.EMAIL_ADDRESS,
+    emailFromName: Bun.env.EMAIL_FROM_NAME,
+    emailImapHost: Bun.env.EMAIL_IMAP_HOST,
+    emailImapPort: envInt(Bun.env.EMAIL_IMAP_PORT, 993),
+    emailImapSecure: envBool(Bun.env.EMAIL_IMAP_SECURE, true),
+    emailImapUsername: Bun.env.EMAIL_IMAP_USERNAME || Bun.env.EMAIL_ADDRESS,
+    emailImapPassword: Bun.env.EMAIL_IMAP_PASSWORD,
+    emailSmtpHost: Bun.env.EMAIL_SMTP_HOST,
+    emailSmtpPort: envInt(Bun.env.EMAIL_SMTP_PORT, 587),
+    emailSmtpSecure: envBool(Bun.env.EMAIL_SMTP_SECURE, false),
+    emailSmtpUsername: Bun.env.EMAIL_SMTP_USERNAME || Bun.env.EMAIL_IMAP_USERNAME || Bun.env.EMAIL_ADDRESS,
+    emailSmtpPassword: Bun.env.EMAIL_SMTP_PASSWORD || Bun.env.EMAIL_IMAP_PASSWORD,
+    emailMailbox: Bun.env.EMAIL_MAILBOX || "INBOX",
+    emailPollSeconds: envInt(Bun.env.EMAIL_POLL_SECONDS, 30),
+    emailThreadsFile: resolvePath(cwd, Bun.env.EMAIL_THREADS_FILE ?? ".data/email-threads.json"),
+    emailLinkSecret: Bun.env.EMAIL_LINK_SECRET,
+    emailLinkBaseUrl: Bun.env.EMAIL_LINK_BASE_URL,
+    emailLinkTtlMinutes: envInt(Bun.env.EMAIL_LINK_TTL_MINUTES, 1440),
+    emailAuthservID: Bun.env.EMAIL_AUTHSERV_ID || undefined,
+    enableWebhook: envBool(Bun.env.ENABLE_WEBHOOK, false),
+    webhookSecret: Bun.env.WEBHOOK_SECRET,
+    webhookOutboundUrl: Bun.env.WEBHOOK_OUTBOUND_URL,
+    webhookHost: Bun.env.WEBHOOK_HOST ?? "127.0.0.1",
+    webhookPort: envInt(Bun.env.WEBHOOK_PORT, 8788),
+    webhookPath: Bun.env.WEBHOOK_PATH || "/webhook/inbound",
+    enableHttpApi: envBool(Bun.env.ENABLE_HTTP_API, false),
+    httpApiToken: Bun.env.HTTP_API_TOKEN,
+    httpApiHost: Bun.env.HTTP_API_HOST ?? "127.0.0.1",
+    httpApiPort: envInt(Bun.env.HTTP_API_PORT, 8790),
     workspaceDir,
     opencodeModel: Bun.env.OPENCODE_MODEL,
     opencodeAgent: Bun.env.OPENCODE_AGENT,
@@ -68,10 +273,31 @@ export async function loadConfig(): Promise<AppConfig> {
     opencodeServerUrl,
     opencodeServerUsername: Bun.env.OPENCODE_SERVER_USERNAME,
     opencodeServerPassword: Bun.env.OPENCODE_SERVER_PASSWORD,
+    opencodeReplyTimeoutMinutes: envInt(Bun.env.OPENCODE_REPLY_TIMEOUT_MINUTES, 30),
     whitelistFile: resolvePath(cwd, Bun.env.WHITELIST_FILE ?? ".data/whitelist.json"),
     whitelistPairToken: Bun.env.WHITELIST_PAIR_TOKEN,
     pairMaxAttempts: envInt(Bun.env.PAIR_MAX_ATTEMPTS, 5),
     pairLockMinutes: envInt(Bun.env.PAIR_LOCK_MINUTES, 15),
+    identitiesFile: resolvePath(cwd, Bun.env.IDENTITIES_FILE ?? ".data/identities.json"),
+    linkCodeTtlMinutes: envInt(Bun.env.LINK_CODE_TTL_MINUTES, 10),
+    invitesFile: resolvePath(cwd, Bun.env.INVITES_FILE ?? ".data/invites.json"),
+    inviteTtlMinutes: envInt(Bun.env.INVITE_TTL_MINUTES, 1440),
+    approvalRulesFile: resolvePath(cwd, Bun.env.APPROVAL_RULES_FILE ?? ".data/approval-rules.json"),
+    pendingInteractionsFile: resolvePath(cwd, Bun.env.PENDING_INTERACTIONS_FILE ?? ".data/pending-interactions.json"),
+    approvalReminderMinutes: envInt(Bun.env.APPROVAL_REMINDER_MINUTES, 15),
+    approvalEscalateAfterMinutes: envInt(Bun.env.APPROVAL_ESCALATE_AFTER_MINUTES, 60),
+    approvalEscalateTo: envAccount("APPROVAL_ESCALATE_TO", Bun.env.APPROVAL_ESCALATE_TO),
+    approvalDeadlineMinutes: envInt(Bun.env.APPROVAL_DEADLINE_MINUTES, 0),
+    auditLogFile: resolvePath(cwd, Bun.env.AUDIT_LOG_FILE ?? ".data/audit.jsonl"),
+    adminUsers: envList(Bun.env.ADMIN_USERS).flatMap((item) => envAccount("ADMIN_USERS", item) ?? []),
+    usageFile: resolvePath(cwd, Bun.env.USAGE_FILE ?? ".data/usage.json"),
+    usageLimits: envUsageLimits(),
+    costsFile: resolvePath(cwd, Bun.env.COSTS_FILE ?? ".data/costs.json"),
+    costMonthlyBudget: envNumber(Bun.env.COST_MONTHLY_BUDGET, 0),
+    costBudgetWarnPercent: envInt(Bun.env.COST_BUDGET_WARN_PERCENT, 80),
+    sessionMode: envSessionMode(Bun.env.SESSION_MODE),
+    queueMode: envQueueMode(Bun.env.MESSAGE_QUEUE_MODE),
+    queueDepth: envInt(Bun.env.MESSAGE_QUEUE_DEPTH, 5),
     inboxDir: resolvePath(cwd, Bun.env.INBOX_DIR ?? ".data/inbox"),
     inboxRetentionDays: envInt(Bun.env.INBOX_RETENTION_DAYS, 7),
   }
@@ -0,0 +1,208 @@
+import { ensureDir, readJson, writeJson } from "../utils/fs"
+import { basename, dirname, relativePath, resolvePath } from "../utils/path"
+import type { PendingPermission } from "./assistant"
+
+export const POLICY_ACTIONS = ["once", "always", "reject", "escalate"] as const
+
+// once/always/reject answer the request like the chat buttons do; escalate always asks a human.
+export type PolicyAction = (typeof POLICY_ACTIONS)[number]
+
+export function isPolicyAction(value: string): value is PolicyAction {
+  return (POLICY_ACTIONS as readonly string[]).includes(value)
+}
+
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"]
+
+// Command separators, pipes, substitutions and redirections. `*` is not shell-aware, so "git status*" would
+// also match "git status; rm -rf ~"; values containing any of these are never approved automatically.
+const SHELL_CONTROL = /[;&|`<>\n\r]|\$\(/
+
+/**
+ * One entry of the rules file. Every field that is set must match; `*` and `?` work as globs.
+ * Approving rules need every requested pattern to match, reject/escalate rules fire on any.
+ * Approving rules skip patterns and metadata values that chain or redirect shell commands.
+ */
+export type ApprovalRule = {
+  name?: string
+  action: PolicyAction
+  permission?: string
+  patterns?: string[]
+  // Metadata key (dotted for nested values) -> glob for its value, e.g. { "command": "git status*" }.
+  metadata?: Record<string, string>
+  // "<channel>:<userID>" of the person whose message started the turn.
+  users?: string[]
+  days?: string[]
+  // "HH:MM-HH:MM" in server local time; may wrap past midnight.
+  hours?: string
+}
+
+export type PolicyRequester = {
+  channel: string
+  userID: string
+}
+
+export type PolicyDecision = {
+  action: PolicyAction
+  rule: string
+}
+
+type RulesFile = { rules?: unknown }
+
+function globMatch(glob: string, value: string): boolean {
+  const source = glob.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".")
+  return new RegExp(`^${source}$`, "s").test(value)
+}
+
+function parseClock(raw: string): number | null {
+  const match = raw.trim().match(/^(\d{1,2}):(\d{2})$/)
+  if (!match) return null
+  const hours = Number(match[1])
+  const minutes = Number(match[2])
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) return null
+  return hours * 60 + minutes
+}
+
+function parseHours(raw: string): { from: number; to: number } | null {
+  const [from, to, ...rest] = raw.split("-")
+  if (from === undefined || to === undefined || rest.length > 0) return null
+  const start = parseClock(from)
+  const end = parseClock(to)
+  return start === null || end === null ? null : { from: start, to: end }
+}
+
+function metadataValue(metadata: Record<string, unknown> | undefined, path: string): string | undefined {
+  let current: unknown = metadata
+  for (const key of path.split(".")) {
+    if (!current || typeof current !== "object") return undefined
+    current = (current as Record<string, unknown>)[key]
+  }
+  if (current === undefined || current === null) return undefined
+  return typeof current === "string" ? current : JSON.stringify(current)
+}
+
+function stringList(value: unknown, field: string, label: string): string[] | undefined {
+  if (value === undefined) return undefined
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+    throw new Error(`${label}: "${field}" must be a list of strings`)
+  }
+  return value as string[]
+}
+
+function parseRule(raw: unknown, index: number): ApprovalRule {
+  const fallback = `rule #${index + 1}`
+  if (!raw || typeof raw !== "object") throw new Error(`${fallback}: must be an object`)
+  const r = raw as Record<string, unknown>
+  const name = typeof r.name === "string" && r.name.trim() ? r.name.trim() : undefined
+  const label = name ? `rule "${name}"` : fallback
+
+  const action = typeof r.action === "string" ? r.action : ""
+  if (!isPolicyAction(action)) throw new Error(`${label}: "action" must be one of ${POLICY_ACTIONS.join(", ")}`)
+  if (r.permission !== undefined && typeof r.permission !== "string") throw new Error(`${label}: "permission" must be a string`)
+
+  let metadata: Record<string, string> | undefined
+  if (r.metadata !== undefined) {
+    if (!r.metadata || typeof r.metadata !== "object" || Object.values(r.metadata).some((v) => typeof v !== "string")) {
+      throw new Error(`${label}: "metadata" must map keys to strings`)
+    }
+    metadata = r.metadata as Record<string, string>
+  }
+
+  const days = stringList(r.days, "days", label)?.map((day) => day.trim().toLowerCase().slice(0, 3))
+  if (days?.some((day) => !DAY_NAMES.includes(day))) throw new Error(`${label}: "days" must use mon, tue, ... sun`)
+  if (r.hours !== undefined && (typeof r.hours !== "string" || !parseHours(r.hours))) {
+    throw new Error(`${label}: "hours" must look like "09:00-18:00"`)
+  }
+
+  return {
+    ...(name ? { name } : {}),
+    action,
+    ...(typeof r.permission === "string" ? { permission: r.permission } : {}),
+    ...(r.patterns !== undefined ? { patterns: stringList(r.patterns, "patterns", label) } : {}),
+    ...(metadata ? { metadata } : {}),
+    ...(r.users !== undefined ? { users: stringList(r.users, "users", label) } : {}),
+    ...(days ? { days } : {}),
+    ...(typeof r.hours === "string" ? { hours: r.hours } : {}),
+  }
+}
+
+function inWindow(rule: ApprovalRule, now: Date): boolean {
+  if (rule.days && !rule.days.includes(DAY_NAMES[now.getDay()] ?? "")) return false
+  const hours = rule.hours ? parseHours(rule.hours) : null
+  if (!hours) return true
+  const minute = now.getHours() * 60 + now.getMinutes()
+  return hours.from <= hours.to ? minute >= hours.from && minute < hours.to : minute >= hours.from || minute < hours.to
+}
+
+function matchesRule(rule: ApprovalRule, item: PendingPermission, requester: PolicyRequester | undefined, now: Date): boolean {
+  if (rule.permission !== undefined && !globMatch(rule.permission, item.permission)) return false
+  const approving = rule.action === "once" || rule.action === "always"
+  const matches = (glob: string, value: string) => !(approving && SHELL_CONTROL.test(value)) && globMatch(glob, value)
+
+  if (rule.patterns) {
+    const globs = rule.patterns
+    const matched = (pattern: string) => globs.some((glob) => matches(glob, pattern))
+    if (item.patterns.length === 0) return false
+    if (approving ? !item.patterns.every(matched) : !item.patterns.some(matched)) return false
+  }
+
+  for (const [key, glob] of Object.entries(rule.metadata ?? {})) {
+    const value = metadataValue(item.metadata, key)
+    if (value === undefined || !matches(glob, value)) return false
+  }
+
+  if (rule.users) {
+    if (!requester) return false
+    const who = `${requester.channel}:${requester.userID}`
+    if (!rule.users.some((glob) => globMatch(glob, who))) return false
+  }
+
+  return inWindow(rule, now)
+}
+
+/** Rules for answering permission requests without a human. The first matching rule wins. */
+export class ApprovalPolicy {
+  private rules: ApprovalRule[] = []
+  private loadedAt = 0
+
+  constructor(private readonly filePath = resolvePath(Bun.cwd, ".data/approval-rules.json")) {}
+
+  async init(): Promise<void> {
+    await ensureDir(dirname(this.filePath))
+    if (!(await Bun.file(this.filePath).exists())) {
+      await writeJson(this.filePath, { rules: [] })
+    }
+    await this.load()
+  }
+
+  /** Picks up edits to the rules file; on error the previous rules stay in force. */
+  async refresh(): Promise<void> {
+    const file = Bun.file(this.filePath)
+    if (!(await file.exists())) return
+    if (file.lastModified !== this.loadedAt) await this.load()
+  }
+
+  decide(item: PendingPermission, requester?: PolicyRequester, now = new Date()): PolicyDecision | null {
+    const index = this.rules.findIndex((rule) => matchesRule(rule, item, requester, now))
+    const rule = this.rules[index]
+    if (!rule) return null
+    return { action: rule.action, rule: rule.name ?? `#${index + 1}` }
+  }
+
+  count(): number {
+    return this.rules.length
+  }
+
+  displayFile(): string {
+    const rel = relativePath(Bun.cwd, this.filePath)
+    return rel.length > 0 ? rel : basename(this.filePath)
+  }
+
+  private async load(): Promise<void> {
+    const modified = Bun.file(this.filePath).lastModified
+    const parsed = await readJson<RulesFile>(this.filePath)
+    const raw = parsed && Array.isArray(parsed.rules) ? parsed.rules : null
+    if (!raw) throw new Error(`${this.displayFile()}: expected {"rules": [...]}`)
+    this.rules = raw.map((rule, index) => parseRule(rule, index))
+    this.loadedAt = modified
+  }
+}
@@ -1,15 +1,24 @@
 import { createOpencodeClient } from "@opencode-ai/sdk"
+import type { ChannelName } from "../channels/types"
 import { ensureDir, readText, writeText } from "../utils/fs"
 import { basename, dirname, relativePath } from "../utils/path"
 import { saveLastChannel } from "../utils/last-channel"
 import type { Logger } from "pino"
 import { MemoryStore } from "../memory/store"
+import type { ApprovalPolicy, PolicyRequester } from "./approval-policy"
+import type { AuditEntry, AuditLog } from "./audit-log"
+import { addTotals, BudgetExceededError, emptyTotals, type BudgetState, type BudgetStatus, type CostStore, type CostTotals } from "./cost-store"
 import { SessionStore } from "./session-store"
 
 type AssistantInput = {
-  channel: "telegram" | "system"
+  // "api" and "system" callers never become the target for proactive channel messages.
+  channel: ChannelName | "api" | "system"
   userID: string
   text: string
+  // Routes the prompt to a dedicated per-chat session instead of the shared main session.
+  sessionKey?: string
+  // Prompts MonClaw sends on its own (async_bash feedback) leave the last channel and heartbeat target alone.
+  background?: boolean
 }
 
 export type PermissionReply = "once" | "always" | "reject"
@@ -47,6 +56,39 @@ export type PendingQuestion = {
 
 type QuestionAskedListener = (item: PendingQuestion) => void | Promise<void>
 
+export type AssistantTextDelta = {
+  sessionID: string
+  messageID: string
+  partID: string
+  // Full text of the part so far, not just the newly streamed tokens.
+  text: string
+}
+
+type TextDeltaListener = (delta: AssistantTextDelta) => void
+
+export type SessionAbortResult = {
+  // False when OpenCode reported nothing to abort.
+  aborted: boolean
+  rejectedPermissions: number
+  rejectedQuestions: number
+}
+
+// Assistant message IDs remembered for filtering part events; older ones are dropped first.
+const MAX_TRACKED_ASSISTANT_MESSAGES = 500
+
+// Reply detection: session events drive completion; message polling only covers missed events
+// or a disconnected event stream.
+const EVENT_FALLBACK_POLL_MS = 5_000
+const POLL_INTERVAL_MS = 700
+const POLL_TIMEOUT_MS = 60_000
+
+type SessionWakeReason = "idle" | "pending" | "error" | "aborted" | "timeout"
+
+type ReplyWaiter = {
+  sessionID: string
+  wake: (reason: Exclude<SessionWakeReason, "timeout">) => void
+}
+
 type AssistantOptions = {
   model?: string
   agent?: string
@@ -58,6 +100,16 @@ type AssistantOptions = {
   heartbeatIntervalMinutes: number
   inboxDir: string
   inboxRetentionDays: number
+  // Upper bound for one turn while session events are available (long tool-using turns).
+  replyTimeoutMinutes?: number
+  // Answers matching permission requests before they reach a chat.
+  approvalPolicy?: ApprovalPolicy
+  // Records every permission reply and question answer/rejection with who made it.
+  auditLog?: AuditLog
+  // Token usage and cost of every turn; prompts are refused once the monthly budget is used up.
+  costs?: CostStore
+  // Called once per month when spending crosses the warning threshold and again when it passes the budget.
+  onBudgetAlert?: (state: Exclude<BudgetState, "ok">, status: BudgetStatus) => void
 }
 
 type OpencodeClient = ReturnType<typeof createOpencodeClient>
@@ -143,15 +195,27 @@ async function extractPromptText(result: unknown): Promise<string> {
 }
 
 const PENDING_INTERACTION_SIGNAL = "__PENDING_INTERACTION__"
+// Heartbeat turns are not asked by anyone; their cost is booked under this source.
+const HEARTBEAT_COST_SOURCE = "system:heartbeat"
+const STOPPED_REPLY = "Stopped."
 
 type SessionMessage = {
-  info?: { id?: string; role?: string }
+  info?: {
+    id?: string
+    role?: string
+    time?: { created?: number; completed?: number }
+    // Assistant messages only.
+    cost?: number
+    tokens?: { input?: number; output?: number; reasoning?: number; cache?: { read?: number; write?: number } }
+  }
   parts?: Array<{ type?: string; text?: string }>
 }
 
 function toMessages(value: unknown): SessionMessage[] {
-  const payload = unwrap<Record<string, unknown>>(value)
-  const data = payload.data
+  const payload = unwrap<unknown>(value)
+  // Accept the bare message array as well as a `{ data }` envelope.
+  if (Array.isArray(payload)) return payload as SessionMessage[]
+  const data = payload && typeof payload === "object" ? (payload as { data?: unknown }).data : undefined
   return Array.isArray(data) ? (data as SessionMessage[]) : []
 }
 
@@ -165,6 +229,22 @@ function extractTextFromMessage(message: SessionMessage): string {
   return text
 }
 
+// Usage of a finished assistant message; messages still being generated are charged later.
+function messageUsage(message: SessionMessage): CostTotals | null {
+  const info = message.info
+  if (info?.role !== "assistant" || !info.time?.completed) return null
+  const count = (value: number | undefined) => (typeof value === "number" && Number.isFinite(value) ? value : 0)
+  return {
+    cost: count(info.cost),
+    input: count(info.tokens?.input),
+    output: count(info.tokens?.output),
+    reasoning: count(info.tokens?.reasoning),
+    cacheRead: count(info.tokens?.cache?.read),
+    cacheWrite: count(info.tokens?.cache?.write),
+    messages: 1,
+  }
+}
+
 function buildRecentContext(messages: SessionMessage[], limit = 6, maxChars = 2000): string {
   const out: string[] = []
   let remaining = maxChars
@@ -210,7 +290,7 @@ function buildAgentSystemPrompt(memory: string, heartbeatIntervalMinutes: number
     `Media inbox dir: ${inboxDir}`,
     `Media inbox retention: ${inboxRetentionDays} days`,
     "",
-    "Telegram media handling policy:",
+    "Chat media handling policy:",
     "- Voice/photo uploads may arrive as text prompts that include a local file path under the media inbox.",
     "- When a file path is present, use tools to inspect or transcribe the file before answering.",
     "- For audio files, prefer sherpa-stt for transcription.",
@@ -268,8 +348,22 @@ export class AssistantCore {
   private readonly opts: AssistantOptions
   private readonly pendingPermissions = new Map<string, PendingPermission>()
   private readonly permissionAskedListeners = new Set<PermissionAskedListener>()
+  // Permission requests answered by the approval policy; repeat events for them are ignored.
+  private readonly policyResolved = new Set<string>()
+  // Who sent the latest prompt to each session, for per-user approval rules.
+  private readonly sessionRequesters = new Map<string, PolicyRequester>()
   private readonly pendingQuestions = new Map<string, PendingQuestion>()
   private readonly questionAskedListeners = new Set<QuestionAskedListener>()
+  private readonly textDeltaListeners = new Set<TextDeltaListener>()
+  private readonly assistantMessageIDs = new Set<string>()
+  // Assistant messages whose cost was recorded, and where each session's last charged turn began.
+  private readonly chargedMessageIDs = new Set<string>()
+  private readonly costCursors = new Map<string, { from: number; source: string }>()
+  private readonly sessionStatus = new Map<string, string>()
+  private readonly replyWaiters = new Set<ReplyWaiter>()
+  private eventStreamConnected = false
+  // When each session was last aborted with /stop, so a turn in flight can tell it was cancelled.
+  private readonly abortedAt = new Map<string, number>()
   private eventAbort?: AbortController
 
   constructor(
@@ -289,12 +383,16 @@ export class AssistantCore {
   }
 
   async ask(input: AssistantInput): Promise<string> {
+    const budget = this.opts.costs?.budgetStatus()
+    if (budget?.state === "over") throw new BudgetExceededError(budget)
     const startedAt = Date.now()
     const client = this.ensureClient()
-    const sessionID = await this.getOrCreateMainSession()
+    const sessionID = input.sessionKey ? await this.getOrCreateChatSession(input.sessionKey) : await this.getOrCreateMainSession()
 
-    if (input.channel === "telegram") {
+    this.sessionRequesters.set(sessionID, { channel: input.channel, userID: input.userID })
+    if (!input.background && input.channel !== "system" && input.channel !== "api") {
       await saveLastChannel(input.channel, input.userID)
+      await this.sessions.setLastSessionKey(input.sessionKey)
     }
 
     const memoryContext = await this.memory.readAll()
@@ -317,12 +415,14 @@ export class AssistantCore {
     )
 
     let beforeAssistantSig = ""
+    let beforeCount: number | undefined
     try {
       const beforeMessagesResult = await client.session.messages({
         path: { id: sessionID },
       } as never)
       const beforeMessages = toMessages(beforeMessagesResult)
       beforeAssistantSig = assistantSignature(latestAssistantMessage(beforeMessages))
+      beforeCount = beforeMessages.length
     } catch (error) {
       this.logger.warn({ err: error, sessionID }, "assistant preload messages failed")
     }
@@ -340,11 +440,15 @@ export class AssistantCore {
         },
       } as never)
     } catch (error) {
+      if (this.wasAbortedSince(sessionID, startedAt)) return STOPPED_REPLY
       this.logger.error({ err: error, sessionID }, "assistant prompt call failed")
       throw error
     }
 
-    const parsedText = await extractPromptText(response)
+    const parsedText = await extractPromptText(response).catch((error: unknown) => {
+      if (this.wasAbortedSince(sessionID, startedAt)) return STOPPED_REPLY
+      throw error
+    })
     let assistantText = parsedText
     let usedMessagePolling = false
 
@@ -353,7 +457,7 @@ export class AssistantCore {
       const waitedReply = await this.waitForAssistantReply(sessionID, beforeAssistantSig, true)
       if (waitedReply) {
         if (waitedReply === PENDING_INTERACTION_SIGNAL) {
-          assistantText = "I need your input to continue. Please answer the pending approval/question in Telegram, then I will proceed."
+          assistantText = "I need your input to continue. Please answer the pending approval/question in chat, then I will proceed."
         } else {
           assistantText = waitedReply
           usedMessagePolling = true
@@ -361,6 +465,10 @@ export class AssistantCore {
       }
     }
 
+    if (assistantText === "I could not parse the assistant response." && this.wasAbortedSince(sessionID, startedAt)) {
+      assistantText = STOPPED_REPLY
+    }
+
     if (assistantText === "I could not parse the assistant response.") {
       const diag = await this.buildNoReplyDiagnostic(sessionID)
       this.logger.error(diag, "assistant no-reply diagnostic")
@@ -379,6 +487,7 @@ export class AssistantCore {
       "assistant request completed",
     )
 
+    await this.recordCost(sessionID, beforeCount, `${input.channel}:${input.userID}`)
     return assistantText
   }
 
@@ -389,6 +498,13 @@ export class AssistantCore {
     return sessionID
   }
 
+  async startNewChatSession(key: string, reason = "manual"): Promise<string> {
+    const sessionID = await this.createSession(`${key}:${reason}`)
+    await this.sessions.setChatSessionID(key, sessionID)
+    this.logger.info({ sessionID, key, reason }, "created new chat session")
+    return sessionID
+  }
+
   async remember(note: string, source: string): Promise<void> {
     await this.memory.append(note, source)
   }
@@ -411,12 +527,12 @@ export class AssistantCore {
 
   async reportHeartbeatFailure(reason: string): Promise<void> {
     const detail = reason.trim() || "Unknown heartbeat error"
-    const mainSessionID = await this.getOrCreateMainSession()
+    const targetSessionID = await this.getOrCreateLastActiveSession()
     const client = this.ensureClient()
     const failureSummary = `Heartbeat failed: ${detail}`
 
     await client.session.prompt({
-      path: { id: mainSessionID },
+      path: { id: targetSessionID },
       body: {
         noReply: true,
         ...(this.opts.agent ? { agent: this.opts.agent } : {}),
@@ -426,7 +542,7 @@ export class AssistantCore {
     } as never)
 
     await client.session.prompt({
-      path: { id: mainSessionID },
+      path: { id: targetSessionID },
       body: {
         noReply: false,
         ...(this.opts.agent ? { agent: this.opts.agent } : {}),
@@ -445,13 +561,22 @@ export class AssistantCore {
       },
     } as never)
 
-    this.logger.info({ mainSessionID, failureSummary }, "heartbeat failure reported to main session")
+    this.logger.info({ targetSessionID, failureSummary }, "heartbeat failure reported to conversation session")
   }
 
   async getMainSessionID(): Promise<string> {
     return this.getOrCreateMainSession()
   }
 
+  async getChatSessionID(key: string): Promise<string> {
+    return this.getOrCreateChatSession(key)
+  }
+
+  /** Session key for callers that only kept a session ID; undefined means the main session. */
+  sessionKeyOf(sessionID: string): string | undefined {
+    return this.sessions.chatSessionKeyOf(sessionID)
+  }
+
   async listPendingPermissions(sessionID?: string): Promise<PendingPermission[]> {
     await this.syncPendingPermissions()
     const out = Array.from(this.pendingPermissions.values())
@@ -466,7 +591,57 @@ export class AssistantCore {
     return out.filter((item) => item.sessionID === sessionID)
   }
 
-  async replyPermission(requestID: string, reply: PermissionReply, message?: string, sessionID?: string): Promise<void> {
+  /** Aborts the running turn and rejects whatever approvals and questions it is waiting on. */
+  async abortSession(sessionID: string, actor = "system:abort"): Promise<SessionAbortResult> {
+    const client = this.ensureClient()
+    this.abortedAt.set(sessionID, Date.now())
+
+    const permissions = await this.listPendingPermissions(sessionID)
+    const questions = await this.listPendingQuestions(sessionID)
+    let rejectedPermissions = 0
+    let rejectedQuestions = 0
+    for (const item of permissions) {
+      try {
+        await this.replyPermission(item.id, "reject", "Stopped by the user.", sessionID, actor)
+        this.pendingPermissions.delete(item.id)
+        rejectedPermissions += 1
+      } catch (error) {
+        this.logger.warn({ err: error, sessionID, permissionID: item.id }, "rejecting permission on abort failed")
+      }
+    }
+    for (const item of questions) {
+      try {
+        await this.rejectQuestion(item.id, actor)
+        rejectedQuestions += 1
+      } catch (error) {
+        this.logger.warn({ err: error, sessionID, requestID: item.id }, "rejecting question on abort failed")
+      }
+    }
+
+    const result = await client.session.abort({ path: { id: sessionID } } as never)
+    const aborted = unwrap<unknown>(result, "session.abort") === true
+    this.wakeReplyWaiters(sessionID, "aborted")
+    this.logger.info({ sessionID, aborted, rejectedPermissions, rejectedQuestions }, "session aborted")
+    return { aborted, rejectedPermissions, rejectedQuestions }
+  }
+
+  /** `actor` is who decided, as recorded in the audit log: "<channel>:<userID>" or "system:<reason>". */
+  async replyPermission(requestID: string, reply: PermissionReply, message?: string, sessionID?: string, actor = "unknown"): Promise<void> {
+    const item = this.pendingPermissions.get(requestID)
+    await this.sendPermissionReply(requestID, reply, message, sessionID)
+    await this.audit({
+      action: "permission.reply",
+      actor,
+      requestID,
+      sessionID: item?.sessionID ?? sessionID,
+      permission: item?.permission,
+      patterns: item?.patterns,
+      decision: reply,
+      ...(message ? { detail: message } : {}),
+    })
+  }
+
+  private async sendPermissionReply(requestID: string, reply: PermissionReply, message?: string, sessionID?: string): Promise<void> {
     const client = this.ensureClient() as any
 
     if (client.permission?.reply) {
@@ -505,37 +680,53 @@ export class AssistantCore {
     this.pendingPermissions.delete(requestID)
   }
 
-  async replyQuestion(requestID: string, answers: Array<Array<string>>): Promise<void> {
+  async replyQuestion(requestID: string, answers: Array<Array<string>>, actor = "unknown"): Promise<void> {
     const client = this.ensureClient() as any
+    const sessionID = this.pendingQuestions.get(requestID)?.sessionID
 
     if (client.question?.reply) {
       await client.question.reply({ requestID, answers })
-      this.pendingQuestions.delete(requestID)
-      return
+    } else {
+      await client._client.post({
+        url: "/question/{requestID}/reply",
+        path: { requestID },
+        body: { answers },
+      })
     }
-
-    await client._client.post({
-      url: "/question/{requestID}/reply",
-      path: { requestID },
-      body: { answers },
-    })
     this.pendingQuestions.delete(requestID)
+    await this.audit({ action: "question.reply", actor, requestID, sessionID, decision: answers.map((group) => group.join(", ")).join("; ") })
   }
 
-  async rejectQuestion(requestID: string): Promise<void> {
+  async rejectQuestion(requestID: string, actor = "unknown"): Promise<void> {
     const client = this.ensureClient() as any
+    const sessionID = this.pendingQuestions.get(requestID)?.sessionID
 
     if (client.question?.reject) {
       await client.question.reject({ requestID })
-      this.pendingQuestions.delete(requestID)
-      return
+    } else {
+      await client._client.post({
+        url: "/question/{requestID}/reject",
+        path: { requestID },
+      })
     }
+    this.pendingQuestions.delete(requestID)
+    await this.audit({ action: "question.reject", actor, requestID, sessionID, decision: "reject" })
+  }
 
-    await client._client.post({
-      url: "/question/{requestID}/reject",
-      path: { requestID },
+  // Audit failures are logged, never raised: the decision itself already went through.
+  private async audit(entry: Omit<AuditEntry, "at">): Promise<void> {
+    await this.opts.auditLog?.record(entry).catch((error: unknown) => {
+      this.logger.warn({ err: error, action: entry.action, requestID: entry.requestID }, "audit log write failed")
     })
-    this.pendingQuestions.delete(requestID)
+  }
+
+  /** Adds a note to the session as a user message without starting a model turn. */
+  async addSessionNote(sessionID: string, text: string): Promise<void> {
+    const client = this.ensureClient()
+    await client.session.prompt({
+      path: { id: sessionID },
+      body: { noReply: true, parts: [{ type: "text", text }] },
+    } as never)
   }
 
   onPermissionAsked(listener: PermissionAskedListener): () => void {
@@ -552,13 +743,25 @@ export class AssistantCore {
     }
   }
 
+  /** Streams assistant text as OpenCode generates it; used for live-edited replies. */
+  onTextDelta(listener: TextDeltaListener): () => void {
+    this.textDeltaListeners.add(listener)
+    return () => {
+      this.textDeltaListeners.delete(listener)
+    }
+  }
+
   async getLatestAssistantSignature(sessionID: string): Promise<string> {
     const messages = await this.ensureClient().session.messages({ path: { id: sessionID } } as never)
     return assistantSignature(latestAssistantMessage(toMessages(messages)))
   }
 
   async waitForAssistantAfter(sessionID: string, beforeAssistantSig: string): Promise<string | null> {
-    return this.waitForAssistantReply(sessionID, beforeAssistantSig)
+    const reply = await this.waitForAssistantReply(sessionID, beforeAssistantSig)
+    // The turn that paused for input finished now; charge what it produced since.
+    const cursor = this.costCursors.get(sessionID)
+    if (cursor) await this.recordCost(sessionID, cursor.from, cursor.source)
+    return reply
   }
 
   async heartbeatTaskStatus(): Promise<{ file: string; taskCount: number; empty: boolean }> {
@@ -573,10 +776,14 @@ export class AssistantCore {
     if (tasks.length === 0) {
       return "Heartbeat skipped: heartbeat.md has no tasks."
     }
+    const budget = this.opts.costs?.budgetStatus()
+    if (budget?.state === "over") {
+      return `Heartbeat skipped: ${new BudgetExceededError(budget).message}`
+    }
 
     const heartbeatSessionID = await this.getOrCreateHeartbeatSession()
-    const mainSessionID = await this.getOrCreateMainSession()
-    this.logger.info({ heartbeatSessionID, mainSessionID, taskCount: tasks.length }, "heartbeat sessions ready")
+    const targetSessionID = await this.getOrCreateLastActiveSession()
+    this.logger.info({ heartbeatSessionID, targetSessionID, taskCount: tasks.length }, "heartbeat sessions ready")
     const client = this.ensureClient()
 
     const memoryContext = await this.memory.readAll()
@@ -588,17 +795,21 @@ export class AssistantCore {
     )
 
     let recentContext = ""
+    let targetBeforeCount: number | undefined
     try {
-      const mainMessagesResult = await client.session.messages({ path: { id: mainSessionID } } as never)
-      recentContext = buildRecentContext(toMessages(mainMessagesResult))
+      const targetMessages = toMessages(await client.session.messages({ path: { id: targetSessionID } } as never))
+      recentContext = buildRecentContext(targetMessages)
+      targetBeforeCount = targetMessages.length
     } catch (error) {
-      this.logger.warn({ err: error, mainSessionID }, "heartbeat main-session context load failed")
+      this.logger.warn({ err: error, targetSessionID }, "heartbeat conversation context load failed")
     }
 
     let beforeAssistantSig = ""
+    let heartbeatBeforeCount: number | undefined
     try {
-      const beforeMessagesResult = await client.session.messages({ path: { id: heartbeatSessionID } } as never)
-      beforeAssistantSig = assistantSignature(latestAssistantMessage(toMessages(beforeMessagesResult)))
+      const beforeMessages = toMessages(await client.session.messages({ path: { id: heartbeatSessionID } } as never))
+      beforeAssistantSig = assistantSignature(latestAssistantMessage(beforeMessages))
+      heartbeatBeforeCount = beforeMessages.length
     } catch (error) {
       this.logger.warn({ err: error, heartbeatSessionID }, "heartbeat preload messages failed")
     }
@@ -608,7 +819,7 @@ export class AssistantCore {
       "This is routine task execution, not a healthcheck.",
       "If nothing requires action, explicitly say no action is needed.",
       "",
-      recentContext ? "Recent main session context:" : "",
+      recentContext ? "Recent conversation context:" : "",
       recentContext,
       recentContext ? "" : "",
       "Task list:",
@@ -637,13 +848,14 @@ export class AssistantCore {
       this.logger.warn({ heartbeatSessionID }, "heartbeat response parse failed; polling messages")
       summary = (await this.waitForAssistantReply(heartbeatSessionID, beforeAssistantSig)) ?? ""
     }
+    await this.recordCost(heartbeatSessionID, heartbeatBeforeCount, HEARTBEAT_COST_SOURCE)
     if (!summary) {
       return "Heartbeat failed: no summary reply from model."
     }
 
     try {
       await client.session.prompt({
-        path: { id: mainSessionID },
+        path: { id: targetSessionID },
         body: {
           noReply: true,
           ...(this.opts.agent ? { agent: this.opts.agent } : {}),
@@ -652,13 +864,13 @@ export class AssistantCore {
         },
       } as never)
     } catch (error) {
-      this.logger.error({ err: error, mainSessionID }, "heartbeat summary injection failed")
+      this.logger.error({ err: error, targetSessionID }, "heartbeat summary injection failed")
       throw error
     }
 
     try {
       await client.session.prompt({
-        path: { id: mainSessionID },
+        path: { id: targetSessionID },
         body: {
           noReply: false,
           ...(this.opts.agent ? { agent: this.opts.agent } : {}),
@@ -677,11 +889,12 @@ export class AssistantCore {
         },
       } as never)
     } catch (error) {
-      this.logger.error({ err: error, mainSessionID }, "heartbeat notify prompt failed")
+      this.logger.error({ err: error, targetSessionID }, "heartbeat notify prompt failed")
       throw error
     }
+    await this.recordCost(targetSessionID, targetBeforeCount, HEARTBEAT_COST_SOURCE)
 
-    this.logger.info({ heartbeatSessionID, mainSessionID, taskCount: tasks.length, durationMs: Date.now() - startedAt }, "heartbeat task run complete")
+    this.logger.info({ heartbeatSessionID, targetSessionID, taskCount: tasks.length, durationMs: Date.now() - startedAt }, "heartbeat task run complete")
     return `Heartbeat completed with ${tasks.length} tasks.`
   }
 
@@ -691,6 +904,52 @@ export class AssistantCore {
     // No local OpenCode runtime is spawned in remote-only mode.
   }
 
+  // Charges finished assistant messages from index `from` on to `source`; each message is charged once.
+  private async recordCost(sessionID: string, from: number | undefined, source: string): Promise<void> {
+    const costs = this.opts.costs
+    if (!costs || from === undefined) return
+    this.costCursors.set(sessionID, { from, source })
+    try {
+      const messages = toMessages(await this.ensureClient().session.messages({ path: { id: sessionID } } as never))
+      const usage = emptyTotals()
+      for (const message of messages.slice(from)) {
+        const id = message.info?.id
+        const charged = messageUsage(message)
+        if (!id || !charged || this.chargedMessageIDs.has(id)) continue
+        this.chargedMessageIDs.add(id)
+        if (this.chargedMessageIDs.size > MAX_TRACKED_ASSISTANT_MESSAGES) {
+          const oldest = this.chargedMessageIDs.values().next().value
+          if (oldest) this.chargedMessageIDs.delete(oldest)
+        }
+        addTotals(usage, charged)
+      }
+      if (usage.messages === 0) return
+
+      const result = await costs.record({ source, sessionID, usage })
+      this.logger.info(
+        {
+          sessionID,
+          source,
+          costUSD: usage.cost,
+          inputTokens: usage.input,
+          outputTokens: usage.output,
+          reasoningTokens: usage.reasoning,
+          cacheReadTokens: usage.cacheRead,
+          cacheWriteTokens: usage.cacheWrite,
+          monthCostUSD: result.monthCost,
+        },
+        "model usage recorded",
+      )
+      if (result.crossed) {
+        const status = costs.budgetStatus()
+        this.logger.warn(status, result.crossed === "over" ? "monthly model budget exceeded" : "monthly model budget warning")
+        this.opts.onBudgetAlert?.(result.crossed, status)
+      }
+    } catch (error) {
+      this.logger.warn({ err: error, sessionID, source }, "recording model usage failed")
+    }
+  }
+
   private async createSession(key: string): Promise<string> {
     const client = this.ensureClient()
     const session = await client.session.create({
@@ -715,6 +974,21 @@ export class AssistantCore {
     return created
   }
 
+  private async getOrCreateChatSession(key: string): Promise<string> {
+    const existing = this.sessions.getChatSessionID(key)
+    if (existing) return existing
+    const created = await this.createSession(key)
+    await this.sessions.setChatSessionID(key, created)
+    return created
+  }
+
+  // Heartbeat summaries and their follow-up go to the conversation proactive messages are routed to.
+  // Heartbeat tasks belong to no one in particular, so in per-user and per-chat modes this is still a single session.
+  private async getOrCreateLastActiveSession(): Promise<string> {
+    const key = this.sessions.getLastSessionKey()
+    return key ? this.getOrCreateChatSession(key) : this.getOrCreateMainSession()
+  }
+
   private async getOrCreateHeartbeatSession(): Promise<string> {
     const existing = this.sessions.getHeartbeatSessionID()
     if (existing) return existing
@@ -724,46 +998,109 @@ export class AssistantCore {
   }
 
   private async waitForAssistantReply(sessionID: string, beforeAssistantSig: string, stopOnPendingInteraction = false): Promise<string | null> {
-    const timeoutMs = 60_000
-    const intervalMs = 700
-    const endAt = Date.now() + timeoutMs
+    const startedAt = Date.now()
     let pollCount = 0
 
-    while (Date.now() < endAt) {
+    for (;;) {
+      const eventDriven = this.eventStreamConnected
+      const timeoutMs = eventDriven ? Math.max(1, this.opts.replyTimeoutMinutes ?? 30) * 60_000 : POLL_TIMEOUT_MS
+      if (Date.now() - startedAt >= timeoutMs) {
+        this.logger.warn({ sessionID, timeoutMs, eventDriven }, "assistant reply wait timed out")
+        return null
+      }
+
       pollCount += 1
       try {
-        const messagesResult = await this.ensureClient().session.messages({
-          path: { id: sessionID },
-        } as never)
-        const messages = toMessages(messagesResult)
-        const latestAssistant = latestAssistantMessage(messages)
-        const nextSig = assistantSignature(latestAssistant)
-        if (latestAssistant && nextSig !== beforeAssistantSig) {
-          const text = extractTextFromMessage(latestAssistant)
-          if (text.length > 0) return text
-        }
-        if (pollCount % 5 === 0) {
-          this.logger.info(
-            { sessionID, pollCount, currentCount: messages.length },
-            "waiting for assistant reply",
-          )
+        const reply = await this.readCompletedReply(sessionID, beforeAssistantSig)
+        if (reply) return reply
+      } catch (error) {
+        this.logger.warn({ err: error, sessionID, pollCount }, "polling assistant reply failed")
+      }
+
+      if (stopOnPendingInteraction) {
+        const hasPending = eventDriven
+          ? this.hasKnownPendingInteraction(sessionID)
+          : pollCount % 3 === 0 && (await this.hasPendingInteraction(sessionID))
+        if (hasPending) {
+          this.logger.info({ sessionID, pollCount }, "assistant reply wait stopped by pending interaction")
+          return PENDING_INTERACTION_SIGNAL
         }
+      }
 
-        if (stopOnPendingInteraction && pollCount % 3 === 0) {
-          const hasPending = await this.hasPendingInteraction(sessionID)
-          if (hasPending) {
-            this.logger.info({ sessionID, pollCount }, "assistant reply wait stopped by pending interaction")
-            return PENDING_INTERACTION_SIGNAL
-          }
+      if (!eventDriven && pollCount % 5 === 0) {
+        this.logger.info({ sessionID, pollCount }, "waiting for assistant reply")
+      }
+
+      const reason = await this.waitForSessionEvent(sessionID, eventDriven ? EVENT_FALLBACK_POLL_MS : POLL_INTERVAL_MS)
+      if (reason === "error" || reason === "aborted") return null
+      if (reason === "pending" && stopOnPendingInteraction) {
+        this.logger.info({ sessionID, pollCount }, "assistant reply wait stopped by pending interaction")
+        return PENDING_INTERACTION_SIGNAL
+      }
+      if (reason === "idle") {
+        // The turn is over: whatever the session holds now is the reply, or there is none.
+        try {
+          return await this.readCompletedReply(sessionID, beforeAssistantSig)
+        } catch (error) {
+          this.logger.warn({ err: error, sessionID }, "reading assistant reply after idle failed")
+          return null
         }
-      } catch (error) {
-        this.logger.warn({ err: error, sessionID, pollCount }, "polling assistant reply failed")
       }
-      await new Promise((resolve) => setTimeout(resolve, intervalMs))
     }
+  }
+
+  /** Latest assistant text when it is new and the session is no longer working on the turn. */
+  private async readCompletedReply(sessionID: string, beforeAssistantSig: string): Promise<string | null> {
+    const status = this.eventStreamConnected ? this.sessionStatus.get(sessionID) : undefined
+    // Intermediate messages of a multi-step turn also carry text; wait until the session settles.
+    if (status === "busy" || status === "retry") return null
+
+    const messagesResult = await this.ensureClient().session.messages({
+      path: { id: sessionID },
+    } as never)
+    const latestAssistant = latestAssistantMessage(toMessages(messagesResult))
+    if (!latestAssistant || assistantSignature(latestAssistant) === beforeAssistantSig) return null
+    if (latestAssistant.info?.time && !latestAssistant.info.time.completed) return null
+    const text = extractTextFromMessage(latestAssistant)
+    return text.length > 0 ? text : null
+  }
+
+  private waitForSessionEvent(sessionID: string, timeoutMs: number): Promise<SessionWakeReason> {
+    return new Promise((resolve) => {
+      const waiter: ReplyWaiter = {
+        sessionID,
+        wake: (reason) => {
+          clearTimeout(timer)
+          this.replyWaiters.delete(waiter)
+          resolve(reason)
+        },
+      }
+      const timer = setTimeout(() => {
+        this.replyWaiters.delete(waiter)
+        resolve("timeout")
+      }, timeoutMs)
+      this.replyWaiters.add(waiter)
+    })
+  }
+
+  private wakeReplyWaiters(sessionID: string, reason: Exclude<SessionWakeReason, "timeout">): void {
+    for (const waiter of Array.from(this.replyWaiters)) {
+      if (waiter.sessionID === sessionID) waiter.wake(reason)
+    }
+  }
 
-    this.logger.warn({ sessionID, timeoutMs }, "assistant reply polling timed out")
-    return null
+  private wasAbortedSince(sessionID: string, startedAt: number): boolean {
+    return (this.abortedAt.get(sessionID) ?? 0) >= startedAt
+  }
+
+  private hasKnownPendingInteraction(sessionID: string): boolean {
+    for (const item of this.pendingPermissions.values()) {
+      if (item.sessionID === sessionID) return true
+    }
+    for (const item of this.pendingQuestions.values()) {
+      if (item.sessionID === sessionID) return true
+    }
+    return false
   }
 
   private async hasPendingInteraction(sessionID: string): Promise<boolean> {
@@ -862,10 +1199,14 @@ export class AssistantCore {
             signal: this.eventAbort?.signal,
           })
           for await (const event of sse.stream) {
+            this.eventStreamConnected = true
             this.handleEvent(event)
             if (this.eventAbort?.signal.aborted) break
           }
         } catch (error) {
+          this.eventStreamConnected = false
+          // Statuses go stale while disconnected; polling decides on its own until events resume.
+          this.sessionStatus.clear()
           if (this.eventAbort?.signal.aborted) break
           this.logger.warn({ err: error }, "assistant event stream failed; retrying")
           await new Promise((resolve) => setTimeout(resolve, 1000))
@@ -888,19 +1229,17 @@ export class AssistantCore {
     if (event.type === "permission.updated" || event.type === "permission.asked") {
       const mapped = this.mapPermissionFromEvent(event.properties)
       if (!mapped) return
-      this.pendingPermissions.set(mapped.id, mapped)
-      for (const listener of this.permissionAskedListeners) {
-        void Promise.resolve(listener(mapped)).catch((err) => {
-          this.logger.warn({ err }, "permission listener failed")
-        })
-      }
+      void this.routePermission(mapped)
       return
     }
 
     if (event.type === "permission.replied") {
       const p = event.properties as Record<string, unknown> | undefined
       const requestID = typeof p?.permissionID === "string" ? p.permissionID : typeof p?.requestID === "string" ? p.requestID : ""
-      if (requestID) this.pendingPermissions.delete(requestID)
+      if (requestID) {
+        this.pendingPermissions.delete(requestID)
+        this.policyResolved.delete(requestID)
+      }
       return
     }
 
@@ -908,6 +1247,7 @@ export class AssistantCore {
       const mapped = this.mapQuestionFromEvent(event.properties)
       if (!mapped) return
       this.pendingQuestions.set(mapped.id, mapped)
+      this.wakeReplyWaiters(mapped.sessionID, "pending")
       for (const listener of this.questionAskedListeners) {
         void Promise.resolve(listener(mapped)).catch((err) => {
           this.logger.warn({ err }, "question listener failed")
@@ -920,6 +1260,105 @@ export class AssistantCore {
       const p = event.properties as Record<string, unknown> | undefined
       const requestID = typeof p?.requestID === "string" ? p.requestID : ""
       if (requestID) this.pendingQuestions.delete(requestID)
+      return
+    }
+
+    if (event.type === "session.status" || event.type === "session.idle") {
+      const p = event.properties as { sessionID?: unknown; status?: { type?: unknown } } | undefined
+      const sessionID = typeof p?.sessionID === "string" ? p.sessionID : ""
+      const status = event.type === "session.idle" ? "idle" : typeof p?.status?.type === "string" ? p.status.type : ""
+      if (!sessionID || !status) return
+      this.sessionStatus.set(sessionID, status)
+      if (status === "idle") this.wakeReplyWaiters(sessionID, "idle")
+      return
+    }
+
+    if (event.type === "session.error") {
+      const p = event.properties as { sessionID?: unknown; error?: unknown } | undefined
+      const sessionID = typeof p?.sessionID === "string" ? p.sessionID : ""
+      if (!sessionID) return
+      this.logger.warn({ sessionID, error: stringifyUnknown(p?.error) }, "opencode session error")
+      this.wakeReplyWaiters(sessionID, "error")
+      return
+    }
+
+    if (event.type === "message.updated") {
+      const info = (event.properties as { info?: { id?: unknown; role?: unknown } } | undefined)?.info
+      if (info?.role !== "assistant" || typeof info.id !== "string") return
+      this.assistantMessageIDs.add(info.id)
+      if (this.assistantMessageIDs.size > MAX_TRACKED_ASSISTANT_MESSAGES) {
+        const oldest = this.assistantMessageIDs.values().next().value
+        if (oldest) this.assistantMessageIDs.delete(oldest)
+      }
+      return
+    }
+
+    if (event.type === "message.part.updated") {
+      if (this.textDeltaListeners.size === 0) return
+      const delta = this.mapTextDeltaFromEvent(event.properties)
+      if (!delta) return
+      for (const listener of this.textDeltaListeners) {
+        try {
+          listener(delta)
+        } catch (err) {
+          this.logger.warn({ err }, "text delta listener failed")
+        }
+      }
+    }
+  }
+
+  private mapTextDeltaFromEvent(properties: unknown): AssistantTextDelta | null {
+    const part = (properties as { part?: Record<string, unknown> } | undefined)?.part
+    if (!part || part.type !== "text" || part.synthetic === true || part.ignored === true) return null
+    const { id, sessionID, messageID, text } = part
+    if (typeof id !== "string" || typeof sessionID !== "string" || typeof messageID !== "string" || typeof text !== "string") return null
+    // User prompt parts arrive on the same event type; only stream what the assistant writes.
+    if (!this.assistantMessageIDs.has(messageID)) return null
+    return { sessionID, messageID, partID: id, text }
+  }
+
+  // Rules answer routine requests; unmatched or escalated ones go to chat as before.
+  private async routePermission(item: PendingPermission): Promise<void> {
+    if (this.policyResolved.has(item.id)) return
+    const policy = this.opts.approvalPolicy
+    if (policy) {
+      await policy.refresh().catch((error: unknown) => {
+        this.logger.warn({ err: error, file: policy.displayFile() }, "approval rules reload failed; keeping previous rules")
+      })
+      const decision = policy.decide(item, this.sessionRequesters.get(item.sessionID))
+      const log = { sessionID: item.sessionID, permissionID: item.id, permission: item.permission, patterns: item.patterns, ...decision }
+      if (decision?.action === "escalate") {
+        this.logger.info(log, "permission escalated by approval policy")
+      } else if (decision) {
+        this.policyResolved.add(item.id)
+        try {
+          const message = decision.action === "reject" ? `Rejected by approval rule ${decision.rule}.` : undefined
+          await this.sendPermissionReply(item.id, decision.action, message, item.sessionID)
+          this.pendingPermissions.delete(item.id)
+          await this.audit({
+            action: "permission.reply",
+            actor: `policy:${decision.rule}`,
+            requestID: item.id,
+            sessionID: item.sessionID,
+            permission: item.permission,
+            patterns: item.patterns,
+            decision: decision.action,
+          })
+          this.logger.info(log, "permission resolved by approval policy")
+          return
+        } catch (error) {
+          this.policyResolved.delete(item.id)
+          this.logger.warn({ err: error, ...log }, "approval policy reply failed; asking in chat")
+        }
+      }
+    }
+
+    this.pendingPermissions.set(item.id, item)
+    this.wakeReplyWaiters(item.sessionID, "pending")
+    for (const listener of this.permissionAskedListeners) {
+      void Promise.resolve(listener(item)).catch((err) => {
+        this.logger.warn({ err }, "permission listener failed")
+      })
     }
   }
 
@@ -1005,7 +1444,7 @@ export class AssistantCore {
       this.pendingPermissions.clear()
       for (const item of list) {
         const mapped = this.mapPermissionFromEvent(item)
-        if (!mapped) continue
+        if (!mapped || this.policyResolved.has(mapped.id)) continue
         this.pendingPermissions.set(mapped.id, mapped)
       }
     } catch (error) {
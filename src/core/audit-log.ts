@@ -0,0 +1,105 @@
+import { appendFile } from "node:fs/promises"
+import { isChannelName, type ChannelName } from "../channels/types"
+import { ensureDir, readText } from "../utils/fs"
+import { basename, dirname, relativePath, resolvePath } from "../utils/path"
+
+export const AUDIT_ACTIONS = [
+  "permission.reply",
+  "question.reply",
+  "question.reject",
+  "pair",
+  "new",
+  "remember",
+  "user.invite",
+  "user.revoke",
+  "user.promote",
+] as const
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number]
+
+export function isAuditAction(value: string): value is AuditAction {
+  return (AUDIT_ACTIONS as readonly string[]).includes(value)
+}
+
+export type AuditEntry = {
+  at: string
+  action: AuditAction
+  // "<channel>:<userID>" for people; "policy:<rule>" and "system:<reason>" for automatic decisions.
+  actor: string
+  channel?: ChannelName
+  requestID?: string
+  sessionID?: string
+  permission?: string
+  patterns?: string[]
+  decision?: string
+  detail?: string
+}
+
+export type AuditFilter = {
+  limit: number
+  actor?: string
+  action?: string
+  requestID?: string
+  permission?: string
+}
+
+function channelOf(actor: string): ChannelName | undefined {
+  const prefix = actor.slice(0, actor.indexOf(":"))
+  return isChannelName(prefix) ? prefix : undefined
+}
+
+function parseLine(line: string): AuditEntry | null {
+  try {
+    const entry = JSON.parse(line) as Partial<AuditEntry>
+    if (typeof entry.at !== "string" || typeof entry.actor !== "string" || typeof entry.action !== "string") return null
+    return isAuditAction(entry.action) ? (entry as AuditEntry) : null
+  } catch {
+    return null
+  }
+}
+
+/** Append-only JSONL record of who approved, answered, paired, reset, remembered or changed which user. */
+export class AuditLog {
+  constructor(private readonly filePath = resolvePath(Bun.cwd, ".data/audit.jsonl")) {}
+
+  async init(): Promise<void> {
+    await ensureDir(dirname(this.filePath))
+  }
+
+  async record(entry: Omit<AuditEntry, "at">): Promise<void> {
+    const channel = entry.channel ?? channelOf(entry.actor)
+    const line = JSON.stringify({ at: new Date().toISOString(), ...entry, ...(channel ? { channel } : {}) })
+    await appendFile(this.filePath, `${line}\n`)
+  }
+
+  /** Newest last; actor and permission match on substrings so "telegram:" or "bash" work. */
+  async recent(filter: AuditFilter): Promise<AuditEntry[]> {
+    let raw = ""
+    try {
+      raw = await readText(this.filePath)
+    } catch {
+      return []
+    }
+    const entries: AuditEntry[] = []
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue
+      const entry = parseLine(line)
+      if (!entry) continue
+      if (filter.actor && !entry.actor.includes(filter.actor)) continue
+      if (filter.action && !entry.action.startsWith(filter.action)) continue
+      if (filter.requestID && entry.requestID !== filter.requestID) continue
+      if (filter.permission && !entry.permission?.includes(filter.permission)) continue
+      entries.push(entry)
+    }
+    return entries.slice(-filter.limit)
+  }
+
+  file(): string {
+    return this.filePath
+  }
+
+  displayFile(): string {
+    const rel = relativePath(Bun.cwd, this.filePath)
+    return rel.length > 0 ? rel : basename(this.filePath)
+  }
+}
@@ -0,0 +1,234 @@
+import { ensureDir, readJson, writeJson } from "../utils/fs"
+import { dirname, resolvePath } from "../utils/path"
+
+// Token counts and USD cost as OpenCode reports them on assistant messages.
+export type CostTotals = {
+  cost: number
+  input: number
+  output: number
+  reasoning: number
+  cacheRead: number
+  cacheWrite: number
+  // Assistant messages counted.
+  messages: number
+}
+
+export type BudgetState = "ok" | "warn" | "over"
+
+export type BudgetStatus = {
+  month: string
+  spent: number
+  // 0 when no budget is configured.
+  budget: number
+  state: BudgetState
+}
+
+export type CostRecordResult = {
+  monthCost: number
+  // Set the first time in a month the total crosses the warning threshold or the budget.
+  crossed?: Exclude<BudgetState, "ok">
+}
+
+type SessionTotals = CostTotals & { source: string; lastAt: string }
+
+type CostData = {
+  // YYYY-MM-DD (UTC) -> totals
+  days: Record<string, CostTotals>
+  // YYYY-MM -> source ("<channel>:<userID>", "system:heartbeat") -> totals
+  users: Record<string, Record<string, CostTotals>>
+  sessions: Record<string, SessionTotals>
+  // Month each budget alert was last raised, so it is raised once per month.
+  alerts: Partial<Record<Exclude<BudgetState, "ok">, string>>
+}
+
+// Day and per-user totals older than this many months are dropped on start.
+const KEEP_MONTHS = 13
+const KEEP_SESSION_DAYS = 90
+
+export function emptyTotals(): CostTotals {
+  return { cost: 0, input: 0, output: 0, reasoning: 0, cacheRead: 0, cacheWrite: 0, messages: 0 }
+}
+
+export function addTotals(into: CostTotals, from: CostTotals): CostTotals {
+  into.cost += from.cost
+  into.input += from.input
+  into.output += from.output
+  into.reasoning += from.reasoning
+  into.cacheRead += from.cacheRead
+  into.cacheWrite += from.cacheWrite
+  into.messages += from.messages
+  return into
+}
+
+export function totalTokens(totals: CostTotals): number {
+  return totals.input + totals.output + totals.reasoning + totals.cacheRead + totals.cacheWrite
+}
+
+export function formatUSD(amount: number): string {
+  return `$${amount.toFixed(2)}`
+}
+
+function compactCount(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`
+  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}k`
+  return String(n)
+}
+
+export function formatCostTotals(totals: CostTotals): string {
+  return `${formatUSD(totals.cost)}, ${totals.messages} ${totals.messages === 1 ? "reply" : "replies"}, ${compactCount(totalTokens(totals))} tokens`
+}
+
+/** Thrown instead of prompting the model once the monthly budget is used up. */
+export class BudgetExceededError extends Error {
+  constructor(readonly status: BudgetStatus) {
+    super(`This month's model budget is used up (${formatUSD(status.spent)} of ${formatUSD(status.budget)}).`)
+  }
+}
+
+function emptyData(): CostData {
+  return { days: {}, users: {}, sessions: {}, alerts: {} }
+}
+
+function parseTotals(value: unknown): CostTotals | null {
+  if (!value || typeof value !== "object") return null
+  const raw = value as Record<string, unknown>
+  const totals = emptyTotals()
+  for (const key of Object.keys(totals) as Array<keyof CostTotals>) {
+    const n = raw[key]
+    if (typeof n === "number" && Number.isFinite(n) && n >= 0) totals[key] = n
+  }
+  return totals
+}
+
+function monthsAgo(now: number, months: number): string {
+  const date = new Date(now)
+  date.setUTCDate(1)
+  date.setUTCMonth(date.getUTCMonth() - months)
+  return date.toISOString().slice(0, 7)
+}
+
+/** Model token usage and cost per day, per user each month and per session, with a monthly budget. */
+export class CostStore {
+  private data: CostData = emptyData()
+
+  constructor(
+    private readonly budget: { monthlyUSD: number; warnPercent: number },
+    private readonly filePath = resolvePath(Bun.cwd, ".data/costs.json"),
+  ) {}
+
+  async init(): Promise<void> {
+    await ensureDir(dirname(this.filePath))
+    try {
+      const parsed = await readJson<Partial<Record<keyof CostData, unknown>>>(this.filePath)
+      const now = Date.now()
+      const oldestMonth = monthsAgo(now, KEEP_MONTHS)
+      const oldestSession = now - KEEP_SESSION_DAYS * 24 * 60 * 60 * 1000
+      const next = emptyData()
+      for (const [day, value] of Object.entries((parsed.days ?? {}) as Record<string, unknown>)) {
+        const totals = parseTotals(value)
+        if (totals && day.slice(0, 7) >= oldestMonth) next.days[day] = totals
+      }
+      for (const [month, value] of Object.entries((parsed.users ?? {}) as Record<string, unknown>)) {
+        if (month < oldestMonth || !value || typeof value !== "object") continue
+        next.users[month] = {}
+        for (const [source, raw] of Object.entries(value)) {
+          const totals = parseTotals(raw)
+          if (totals) next.users[month][source] = totals
+        }
+      }
+      for (const [sessionID, value] of Object.entries((parsed.sessions ?? {}) as Record<string, unknown>)) {
+        const totals = parseTotals(value)
+        const raw = value as Partial<SessionTotals>
+        if (!totals || typeof raw.source !== "string" || typeof raw.lastAt !== "string") continue
+        if (Date.parse(raw.lastAt) < oldestSession) continue
+        next.sessions[sessionID] = { ...totals, source: raw.source, lastAt: raw.lastAt }
+      }
+      const alerts = (parsed.alerts ?? {}) as Record<string, unknown>
+      if (typeof alerts.warn === "string") next.alerts.warn = alerts.warn
+      if (typeof alerts.over === "string") next.alerts.over = alerts.over
+      this.data = next
+      await this.persist()
+    } catch {
+      this.data = emptyData()
+      await this.persist()
+    }
+  }
+
+  async record(params: { source: string; sessionID: string; usage: CostTotals }, now = Date.now()): Promise<CostRecordResult> {
+    const day = new Date(now).toISOString().slice(0, 10)
+    const month = day.slice(0, 7)
+    const before = this.budgetStatus(now).state
+
+    this.data.days[day] = addTotals(this.data.days[day] ?? emptyTotals(), params.usage)
+    const users = (this.data.users[month] ??= {})
+    users[params.source] = addTotals(users[params.source] ?? emptyTotals(), params.usage)
+    const session = this.data.sessions[params.sessionID] ?? { ...emptyTotals(), source: params.source, lastAt: "" }
+    addTotals(session, params.usage)
+    session.lastAt = new Date(now).toISOString()
+    this.data.sessions[params.sessionID] = session
+
+    const after = this.budgetStatus(now)
+    const result: CostRecordResult = { monthCost: after.spent }
+    if (after.state !== "ok" && after.state !== before && this.data.alerts[after.state] !== month) {
+      this.data.alerts[after.state] = month
+      result.crossed = after.state
+    }
+    await this.persist()
+    return result
+  }
+
+  budgetStatus(now = Date.now()): BudgetStatus {
+    const month = new Date(now).toISOString().slice(0, 7)
+    const spent = this.month(month).cost
+    const budget = Math.max(0, this.budget.monthlyUSD)
+    if (budget <= 0) return { month, spent, budget: 0, state: "ok" }
+    if (spent >= budget) return { month, spent, budget, state: "over" }
+    const warnAt = (budget * Math.min(100, Math.max(0, this.budget.warnPercent))) / 100
+    return { month, spent, budget, state: spent >= warnAt ? "warn" : "ok" }
+  }
+
+  day(day: string): CostTotals {
+    return { ...(this.data.days[day] ?? emptyTotals()) }
+  }
+
+  month(month: string): CostTotals {
+    const totals = emptyTotals()
+    for (const [day, value] of Object.entries(this.data.days)) {
+      if (day.startsWith(month)) addTotals(totals, value)
+    }
+    return totals
+  }
+
+  /** Totals for one or more sources (a person's linked accounts) in a month. */
+  user(month: string, sources: string[]): CostTotals {
+    const totals = emptyTotals()
+    for (const source of new Set(sources)) {
+      const value = this.data.users[month]?.[source]
+      if (value) addTotals(totals, value)
+    }
+    return totals
+  }
+
+  /** Biggest spenders of the month, most expensive first. */
+  topUsers(month: string, limit: number): Array<{ source: string; totals: CostTotals }> {
+    return Object.entries(this.data.users[month] ?? {})
+      .map(([source, totals]) => ({ source, totals }))
+      .sort((a, b) => b.totals.cost - a.totals.cost)
+      .slice(0, limit)
+  }
+
+  session(sessionID: string): CostTotals | undefined {
+    const value = this.data.sessions[sessionID]
+    if (!value) return undefined
+    const { source: _source, lastAt: _lastAt, ...totals } = value
+    return totals
+  }
+
+  file(): string {
+    return this.filePath
+  }
+
+  private async persist(): Promise<void> {
+    await writeJson(this.filePath, this.data)
+  }
+}
@@ -0,0 +1,208 @@
+import { randomUUID } from "node:crypto"
+import { isChannelName, type ChannelName } from "../channels/types"
+import { FileChangeQueue } from "../utils/file-change-queue"
+import { ensureDir, readJson, writeJson } from "../utils/fs"
+import { generateCode, normalizeCode } from "../utils/one-time-code"
+import { dirname, resolvePath } from "../utils/path"
+
+type Channel = ChannelName
+
+export type LinkedAccount = {
+  channel: Channel
+  userID: string
+}
+
+type IdentityRecord = {
+  accounts: string[]
+  // Account the person used most recently; proactive messages are routed there.
+  lastAccount?: string
+  lastSeenAt?: string
+  createdAt: string
+}
+
+type LinkCodeRecord = {
+  account: string
+  expiresAt: string
+}
+
+type IdentityData = {
+  identities: Record<string, IdentityRecord>
+  codes: Record<string, LinkCodeRecord>
+}
+
+export type LinkResult =
+  | { ok: true; identityID: string; accounts: LinkedAccount[] }
+  | { ok: false; reason: "invalid" | "same-account" }
+
+function emptyData(): IdentityData {
+  return { identities: {}, codes: {} }
+}
+
+function accountKey(channel: Channel, userID: string): string {
+  return `${channel}:${String(userID)}`
+}
+
+function parseAccountKey(key: string): LinkedAccount | null {
+  const idx = key.indexOf(":")
+  if (idx <= 0) return null
+  const channel = key.slice(0, idx)
+  if (!isChannelName(channel)) return null
+  return { channel, userID: key.slice(idx + 1) }
+}
+
+/** Links chat accounts on different transports to one person so access, memory and routing follow them. */
+export class IdentityStore {
+  private data: IdentityData = emptyData()
+  private readonly accountIndex = new Map<string, string>()
+  private readonly changes = new FileChangeQueue(() => this.load())
+
+  constructor(private readonly filePath = resolvePath(Bun.cwd, ".data/identities.json")) {}
+
+  async init(): Promise<void> {
+    await ensureDir(dirname(this.filePath))
+    try {
+      await this.load()
+    } catch {
+      this.data = emptyData()
+      this.rebuildIndex()
+    }
+    await this.persist()
+  }
+
+  /** Reads the file without writing it back (the terminal client opens the daemon's files this way). Throws when it is unreadable. */
+  async load(): Promise<void> {
+    const parsed = await readJson<Partial<IdentityData>>(this.filePath)
+    const next = emptyData()
+    for (const [identityID, value] of Object.entries(parsed.identities ?? {})) {
+      if (!value || !Array.isArray(value.accounts)) continue
+      const accounts = value.accounts.map(String).filter((key) => parseAccountKey(key) !== null)
+      if (accounts.length === 0) continue
+      next.identities[identityID] = {
+        accounts,
+        lastAccount: typeof value.lastAccount === "string" && accounts.includes(value.lastAccount) ? value.lastAccount : undefined,
+        lastSeenAt: typeof value.lastSeenAt === "string" ? value.lastSeenAt : undefined,
+        createdAt: typeof value.createdAt === "string" ? value.createdAt : new Date().toISOString(),
+      }
+    }
+    for (const [code, value] of Object.entries(parsed.codes ?? {})) {
+      if (!value || typeof value.account !== "string" || typeof value.expiresAt !== "string") continue
+      next.codes[code] = { account: value.account, expiresAt: value.expiresAt }
+    }
+    this.data = next
+    this.rebuildIndex()
+  }
+
+  identityOf(channel: Channel, userID: string): string | undefined {
+    return this.accountIndex.get(accountKey(channel, userID))
+  }
+
+  /** All accounts of the person behind this account, including the account itself. */
+  accountsFor(channel: Channel, userID: string): LinkedAccount[] {
+    const identityID = this.identityOf(channel, userID)
+    if (!identityID) return [{ channel, userID: String(userID) }]
+    return this.accountsOf(identityID)
+  }
+
+  /** Where proactive messages for this account should go: the person's most recently used account. */
+  routeFor(channel: Channel, userID: string): LinkedAccount {
+    const identityID = this.identityOf(channel, userID)
+    const last = identityID ? this.data.identities[identityID]?.lastAccount : undefined
+    return (last ? parseAccountKey(last) : null) ?? { channel, userID: String(userID) }
+  }
+
+  async touch(channel: Channel, userID: string): Promise<void> {
+    // Most accounts are not linked; skip the file round trip for them.
+    if (!this.identityOf(channel, userID)) return
+    return this.changes.run(async () => {
+      const identityID = this.identityOf(channel, userID)
+      const record = identityID ? this.data.identities[identityID] : undefined
+      if (!record) return
+      const key = accountKey(channel, userID)
+      if (record.lastAccount === key) return
+      record.lastAccount = key
+      record.lastSeenAt = new Date().toISOString()
+      await this.persist()
+    })
+  }
+
+  async createLinkCode(channel: Channel, userID: string, ttlMinutes: number): Promise<{ code: string; expiresAt: string }> {
+    return this.changes.run(async () => {
+      const now = Date.now()
+      const key = accountKey(channel, userID)
+      for (const [code, record] of Object.entries(this.data.codes)) {
+        if (record.account === key || Date.parse(record.expiresAt) <= now) delete this.data.codes[code]
+      }
+
+      let code = generateCode()
+      while (this.data.codes[code]) code = generateCode()
+      const expiresAt = new Date(now + Math.max(1, ttlMinutes) * 60 * 1000).toISOString()
+      this.data.codes[code] = { account: key, expiresAt }
+      await this.persist()
+      return { code, expiresAt }
+    })
+  }
+
+  /** Links the redeeming account to the account that created the code. Codes work once. */
+  async redeemLinkCode(code: string, channel: Channel, userID: string): Promise<LinkResult> {
+    return this.changes.run<LinkResult>(async () => {
+      const normalized = normalizeCode(code)
+      const record = this.data.codes[normalized]
+      if (!record) return { ok: false, reason: "invalid" }
+
+      const redeemer = accountKey(channel, userID)
+      if (record.account === redeemer) return { ok: false, reason: "same-account" }
+
+      delete this.data.codes[normalized]
+      if (Date.parse(record.expiresAt) <= Date.now()) {
+        await this.persist()
+        return { ok: false, reason: "invalid" }
+      }
+
+      const identityID = this.accountIndex.get(record.account) ?? this.createIdentity(record.account)
+      const target = this.data.identities[identityID]
+      const previousID = this.accountIndex.get(redeemer)
+      if (previousID && previousID !== identityID) {
+        // The redeemer was already linked elsewhere: merge both people into one identity.
+        for (const account of this.data.identities[previousID]?.accounts ?? []) {
+          if (!target.accounts.includes(account)) target.accounts.push(account)
+        }
+        delete this.data.identities[previousID]
+      } else if (!target.accounts.includes(redeemer)) {
+        target.accounts.push(redeemer)
+      }
+      target.lastAccount = redeemer
+      target.lastSeenAt = new Date().toISOString()
+
+      this.rebuildIndex()
+      await this.persist()
+      return { ok: true, identityID, accounts: this.accountsOf(identityID) }
+    })
+  }
+
+  file(): string {
+    return this.filePath
+  }
+
+  private accountsOf(identityID: string): LinkedAccount[] {
+    const keys = this.data.identities[identityID]?.accounts ?? []
+    return keys.map(parseAccountKey).filter((account): account is LinkedAccount => account !== null)
+  }
+
+  private createIdentity(account: string): string {
+    const identityID = `person-${randomUUID().slice(0, 8)}`
+    this.data.identities[identityID] = { accounts: [account], createdAt: new Date().toISOString() }
+    this.accountIndex.set(account, identityID)
+    return identityID
+  }
+
+  private rebuildIndex(): void {
+    this.accountIndex.clear()
+    for (const [identityID, record] of Object.entries(this.data.identities)) {
+      for (const account of record.accounts) this.accountIndex.set(account, identityID)
+    }
+  }
+
+  private async persist(): Promise<void> {
+    await writeJson(this.filePath, this.data)
+  }
+}
@@ -0,0 +1,123 @@
+import { isChannelName, type ChannelName } from "../channels/types"
+import { FileChangeQueue } from "../utils/file-change-queue"
+import { ensureDir, readJson, writeJson } from "../utils/fs"
+import { generateCode, normalizeCode } from "../utils/one-time-code"
+import { dirname, resolvePath } from "../utils/path"
+import { isRole, type Role } from "./whitelist-store"
+
+type Channel = ChannelName
+
+export type InviteTarget = { channel: Channel; userID: string }
+
+export type InviteRecord = {
+  role: Role
+  // "<channel>:<userID>" of the admin who minted it.
+  createdBy: string
+  createdAt: string
+  expiresAt: string
+  // Only this account may redeem the code when set.
+  target?: InviteTarget
+}
+
+type InviteData = Record<string, InviteRecord>
+
+export type InviteRedeemResult =
+  | { ok: true; role: Role; createdBy: string }
+  | { ok: false; reason: "invalid" | "wrong-account" }
+
+function parseRecord(value: unknown): InviteRecord | null {
+  if (!value || typeof value !== "object") return null
+  const record = value as Partial<InviteRecord>
+  if (typeof record.role !== "string" || !isRole(record.role)) return null
+  if (typeof record.createdBy !== "string" || typeof record.createdAt !== "string" || typeof record.expiresAt !== "string") return null
+  const parsed: InviteRecord = { role: record.role, createdBy: record.createdBy, createdAt: record.createdAt, expiresAt: record.expiresAt }
+  const target = record.target
+  if (target && isChannelName(target.channel) && typeof target.userID === "string") {
+    parsed.target = { channel: target.channel, userID: target.userID }
+  }
+  return parsed
+}
+
+/** Single-use, expiring /pair codes that admins mint for a role and optionally for one account. */
+export class InviteStore {
+  private data: InviteData = {}
+  private readonly changes = new FileChangeQueue(() => this.load())
+
+  constructor(private readonly filePath = resolvePath(Bun.cwd, ".data/invites.json")) {}
+
+  async init(): Promise<void> {
+    await ensureDir(dirname(this.filePath))
+    try {
+      await this.load()
+    } catch {
+      this.data = {}
+    }
+    await this.persist()
+  }
+
+  /** Reads the file without writing it back (the terminal client opens the daemon's files this way). Throws when it is unreadable. */
+  async load(): Promise<void> {
+    const parsed = await readJson<Record<string, unknown>>(this.filePath)
+    const next: InviteData = {}
+    const now = Date.now()
+    for (const [code, value] of Object.entries(parsed ?? {})) {
+      const record = parseRecord(value)
+      if (record && Date.parse(record.expiresAt) > now) next[code] = record
+    }
+    this.data = next
+  }
+
+  async create(params: { role: Role; createdBy: string; ttlMinutes: number; target?: InviteTarget }): Promise<{ code: string; expiresAt: string }> {
+    return this.changes.run(async () => {
+      const now = Date.now()
+      this.prune(now)
+      let code = generateCode()
+      while (this.data[code]) code = generateCode()
+      const expiresAt = new Date(now + Math.max(1, params.ttlMinutes) * 60 * 1000).toISOString()
+      this.data[code] = {
+        role: params.role,
+        createdBy: params.createdBy,
+        createdAt: new Date(now).toISOString(),
+        expiresAt,
+        ...(params.target ? { target: params.target } : {}),
+      }
+      await this.persist()
+      return { code, expiresAt }
+    })
+  }
+
+  /** Consumes the code. A code minted for someone else is left intact for its owner. */
+  async redeem(code: string, channel: Channel, userID: string): Promise<InviteRedeemResult> {
+    return this.changes.run<InviteRedeemResult>(async () => {
+      const normalized = normalizeCode(code)
+      const record = this.data[normalized]
+      if (!record) return { ok: false, reason: "invalid" }
+      if (Date.parse(record.expiresAt) <= Date.now()) {
+        delete this.data[normalized]
+        await this.persist()
+        return { ok: false, reason: "invalid" }
+      }
+      if (record.target && (record.target.channel !== channel || record.target.userID !== String(userID))) {
+        return { ok: false, reason: "wrong-account" }
+      }
+
+      delete this.data[normalized]
+      await this.persist()
+      return { ok: true, role: record.role, createdBy: record.createdBy }
+    })
+  }
+
+  file(): string {
+    return this.filePath
+  }
+
+  private prune(now: number): void {
+    for (const [code, record] of Object.entries(this.data)) {
+      if (Date.parse(record.expiresAt) <= now) delete this.data[code]
+    }
+  }
+
+  private async persist(): Promise<void> {
+    await writeJson(this.filePath, this.data)
+  }
+}
@@ -1,7 +1,8 @@
+import type { ChannelName } from "../channels/types"
 import { ensureDir, readJson, writeJson } from "../utils/fs"
 import { dirname, resolvePath } from "../utils/path"
 
-type Channel = "telegram"
+type Channel = ChannelName
 
 type PairAttemptRecord = {
   failedCount: number
@@ -0,0 +1,185 @@
+import { isChannelName, type ChannelName } from "../channels/types"
+import { FileChangeQueue } from "../utils/file-change-queue"
+import { ensureDir, readJson, writeJson } from "../utils/fs"
+import { dirname, resolvePath } from "../utils/path"
+import type { PendingPermission, PendingQuestion } from "./assistant"
+
+export type PendingInteractionKind = "permission" | "question"
+
+export type InteractionTarget = {
+  channel: ChannelName
+  chatID: string
+  userID: string
+}
+
+export type PendingInteraction = {
+  kind: PendingInteractionKind
+  requestID: string
+  sessionID: string
+  // One line shown in reminders, e.g. "bash: rm -rf build".
+  summary: string
+  askedAt: string
+  // Where the request was first shown; unattended requests (heartbeat, async_bash) have none yet.
+  announcedAt?: string
+  target?: InteractionTarget
+  reminders: number
+  remindedAt?: string
+  escalatedAt?: string
+  // "<channel>:<userID>" of the second approver, who may then answer it too.
+  escalatedTo?: string
+}
+
+type PendingInteractionData = Record<string, PendingInteraction>
+
+export function summarizePermission(item: PendingPermission): string {
+  return item.patterns.length > 0 ? `${item.permission}: ${item.patterns.join(", ")}` : item.permission
+}
+
+export function summarizeQuestion(item: PendingQuestion): string {
+  const first = item.questions[0]
+  if (!first) return "question"
+  const more = item.questions.length > 1 ? ` (+${item.questions.length - 1} more)` : ""
+  return `${first.header}: ${first.question}${more}`
+}
+
+function parseTarget(value: unknown): InteractionTarget | undefined {
+  if (!value || typeof value !== "object") return undefined
+  const t = value as Record<string, unknown>
+  if (!isChannelName(t.channel) || typeof t.chatID !== "string" || typeof t.userID !== "string") return undefined
+  return { channel: t.channel, chatID: t.chatID, userID: t.userID }
+}
+
+/** Pending permissions and questions with when they were asked, announced, reminded and escalated. */
+export class PendingInteractionStore {
+  private data: PendingInteractionData = {}
+  private readonly changes = new FileChangeQueue(() => this.load())
+
+  constructor(private readonly filePath = resolvePath(Bun.cwd, ".data/pending-interactions.json")) {}
+
+  async init(): Promise<void> {
+    await ensureDir(dirname(this.filePath))
+    try {
+      await this.load()
+    } catch {
+      this.data = {}
+    }
+    await this.persist()
+  }
+
+  /** Reads the file without writing it back (the terminal client opens the daemon's files this way). Throws when it is unreadable. */
+  async load(): Promise<void> {
+    const parsed = await readJson<PendingInteractionData>(this.filePath)
+    const next: PendingInteractionData = {}
+    for (const [requestID, value] of Object.entries(parsed ?? {})) {
+      if (!value || typeof value !== "object") continue
+      if (value.kind !== "permission" && value.kind !== "question") continue
+      if (typeof value.sessionID !== "string" || typeof value.askedAt !== "string") continue
+      next[requestID] = {
+        kind: value.kind,
+        requestID,
+        sessionID: value.sessionID,
+        summary: typeof value.summary === "string" ? value.summary : value.kind,
+        askedAt: value.askedAt,
+        announcedAt: typeof value.announcedAt === "string" ? value.announcedAt : undefined,
+        target: parseTarget(value.target),
+        reminders: Number.isFinite(value.reminders) ? Math.max(0, Math.trunc(value.reminders)) : 0,
+        remindedAt: typeof value.remindedAt === "string" ? value.remindedAt : undefined,
+        escalatedAt: typeof value.escalatedAt === "string" ? value.escalatedAt : undefined,
+        escalatedTo: typeof value.escalatedTo === "string" ? value.escalatedTo : undefined,
+      }
+    }
+    this.data = next
+  }
+
+  get(requestID: string): PendingInteraction | undefined {
+    return this.data[requestID]
+  }
+
+  list(): PendingInteraction[] {
+    return Object.values(this.data)
+  }
+
+  isAnnounced(requestID: string): boolean {
+    return Boolean(this.data[requestID]?.announcedAt)
+  }
+
+  // Whether this account was asked to stand in as approver for the request.
+  isEscalatedTo(requestID: string, channel: ChannelName, userID: string): boolean {
+    return this.data[requestID]?.escalatedTo === `${channel}:${userID}`
+  }
+
+  // Reminders and escalations reach these accounts outside the request's own chat, so they may answer from anywhere.
+  isAddressedTo(requestID: string, channel: ChannelName, userID: string): boolean {
+    const target = this.data[requestID]?.target
+    if (target?.channel === channel && target.userID === String(userID)) return true
+    return this.isEscalatedTo(requestID, channel, userID)
+  }
+
+  /** Starts tracking a request; the first sighting sets askedAt. */
+  async track(kind: PendingInteractionKind, item: { id: string; sessionID: string }, summary: string): Promise<PendingInteraction> {
+    // The sweep calls this for every open request each minute; known ones need no file round trip.
+    const known = this.data[item.id]
+    if (known) return known
+    return this.changes.run(async () => {
+      const existing = this.data[item.id]
+      if (existing) return existing
+      const record = this.addRecord(kind, item, summary)
+      await this.persist()
+      return record
+    })
+  }
+
+  async markAnnounced(
+    kind: PendingInteractionKind,
+    item: { id: string; sessionID: string },
+    summary: string,
+    target: InteractionTarget,
+  ): Promise<void> {
+    return this.changes.run(async () => {
+      const record = this.data[item.id] ?? this.addRecord(kind, item, summary)
+      if (record.announcedAt) return
+      record.announcedAt = new Date().toISOString()
+      record.target = target
+      await this.persist()
+    })
+  }
+
+  async update(requestID: string, patch: Partial<Omit<PendingInteraction, "kind" | "requestID">>): Promise<void> {
+    return this.changes.run(async () => {
+      const record = this.data[requestID]
+      if (!record) return
+      this.data[requestID] = { ...record, ...patch }
+      await this.persist()
+    })
+  }
+
+  async remove(requestID: string): Promise<boolean> {
+    return this.changes.run(async () => {
+      if (!this.data[requestID]) return false
+      delete this.data[requestID]
+      await this.persist()
+      return true
+    })
+  }
+
+  file(): string {
+    return this.filePath
+  }
+
+  private addRecord(kind: PendingInteractionKind, item: { id: string; sessionID: string }, summary: string): PendingInteraction {
+    const record: PendingInteraction = {
+      kind,
+      requestID: item.id,
+      sessionID: item.sessionID,
+      summary,
+      askedAt: new Date().toISOString(),
+      reminders: 0,
+    }
+    this.data[item.id] = record
+    return record
+  }
+
+  private async persist(): Promise<void> {
+    await writeJson(this.filePath, this.data)
+  }
+}
@@ -1,9 +1,30 @@
 import { ensureDir, readJson, writeJson } from "../utils/fs"
 import { dirname, resolvePath } from "../utils/path"
 
+export const SESSION_MODES = ["shared", "per-user", "per-chat"] as const
+
+// shared: one conversation for everyone; per-user: one per person (linked accounts included); per-chat: one per chat.
+export type SessionMode = (typeof SESSION_MODES)[number]
+
+export function isSessionMode(value: string): value is SessionMode {
+  return (SESSION_MODES as readonly string[]).includes(value)
+}
+
 type SessionData = {
   mainSessionID?: string
   heartbeatSessionID?: string
+  chatSessions?: Record<string, string>
+  // Chat session of the latest conversation; heartbeat summaries go there. Unset means the main session.
+  lastSessionKey?: string
+}
+
+function parseChatSessions(value: unknown): Record<string, string> {
+  const out: Record<string, string> = {}
+  if (!value || typeof value !== "object") return out
+  for (const [key, sessionID] of Object.entries(value as Record<string, unknown>)) {
+    if (typeof sessionID === "string" && sessionID.length > 0) out[key] = sessionID
+  }
+  return out
 }
 
 export class SessionStore {
@@ -18,6 +39,8 @@ export class SessionStore {
       this.cache = {
         mainSessionID: typeof obj.mainSessionID === "string" ? obj.mainSessionID : undefined,
         heartbeatSessionID: typeof obj.heartbeatSessionID === "string" ? obj.heartbeatSessionID : undefined,
+        chatSessions: parseChatSessions(obj.chatSessions),
+        lastSessionKey: typeof obj.lastSessionKey === "string" && obj.lastSessionKey ? obj.lastSessionKey : undefined,
       }
     } catch {
       await this.persist()
@@ -42,6 +65,30 @@ export class SessionStore {
     await this.persist()
   }
 
+  getChatSessionID(key: string): string | undefined {
+    return this.cache.chatSessions?.[key]
+  }
+
+  async setChatSessionID(key: string, sessionID: string): Promise<void> {
+    this.cache.chatSessions = { ...(this.cache.chatSessions ?? {}), [key]: sessionID }
+    await this.persist()
+  }
+
+  /** Key of the chat session with this ID; undefined for the main session or one replaced by /new. */
+  chatSessionKeyOf(sessionID: string): string | undefined {
+    return Object.entries(this.cache.chatSessions ?? {}).find(([, id]) => id === sessionID)?.[0]
+  }
+
+  getLastSessionKey(): string | undefined {
+    return this.cache.lastSessionKey
+  }
+
+  async setLastSessionKey(key: string | undefined): Promise<void> {
+    if (this.cache.lastSessionKey === key) return
+    this.cache.lastSessionKey = key
+    await this.persist()
+  }
+
   private async persist(): Promise<void> {
     await writeJson(this.filePath, this.cache)
   }
@@ -0,0 +1,202 @@
+import type { ChannelName } from "../channels/types"
+import { FileChangeQueue } from "../utils/file-change-queue"
+import { ensureDir, readJson, writeJson } from "../utils/fs"
+import { dirname, resolvePath } from "../utils/path"
+import type { IdentityStore } from "./identity-store"
+import type { Role, WhitelistStore } from "./whitelist-store"
+
+export const USAGE_KINDS = ["prompt", "media", "async_bash"] as const
+
+export type UsageKind = (typeof USAGE_KINDS)[number]
+
+// 0 means unlimited. perMinute is also the burst size of the token bucket.
+export type UsageLimit = { perMinute: number; perDay: number }
+
+export type UsageLimits = Record<Role, Record<UsageKind, UsageLimit>>
+
+// Who is charged: linked accounts share one allowance; the role picks the limits.
+export type UsageSubject = { key: string; role: Role | undefined }
+
+export type UsageDecision =
+  | { ok: true }
+  | { ok: false; reason: "rate"; limit: number; retryAfterSeconds: number }
+  | { ok: false; reason: "quota"; limit: number }
+
+export type UsageAllowance = {
+  kind: UsageKind
+  limit: UsageLimit
+  // Whole requests the bucket allows right now.
+  available: number
+  usedToday: number
+}
+
+type BucketRecord = { tokens: number; refilledAt: string }
+
+type UsageRecord = {
+  // UTC date the counts belong to; older counts are dropped on the next request.
+  day: string
+  counts: Partial<Record<UsageKind, number>>
+  buckets: Partial<Record<UsageKind, BucketRecord>>
+}
+
+type UsageData = Record<string, UsageRecord>
+
+const KIND_LABELS: Record<UsageKind, { one: string; many: string; title: string }> = {
+  prompt: { one: "message", many: "messages", title: "Messages" },
+  media: { one: "media upload", many: "media uploads", title: "Media uploads" },
+  async_bash: { one: "async_bash job", many: "async_bash jobs", title: "async_bash jobs" },
+}
+
+function dayOf(now: number): string {
+  return new Date(now).toISOString().slice(0, 10)
+}
+
+function count(n: number, kind: UsageKind): string {
+  return `${n} ${n === 1 ? KIND_LABELS[kind].one : KIND_LABELS[kind].many}`
+}
+
+function parseRecord(value: unknown): UsageRecord | null {
+  if (!value || typeof value !== "object") return null
+  const record = value as Partial<UsageRecord>
+  if (typeof record.day !== "string") return null
+  const parsed: UsageRecord = { day: record.day, counts: {}, buckets: {} }
+  for (const kind of USAGE_KINDS) {
+    const used = record.counts?.[kind]
+    if (typeof used === "number" && Number.isFinite(used)) parsed.counts[kind] = Math.max(0, Math.trunc(used))
+    const bucket = record.buckets?.[kind]
+    if (bucket && typeof bucket.tokens === "number" && typeof bucket.refilledAt === "string") {
+      parsed.buckets[kind] = { tokens: Math.max(0, bucket.tokens), refilledAt: bucket.refilledAt }
+    }
+  }
+  return parsed
+}
+
+export function usageSubject(whitelist: WhitelistStore, identities: IdentityStore, channel: ChannelName, userID: string): UsageSubject {
+  return {
+    key: identities.identityOf(channel, userID) ?? `${channel}:${userID}`,
+    role: whitelist.roleFor(identities.accountsFor(channel, userID)),
+  }
+}
+
+/** Friendly reply for a refused request. */
+export function describeUsageRefusal(kind: UsageKind, decision: Exclude<UsageDecision, { ok: true }>): string {
+  if (decision.reason === "rate") {
+    return `Slow down a little: your allowance is ${count(decision.limit, kind)} per minute. Try again in ${decision.retryAfterSeconds}s. Send /usage to see what is left.`
+  }
+  return `You have used today's ${count(decision.limit, kind)}. It resets at 00:00 UTC. Send /usage to see what is left.`
+}
+
+export function formatUsageAllowance(item: UsageAllowance): string {
+  const name = KIND_LABELS[item.kind].title
+  if (item.limit.perMinute <= 0 && item.limit.perDay <= 0) return `${name}: unlimited`
+  const parts: string[] = []
+  if (item.limit.perMinute > 0) parts.push(`${item.available} of ${item.limit.perMinute} available this minute`)
+  if (item.limit.perDay > 0) parts.push(`${Math.max(0, item.limit.perDay - item.usedToday)} of ${item.limit.perDay} left today`)
+  else parts.push(`${item.usedToday} used today, no daily cap`)
+  return `${name}: ${parts.join(", ")}`
+}
+
+/**
+ * Per-person token buckets and daily counters for prompts, media and async_bash jobs.
+ * Admins may be unlimited; everyone else gets the limits configured for their role.
+ */
+export class UsageStore {
+  private data: UsageData = {}
+  private readonly changes = new FileChangeQueue(() => this.load())
+
+  constructor(
+    private readonly limits: UsageLimits,
+    private readonly filePath = resolvePath(Bun.cwd, ".data/usage.json"),
+  ) {}
+
+  async init(): Promise<void> {
+    await ensureDir(dirname(this.filePath))
+    try {
+      await this.load()
+      // Yesterday's counters are worthless and buckets refill within a minute.
+      const today = dayOf(Date.now())
+      for (const [key, record] of Object.entries(this.data)) {
+        if (record.day !== today) delete this.data[key]
+      }
+    } catch {
+      this.data = {}
+    }
+    await this.persist()
+  }
+
+  /** Reads the file without writing it back (the terminal client opens the daemon's files this way). Throws when it is unreadable. */
+  async load(): Promise<void> {
+    const parsed = await readJson<Record<string, unknown>>(this.filePath)
+    const next: UsageData = {}
+    for (const [key, value] of Object.entries(parsed ?? {})) {
+      const record = parseRecord(value)
+      if (record) next[key] = record
+    }
+    this.data = next
+  }
+
+  limitFor(role: Role | undefined, kind: UsageKind): UsageLimit {
+    // Accounts without a role only reach here through stale data; give them the tightest limits.
+    return this.limits[role ?? "viewer"][kind]
+  }
+
+  /** Charges one request of `kind` when the allowance permits it. Refused requests are not charged. */
+  async consume(subject: UsageSubject, kind: UsageKind, now = Date.now()): Promise<UsageDecision> {
+    return this.changes.run<UsageDecision>(async () => {
+      const limit = this.limitFor(subject.role, kind)
+      const record = this.current(subject.key, now)
+      const used = record.counts[kind] ?? 0
+      if (limit.perDay > 0 && used >= limit.perDay) return { ok: false, reason: "quota", limit: limit.perDay }
+
+      if (limit.perMinute > 0) {
+        const tokens = this.refill(record.buckets[kind], limit.perMinute, now)
+        if (tokens < 1) {
+          const msPerToken = 60_000 / limit.perMinute
+          return { ok: false, reason: "rate", limit: limit.perMinute, retryAfterSeconds: Math.max(1, Math.ceil(((1 - tokens) * msPerToken) / 1000)) }
+        }
+        record.buckets[kind] = { tokens: tokens - 1, refilledAt: new Date(now).toISOString() }
+      }
+
+      record.counts[kind] = used + 1
+      this.data[subject.key] = record
+      await this.persist()
+      return { ok: true }
+    })
+  }
+
+  allowance(subject: UsageSubject, now = Date.now()): UsageAllowance[] {
+    const record = this.current(subject.key, now)
+    return USAGE_KINDS.map((kind) => {
+      const limit = this.limitFor(subject.role, kind)
+      return {
+        kind,
+        limit,
+        available: limit.perMinute > 0 ? Math.floor(this.refill(record.buckets[kind], limit.perMinute, now)) : Number.POSITIVE_INFINITY,
+        usedToday: record.counts[kind] ?? 0,
+      }
+    })
+  }
+
+  file(): string {
+    return this.filePath
+  }
+
+  private current(key: string, now: number): UsageRecord {
+    const day = dayOf(now)
+    const record = this.data[key]
+    if (record?.day === day) return record
+    // Buckets carry over midnight; only the daily counters reset.
+    return { day, counts: {}, buckets: record?.buckets ?? {} }
+  }
+
+  private refill(bucket: BucketRecord | undefined, perMinute: number, now: number): number {
+    if (!bucket) return perMinute
+    const elapsedMs = Math.max(0, now - Date.parse(bucket.refilledAt))
+    if (!Number.isFinite(elapsedMs)) return perMinute
+    return Math.min(perMinute, bucket.tokens + (elapsedMs * perMinute) / 60_000)
+  }
+
+  private async persist(): Promise<void> {
+    await writeJson(this.filePath, this.data)
+  }
+}
@@ -1,45 +1,154 @@
+import { CHANNEL_NAMES, type ChannelName } from "../channels/types"
+import { FileChangeQueue } from "../utils/file-change-queue"
 import { ensureDir, readJson, writeJson } from "../utils/fs"
 import { basename, dirname, relativePath, resolvePath } from "../utils/path"
 
-type Channel = "telegram"
+type Channel = ChannelName
 
-type WhitelistData = {
-  telegram: string[]
+// Strongest first; a person with several linked accounts gets the strongest role among them.
+export const ROLES = ["admin", "member", "viewer"] as const
+
+export type Role = (typeof ROLES)[number]
+
+export function isRole(value: string): value is Role {
+  return (ROLES as readonly string[]).includes(value)
+}
+
+export const CAPABILITIES = ["approve", "async_bash", "remember", "new_session", "manage_users"] as const
+
+export type Capability = (typeof CAPABILITIES)[number]
+
+// Viewers can chat and list pending requests; everything that changes shared state needs more.
+const ROLE_CAPABILITIES: Record<Role, readonly Capability[]> = {
+  admin: CAPABILITIES,
+  member: ["approve", "async_bash", "remember", "new_session"],
+  viewer: [],
+}
+
+export function roleCan(role: Role | undefined, capability: Capability): boolean {
+  return role ? ROLE_CAPABILITIES[role].includes(capability) : false
+}
+
+// userID -> role per channel. Older files held plain ID arrays; those accounts become members.
+type WhitelistData = Record<Channel, Record<string, Role>>
+
+export type WhitelistEntry = { channel: Channel; userID: string; role: Role }
+
+// User IDs are caller-chosen strings (webhook, http api), so "constructor" or "__proto__" must not hit Object.prototype.
+function emptyEntries(): Record<string, Role> {
+  return Object.create(null) as Record<string, Role>
 }
 
-const DEFAULT_DATA: WhitelistData = {
-  telegram: [],
+function emptyData(): WhitelistData {
+  const data = {} as WhitelistData
+  for (const channel of CHANNEL_NAMES) data[channel] = emptyEntries()
+  return data
+}
+
+function parseEntries(raw: unknown): Record<string, Role> {
+  const entries = emptyEntries()
+  if (Array.isArray(raw)) {
+    for (const id of raw) entries[String(id)] = "member"
+    return entries
+  }
+  if (!raw || typeof raw !== "object") return entries
+  for (const [id, role] of Object.entries(raw)) {
+    entries[id] = typeof role === "string" && isRole(role) ? role : "viewer"
+  }
+  return entries
 }
 
 export class WhitelistStore {
-  private data: WhitelistData = { ...DEFAULT_DATA }
+  private data: WhitelistData = emptyData()
+  private readonly changes = new FileChangeQueue(() => this.load())
 
   constructor(private readonly filePath = resolvePath(Bun.cwd, ".data/whitelist.json")) {}
 
   async init(): Promise<void> {
     await ensureDir(dirname(this.filePath))
     try {
-      const parsed = await readJson<Partial<WhitelistData>>(this.filePath)
-      this.data = {
-        telegram: Array.isArray(parsed.telegram) ? parsed.telegram.map(String) : [],
-      }
-      await this.persist()
+      await this.load()
     } catch {
-      this.data = { ...DEFAULT_DATA }
-      await this.persist()
+      this.data = emptyData()
+    }
+    await this.persist()
+  }
+
+  /** Reads the file without writing it back (the terminal client opens the daemon's files this way). Throws when it is unreadable. */
+  async load(): Promise<void> {
+    const parsed = await readJson<Partial<Record<Channel, unknown>>>(this.filePath)
+    const next = emptyData()
+    for (const channel of CHANNEL_NAMES) {
+      next[channel] = parseEntries(parsed[channel])
     }
+    this.data = next
   }
 
   isWhitelisted(channel: Channel, userID: string): boolean {
-    return this.data[channel].includes(String(userID))
+    return this.roleOf(channel, userID) !== undefined
   }
 
-  async add(channel: Channel, userID: string): Promise<boolean> {
+  // True when any of a person's linked accounts is whitelisted.
+  isAnyWhitelisted(accounts: Array<{ channel: Channel; userID: string }>): boolean {
+    return accounts.some((account) => this.isWhitelisted(account.channel, account.userID))
+  }
+
+  roleOf(channel: Channel, userID: string): Role | undefined {
+    const entries = this.data[channel]
     const id = String(userID)
-    if (this.data[channel].includes(id)) return false
-    this.data[channel].push(id)
-    await this.persist()
-    return true
+    if (!Object.hasOwn(entries, id)) return undefined
+    const role = entries[id]
+    return role && isRole(role) ? role : undefined
+  }
+
+  // The strongest role held by any of a person's linked accounts.
+  roleFor(accounts: Array<{ channel: Channel; userID: string }>): Role | undefined {
+    const held = new Set(accounts.map((account) => this.roleOf(account.channel, account.userID)))
+    return ROLES.find((role) => held.has(role))
+  }
+
+  can(accounts: Array<{ channel: Channel; userID: string }>, capability: Capability): boolean {
+    return roleCan(this.roleFor(accounts), capability)
+  }
+
+  /** Adds the account with `role`; an account that is already listed keeps its current role. */
+  async add(channel: Channel, userID: string, role: Role = "member"): Promise<boolean> {
+    return this.changes.run(async () => {
+      const id = String(userID)
+      if (this.roleOf(channel, id)) return false
+      this.data[channel][id] = role
+      await this.persist()
+      return true
+    })
+  }
+
+  /** Adds or changes the account's role. Returns false when it already had that role. */
+  async setRole(channel: Channel, userID: string, role: Role): Promise<boolean> {
+    return this.changes.run(async () => {
+      const id = String(userID)
+      if (this.roleOf(channel, id) === role) return false
+      this.data[channel][id] = role
+      await this.persist()
+      return true
+    })
+  }
+
+  /** Removes the account and returns the role it had, or undefined when it was not listed. */
+  async remove(channel: Channel, userID: string): Promise<Role | undefined> {
+    return this.changes.run(async () => {
+      const id = String(userID)
+      const role = this.roleOf(channel, id)
+      if (!role) return undefined
+      delete this.data[channel][id]
+      await this.persist()
+      return role
+    })
+  }
+
+  list(): WhitelistEntry[] {
+    return CHANNEL_NAMES.flatMap((channel) =>
+      Object.entries(this.data[channel]).map(([userID, role]) => ({ channel, userID, role })),
+    )
   }
 
   file(): string {
@@ -1,13 +1,31 @@
 import { loadConfig } from "./config"
-import { startTelegramAdapter } from "./channels/telegram"
+import { DiscordAdapter } from "./channels/discord"
+import { EmailAdapter } from "./channels/email"
+import { startHttpApi, type SignedActionHandler } from "./channels/http-api"
+import { MatrixAdapter } from "./channels/matrix"
+import { startChannel, type ChannelRouterOptions } from "./channels/router"
+import type { ChannelName } from "./channels/types"
+import { SlackAdapter } from "./channels/slack"
+import { TelegramAdapter } from "./channels/telegram"
+import { WebhookAdapter } from "./channels/webhook"
+import { WhatsAppAdapter } from "./channels/whatsapp"
+import { ApprovalPolicy } from "./core/approval-policy"
 import { AssistantCore } from "./core/assistant"
+import { AuditLog } from "./core/audit-log"
+import { CostStore, formatUSD } from "./core/cost-store"
+import { IdentityStore } from "./core/identity-store"
+import { InviteStore } from "./core/invite-store"
 import { PairAttemptStore } from "./core/pair-attempt-store"
+import { PendingInteractionStore } from "./core/pending-interaction-store"
 import { SessionStore } from "./core/session-store"
+import { describeUsageRefusal, usageSubject, UsageStore } from "./core/usage-store"
 import { WhitelistStore } from "./core/whitelist-store"
 import { MemoryStore } from "./memory/store"
+import { startApprovalTimeouts } from "./scheduler/approval-timeouts"
 import { startAsyncBashScheduler } from "./scheduler/async-bash"
 import { startHeartbeat } from "./scheduler/heartbeat"
 import { createLogger } from "./utils/logger"
+import { queueOutbox } from "./utils/outbox"
 
 // Ensure OpenCode reads AGENTS.md from this workspace by default.
 process.env.OPENCODE_CONFIG_DIR ??= Bun.cwd
@@ -19,7 +37,14 @@ async function main() {
   const memory = new MemoryStore(cfg.workspaceDir)
   const sessions = new SessionStore()
   const whitelist = new WhitelistStore(cfg.whitelistFile)
+  const identities = new IdentityStore(cfg.identitiesFile)
+  const invites = new InviteStore(cfg.invitesFile)
   const pairAttempts = new PairAttemptStore()
+  const usage = new UsageStore(cfg.usageLimits, cfg.usageFile)
+  const pendingInteractions = new PendingInteractionStore(cfg.pendingInteractionsFile)
+  const approvalPolicy = new ApprovalPolicy(cfg.approvalRulesFile)
+  const auditLog = new AuditLog(cfg.auditLogFile)
+  const costs = new CostStore({ monthlyUSD: cfg.costMonthlyBudget, warnPercent: cfg.costBudgetWarnPercent }, cfg.costsFile)
   const assistant = new AssistantCore(logger, memory, sessions, {
     model: cfg.opencodeModel,
     agent: cfg.opencodeAgent,
@@ -27,15 +52,47 @@ async function main() {
     serverUrl: cfg.opencodeServerUrl,
     serverUsername: cfg.opencodeServerUsername,
     serverPassword: cfg.opencodeServerPassword,
+    replyTimeoutMinutes: cfg.opencodeReplyTimeoutMinutes,
     heartbeatFile: cfg.heartbeatFile,
     heartbeatIntervalMinutes: cfg.heartbeatIntervalMinutes,
     inboxDir: cfg.inboxDir,
     inboxRetentionDays: cfg.inboxRetentionDays,
+    approvalPolicy,
+    auditLog,
+    costs,
+    onBudgetAlert: (state, status) => {
+      const text =
+        state === "over"
+          ? `MonClaw has used this month's model budget (${formatUSD(status.spent)} of ${formatUSD(status.budget)}). New prompts and heartbeat runs are paused until next month or until COST_MONTHLY_BUDGET is raised.`
+          : `MonClaw has used ${formatUSD(status.spent)} of this month's ${formatUSD(status.budget)} model budget.`
+      for (const entry of whitelist.list()) {
+        if (entry.role !== "admin") continue
+        void queueOutbox({ channel: entry.channel, userID: entry.userID, text }).catch((error: unknown) => {
+          logger.warn({ err: error, channel: entry.channel, userID: entry.userID }, "failed to queue budget alert")
+        })
+      }
+    },
   })
 
+  await approvalPolicy.init()
+  await auditLog.init()
+  await costs.init()
   await assistant.init()
   await whitelist.init()
+  // ADMIN_USERS is the bootstrap: listed accounts are (re)made admins on every start.
+  for (const admin of cfg.adminUsers) {
+    if (await whitelist.setRole(admin.channel, admin.userID, "admin")) {
+      logger.info({ channel: admin.channel, userID: admin.userID }, "admin role granted from ADMIN_USERS")
+    }
+  }
+  await identities.init()
+  await invites.init()
   await pairAttempts.init()
+  await usage.init()
+  await pendingInteractions.init()
+  if (approvalPolicy.count() > 0) {
+    logger.info({ file: approvalPolicy.displayFile(), rules: approvalPolicy.count() }, "approval rules loaded")
+  }
   const heartbeatStatus = await assistant.heartbeatTaskStatus()
   if (heartbeatStatus.empty) {
     logger.warn(
@@ -54,6 +111,17 @@ async function main() {
     })
   }
 
+  startApprovalTimeouts({
+    reminderMinutes: cfg.approvalReminderMinutes,
+    escalateAfterMinutes: cfg.approvalEscalateAfterMinutes,
+    escalateTo: cfg.approvalEscalateTo,
+    deadlineMinutes: cfg.approvalDeadlineMinutes,
+    assistant,
+    store: pendingInteractions,
+    notify: queueOutbox,
+    logger,
+  })
+
   startAsyncBashScheduler({
     queueDir: cfg.asyncBashQueueDir,
     concurrency: cfg.asyncBashConcurrency,
@@ -61,6 +129,10 @@ async function main() {
     defaultTimeoutMs: cfg.asyncBashDefaultTimeoutMs,
     assistant,
     logger,
+    admitJob: async ({ channel, userID }) => {
+      const decision = await usage.consume(usageSubject(whitelist, identities, channel, userID), "async_bash")
+      return decision.ok ? undefined : describeUsageRefusal("async_bash", decision)
+    },
   })
 
   let shuttingDown = false
@@ -86,31 +158,185 @@ async function main() {
     shutdown(1)
   })
 
+  const channelOptions: ChannelRouterOptions = {
+    logger,
+    assistant,
+    whitelist,
+    identities,
+    pairAttempts,
+    pendingInteractions,
+    auditLog,
+    invites,
+    inviteTtlMinutes: cfg.inviteTtlMinutes,
+    pairToken: cfg.whitelistPairToken,
+    pairMaxAttempts: cfg.pairMaxAttempts,
+    pairLockMinutes: cfg.pairLockMinutes,
+    linkCodeTtlMinutes: cfg.linkCodeTtlMinutes,
+    usage,
+    costs,
+    sessionMode: cfg.sessionMode,
+    queueMode: cfg.queueMode,
+    queueDepth: cfg.queueDepth,
+    inboxDir: cfg.inboxDir,
+    inboxRetentionDays: cfg.inboxRetentionDays,
+    asyncBashQueueDir: cfg.asyncBashQueueDir,
+  }
   const starters: Array<Promise<void>> = []
 
   if (cfg.enableTelegram) {
     if (!cfg.telegramToken) {
       logger.warn("ENABLE_TELEGRAM is true but TELEGRAM_BOT_TOKEN is missing")
+    } else {
+      const telegram = new TelegramAdapter({
+        token: cfg.telegramToken,
+        apiUrl: cfg.telegramApiUrl,
+        allowedGroups: cfg.telegramAllowedGroups,
+        logger,
+      })
+      starters.push(startChannel(telegram, channelOptions))
+    }
+  }
+
+  if (cfg.enableDiscord) {
+    if (!cfg.discordToken) {
+      logger.warn("ENABLE_DISCORD is true but DISCORD_BOT_TOKEN is missing")
     } else {
       starters.push(
-        startTelegramAdapter({
-          token: cfg.telegramToken,
-          logger,
-          assistant,
-          whitelist,
-          pairAttempts,
-          pairToken: cfg.whitelistPairToken,
-          pairMaxAttempts: cfg.pairMaxAttempts,
-          pairLockMinutes: cfg.pairLockMinutes,
-          inboxDir: cfg.inboxDir,
-          inboxRetentionDays: cfg.inboxRetentionDays,
-        }),
+        startChannel(new DiscordAdapter({ token: cfg.discordToken, apiUrl: cfg.discordApiUrl, logger }), channelOptions),
       )
     }
   }
 
-  if (starters.length === 0) {
-    logger.warn("No channel enabled. Set ENABLE_TELEGRAM=true and TELEGRAM_BOT_TOKEN.")
+  if (cfg.enableSlack) {
+    if (!cfg.slackAppToken || !cfg.slackBotToken) {
+      logger.warn("ENABLE_SLACK is true but SLACK_APP_TOKEN or SLACK_BOT_TOKEN is missing")
+    } else {
+      starters.push(
+        startChannel(
+          new SlackAdapter({ appToken: cfg.slackAppToken, botToken: cfg.slackBotToken, apiUrl: cfg.slackApiUrl, logger }),
+          channelOptions,
+        ),
+      )
+    }
+  }
+
+  if (cfg.enableMatrix) {
+    if (!cfg.matrixHomeserverUrl || !cfg.matrixAccessToken) {
+      logger.warn("ENABLE_MATRIX is true but MATRIX_HOMESERVER_URL or MATRIX_ACCESS_TOKEN is missing")
+    } else {
+      starters.push(
+        startChannel(
+          new MatrixAdapter({ homeserverUrl: cfg.matrixHomeserverUrl, accessToken: cfg.matrixAccessToken, logger }),
+          channelOptions,
+        ),
+      )
+    }
+  }
+
+  if (cfg.enableWhatsApp) {
+    if (!cfg.whatsappAccessToken || !cfg.whatsappPhoneNumberID || !cfg.whatsappVerifyToken || !cfg.whatsappAppSecret) {
+      logger.warn("ENABLE_WHATSAPP is true but WHATSAPP_ACCESS_TOKEN, WHATSAPP_PHONE_NUMBER_ID, WHATSAPP_VERIFY_TOKEN or WHATSAPP_APP_SECRET is missing")
+    } else {
+      starters.push(
+        startChannel(
+          new WhatsAppAdapter({
+            accessToken: cfg.whatsappAccessToken,
+            phoneNumberID: cfg.whatsappPhoneNumberID,
+            verifyToken: cfg.whatsappVerifyToken,
+            appSecret: cfg.whatsappAppSecret,
+            hostname: cfg.whatsappWebhookHost,
+            port: cfg.whatsappWebhookPort,
+            apiUrl: cfg.whatsappApiUrl,
+            logger,
+          }),
+          channelOptions,
+        ),
+      )
+    }
+  }
+
+  const signedActionHandlers: Partial<Record<ChannelName, SignedActionHandler>> = {}
+
+  if (cfg.enableEmail) {
+    if (!cfg.emailAddress || !cfg.emailImapHost || !cfg.emailSmtpHost || !cfg.emailAuthservID) {
+      logger.warn("ENABLE_EMAIL is true but EMAIL_ADDRESS, EMAIL_IMAP_HOST, EMAIL_SMTP_HOST or EMAIL_AUTHSERV_ID is missing")
+    } else {
+      const linksEnabled = Boolean(cfg.enableHttpApi && cfg.emailLinkSecret && cfg.emailLinkBaseUrl)
+      const email = new EmailAdapter({
+        address: cfg.emailAddress,
+        fromName: cfg.emailFromName,
+        imap: {
+          host: cfg.emailImapHost,
+          port: cfg.emailImapPort,
+          secure: cfg.emailImapSecure,
+          username: cfg.emailImapUsername,
+          password: cfg.emailImapPassword,
+        },
+        smtp: {
+          host: cfg.emailSmtpHost,
+          port: cfg.emailSmtpPort,
+          secure: cfg.emailSmtpSecure,
+          username: cfg.emailSmtpUsername,
+          password: cfg.emailSmtpPassword,
+        },
+        mailbox: cfg.emailMailbox,
+        pollSeconds: cfg.emailPollSeconds,
+        threadsFile: cfg.emailThreadsFile,
+        linkSecret: linksEnabled ? cfg.emailLinkSecret : undefined,
+        linkBaseUrl: linksEnabled ? cfg.emailLinkBaseUrl : undefined,
+        linkTtlMinutes: cfg.emailLinkTtlMinutes,
+        authservID: cfg.emailAuthservID,
+        acceptSender: (address, text) =>
+          whitelist.isAnyWhitelisted(identities.accountsFor("email", address)) || /^\/(pair|link)\b/.test(text.trimStart()),
+        logger,
+      })
+      if (linksEnabled) signedActionHandlers.email = (action) => email.handleSignedAction(action)
+      starters.push(startChannel(email, channelOptions))
+    }
+  }
+
+  if (cfg.enableWebhook) {
+    if (!cfg.webhookSecret || !cfg.webhookOutboundUrl) {
+      logger.warn("ENABLE_WEBHOOK is true but WEBHOOK_SECRET or WEBHOOK_OUTBOUND_URL is missing")
+    } else {
+      starters.push(
+        startChannel(
+          new WebhookAdapter({
+            secret: cfg.webhookSecret,
+            outboundUrl: cfg.webhookOutboundUrl,
+            hostname: cfg.webhookHost,
+            port: cfg.webhookPort,
+            inboundPath: cfg.webhookPath,
+            logger,
+          }),
+          channelOptions,
+        ),
+      )
+    }
+  }
+
+  let httpApiStarted = false
+  if (cfg.enableHttpApi) {
+    if (!cfg.httpApiToken) {
+      logger.warn("ENABLE_HTTP_API is true but HTTP_API_TOKEN is missing")
+    } else {
+      startHttpApi({
+        token: cfg.httpApiToken,
+        hostname: cfg.httpApiHost,
+        port: cfg.httpApiPort,
+        assistant,
+        logger,
+        auditLog,
+        signedActions: cfg.emailLinkSecret ? { secret: cfg.emailLinkSecret, handlers: signedActionHandlers } : undefined,
+      })
+      httpApiStarted = true
+    }
+  }
+
+  if (starters.length === 0 && !httpApiStarted) {
+    logger.warn(
+      "No channel enabled. Set ENABLE_TELEGRAM, ENABLE_DISCORD, ENABLE_SLACK, ENABLE_MATRIX, ENABLE_WHATSAPP, ENABLE_EMAIL or ENABLE_WEBHOOK together with the channel's credentials.",
+    )
   }
 
   await Promise.all(starters)
@@ -0,0 +1,161 @@
+import type { Logger } from "pino"
+import { approvalButtons } from "../channels/router"
+import type { ChannelName } from "../channels/types"
+import { AssistantCore } from "../core/assistant"
+import {
+  PendingInteractionStore,
+  summarizePermission,
+  summarizeQuestion,
+  type PendingInteraction,
+} from "../core/pending-interaction-store"
+import { loadLastChannel } from "../utils/last-channel"
+import type { OutboxMessage } from "../utils/outbox"
+
+type ApprovalTimeoutOptions = {
+  // Each of these is off when 0.
+  reminderMinutes: number
+  escalateAfterMinutes: number
+  deadlineMinutes: number
+  escalateTo?: { channel: ChannelName; userID: string }
+  checkIntervalMs?: number
+  assistant: AssistantCore
+  store: PendingInteractionStore
+  // Delivery goes through the outbox so reminders reach any running channel.
+  notify: (message: OutboxMessage) => Promise<unknown>
+  logger: Logger
+}
+
+function minutesSince(iso: string | undefined, now: number): number {
+  if (!iso) return Number.POSITIVE_INFINITY
+  const at = Date.parse(iso)
+  return Number.isFinite(at) ? (now - at) / 60_000 : Number.POSITIVE_INFINITY
+}
+
+function waited(record: PendingInteraction, now: number): string {
+  const minutes = Math.floor(minutesSince(record.askedAt, now))
+  return minutes === 1 ? "1 minute" : `${minutes} minutes`
+}
+
+function requestLabel(record: PendingInteraction): string {
+  return record.kind === "permission" ? "Approval request" : "Question"
+}
+
+export function startApprovalTimeouts(opts: ApprovalTimeoutOptions): void {
+  const { assistant, store, logger } = opts
+  if (opts.reminderMinutes <= 0 && opts.deadlineMinutes <= 0 && (opts.escalateAfterMinutes <= 0 || !opts.escalateTo)) {
+    logger.info("approval reminders, escalation and deadlines are disabled")
+    return
+  }
+
+  // Whoever saw the request, or for unattended work (heartbeat, async_bash) whoever talked to us last.
+  const recipientFor = async (record: PendingInteraction): Promise<{ channel: ChannelName; userID: string } | null> => {
+    if (record.target) return { channel: record.target.channel, userID: record.target.userID }
+    const last = await loadLastChannel()
+    return last ? { channel: last.channel, userID: last.userID } : null
+  }
+
+  const send = async (to: { channel: ChannelName; userID: string } | null, record: PendingInteraction, text: string) => {
+    if (!to) {
+      logger.warn({ requestID: record.requestID, sessionID: record.sessionID }, "no one to notify about pending request")
+      return
+    }
+    const buttons = record.kind === "permission" ? approvalButtons(record.requestID) : undefined
+    await opts.notify({ channel: to.channel, userID: to.userID, text, ...(buttons ? { buttons } : {}) })
+  }
+
+  const expire = async (record: PendingInteraction, now: number) => {
+    const note = `No answer within ${opts.deadlineMinutes} minutes, so it was rejected automatically.`
+    if (record.kind === "permission") {
+      await assistant.replyPermission(record.requestID, "reject", note, record.sessionID, "system:deadline")
+    } else {
+      await assistant.rejectQuestion(record.requestID, "system:deadline")
+      await assistant.addSessionNote(record.sessionID, `Question "${record.summary}": ${note}`).catch((error: unknown) => {
+        logger.warn({ err: error, requestID: record.requestID, sessionID: record.sessionID }, "failed to add timeout note to session")
+      })
+    }
+    await store.remove(record.requestID)
+    logger.info({ requestID: record.requestID, sessionID: record.sessionID, kind: record.kind, waited: waited(record, now) }, "pending request expired")
+    const to = await recipientFor(record)
+    if (to) await opts.notify({ ...to, text: `${requestLabel(record)} expired: ${record.summary}\n${note}` })
+  }
+
+  const check = async (record: PendingInteraction, now: number) => {
+    if (opts.deadlineMinutes > 0 && minutesSince(record.askedAt, now) >= opts.deadlineMinutes) {
+      await expire(record, now)
+      return
+    }
+
+    const deadline = opts.deadlineMinutes > 0 ? `\nIt will be rejected after ${opts.deadlineMinutes} minutes without an answer.` : ""
+    const escalateTo = opts.escalateTo
+    if (
+      escalateTo &&
+      opts.escalateAfterMinutes > 0 &&
+      record.kind === "permission" &&
+      !record.escalatedAt &&
+      minutesSince(record.askedAt, now) >= opts.escalateAfterMinutes
+    ) {
+      await store.update(record.requestID, { escalatedAt: new Date(now).toISOString(), escalatedTo: `${escalateTo.channel}:${escalateTo.userID}` })
+      await send(escalateTo, record, `Escalated: approval waiting ${waited(record, now)} without an answer.\n${record.summary}\nRequest ID: ${record.requestID}${deadline}`)
+      logger.info({ requestID: record.requestID, sessionID: record.sessionID, to: escalateTo }, "pending approval escalated")
+    }
+
+    if (opts.reminderMinutes <= 0) return
+    if (minutesSince(record.remindedAt ?? record.announcedAt ?? record.askedAt, now) < opts.reminderMinutes) return
+    await store.update(record.requestID, { remindedAt: new Date(now).toISOString(), reminders: record.reminders + 1 })
+    const how = record.kind === "permission" ? "Tap a button below or run /approvals." : "Run /approvals to answer it."
+    const text = `Reminder: ${requestLabel(record).toLowerCase()} waiting ${waited(record, now)}.\n${record.summary}\nRequest ID: ${record.requestID}\n${how}${deadline}`
+    await send(await recipientFor(record), record, text)
+    logger.info({ requestID: record.requestID, sessionID: record.sessionID, reminders: record.reminders + 1 }, "pending request reminder sent")
+  }
+
+  let running = false
+  const run = async () => {
+    if (running) return
+    running = true
+    try {
+      // OpenCode is the source of truth: track what is pending, forget what was answered elsewhere.
+      const permissions = await assistant.listPendingPermissions()
+      const questions = await assistant.listPendingQuestions()
+      const live = new Set<string>()
+      for (const item of permissions) {
+        live.add(item.id)
+        await store.track("permission", item, summarizePermission(item))
+      }
+      for (const item of questions) {
+        live.add(item.id)
+        await store.track("question", item, summarizeQuestion(item))
+      }
+
+      const now = Date.now()
+      for (const record of store.list()) {
+        if (!live.has(record.requestID)) {
+          await store.remove(record.requestID)
+          continue
+        }
+        try {
+          await check(record, now)
+        } catch (error) {
+          logger.warn({ err: error, requestID: record.requestID, sessionID: record.sessionID }, "pending request check failed")
+        }
+      }
+    } catch (error) {
+      logger.warn({ err: error }, "pending request sweep failed")
+    } finally {
+      running = false
+    }
+  }
+
+  setInterval(() => {
+    void run()
+  }, opts.checkIntervalMs ?? 60_000)
+  void run()
+  logger.info(
+    {
+      reminderMinutes: opts.reminderMinutes,
+      escalateAfterMinutes: opts.escalateAfterMinutes,
+      escalateTo: opts.escalateTo,
+      deadlineMinutes: opts.deadlineMinutes,
+    },
+    "approval timeout scheduler started",
+  )
+}
@@ -1,5 +1,6 @@
 import { appendFile, open } from "node:fs/promises"
 import type { Logger } from "pino"
+import { isChannelName, type ChannelName } from "../channels/types"
 import { AssistantCore } from "../core/assistant"
 import { ensureDir, listFiles, readJson, writeJson } from "../utils/fs"
 import { queueOutbox } from "../utils/outbox"
@@ -15,9 +16,11 @@ type AsyncBashJob = {
   createdAt: string
   updatedAt: string
   status: AsyncBashStatus
-  channel: "telegram"
+  channel: ChannelName
   userID: string
   sessionID?: string
+  // Set once the job passed the owner's rate limit and daily quota.
+  admittedAt?: string
   outputFile?: string
   startedAt?: string
   finishedAt?: string
@@ -42,6 +45,8 @@ type SchedulerOptions = {
   defaultTimeoutMs: number
   assistant: AssistantCore
   logger: Logger
+  // Returns why the job's owner may not run it now (rate limit, quota), or undefined to let it run.
+  admitJob?: (job: { channel: ChannelName; userID: string }) => Promise<string | undefined>
 }
 
 type RunningState = {
@@ -151,8 +156,12 @@ async function readLogTail(filePath: string, maxBytes = 1200): Promise<string> {
 
 async function notify(job: AsyncBashJob, text: string, logger: Logger): Promise<void> {
   if (!job.userID) return
+  if (!isChannelName(job.channel)) {
+    logger.warn({ jobID: job.id, channel: job.channel }, "async_bash job has unknown channel; skipping notification")
+    return
+  }
   try {
-    await queueOutbox({ channel: "telegram", userID: job.userID, text })
+    await queueOutbox({ channel: job.channel, userID: job.userID, text })
   } catch (error) {
     logger.warn({ err: error, jobID: job.id }, "failed to queue async_bash outbox message")
   }
@@ -180,6 +189,21 @@ function quoteText(text: string): string {
     .join("\n")
 }
 
+/** Cancels jobs that have not started yet for one account (e.g. when it is revoked). Returns how many. */
+export async function cancelQueuedAsyncBashJobs(queueDir: string, channel: ChannelName, userID: string, reason: string): Promise<number> {
+  let cancelled = 0
+  for (const entry of await readJobs(resolvePath(queueDir))) {
+    const job = entry.job
+    if (job.status !== "queued" || job.channel !== channel || job.userID !== userID) continue
+    job.status = "cancelled"
+    job.finishedAt = nowISO()
+    job.error = reason
+    await saveJob(entry.path, job)
+    cancelled += 1
+  }
+  return cancelled
+}
+
 export function startAsyncBashScheduler(opts: SchedulerOptions): void {
   const queueDir = resolvePath(opts.queueDir)
   const outputDir = joinPath(queueDir, "output")
@@ -204,9 +228,12 @@ export function startAsyncBashScheduler(opts: SchedulerOptions): void {
     ].join("\n")
 
     const reply = await opts.assistant.ask({
-      channel: "telegram",
+      channel: isChannelName(job.channel) ? job.channel : "system",
       userID: job.userID,
       text: prompt,
+      // Back into the conversation that started the job (the main session if it has since been replaced).
+      sessionKey: job.sessionID ? opts.assistant.sessionKeyOf(job.sessionID) : undefined,
+      background: true,
     })
     return reply.trim() || "无需额外说明。"
   }
@@ -422,9 +449,30 @@ export function startAsyncBashScheduler(opts: SchedulerOptions): void {
     }
   }
 
+  // Every new job is charged when first seen, not when a slot frees up, so a burst is refused right away.
+  const admitQueuedJobs = async (jobs: Array<{ path: string; job: AsyncBashJob }>) => {
+    if (!opts.admitJob) return
+    for (const { path, job } of jobs) {
+      if (job.status !== "queued" || job.admittedAt || !isChannelName(job.channel)) continue
+      const refusal = await opts.admitJob({ channel: job.channel, userID: job.userID })
+      if (refusal) {
+        job.status = "cancelled"
+        job.finishedAt = nowISO()
+        job.error = refusal
+        await saveJob(path, job)
+        await notify(job, `[async_bash ${job.id}] Not started. ${refusal}`, opts.logger)
+        opts.logger.info({ jobID: job.id, channel: job.channel, userID: job.userID }, "async_bash job refused by usage limits")
+        continue
+      }
+      job.admittedAt = nowISO()
+      await saveJob(path, job)
+    }
+  }
+
   const startQueuedJobs = async () => {
-    if (running.size >= maxConcurrency) return
     const jobs = await readJobs(queueDir)
+    await admitQueuedJobs(jobs)
+    if (running.size >= maxConcurrency) return
     for (const entry of jobs) {
       if (running.size >= maxConcurrency) return
       if (entry.job.status !== "queued") continue
@@ -0,0 +1,20 @@
+/**
+ * Runs a store's changes one at a time, each starting from a fresh read of its file.
+ * The daemon and the terminal client (`bun run chat`) write the same store files, and every
+ * write replaces the whole file, so a change made from a stale copy would drop the other's work.
+ */
+export class FileChangeQueue {
+  private last: Promise<unknown> = Promise.resolve()
+
+  constructor(private readonly reload: () => Promise<void>) {}
+
+  run<T>(change: () => Promise<T>): Promise<T> {
+    const next = this.last.then(async () => {
+      // A missing or unreadable file keeps the copy in memory.
+      await this.reload().catch(() => undefined)
+      return change()
+    })
+    this.last = next.catch(() => undefined)
+    return next
+  }
+}
@@ -1,8 +1,9 @@
+import type { ChannelName } from "../channels/types"
 import { ensureDir, listFiles, removeFile, writeText } from "./fs"
 import { joinPath } from "./path"
 
-export type InboxChannel = "telegram"
-export type InboxKind = "voice" | "photo"
+export type InboxChannel = ChannelName
+export type InboxKind = "voice" | "photo" | "document"
 
 type SaveInboxBinaryInput = {
   dir: string
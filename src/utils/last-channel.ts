@@ -1,14 +1,29 @@
-import { ensureDir, writeText } from "./fs"
+import { isChannelName, type ChannelName } from "../channels/types"
+import { ensureDir, readJson, writeText } from "./fs"
 import { dirname, resolvePath } from "./path"
 
 export type LastChannel = {
-  channel: "telegram"
+  channel: ChannelName
   userID: string
   updatedAt: string
 }
 
+function lastChannelFile(): string {
+  return resolvePath(Bun.cwd, ".data/last-channel.json")
+}
+
+export async function loadLastChannel(): Promise<LastChannel | null> {
+  try {
+    const parsed = await readJson<Partial<LastChannel>>(lastChannelFile())
+    if (!isChannelName(parsed.channel) || typeof parsed.userID !== "string") return null
+    return { channel: parsed.channel, userID: parsed.userID, updatedAt: String(parsed.updatedAt ?? "") }
+  } catch {
+    return null
+  }
+}
+
 export async function saveLastChannel(channel: LastChannel["channel"], userID: string): Promise<void> {
-  const file = resolvePath(Bun.cwd, ".data/last-channel.json")
+  const file = lastChannelFile()
   await ensureDir(dirname(file))
   await writeText(
     file,
@@ -0,0 +1,11 @@
+// No 0/O or 1/I so codes survive being read aloud or retyped.
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"
+
+export function generateCode(length = 8): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(length))
+  return Array.from(bytes, (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join("")
+}
+
+export function normalizeCode(code: string): string {
+  return code.trim().toUpperCase()
+}
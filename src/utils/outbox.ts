@@ -1,10 +1,13 @@
+import type { ChannelButton, ChannelName } from "../channels/types"
 import { ensureDir, listFiles, readJson, removeFile, writeJson } from "./fs"
 import { joinPath, resolvePath } from "./path"
 
 export type OutboxMessage = {
-  channel: "telegram"
+  channel: ChannelName
   userID: string
   text: string
+  // Sent as a button prompt, e.g. approval reminders.
+  buttons?: ChannelButton[][]
 }
 
 type Pending = {
@@ -21,6 +24,7 @@ export async function queueOutbox(message: OutboxMessage): Promise<string> {
     channel: message.channel,
     userID: message.userID,
     text: message.text,
+    ...(message.buttons ? { buttons: message.buttons } : {}),
     createdAt: new Date().toISOString(),
   })
   return filePath
@@ -38,7 +42,8 @@ export async function listOutbox(channel: OutboxMessage["channel"]): Promise<Pen
       const msg = await readJson<Partial<OutboxMessage>>(filePath)
       if (msg.channel !== channel) continue
       if (typeof msg.userID !== "string" || typeof msg.text !== "string") continue
-      pending.push({ filePath, message: { channel, userID: msg.userID, text: msg.text } })
+      const buttons = Array.isArray(msg.buttons) ? msg.buttons : undefined
+      pending.push({ filePath, message: { channel, userID: msg.userID, text: msg.text, ...(buttons ? { buttons } : {}) } })
     } catch {
       // Ignore malformed files.
     }
@@ -0,0 +1,48 @@
+import { createHmac, timingSafeEqual } from "node:crypto"
+
+export type SignedAction = {
+  channel: string
+  chatID: string
+  userID: string
+  action: string
+  // Human-readable choice shown on the confirmation page.
+  label?: string
+  expiresAt: number
+}
+
+function sign(secret: string, payload: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url")
+}
+
+/** Encodes an action as `<payload>.<hmac>` so it can be embedded in a URL and verified later. */
+export function signAction(secret: string, action: SignedAction): string {
+  const payload = Buffer.from(JSON.stringify(action), "utf8").toString("base64url")
+  return `${payload}.${sign(secret, payload)}`
+}
+
+export function verifyAction(secret: string, token: string, now = Date.now()): SignedAction | null {
+  const idx = token.lastIndexOf(".")
+  if (idx <= 0) return null
+  const payload = token.slice(0, idx)
+  const expected = Buffer.from(sign(secret, payload))
+  const received = Buffer.from(token.slice(idx + 1))
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) return null
+
+  try {
+    const action = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as Partial<SignedAction>
+    if (
+      typeof action.channel !== "string" ||
+      typeof action.chatID !== "string" ||
+      typeof action.userID !== "string" ||
+      typeof action.action !== "string" ||
+      typeof action.expiresAt !== "number" ||
+      (action.label !== undefined && typeof action.label !== "string")
+    ) {
+      return null
+    }
+    if (action.expiresAt < now) return null
+    return action as SignedAction
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,229 @@
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import pino from "pino"
+import { startChannel } from "../src/channels/router"
+import type { ChannelAdapter, ChannelHandlers, ChannelPrompt } from "../src/channels/types"
+import type { AssistantCore, PendingPermission, PendingQuestion } from "../src/core/assistant"
+import { AuditLog } from "../src/core/audit-log"
+import { IdentityStore } from "../src/core/identity-store"
+import { InviteStore } from "../src/core/invite-store"
+import { PairAttemptStore } from "../src/core/pair-attempt-store"
+import { PendingInteractionStore } from "../src/core/pending-interaction-store"
+import { WhitelistStore } from "../src/core/whitelist-store"
+import { startApprovalTimeouts } from "../src/scheduler/approval-timeouts"
+import type { OutboxMessage } from "../src/utils/outbox"
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message)
+}
+
+async function waitFor(label: string, check: () => boolean, timeoutMs = 5_000): Promise<void> {
+  const endAt = Date.now() + timeoutMs
+  while (Date.now() < endAt) {
+    if (check()) return
+    await new Promise((r) => setTimeout(r, 20))
+  }
+  throw new Error(`Timed out waiting for ${label}`)
+}
+
+class FakeAdapter implements ChannelAdapter {
+  readonly name = "slack" as const
+  readonly displayName = "Slack"
+  readonly maxMessageLength = 4000
+  readonly sent: string[] = []
+  readonly acks: string[] = []
+  handlers?: ChannelHandlers
+  private resolveStopped?: () => void
+
+  async start(handlers: ChannelHandlers): Promise<void> {
+    this.handlers = handlers
+    await new Promise<void>((resolve) => {
+      this.resolveStopped = resolve
+    })
+  }
+
+  stop(): void {
+    this.resolveStopped?.()
+  }
+
+  async sendText(_chatID: string, text: string): Promise<void> {
+    this.sent.push(text)
+  }
+
+  async sendFile(): Promise<void> {}
+
+  async sendPrompt(_chatID: string, prompt: ChannelPrompt): Promise<void> {
+    this.sent.push(prompt.text)
+  }
+
+  async press(userID: string, action: string, chatID = userID): Promise<void> {
+    await this.handlers?.onAction({
+      chatID,
+      userID,
+      action,
+      acknowledge: async (text) => {
+        this.acks.push(text)
+      },
+      clearButtons: async () => {},
+    })
+  }
+}
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60_000).toISOString()
+
+function permission(id: string, command: string, sessionID = "ses_worker"): PendingPermission {
+  return { id, sessionID, permission: "bash", patterns: [command], always: [] }
+}
+
+async function main() {
+  const dataDir = await mkdtemp(join(tmpdir(), "monclaw-approval-timeouts-e2e-"))
+  let permissions = [permission("per_1", "npm publish"), permission("per_2", "rm -rf dist"), permission("per_3", "git push")]
+  let questions: PendingQuestion[] = [
+    { id: "que_1", sessionID: "ses_worker", questions: [{ header: "Target", question: "Which env?", options: [] }] },
+  ]
+  const permissionReplies: Array<{ id: string; reply: string; message?: string }> = []
+  const rejectedQuestions: string[] = []
+  const notes: string[] = []
+  const notified: OutboxMessage[] = []
+
+  const assistant = {
+    getMainSessionID: async () => "ses_main",
+    getChatSessionID: async (key: string) => `ses_${key}`,
+    getLatestAssistantSignature: async () => "",
+    listPendingPermissions: async (sessionID?: string) => permissions.filter((item) => !sessionID || item.sessionID === sessionID),
+    listPendingQuestions: async (sessionID?: string) => questions.filter((item) => !sessionID || item.sessionID === sessionID),
+    replyPermission: async (id: string, reply: string, message?: string) => {
+      permissionReplies.push({ id, reply, message })
+      permissions = permissions.filter((item) => item.id !== id)
+    },
+    rejectQuestion: async (id: string) => {
+      rejectedQuestions.push(id)
+      questions = questions.filter((item) => item.id !== id)
+    },
+    addSessionNote: async (_sessionID: string, text: string) => {
+      notes.push(text)
+    },
+    onPermissionAsked: () => () => {},
+    onQuestionAsked: () => () => {},
+    onTextDelta: () => () => {},
+  } as unknown as AssistantCore
+
+  // State left behind by a previous run: per_1 was shown on Telegram half an hour ago.
+  const storeFile = join(dataDir, "pending-interactions.json")
+  const target = { channel: "telegram", chatID: "100", userID: "100" }
+  await Bun.write(
+    storeFile,
+    JSON.stringify({
+      per_1: { kind: "permission", requestID: "per_1", sessionID: "ses_worker", summary: "bash: npm publish", askedAt: minutesAgo(30), announcedAt: minutesAgo(30), target, reminders: 0 },
+      per_2: { kind: "permission", requestID: "per_2", sessionID: "ses_worker", summary: "bash: rm -rf dist", askedAt: minutesAgo(90), announcedAt: minutesAgo(90), target, reminders: 2 },
+      que_1: { kind: "question", requestID: "que_1", sessionID: "ses_worker", summary: "Target: Which env?", askedAt: minutesAgo(61), announcedAt: minutesAgo(61), target, reminders: 0 },
+      per_old: { kind: "permission", requestID: "per_old", sessionID: "ses_worker", summary: "bash: ls", askedAt: minutesAgo(5), reminders: 0 },
+    }),
+  )
+  const store = new PendingInteractionStore(storeFile)
+  await store.init()
+
+  startApprovalTimeouts({
+    reminderMinutes: 10,
+    escalateAfterMinutes: 20,
+    escalateTo: { channel: "slack", userID: "U-boss" },
+    deadlineMinutes: 60,
+    checkIntervalMs: 50,
+    assistant,
+    store,
+    notify: async (message) => {
+      notified.push(message)
+    },
+    logger: pino({ level: "silent" }),
+  })
+
+  const whitelist = new WhitelistStore(join(dataDir, "whitelist.json"))
+  const identities = new IdentityStore(join(dataDir, "identities.json"))
+  const pairAttempts = new PairAttemptStore(join(dataDir, "pair-attempts.json"))
+  await whitelist.init()
+  await identities.init()
+  await pairAttempts.init()
+  await whitelist.add("slack", "U-boss")
+  await whitelist.add("slack", "U-other")
+  await whitelist.add("slack", "U-member")
+  await whitelist.add("slack", "U-admin", "admin")
+
+  const adapter = new FakeAdapter()
+  const running = startChannel(adapter, {
+    logger: pino({ level: "silent" }),
+    assistant,
+    whitelist,
+    identities,
+    pairAttempts,
+    pendingInteractions: store,
+    auditLog: new AuditLog(join(dataDir, "audit.jsonl")),
+    invites: new InviteStore(join(dataDir, "invites.json")),
+    inviteTtlMinutes: 60,
+    pairMaxAttempts: 3,
+    pairLockMinutes: 15,
+    linkCodeTtlMinutes: 10,
+    inboxDir: join(dataDir, "inbox"),
+    inboxRetentionDays: 7,
+    // Every chat has its own session, so reminder buttons are usually pressed outside the request's session.
+    sessionMode: "per-chat",
+  })
+
+  try {
+    await waitFor("expiry", () => rejectedQuestions.length === 1 && permissionReplies.length === 1)
+    const expired = permissionReplies[0]
+    assert(expired?.id === "per_2" && expired.reply === "reject" && expired.message?.includes("60 minutes"), "overdue approvals should be rejected with a note")
+    assert(rejectedQuestions[0] === "que_1" && notes[0]?.includes("Which env?"), "overdue questions should be rejected with a session note")
+    assert(notified.some((m) => m.channel === "telegram" && m.text.startsWith("Approval request expired")), "the requester should hear about expiry")
+    console.log("[approval-timeouts-e2e] deadline rejects with a note ok")
+
+    const escalation = notified.find((m) => m.channel === "slack" && m.userID === "U-boss")
+    assert(escalation?.text.startsWith("Escalated") && escalation.text.includes("npm publish") && escalation.buttons, "the second approver should get buttons")
+    const reminder = notified.find((m) => m.channel === "telegram" && m.text.startsWith("Reminder"))
+    assert(reminder?.text.includes("per_1") && reminder.buttons, "announced requests should be reminded where they were shown")
+    assert(!notified.some((m) => m.text.includes("git push")), "newly seen requests should not be reminded yet")
+    assert(store.get("per_3") && !store.get("per_old"), "the sweep should track new requests and forget answered ones")
+
+    const count = notified.length
+    await new Promise((r) => setTimeout(r, 300))
+    assert(notified.length === count, "reminders and escalations should not repeat every sweep")
+    console.log("[approval-timeouts-e2e] reminders, escalation and restart recovery ok")
+
+    await waitFor("adapter", () => Boolean(adapter.handlers))
+    await adapter.press("U-other", "apr:o:per_1")
+    assert(adapter.acks.at(-1) === "Request already handled or expired.", "only the escalation target may answer someone else's request")
+    await adapter.press("U-boss", "apr:o:per_1")
+    assert(permissionReplies.at(-1)?.id === "per_1" && permissionReplies.at(-1)?.reply === "once", "the escalation target should be able to approve")
+    assert(adapter.sent.at(-1) === "Approval submitted." && !store.get("per_1"), "approving should confirm and stop tracking the request")
+
+    const reloaded = new PendingInteractionStore(storeFile)
+    await reloaded.init()
+    assert(reloaded.get("per_3") && !reloaded.get("per_2") && !reloaded.get("per_1"), "tracking state should persist")
+    console.log("[approval-timeouts-e2e] escalated approver can answer ok")
+
+    // Asked in a team channel; the reminder reaches the member in a direct message, another session.
+    permissions.push(permission("per_4", "make deploy", "ses_slack:C-team"), permission("per_5", "make clean", "ses_slack:C-team"))
+    const teamTarget = { channel: "slack" as const, chatID: "C-team", userID: "U-member" }
+    await store.markAnnounced("permission", { id: "per_4", sessionID: "ses_slack:C-team" }, "bash: make deploy", teamTarget)
+    await store.markAnnounced("permission", { id: "per_5", sessionID: "ses_slack:C-team" }, "bash: make clean", teamTarget)
+    await adapter.press("U-other", "apr:o:per_4", "D-other")
+    assert(adapter.acks.at(-1) === "Request already handled or expired.", "members who were not asked still cannot answer from elsewhere")
+    await adapter.press("U-member", "apr:o:per_4", "D-member")
+    assert(permissionReplies.at(-1)?.id === "per_4" && adapter.sent.at(-1) === "Approval submitted.", "the person a reminder went to should answer it from any chat")
+    await adapter.press("U-admin", "apr:r:per_5", "D-admin")
+    assert(permissionReplies.at(-1)?.id === "per_5" && permissionReplies.at(-1)?.reply === "reject", "admins should answer requests from any chat")
+    console.log("[approval-timeouts-e2e] reminder buttons work across per-chat sessions ok")
+    console.log("[approval-timeouts-e2e] PASS")
+  } finally {
+    adapter.stop()
+    await running
+    await rm(dataDir, { recursive: true, force: true })
+  }
+}
+
+void main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("[approval-timeouts-e2e] FAIL", error instanceof Error ? error.message : String(error))
+    process.exit(1)
+  })
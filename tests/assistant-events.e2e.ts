@@ -0,0 +1,257 @@
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import pino from "pino"
+import { ApprovalPolicy } from "../src/core/approval-policy"
+import { AssistantCore } from "../src/core/assistant"
+import { AuditLog } from "../src/core/audit-log"
+import { SessionStore } from "../src/core/session-store"
+import { MemoryStore } from "../src/memory/store"
+
+type FakeMessage = {
+  info: { id: string; role: string; time: { created: number; completed?: number } }
+  parts: Array<{ type: string; text: string }>
+}
+
+type Turn = (sessionID: string) => Promise<void>
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message)
+}
+
+async function waitFor(label: string, check: () => boolean, timeoutMs = 5_000): Promise<void> {
+  const endAt = Date.now() + timeoutMs
+  while (Date.now() < endAt) {
+    if (check()) return
+    await new Promise((r) => setTimeout(r, 20))
+  }
+  throw new Error(`Timed out waiting for ${label}`)
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms))
+
+async function main() {
+  const dataDir = await mkdtemp(join(tmpdir(), "monclaw-assistant-events-e2e-"))
+  const encoder = new TextEncoder()
+  const streams = new Set<ReadableStreamDefaultController<Uint8Array>>()
+  const messages = new Map<string, FakeMessage[]>()
+  let nextSession = 1
+  let nextMessage = 1
+  let turn: Turn = async () => {}
+  // Abort and reject calls the assistant made, as "<METHOD> <path>".
+  const controlCalls: string[] = []
+  const permissionReplies = new Map<string, { reply?: string; message?: string }>()
+
+  const emit = (type: string, properties: Record<string, unknown>) => {
+    const chunk = encoder.encode(`data: ${JSON.stringify({ type, properties })}\n\n`)
+    for (const controller of streams) controller.enqueue(chunk)
+  }
+  const addAssistant = (sessionID: string, text: string) => {
+    const now = Date.now()
+    messages.get(sessionID)?.push({
+      info: { id: `msg_${nextMessage++}`, role: "assistant", time: { created: now, completed: now } },
+      parts: [{ type: "text", text }],
+    })
+  }
+
+  // OpenCode stand-in: an event stream plus just enough of the session API for AssistantCore.ask.
+  const opencode = Bun.serve({
+    hostname: "127.0.0.1",
+    port: 0,
+    idleTimeout: 0,
+    async fetch(req: Request) {
+      const path = new URL(req.url).pathname
+      if (path === "/event") {
+        let own: ReadableStreamDefaultController<Uint8Array> | undefined
+        const body = new ReadableStream<Uint8Array>({
+          start(controller) {
+            own = controller
+            streams.add(controller)
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: "server.connected", properties: {} })}\n\n`))
+          },
+          cancel() {
+            if (own) streams.delete(own)
+          },
+        })
+        return new Response(body, { headers: { "Content-Type": "text/event-stream" } })
+      }
+      if (path === "/session" && req.method === "POST") {
+        const id = `ses_${nextSession++}`
+        messages.set(id, [])
+        return Response.json({ id, title: "chat", time: { created: Date.now(), updated: Date.now() } })
+      }
+      if (/\/(abort|reply|reject)$/.test(path)) {
+        controlCalls.push(`${req.method} ${path}`)
+        const permissionID = path.match(/^\/permission\/([^/]+)\/reply$/)?.[1]
+        if (permissionID) permissionReplies.set(permissionID, await req.json())
+        return Response.json(true)
+      }
+      const match = path.match(/^\/session\/([^/]+)\/message$/)
+      if (match) {
+        const sessionID = match[1] ?? ""
+        if (req.method === "GET") return Response.json(messages.get(sessionID) ?? [])
+        // Answer the prompt call without a body, as a proxy that drops long responses would,
+        // so the reply has to be picked up from the session itself.
+        void turn(sessionID)
+        return Response.json({})
+      }
+      return Response.json([])
+    },
+  })
+
+  const rulesFile = join(dataDir, "approval-rules.json")
+  await Bun.write(
+    rulesFile,
+    JSON.stringify({
+      rules: [
+        { name: "carol asks first", action: "escalate", permission: "bash", users: ["api:carol"] },
+        { name: "no rm", action: "reject", permission: "bash", patterns: ["rm -r *"] },
+        { name: "read-only git", action: "once", permission: "bash", patterns: ["git status*", "git log*"] },
+      ],
+    }),
+  )
+  const approvalPolicy = new ApprovalPolicy(rulesFile)
+  await approvalPolicy.init()
+
+  const auditLog = new AuditLog(join(dataDir, "audit.jsonl"))
+  await auditLog.init()
+
+  const sessions = new SessionStore(join(dataDir, "sessions.json"))
+  const assistant = new AssistantCore(pino({ level: "silent" }), new MemoryStore(join(dataDir, "workspace")), sessions, {
+    serverUrl: `http://127.0.0.1:${opencode.port}`,
+    heartbeatFile: join(dataDir, "heartbeat.md"),
+    heartbeatIntervalMinutes: 30,
+    inboxDir: join(dataDir, "inbox"),
+    inboxRetentionDays: 7,
+    replyTimeoutMinutes: 1,
+    approvalPolicy,
+    auditLog,
+  })
+
+  try {
+    await assistant.init()
+    await waitFor("event stream", () => streams.size > 0)
+
+    turn = async (sessionID) => {
+      emit("session.status", { sessionID, status: { type: "busy" } })
+      await sleep(100)
+      addAssistant(sessionID, "Let me check the calendar first.")
+      await sleep(300)
+      addAssistant(sessionID, "You have two meetings tomorrow.")
+      emit("session.idle", { sessionID })
+    }
+    let startedAt = Date.now()
+    const answer = await assistant.ask({ channel: "api", userID: "tester", text: "what is on tomorrow?" })
+    assert(answer === "You have two meetings tomorrow.", `multi-step turns should resolve to the final message, got: ${answer}`)
+    assert(Date.now() - startedAt < 3_000, "the reply should arrive on session.idle, not on the fallback poll")
+    console.log("[assistant-events-e2e] reply resolved on session.idle ok")
+
+    turn = async (sessionID) => {
+      emit("session.status", { sessionID, status: { type: "busy" } })
+      await sleep(100)
+      emit("question.asked", {
+        id: "que_1",
+        sessionID,
+        questions: [{ header: "Calendar", question: "Which calendar?", options: [{ label: "Work", description: "" }] }],
+      })
+    }
+    startedAt = Date.now()
+    const paused = await assistant.ask({ channel: "api", userID: "tester", text: "book a slot" })
+    assert(paused.startsWith("I need your input"), `pending questions should end the wait, got: ${paused}`)
+    assert(Date.now() - startedAt < 3_000, "pending questions should wake the waiting request")
+    console.log("[assistant-events-e2e] pending question wakes the wait ok")
+
+    emit("question.rejected", { requestID: "que_1" })
+    turn = async (sessionID) => {
+      emit("session.status", { sessionID, status: { type: "busy" } })
+      await sleep(100)
+      emit("session.error", { sessionID, error: { name: "ProviderAuthError", data: { message: "bad key" } } })
+    }
+    startedAt = Date.now()
+    const failed = await assistant.ask({ channel: "api", userID: "tester", text: "try again" })
+    assert(failed.startsWith("I did not receive a model reply"), `session errors should end the wait, got: ${failed}`)
+    assert(Date.now() - startedAt < 3_000, "session errors should not wait for the timeout")
+    console.log("[assistant-events-e2e] session.error ends the wait ok")
+
+    let stalledSession = ""
+    turn = async (sessionID) => {
+      stalledSession = sessionID
+      emit("session.status", { sessionID, status: { type: "busy" } })
+    }
+    const stalled = assistant.ask({ channel: "api", userID: "tester", text: "loop forever" })
+    await waitFor("stalled turn", () => stalledSession !== "")
+    await sleep(100)
+    emit("permission.asked", { id: "per_1", sessionID: stalledSession, permission: "bash", patterns: ["rm -rf build"] })
+    emit("question.asked", {
+      id: "que_2",
+      sessionID: stalledSession,
+      questions: [{ header: "Confirm", question: "Continue?", options: [{ label: "Yes", description: "" }] }],
+    })
+    assert((await stalled).startsWith("I need your input"), "the turn should pause on its pending requests")
+    const stopped = await assistant.abortSession(stalledSession)
+    assert(stopped.aborted && stopped.rejectedPermissions === 1 && stopped.rejectedQuestions === 1, "abort should report what it rejected")
+    assert(controlCalls.includes(`POST /session/${stalledSession}/abort`), "abort should call the session abort API")
+    assert(controlCalls.includes("POST /permission/per_1/reply") && controlCalls.includes("POST /question/que_2/reject"), "pending requests should be rejected")
+    assert((await assistant.listPendingPermissions(stalledSession)).length === 0, "rejected permissions should be forgotten")
+    const abortAudit = await auditLog.recent({ limit: 10, actor: "system:abort" })
+    assert(
+      abortAudit.some((e) => e.action === "permission.reply" && e.requestID === "per_1" && e.patterns?.[0] === "rm -rf build" && e.decision === "reject") &&
+        abortAudit.some((e) => e.action === "question.reject" && e.requestID === "que_2"),
+      "abort rejections should be audited with the request details",
+    )
+
+    turn = async (sessionID) => {
+      stalledSession = sessionID
+      emit("session.status", { sessionID, status: { type: "busy" } })
+    }
+    const running = assistant.ask({ channel: "api", userID: "tester", text: "another long job" })
+    await sleep(200)
+    startedAt = Date.now()
+    await assistant.abortSession(stalledSession)
+    assert((await running) === "Stopped.", "an aborted turn should resolve as stopped")
+    assert(Date.now() - startedAt < 3_000, "abort should wake the waiting request")
+    console.log("[assistant-events-e2e] abortSession stops the turn and rejects pending requests ok")
+
+    // The turn asks for a bash permission and only finishes once someone answers it.
+    const permissionTurn = (id: string, command: string): Turn => async (sessionID) => {
+      emit("session.status", { sessionID, status: { type: "busy" } })
+      await sleep(100)
+      emit("permission.asked", { id, sessionID, permission: "bash", patterns: [command], metadata: { command } })
+      await waitFor(`${id} reply`, () => permissionReplies.has(id), 2_000).catch(() => {})
+      if (!permissionReplies.has(id)) return
+      addAssistant(sessionID, `finished after ${permissionReplies.get(id)?.reply}`)
+      emit("session.idle", { sessionID })
+    }
+    turn = permissionTurn("per_10", "git status --short")
+    const approved = await assistant.ask({ channel: "api", userID: "tester", text: "what changed?" })
+    assert(approved === "finished after once", `matching approve rules should answer without a human, got: ${approved}`)
+
+    turn = permissionTurn("per_11", "rm -r dist")
+    await assistant.ask({ channel: "api", userID: "tester", text: "clean up" })
+    const rejected = permissionReplies.get("per_11")
+    assert(rejected?.reply === "reject" && rejected.message?.includes("no rm"), "reject rules should name the rule in the reply")
+    const policyAudit = await auditLog.recent({ limit: 10, actor: "policy:" })
+    assert(
+      policyAudit.map((e) => `${e.actor} ${e.decision} ${e.requestID}`).join("|") === "policy:read-only git once per_10|policy:no rm reject per_11",
+      `policy decisions should be audited under the rule name, got: ${JSON.stringify(policyAudit)}`,
+    )
+
+    turn = permissionTurn("per_12", "git status")
+    const escalated = await assistant.ask({ channel: "api", userID: "carol", text: "what changed?" })
+    assert(escalated.startsWith("I need your input") && !permissionReplies.has("per_12"), "escalated requests should wait for a human")
+    emit("permission.replied", { requestID: "per_12" })
+    console.log("[assistant-events-e2e] approval policy answers, rejects and escalates ok")
+    console.log("[assistant-events-e2e] PASS")
+  } finally {
+    // The event stream reconnect loop is left to process exit; aborting it mid-read rejects inside the SDK.
+    opencode.stop(true)
+    await rm(dataDir, { recursive: true, force: true })
+  }
+}
+
+void main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("[assistant-events-e2e] FAIL", error instanceof Error ? error.message : String(error))
+    process.exit(1)
+  })
@@ -0,0 +1,180 @@
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import pino from "pino"
+import { startHttpApi } from "../src/channels/http-api"
+import { startChannel } from "../src/channels/router"
+import type { ChannelAdapter, ChannelHandlers, ChannelPrompt } from "../src/channels/types"
+import type { AssistantCore } from "../src/core/assistant"
+import { AuditLog } from "../src/core/audit-log"
+import { IdentityStore } from "../src/core/identity-store"
+import { InviteStore } from "../src/core/invite-store"
+import { PairAttemptStore } from "../src/core/pair-attempt-store"
+import { PendingInteractionStore } from "../src/core/pending-interaction-store"
+import { WhitelistStore } from "../src/core/whitelist-store"
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message)
+}
+
+async function waitFor(label: string, check: () => boolean, timeoutMs = 5_000): Promise<void> {
+  const endAt = Date.now() + timeoutMs
+  while (Date.now() < endAt) {
+    if (check()) return
+    await new Promise((r) => setTimeout(r, 20))
+  }
+  throw new Error(`Timed out waiting for ${label}`)
+}
+
+class FakeAdapter implements ChannelAdapter {
+  readonly name = "slack" as const
+  readonly displayName = "Slack"
+  readonly maxMessageLength = 4000
+  readonly sent: string[] = []
+  handlers?: ChannelHandlers
+  private resolveStopped?: () => void
+
+  async start(handlers: ChannelHandlers): Promise<void> {
+    this.handlers = handlers
+    await new Promise<void>((resolve) => {
+      this.resolveStopped = resolve
+    })
+  }
+
+  stop(): void {
+    this.resolveStopped?.()
+  }
+
+  async sendText(_chatID: string, text: string): Promise<void> {
+    this.sent.push(text)
+  }
+
+  async sendFile(): Promise<void> {}
+
+  async sendPrompt(_chatID: string, prompt: ChannelPrompt): Promise<void> {
+    this.sent.push(prompt.text)
+  }
+
+  lastText(): string {
+    return this.sent.at(-1) ?? ""
+  }
+
+  async command(userID: string, name: string, args = ""): Promise<void> {
+    await this.handlers?.onCommand({ chatID: userID, userID, name, args })
+  }
+}
+
+async function main() {
+  const dataDir = await mkdtemp(join(tmpdir(), "monclaw-audit-e2e-"))
+
+  const assistant = {
+    getMainSessionID: async () => "ses_main",
+    startNewMainSession: async () => "ses_fresh",
+    remember: async () => {},
+    onPermissionAsked: () => () => {},
+    onQuestionAsked: () => () => {},
+    onTextDelta: () => () => {},
+  } as unknown as AssistantCore
+
+  const whitelist = new WhitelistStore(join(dataDir, "whitelist.json"))
+  const identities = new IdentityStore(join(dataDir, "identities.json"))
+  const pairAttempts = new PairAttemptStore(join(dataDir, "pair-attempts.json"))
+  const pendingInteractions = new PendingInteractionStore(join(dataDir, "pending-interactions.json"))
+  const auditLog = new AuditLog(join(dataDir, "audit.jsonl"))
+  await whitelist.init()
+  await identities.init()
+  await pairAttempts.init()
+  await pendingInteractions.init()
+  await auditLog.init()
+  await whitelist.add("slack", "U-admin", "admin")
+
+  // Decisions made elsewhere (assistant, policy, scheduler) land in the same file.
+  await auditLog.record({ action: "permission.reply", actor: "telegram:100", requestID: "per_1", permission: "bash", patterns: ["npm publish"], decision: "once" })
+  await auditLog.record({ action: "permission.reply", actor: "policy:no rm", requestID: "per_2", permission: "bash", patterns: ["rm -r dist"], decision: "reject" })
+  await auditLog.record({ action: "question.reject", actor: "system:deadline", requestID: "que_1", decision: "reject" })
+
+  const adapter = new FakeAdapter()
+  const running = startChannel(adapter, {
+    logger: pino({ level: "silent" }),
+    assistant,
+    whitelist,
+    identities,
+    pairAttempts,
+    pendingInteractions,
+    auditLog,
+    invites: new InviteStore(join(dataDir, "invites.json")),
+    inviteTtlMinutes: 60,
+    pairToken: "pair-secret",
+    pairMaxAttempts: 3,
+    pairLockMinutes: 15,
+    linkCodeTtlMinutes: 10,
+    inboxDir: join(dataDir, "inbox"),
+    inboxRetentionDays: 7,
+  })
+
+  try {
+    await waitFor("adapter", () => Boolean(adapter.handlers))
+
+    await adapter.command("U-new", "pair", "wrong")
+    await adapter.command("U-new", "pair", "pair-secret")
+    await adapter.command("U-new", "new")
+    await adapter.command("U-new", "remember", "prefers metric units")
+
+    const own = await auditLog.recent({ limit: 10, actor: "slack:U-new" })
+    assert(
+      own.map((e) => `${e.action} ${e.decision ?? e.detail ?? ""}`).join("|") === "pair invalid|pair paired|new shared|remember prefers metric units",
+      `privileged commands should be audited in order, got: ${JSON.stringify(own)}`,
+    )
+    assert(own.every((e) => e.channel === "slack" && e.at), "entries should carry the channel and a timestamp")
+    assert(own[2]?.sessionID === "ses_fresh", "/new should record the session it started")
+    console.log("[audit-e2e] /pair, /new and /remember are recorded ok")
+
+    await adapter.command("U-new", "audit")
+    assert(adapter.lastText().startsWith("Your role (member) cannot read the audit log"), "non-admins should not read the audit log")
+    await adapter.command("U-admin", "audit", "bogus")
+    assert(adapter.lastText().startsWith("Usage: /audit"), "unknown filters should show usage")
+
+    await adapter.command("U-admin", "audit")
+    const lines = adapter.lastText().split("\n")
+    assert(lines[0]?.startsWith("Last 7 audit entries"), `all entries should be listed, got: ${lines[0]}`)
+    assert(lines[1]?.includes("telegram:100 permission.reply once bash: npm publish (per_1)"), `entries should be readable, got: ${lines[1]}`)
+    assert(lines.at(-1)?.includes("slack:U-new remember"), "newest entries should come last")
+
+    await adapter.command("U-admin", "audit", "2 action=pair")
+    assert(adapter.lastText().startsWith("Last 2 audit entries") && adapter.lastText().includes("pair paired"), "count and action filters should apply")
+    await adapter.command("U-admin", "audit", "permission=bash actor=policy")
+    assert(adapter.lastText().includes("policy:no rm") && !adapter.lastText().includes("telegram:100"), "actor and permission filters should combine")
+    await adapter.command("U-admin", "audit", "request=que_1")
+    assert(adapter.lastText().includes("system:deadline question.reject"), "request filter should find a single request")
+    await adapter.command("U-admin", "audit", "action=link")
+    assert(adapter.lastText() === "No matching audit entries.", "empty results should say so")
+    console.log("[audit-e2e] /audit is admin-only and filters ok")
+
+    const api = startHttpApi({ token: "secret", hostname: "127.0.0.1", port: 0, assistant, logger: pino({ level: "silent" }), auditLog })
+    try {
+      const remembered = await fetch(`http://127.0.0.1:${api.port}/remember`, {
+        method: "POST",
+        headers: { Authorization: "Bearer secret", "Content-Type": "application/json" },
+        body: JSON.stringify({ text: "deploys happen on Fridays", userID: "ci" }),
+      })
+      assert(remembered.status === 200, "the http api should accept the note")
+    } finally {
+      api.stop()
+    }
+    const viaApi = await auditLog.recent({ limit: 10, actor: "api:http" })
+    assert(viaApi.length === 1 && viaApi[0]?.action === "remember" && viaApi[0].detail === "deploys happen on Fridays", `http api /remember should be audited, got: ${JSON.stringify(viaApi)}`)
+    console.log("[audit-e2e] http api /remember is recorded ok")
+    console.log("[audit-e2e] PASS")
+  } finally {
+    adapter.stop()
+    await running
+    await rm(dataDir, { recursive: true, force: true })
+  }
+}
+
+void main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("[audit-e2e] FAIL", error instanceof Error ? error.message : String(error))
+    process.exit(1)
+  })
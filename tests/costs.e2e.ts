@@ -0,0 +1,262 @@
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import pino from "pino"
+import { startChannel } from "../src/channels/router"
+import type { ChannelAdapter, ChannelHandlers, ChannelPrompt } from "../src/channels/types"
+import { AssistantCore } from "../src/core/assistant"
+import { AuditLog } from "../src/core/audit-log"
+import { BudgetExceededError, CostStore, type BudgetState } from "../src/core/cost-store"
+import { IdentityStore } from "../src/core/identity-store"
+import { InviteStore } from "../src/core/invite-store"
+import { PairAttemptStore } from "../src/core/pair-attempt-store"
+import { PendingInteractionStore } from "../src/core/pending-interaction-store"
+import { SessionStore } from "../src/core/session-store"
+import { WhitelistStore } from "../src/core/whitelist-store"
+import { MemoryStore } from "../src/memory/store"
+
+type FakeMessage = {
+  info: {
+    id: string
+    role: string
+    time: { created: number; completed?: number }
+    cost?: number
+    tokens?: { input: number; output: number; reasoning: number; cache: { read: number; write: number } }
+  }
+  parts: Array<{ type: string; text: string }>
+}
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message)
+}
+
+async function waitFor(label: string, check: () => boolean, timeoutMs = 5_000): Promise<void> {
+  const endAt = Date.now() + timeoutMs
+  while (Date.now() < endAt) {
+    if (check()) return
+    await new Promise((r) => setTimeout(r, 20))
+  }
+  throw new Error(`Timed out waiting for ${label}`)
+}
+
+class FakeAdapter implements ChannelAdapter {
+  readonly name = "telegram" as const
+  readonly displayName = "Telegram"
+  readonly maxMessageLength = 4000
+  readonly sent: string[] = []
+  handlers?: ChannelHandlers
+  private resolveStopped?: () => void
+
+  async start(handlers: ChannelHandlers): Promise<void> {
+    this.handlers = handlers
+    await new Promise<void>((resolve) => {
+      this.resolveStopped = resolve
+    })
+  }
+
+  stop(): void {
+    this.resolveStopped?.()
+  }
+
+  async sendText(_chatID: string, text: string): Promise<void> {
+    this.sent.push(text)
+  }
+
+  async sendFile(): Promise<void> {}
+
+  async sendPrompt(_chatID: string, prompt: ChannelPrompt): Promise<void> {
+    this.sent.push(prompt.text)
+  }
+
+  lastText(): string {
+    return this.sent.at(-1) ?? ""
+  }
+
+  async command(userID: string, name: string, args = ""): Promise<void> {
+    await this.handlers?.onCommand({ chatID: userID, userID, name, args })
+  }
+
+  async say(userID: string, text: string): Promise<string> {
+    const before = this.sent.length
+    await this.handlers?.onMessage({ chatID: userID, userID, text })
+    await waitFor(`reply to ${text}`, () => this.sent.length > before)
+    return this.lastText()
+  }
+}
+
+async function main() {
+  const dataDir = await mkdtemp(join(tmpdir(), "monclaw-costs-e2e-"))
+  const messages = new Map<string, FakeMessage[]>()
+  let nextSession = 1
+  let nextMessage = 1
+  // Cost of each assistant message the next prompt produces; a multi-step turn has several.
+  let turnCosts: number[] = [0.25]
+
+  const assistantMessage = (cost: number, text: string): FakeMessage => {
+    const now = Date.now()
+    return {
+      info: {
+        id: `msg_${nextMessage++}`,
+        role: "assistant",
+        time: { created: now, completed: now },
+        cost,
+        tokens: { input: 1000, output: 200, reasoning: 0, cache: { read: 500, write: 0 } },
+      },
+      parts: [{ type: "text", text }],
+    }
+  }
+
+  // OpenCode stand-in: prompts answer at once and leave priced assistant messages in the session.
+  const opencode = Bun.serve({
+    hostname: "127.0.0.1",
+    port: 0,
+    idleTimeout: 0,
+    async fetch(req: Request) {
+      const path = new URL(req.url).pathname
+      if (path === "/event") {
+        const body = new ReadableStream<Uint8Array>({
+          start(controller) {
+            controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify({ type: "server.connected", properties: {} })}\n\n`))
+          },
+        })
+        return new Response(body, { headers: { "Content-Type": "text/event-stream" } })
+      }
+      if (path === "/session" && req.method === "POST") {
+        const id = `ses_${nextSession++}`
+        messages.set(id, [])
+        return Response.json({ id, title: "chat", time: { created: Date.now(), updated: Date.now() } })
+      }
+      const match = path.match(/^\/session\/([^/]+)\/message$/)
+      if (match) {
+        const list = messages.get(match[1] ?? "") ?? []
+        if (req.method === "GET") return Response.json(list)
+        const body = (await req.json()) as { noReply?: boolean; parts?: Array<{ text?: string }> }
+        list.push({ info: { id: `msg_${nextMessage++}`, role: "user", time: { created: Date.now() } }, parts: [{ type: "text", text: body.parts?.[0]?.text ?? "" }] })
+        if (body.noReply) return Response.json({})
+        const replies = turnCosts.map((cost, index) => assistantMessage(cost, `step ${index + 1}`))
+        list.push(...replies)
+        const last = replies.at(-1)
+        return Response.json({ info: last?.info, parts: last?.parts ?? [] })
+      }
+      return Response.json([])
+    },
+  })
+
+  const costsFile = join(dataDir, "costs.json")
+  const costs = new CostStore({ monthlyUSD: 2, warnPercent: 50 }, costsFile)
+  await costs.init()
+  const alerts: BudgetState[] = []
+  const heartbeatFile = join(dataDir, "heartbeat.md")
+  await Bun.write(heartbeatFile, "- check the backups\n")
+  const assistant = new AssistantCore(pino({ level: "silent" }), new MemoryStore(join(dataDir, "workspace")), new SessionStore(join(dataDir, "sessions.json")), {
+    serverUrl: `http://127.0.0.1:${opencode.port}`,
+    heartbeatFile,
+    heartbeatIntervalMinutes: 30,
+    inboxDir: join(dataDir, "inbox"),
+    inboxRetentionDays: 7,
+    replyTimeoutMinutes: 1,
+    costs,
+    onBudgetAlert: (state) => {
+      alerts.push(state)
+    },
+  })
+
+  const whitelist = new WhitelistStore(join(dataDir, "whitelist.json"))
+  const identities = new IdentityStore(join(dataDir, "identities.json"))
+  const pairAttempts = new PairAttemptStore(join(dataDir, "pair-attempts.json"))
+  const pendingInteractions = new PendingInteractionStore(join(dataDir, "pending-interactions.json"))
+  const auditLog = new AuditLog(join(dataDir, "audit.jsonl"))
+  await whitelist.init()
+  await identities.init()
+  await pairAttempts.init()
+  await pendingInteractions.init()
+  await auditLog.init()
+  await whitelist.add("telegram", "1", "admin")
+  await whitelist.add("telegram", "2", "member")
+
+  const adapter = new FakeAdapter()
+  let running: Promise<void> | undefined
+
+  try {
+    await assistant.init()
+    const today = new Date().toISOString().slice(0, 10)
+    const month = today.slice(0, 7)
+
+    assert((await assistant.ask({ channel: "api", userID: "alice", text: "hello" })) === "step 1", "the reply should come back as usual")
+    turnCosts = [0.25, 0.5]
+    await assistant.ask({ channel: "api", userID: "alice", text: "plan my week" })
+    const alice = costs.user(month, ["api:alice"])
+    assert(alice.messages === 3 && Math.abs(alice.cost - 1) < 1e-9 && alice.input === 3000 && alice.cacheRead === 1500, `every step of a turn should be charged once, got: ${JSON.stringify(alice)}`)
+    const mainSession = await assistant.getMainSessionID()
+    assert(costs.session(mainSession)?.messages === 3 && costs.day(today).messages === 3, "session and day totals should match")
+    assert(alerts.join(",") === "warn", `crossing the warning threshold should alert once, got: ${alerts}`)
+    console.log("[costs-e2e] ask usage per user, session and day ok")
+
+    // Heartbeat: the task run in its own session plus the "should I tell the user?" follow-up.
+    turnCosts = [0.25]
+    const heartbeat = await assistant.runHeartbeatTasks()
+    assert(heartbeat.startsWith("Heartbeat completed"), `heartbeat should run, got: ${heartbeat}`)
+    const system = costs.user(month, ["system:heartbeat"])
+    assert(system.messages === 2 && Math.abs(system.cost - 0.5) < 1e-9, `heartbeat turns should be booked separately, got: ${JSON.stringify(system)}`)
+    console.log("[costs-e2e] heartbeat usage ok")
+
+    turnCosts = [0.75]
+    await assistant.ask({ channel: "api", userID: "bob", text: "one more" })
+    assert(costs.budgetStatus().state === "over" && alerts.join(",") === "warn,over", `passing the budget should alert, got: ${alerts}`)
+    const blocked = await assistant.ask({ channel: "api", userID: "bob", text: "and another" }).then(
+      () => null,
+      (error: unknown) => error,
+    )
+    assert(blocked instanceof BudgetExceededError && blocked.message.includes("$2.25 of $2.00"), "prompts should be refused over budget")
+    assert((await assistant.runHeartbeatTasks()).startsWith("Heartbeat skipped: This month's model budget is used up"), "heartbeats should pause over budget")
+
+    const reloaded = new CostStore({ monthlyUSD: 2, warnPercent: 50 }, costsFile)
+    await reloaded.init()
+    assert(Math.abs(reloaded.month(month).cost - 2.25) < 1e-9, "totals should survive a restart")
+    const again = await reloaded.record({ source: "api:bob", sessionID: "ses_x", usage: { cost: 0.1, input: 1, output: 1, reasoning: 0, cacheRead: 0, cacheWrite: 0, messages: 1 } })
+    assert(!again.crossed, "a budget alert should not repeat after a restart")
+    console.log("[costs-e2e] monthly budget warns then blocks ok")
+
+    running = startChannel(adapter, {
+      logger: pino({ level: "silent" }),
+      assistant,
+      whitelist,
+      identities,
+      pairAttempts,
+      pendingInteractions,
+      auditLog,
+      invites: new InviteStore(join(dataDir, "invites.json")),
+      inviteTtlMinutes: 60,
+      pairMaxAttempts: 3,
+      pairLockMinutes: 15,
+      linkCodeTtlMinutes: 10,
+      costs,
+      inboxDir: join(dataDir, "inbox"),
+      inboxRetentionDays: 7,
+    })
+    await waitFor("adapter", () => Boolean(adapter.handlers))
+
+    const refusal = await adapter.say("2", "are you there?")
+    assert(refusal.startsWith("MonClaw has used this month's model budget ($2.25 of $2.00)"), `chat prompts should be refused with a reason, got: ${refusal}`)
+    await adapter.command("2", "cost")
+    const report = adapter.lastText().split("\n")
+    assert(report[2] === "This month: $2.25, 6 replies, 10.2k tokens of $2.00 budget (112%)", `/cost should show the month against the budget, got: ${report[2]}`)
+    assert(report[3] === "You this month: $0.00, 0 replies, 0 tokens" && !adapter.lastText().includes("Top this month"), "members should only see their own share")
+    await adapter.command("1", "cost")
+    assert(adapter.lastText().includes("Top this month:\n- api:alice: $1.00, 3 replies, 5.1k tokens"), `admins should see the biggest spenders, got: ${adapter.lastText()}`)
+    console.log("[costs-e2e] /cost and chat refusal ok")
+    console.log("[costs-e2e] PASS")
+  } finally {
+    adapter.stop()
+    await running
+    opencode.stop(true)
+    await rm(dataDir, { recursive: true, force: true })
+  }
+}
+
+void main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("[costs-e2e] FAIL", error instanceof Error ? error.message : String(error))
+    process.exit(1)
+  })
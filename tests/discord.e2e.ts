@@ -0,0 +1,171 @@
+import pino from "pino"
+import { DiscordAdapter } from "../src/channels/discord"
+import type { IncomingAction, IncomingCommand, IncomingMessage } from "../src/channels/types"
+
+type RestCall = {
+  method: string
+  path: string
+  body: unknown
+}
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message)
+}
+
+async function waitFor(label: string, check: () => boolean, timeoutMs = 5_000): Promise<void> {
+  const endAt = Date.now() + timeoutMs
+  while (Date.now() < endAt) {
+    if (check()) return
+    await new Promise((r) => setTimeout(r, 20))
+  }
+  throw new Error(`Timed out waiting for ${label}`)
+}
+
+async function main() {
+  const restCalls: RestCall[] = []
+  const gatewayFrames: Array<Record<string, unknown>> = []
+  let sequence = 0
+  let gatewaySocket: { send: (data: string) => void } | null = null
+
+  const dispatch = (t: string, d: unknown) => {
+    sequence += 1
+    gatewaySocket?.send(JSON.stringify({ op: 0, s: sequence, t, d }))
+  }
+
+  // Fake Discord: REST API under /api and a Gateway WebSocket under /gateway.
+  const server = Bun.serve({
+    hostname: "127.0.0.1",
+    port: 0,
+    async fetch(req: Request, srv: { upgrade: (req: Request) => boolean }) {
+      const url = new URL(req.url)
+      if (url.pathname === "/gateway") {
+        if (srv.upgrade(req)) return undefined
+        return new Response("upgrade failed", { status: 400 })
+      }
+      if (url.pathname === "/cdn/voice.ogg") {
+        return new Response(new Uint8Array([1, 2, 3]))
+      }
+
+      const path = url.pathname.replace(/^\/api/, "")
+      const raw = await req.text()
+      restCalls.push({ method: req.method, path, body: raw ? JSON.parse(raw) : undefined })
+
+      if (path === "/gateway/bot") return Response.json({ url: `ws://127.0.0.1:${server.port}/gateway` })
+      if (path === "/users/@me/channels") return Response.json({ id: "dm-1" })
+      if (path.endsWith("/callback")) return new Response(null, { status: 204 })
+      return Response.json({ id: `msg-${restCalls.length}` })
+    },
+    websocket: {
+      open(ws: { send: (data: string) => void }) {
+        gatewaySocket = ws
+        ws.send(JSON.stringify({ op: 10, d: { heartbeat_interval: 45_000 } }))
+      },
+      message(_ws: unknown, data: string) {
+        const frame = JSON.parse(String(data)) as Record<string, unknown>
+        gatewayFrames.push(frame)
+        if (frame.op === 2) {
+          dispatch("READY", { user: { id: "bot-1" }, application: { id: "app-1" } })
+        }
+      },
+    },
+  })
+
+  const adapter = new DiscordAdapter({
+    token: "fake-token",
+    apiUrl: `http://127.0.0.1:${server.port}/api`,
+    logger: pino({ level: "silent" }),
+  })
+
+  const commands: IncomingCommand[] = []
+  const messages: IncomingMessage[] = []
+  const actions: IncomingAction[] = []
+
+  const running = adapter.start({
+    commands: [{ name: "pair", description: "Pair your chat account" }],
+    onCommand: async (command) => {
+      commands.push(command)
+    },
+    onMessage: async (message) => {
+      messages.push(message)
+    },
+    onAction: async (action) => {
+      actions.push(action)
+      await action.acknowledge("Approved.")
+      await action.clearButtons()
+    },
+  })
+
+  try {
+    await waitFor("identify", () => gatewayFrames.some((frame) => frame.op === 2))
+    await waitFor("command registration", () => restCalls.some((call) => call.path === "/applications/app-1/commands"))
+    console.log("[discord-e2e] gateway identify + command registration ok")
+
+    dispatch("MESSAGE_CREATE", { id: "m1", channel_id: "c1", author: { id: "bot-1", bot: true }, content: "echo" })
+    dispatch("MESSAGE_CREATE", { id: "m2", channel_id: "c1", author: { id: "u1" }, content: "hello there" })
+    dispatch("MESSAGE_CREATE", {
+      id: "m3",
+      channel_id: "c1",
+      author: { id: "u1" },
+      content: "",
+      flags: 1 << 13,
+      attachments: [{ id: "a1", filename: "voice.ogg", content_type: "audio/ogg", url: `http://127.0.0.1:${server.port}/cdn/voice.ogg` }],
+    })
+    dispatch("INTERACTION_CREATE", {
+      id: "i1",
+      token: "tok-1",
+      type: 2,
+      application_id: "app-1",
+      channel_id: "c1",
+      member: { user: { id: "u1" } },
+      data: { name: "pair", options: [{ name: "args", value: "secret" }] },
+    })
+    dispatch("INTERACTION_CREATE", {
+      id: "i2",
+      token: "tok-2",
+      type: 3,
+      application_id: "app-1",
+      channel_id: "c1",
+      user: { id: "u1" },
+      message: { id: "prompt-1", channel_id: "c1" },
+      data: { custom_id: "apr:o:per_123" },
+    })
+
+    await waitFor("messages", () => messages.length === 2)
+    await waitFor("commands", () => commands.length === 1)
+    await waitFor("actions", () => actions.length === 1)
+
+    assert(messages[0]?.text === "hello there", "text message should be forwarded")
+    const voice = await messages[1]?.media?.fetch()
+    assert(messages[1]?.media?.kind === "voice" && voice?.data.length === 3, "voice attachment should be downloadable")
+    assert(commands[0]?.name === "pair" && commands[0]?.args === "secret", "slash command should carry args")
+    assert(actions[0]?.action === "apr:o:per_123" && actions[0]?.userID === "u1", "button press should map to action")
+    await waitFor("component ack", () => restCalls.some((call) => call.path === "/interactions/i2/tok-2/callback"))
+    await waitFor("buttons cleared", () => restCalls.some((call) => call.method === "PATCH" && call.path === "/channels/c1/messages/prompt-1"))
+    console.log("[discord-e2e] inbound messages, commands and button actions ok")
+
+    await adapter.sendPrompt("c1", {
+      text: "Permission: bash",
+      buttons: [[{ label: "Allow once", action: "apr:o:per_123" }], [{ label: "Reject", action: "apr:r:per_123" }]],
+    })
+    const promptCall = restCalls.findLast((call) => call.path === "/channels/c1/messages")
+    const components = (promptCall?.body as { components?: Array<{ components: Array<{ custom_id: string; style: number }> }> })?.components
+    assert(components?.length === 2, "prompt should render one action row per button row")
+    assert(components[1]?.components[0]?.style === 4, "reject button should use danger style")
+
+    const dmChannel = await adapter.openDirectChat("u1")
+    assert(dmChannel === "dm-1", "direct chat should resolve through /users/@me/channels")
+    console.log("[discord-e2e] outbound prompts and proactive DMs ok")
+    console.log("[discord-e2e] PASS")
+  } finally {
+    await adapter.stop()
+    await running
+    server.stop(true)
+  }
+}
+
+void main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("[discord-e2e] FAIL", error instanceof Error ? error.message : String(error))
+    process.exit(1)
+  })
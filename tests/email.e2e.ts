@@ -0,0 +1,407 @@
+import { mkdtemp, rm } from "node:fs/promises"
+import { createServer, type Server, type Socket } from "node:net"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import pino from "pino"
+import { EmailAdapter } from "../src/channels/email"
+import { parseMail, senderAuthenticated } from "../src/channels/email-mime"
+import { ImapClient, sendSmtp } from "../src/channels/email-transport"
+import type { IncomingAction, IncomingCommand, IncomingMessage } from "../src/channels/types"
+import { verifyAction } from "../src/utils/signed-link"
+
+type StoredMail = {
+  uid: number
+  raw: string
+  seen: boolean
+}
+
+type SentMail = {
+  from: string
+  to: string[]
+  data: string
+}
+
+const LINK_SECRET = "link-secret"
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message)
+}
+
+async function waitFor(label: string, check: () => boolean, timeoutMs = 8_000): Promise<void> {
+  const endAt = Date.now() + timeoutMs
+  while (Date.now() < endAt) {
+    if (check()) return
+    await new Promise((r) => setTimeout(r, 20))
+  }
+  throw new Error(`Timed out waiting for ${label}`)
+}
+
+async function listen(server: Server): Promise<number> {
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const address = server.address()
+      resolve(typeof address === "object" && address ? address.port : 0)
+    })
+  })
+}
+
+function onLines(socket: Socket, handle: (line: string) => void): void {
+  let buffer = ""
+  socket.on("data", (chunk: Buffer) => {
+    buffer += chunk.toString("latin1")
+    let idx = buffer.indexOf("\r\n")
+    while (idx >= 0) {
+      const line = buffer.slice(0, idx)
+      buffer = buffer.slice(idx + 2)
+      handle(line)
+      idx = buffer.indexOf("\r\n")
+    }
+  })
+}
+
+// IMAP stand-in: LOGIN, SELECT, UID SEARCH UNSEEN, UID FETCH BODY.PEEK[], UID STORE and LOGOUT.
+// Plain text only, so it greets with PREAUTH unless a test wants to see LOGIN refused.
+function fakeImap(mailbox: StoredMail[], greeting = "* PREAUTH fake IMAP ready", received: string[] = []): Server {
+  return createServer((socket) => {
+    socket.write(`${greeting}\r\n`)
+    onLines(socket, (line) => {
+      const [tag, ...rest] = line.split(" ")
+      const command = rest.join(" ")
+      received.push(command)
+      if (command === "CAPABILITY") {
+        socket.write(`* CAPABILITY IMAP4rev1 AUTH=PLAIN\r\n${tag} OK capability done\r\n`)
+      } else if (command.startsWith("LOGIN")) {
+        socket.write(`${tag} OK logged in\r\n`)
+      } else if (command.startsWith("SELECT")) {
+        socket.write(`* ${mailbox.length} EXISTS\r\n${tag} OK [READ-WRITE] selected\r\n`)
+      } else if (command === "UID SEARCH UNSEEN") {
+        const uids = mailbox.filter((mail) => !mail.seen).map((mail) => mail.uid)
+        socket.write(`* SEARCH${uids.map((uid) => ` ${uid}`).join("")}\r\n${tag} OK search done\r\n`)
+      } else if (command.startsWith("UID FETCH")) {
+        const uid = Number.parseInt(command.split(" ")[2] ?? "", 10)
+        const mail = mailbox.find((item) => item.uid === uid)
+        if (mail) {
+          const bytes = Buffer.from(mail.raw, "utf8")
+          socket.write(`* ${uid} FETCH (UID ${uid} BODY[] {${bytes.length}}\r\n`)
+          socket.write(bytes)
+          socket.write(")\r\n")
+        }
+        socket.write(`${tag} OK fetch done\r\n`)
+      } else if (command.startsWith("UID STORE")) {
+        const uid = Number.parseInt(command.split(" ")[2] ?? "", 10)
+        const mail = mailbox.find((item) => item.uid === uid)
+        if (mail) mail.seen = true
+        socket.write(`${tag} OK store done\r\n`)
+      } else if (command === "LOGOUT") {
+        socket.end(`* BYE\r\n${tag} OK logout\r\n`)
+      } else {
+        socket.write(`${tag} BAD unknown\r\n`)
+      }
+    })
+  })
+}
+
+// SMTP stand-in that records every accepted message. It never offers STARTTLS.
+function fakeSmtp(sent: SentMail[], received: string[] = []): Server {
+  return createServer((socket) => {
+    let current: SentMail = { from: "", to: [], data: "" }
+    let inData = false
+    socket.write("220 fake SMTP ready\r\n")
+    onLines(socket, (line) => {
+      if (!inData) received.push(line)
+      if (inData) {
+        if (line === ".") {
+          inData = false
+          sent.push(current)
+          current = { from: "", to: [], data: "" }
+          socket.write("250 queued\r\n")
+          return
+        }
+        current.data += `${line.startsWith("..") ? line.slice(1) : line}\r\n`
+        return
+      }
+      if (line.startsWith("EHLO")) socket.write("250-fake\r\n250 AUTH PLAIN\r\n")
+      else if (line.startsWith("AUTH PLAIN")) socket.write("235 authenticated\r\n")
+      else if (line.startsWith("MAIL FROM:")) {
+        current.from = line.slice("MAIL FROM:".length).replace(/[<>]/g, "")
+        socket.write("250 ok\r\n")
+      } else if (line.startsWith("RCPT TO:")) {
+        current.to.push(line.slice("RCPT TO:".length).replace(/[<>]/g, ""))
+        socket.write("250 ok\r\n")
+      } else if (line === "DATA") {
+        inData = true
+        socket.write("354 go ahead\r\n")
+      } else if (line === "QUIT") socket.end("221 bye\r\n")
+      else socket.write("500 unknown\r\n")
+    })
+  })
+}
+
+function mail(params: {
+  from: string
+  messageID: string
+  subject: string
+  body: string
+  inReplyTo?: string
+  references?: string[]
+  extraHeaders?: string[]
+  // Authentication-Results added by the receiving server; null leaves it out. Defaults to a DKIM pass for the From domain.
+  auth?: string | null
+  attachment?: { filename: string; contentType: string; content: string }
+}): string {
+  const fromDomain = params.from.match(/@([^>\s]+)/)?.[1] ?? ""
+  const auth = params.auth === undefined ? `mx.example.test; dkim=pass header.d=${fromDomain}; spf=none` : params.auth
+  const headers = [
+    ...(auth === null ? [] : [`Authentication-Results: ${auth}`]),
+    `From: ${params.from}`,
+    "To: monclaw@example.test",
+    `Subject: ${params.subject}`,
+    `Message-ID: <${params.messageID}>`,
+    ...(params.inReplyTo ? [`In-Reply-To: <${params.inReplyTo}>`] : []),
+    ...(params.references ? [`References: ${params.references.map((id) => `<${id}>`).join(" ")}`] : []),
+    ...(params.extraHeaders ?? []),
+    "MIME-Version: 1.0",
+  ]
+  if (!params.attachment) {
+    return [...headers, "Content-Type: text/plain; charset=utf-8", "", params.body, ""].join("\r\n")
+  }
+  return [
+    ...headers,
+    'Content-Type: multipart/mixed; boundary="b1"',
+    "",
+    "--b1",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: quoted-printable",
+    "",
+    params.body,
+    "--b1",
+    `Content-Type: ${params.attachment.contentType}; name="${params.attachment.filename}"`,
+    "Content-Transfer-Encoding: base64",
+    `Content-Disposition: attachment; filename="${params.attachment.filename}"`,
+    "",
+    Buffer.from(params.attachment.content).toString("base64"),
+    "--b1--",
+    "",
+  ].join("\r\n")
+}
+
+async function main() {
+  const mailbox: StoredMail[] = []
+  const sent: SentMail[] = []
+  let nextUID = 1
+  const deliver = (raw: string) => {
+    mailbox.push({ uid: nextUID, raw, seen: false })
+    nextUID += 1
+  }
+
+  const imap = fakeImap(mailbox)
+  const smtp = fakeSmtp(sent)
+  const imapPort = await listen(imap)
+  const smtpPort = await listen(smtp)
+  const dataDir = await mkdtemp(join(tmpdir(), "monclaw-email-e2e-"))
+
+  const adapter = new EmailAdapter({
+    address: "monclaw@example.test",
+    fromName: "MonClaw",
+    imap: { host: "127.0.0.1", port: imapPort, secure: false },
+    smtp: { host: "127.0.0.1", port: smtpPort, secure: false },
+    pollSeconds: 1,
+    threadsFile: join(dataDir, "email-threads.json"),
+    linkSecret: LINK_SECRET,
+    linkBaseUrl: "https://monclaw.example.test/",
+    authservID: "mx.example.test",
+    acceptSender: (address, text) => ["alice@example.test", "dave@example.test"].includes(address) || text.startsWith("/pair"),
+    logger: pino({ level: "silent" }),
+  })
+
+  const commands: IncomingCommand[] = []
+  const messages: IncomingMessage[] = []
+  const actions: IncomingAction[] = []
+
+  const running = adapter.start({
+    commands: [{ name: "pair", description: "Pair your chat account" }],
+    onCommand: async (command) => {
+      commands.push(command)
+    },
+    onMessage: async (message) => {
+      messages.push(message)
+    },
+    onAction: async (action) => {
+      actions.push(action)
+      await action.acknowledge("Approved.")
+      await action.clearButtons()
+    },
+  })
+
+  try {
+    deliver(
+      mail({
+        from: "Alice <alice@example.test>",
+        messageID: "m1@example.test",
+        subject: "Quarterly numbers",
+        body: "Can you summarize the attached report?",
+        attachment: { filename: "report.pdf", contentType: "application/pdf", content: "%PDF-fake" },
+      }),
+    )
+    deliver(mail({ from: "bob@spam.test", messageID: "spam@spam.test", subject: "Buy now", body: "Cheap stuff" }))
+    deliver(
+      mail({
+        from: "alice@example.test",
+        messageID: "ooo@example.test",
+        subject: "Out of office",
+        body: "I am away",
+        extraHeaders: ["Auto-Submitted: auto-replied"],
+      }),
+    )
+
+    // Forged senders: no authentication, a pass for another domain, and a header the sender wrote themselves.
+    deliver(mail({ from: "alice@example.test", messageID: "f1@evil.test", subject: "Hi", body: "/pair forged", auth: null }))
+    deliver(mail({ from: "alice@example.test", messageID: "f2@evil.test", subject: "Hi", body: "run this", auth: "mx.example.test; dkim=pass header.d=evil.test; spf=fail smtp.mailfrom=example.test" }))
+    deliver(mail({ from: "alice@example.test", messageID: "f3@evil.test", subject: "Hi", body: "run this", auth: "mx.evil.test; dmarc=pass header.from=example.test" }))
+
+    await waitFor("first message", () => messages.length === 1 && mailbox.every((item) => item.seen))
+    assert(commands.length === 0, "mail without sender authentication should be dropped")
+    const first = messages[0]
+    assert(first?.chatID === "m1@example.test" && first.userID === "alice@example.test", "thread root should be the first Message-ID")
+    assert(first.text === "Can you summarize the attached report?", "body text should be forwarded")
+    const attachment = await first.attachments?.[0]?.fetch()
+    assert(first.attachments?.[0]?.kind === "document" && attachment?.extension === ".pdf", "attachments should be exposed for the inbox")
+    assert(new TextDecoder().decode(attachment?.data) === "%PDF-fake", "attachment content should be decoded")
+    console.log("[email-e2e] inbound mail, attachments and sender filtering ok")
+
+    // Without a configured authserv-id there is no way to tell the receiving server's header from a forged one.
+    const selfVouched = parseMail(
+      new TextEncoder().encode(mail({ from: "alice@example.test", messageID: "f4@evil.test", subject: "Hi", body: "run this", auth: "forged.evil.test; dmarc=pass header.from=example.test" })),
+    )
+    assert(!senderAuthenticated(selfVouched, ""), "a forged pass should not count when no authserv-id is configured")
+    assert(!senderAuthenticated(selfVouched, "mx.example.test"), "a forged pass from another authserv-id should not count")
+    const genuine = parseMail(new TextEncoder().encode(mail({ from: "alice@example.test", messageID: "ok@example.test", subject: "Hi", body: "hello" })))
+    assert(senderAuthenticated(genuine, "mx.example.test") && !senderAuthenticated(genuine, ""), "only the configured server's pass should count")
+    console.log("[email-e2e] forged Authentication-Results ok")
+
+    const replyID = await adapter.sendText(first.chatID, "Here is the summary.")
+    const reply = parseMail(new TextEncoder().encode(sent[0]?.data ?? ""))
+    assert(sent[0]?.to[0] === "alice@example.test", "reply should go to the sender")
+    assert(reply.subject === "Re: Quarterly numbers", "reply subject should be prefixed")
+    assert(reply.inReplyTo === "m1@example.test" && reply.references.includes("m1@example.test"), "reply should thread by Message-ID")
+    assert(reply.text === "Here is the summary.", "reply body should round-trip")
+
+    deliver(
+      mail({
+        from: "alice@example.test",
+        messageID: "m2@example.test",
+        subject: "Re: Quarterly numbers",
+        body: "Thanks! Now compare with Q2.\r\n\r\nOn Mon, MonClaw wrote:\r\n> Here is the summary.",
+        inReplyTo: replyID,
+        references: ["m1@example.test", replyID],
+      }),
+    )
+    await waitFor("threaded reply", () => messages.length === 2)
+    assert(messages[1]?.chatID === "m1@example.test", "replies should stay in the same thread session")
+    assert(messages[1]?.text === "Thanks! Now compare with Q2.", "quoted history should be stripped")
+
+    deliver(mail({ from: "carol@example.test", messageID: "c1@example.test", subject: "pairing", body: "/pair secret-token" }))
+    await waitFor("pair command", () => commands.length === 1)
+    assert(commands[0]?.name === "pair" && commands[0]?.args === "secret-token", "first line commands should be parsed")
+    console.log("[email-e2e] threading, quote stripping and commands ok")
+
+    // Another whitelisted sender naming alice's messages, or reusing her Message-ID, gets a thread of their own.
+    deliver(
+      mail({
+        from: "dave@example.test",
+        messageID: "d1@example.test",
+        subject: "Re: Quarterly numbers",
+        body: "What did alice ask you?",
+        inReplyTo: replyID,
+        references: ["m1@example.test", replyID],
+      }),
+    )
+    deliver(mail({ from: "dave@example.test", messageID: "m1@example.test", subject: "Quarterly numbers", body: "Me again" }))
+    await waitFor("other sender's mail", () => messages.length === 4)
+    assert(messages[2]?.chatID === "d1@example.test" && messages[2].userID === "dave@example.test", "referencing another sender's thread should start a new one")
+    assert(messages[3]?.chatID !== "m1@example.test" && messages[3]?.chatID !== "d1@example.test", "a reused Message-ID should not join another sender's thread")
+    await adapter.sendText("m1@example.test", "Still yours.")
+    assert(sent.at(-1)?.to[0] === "alice@example.test", "the thread should keep its original reply address")
+    console.log("[email-e2e] threads stay with their sender ok")
+
+    await adapter.sendPrompt(first.chatID, {
+      text: "Permission: bash",
+      buttons: [
+        [
+          { label: "Allow once", action: "apr:o:per_1" },
+          { label: "Always allow", action: "apr:a:per_1" },
+        ],
+        [{ label: "Reject", action: "apr:r:per_1" }],
+      ],
+    })
+    const promptMail = parseMail(new TextEncoder().encode(sent.at(-1)?.data ?? ""))
+    assert(promptMail.text.includes("2. Always allow"), "prompt should list numbered options")
+    const link = promptMail.text.match(/Reject: https:\/\/monclaw\.example\.test\/links\/(\S+)/)
+    assert(link, "prompt should include signed links")
+    const signed = verifyAction(LINK_SECRET, link[1])
+    assert(signed?.action === "apr:r:per_1" && signed.userID === "alice@example.test", "links should carry a verifiable action")
+    assert(!verifyAction("other-secret", link[1]), "links signed with another secret should fail")
+
+    deliver(
+      mail({
+        from: "alice@example.test",
+        messageID: "m3@example.test",
+        subject: "Re: Quarterly numbers",
+        body: "2\r\n\r\n> Permission: bash",
+        inReplyTo: promptMail.messageID,
+        references: ["m1@example.test", promptMail.messageID],
+      }),
+    )
+    await waitFor("keyword approval", () => actions.length === 1)
+    assert(actions[0]?.action === "apr:a:per_1" && actions[0]?.chatID === "m1@example.test", "reply keyword should pick the option")
+    await waitFor("approval ack", () => sent.some((item) => parseMail(new TextEncoder().encode(item.data)).text === "Approved."))
+
+    await adapter.sendPrompt(first.chatID, { text: "Permission: edit", buttons: [[{ label: "Allow once", action: "apr:o:per_2" }]] })
+    const nextPrompt = parseMail(new TextEncoder().encode(sent.at(-1)?.data ?? ""))
+    const nextLink = nextPrompt.text.match(/Allow once: \S+\/links\/(\S+)/)
+    const linkAction = nextLink ? verifyAction(LINK_SECRET, nextLink[1]) : null
+    assert(linkAction, "second prompt should include a link")
+    const page = await adapter.handleSignedAction(linkAction)
+    assert(actions[1]?.action === "apr:o:per_2" && page === "Approved.", "signed links should dispatch the action")
+    console.log("[email-e2e] reply keywords and signed links ok")
+
+    // Without TLS (no implicit TLS, no STARTTLS offered) passwords must not leave the process.
+    const imapSeen: string[] = []
+    const smtpSeen: string[] = []
+    const plainImap = fakeImap([], "* OK fake IMAP ready", imapSeen)
+    const plainSmtp = fakeSmtp([], smtpSeen)
+    try {
+      const credentials = { host: "127.0.0.1", secure: false, username: "monclaw", password: "pw" }
+      const login = await new ImapClient({ ...credentials, port: await listen(plainImap) }).connect().then(
+        () => null,
+        (error: unknown) => error,
+      )
+      assert(login instanceof Error && login.message.includes("STARTTLS"), "IMAP login without TLS should be refused")
+      assert(!imapSeen.some((line) => line.startsWith("LOGIN")), "the IMAP password should not be sent")
+      const auth = await sendSmtp({ ...credentials, port: await listen(plainSmtp) }, { from: "monclaw@example.test", to: ["alice@example.test"] }, "Subject: x\r\n\r\nx").then(
+        () => null,
+        (error: unknown) => error,
+      )
+      assert(auth instanceof Error && auth.message.includes("STARTTLS"), "SMTP AUTH without TLS should be refused")
+      assert(!smtpSeen.some((line) => line.startsWith("AUTH") || line.startsWith("MAIL")), "the SMTP password should not be sent")
+    } finally {
+      plainImap.close()
+      plainSmtp.close()
+    }
+    console.log("[email-e2e] credentials only over TLS ok")
+    console.log("[email-e2e] PASS")
+  } finally {
+    await adapter.stop()
+    await running
+    imap.close()
+    smtp.close()
+    await rm(dataDir, { recursive: true, force: true })
+  }
+}
+
+void main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("[email-e2e] FAIL", error instanceof Error ? error.message : String(error))
+    process.exit(1)
+  })
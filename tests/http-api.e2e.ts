@@ -0,0 +1,207 @@
+import pino from "pino"
+import { startHttpApi } from "../src/channels/http-api"
+import type { AssistantCore, AssistantTextDelta, PendingPermission, PendingQuestion } from "../src/core/assistant"
+
+type AskCall = {
+  channel: string
+  userID: string
+  text: string
+  sessionKey?: string
+}
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message)
+}
+
+async function waitFor(label: string, check: () => boolean, timeoutMs = 5_000): Promise<void> {
+  const endAt = Date.now() + timeoutMs
+  while (Date.now() < endAt) {
+    if (check()) return
+    await new Promise((r) => setTimeout(r, 20))
+  }
+  throw new Error(`Timed out waiting for ${label}`)
+}
+
+async function main() {
+  const asks: AskCall[] = []
+  const remembered: string[] = []
+  const permissionReplies: Array<{ id: string; reply: string; sessionID?: string }> = []
+  const questionReplies: Array<{ id: string; answers: string[][] }> = []
+  const permissionListeners = new Set<(item: PendingPermission) => void>()
+  const textDeltaListeners = new Set<(delta: AssistantTextDelta) => void>()
+  const emitText = (sessionID: string, partID: string, text: string) => {
+    for (const listener of textDeltaListeners) listener({ sessionID, messageID: "msg_1", partID, text })
+  }
+  // The streamed ask holds its answer until the test has seen the deltas, so they cannot be replayed afterwards.
+  let releaseStream = () => {}
+  const streamReleased = new Promise<void>((resolve) => {
+    releaseStream = resolve
+  })
+  // Finishes the answer whose client hung up mid-stream.
+  let releaseDropped = () => {}
+  const droppedReleased = new Promise<void>((resolve) => {
+    releaseDropped = resolve
+  })
+  let permissions: PendingPermission[] = [{ id: "per_1", sessionID: "ses_main", permission: "bash", patterns: ["ls"], always: [] }]
+  let questions: PendingQuestion[] = [
+    {
+      id: "que_1",
+      sessionID: "ses_main",
+      questions: [{ question: "Pick one", header: "Pick", options: [{ label: "A", description: "" }] }],
+    },
+  ]
+
+  // Stands in for AssistantCore so the API can be exercised without an OpenCode server.
+  const assistant = {
+    ask: async (input: AskCall) => {
+      asks.push(input)
+      if (input.sessionKey === "api:stream") {
+        for (const listener of permissionListeners) {
+          listener({ id: "per_2", sessionID: "ses_stream", permission: "edit", patterns: [], always: [] })
+        }
+        emitText("ses_stream", "prt_1", "Hel")
+        emitText("ses_other", "prt_9", "not this session")
+        emitText("ses_stream", "prt_1", "Hello")
+        emitText("ses_stream", "prt_1", "Hello")
+        emitText("ses_stream", "prt_2", "Done.")
+        await streamReleased
+        return "Hello\nDone."
+      }
+      if (input.sessionKey === "api:dropped") {
+        emitText("ses_other", "prt_d", "partial")
+        await droppedReleased
+        return "nobody is listening"
+      }
+      return `echo: ${input.text}`
+    },
+    getMainSessionID: async () => "ses_main",
+    getChatSessionID: async (key: string) => (key === "api:stream" ? "ses_stream" : "ses_other"),
+    listPendingPermissions: async () => permissions,
+    listPendingQuestions: async () => questions,
+    replyPermission: async (id: string, reply: string, _message?: string, sessionID?: string) => {
+      permissionReplies.push({ id, reply, sessionID })
+      permissions = permissions.filter((item) => item.id !== id)
+    },
+    replyQuestion: async (id: string, answers: string[][]) => {
+      questionReplies.push({ id, answers })
+      questions = questions.filter((item) => item.id !== id)
+    },
+    rejectQuestion: async () => {},
+    remember: async (note: string) => {
+      remembered.push(note)
+    },
+    onPermissionAsked: (listener: (item: PendingPermission) => void) => {
+      permissionListeners.add(listener)
+      return () => permissionListeners.delete(listener)
+    },
+    onQuestionAsked: () => () => {},
+    onTextDelta: (listener: (delta: AssistantTextDelta) => void) => {
+      textDeltaListeners.add(listener)
+      return () => textDeltaListeners.delete(listener)
+    },
+  } as unknown as AssistantCore
+
+  const api = startHttpApi({ token: "secret", hostname: "127.0.0.1", port: 0, assistant, logger: pino({ level: "silent" }) })
+  const base = `http://127.0.0.1:${api.port}`
+  const call = (path: string, init: RequestInit = {}, token = "secret") =>
+    fetch(`${base}${path}`, {
+      ...init,
+      headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json", ...(init.headers ?? {}) },
+    })
+
+  try {
+    assert((await call("/approvals", {}, "wrong")).status === 401, "wrong token should be rejected")
+    assert((await fetch(`${base}/approvals`)).status === 401, "missing token should be rejected")
+    assert((await call("/nope")).status === 404, "unknown routes should 404")
+    console.log("[http-api-e2e] bearer auth ok")
+
+    const askResponse = await call("/ask", { method: "POST", body: JSON.stringify({ text: "hello", userID: "ci" }) })
+    const askBody = (await askResponse.json()) as { answer?: string }
+    assert(askBody.answer === "echo: hello", "ask should return the assistant answer")
+    assert(asks[0]?.channel === "api" && asks[0]?.userID === "ci" && !asks[0]?.sessionKey, "ask should default to the main session")
+    const invalid = await call("/ask", { method: "POST", body: JSON.stringify({ text: "  " }) })
+    assert(invalid.status === 400, "empty ask should be rejected")
+    console.log("[http-api-e2e] ask ok")
+
+    const streamed = await call("/ask?stream=1", { method: "POST", body: JSON.stringify({ text: "long", session: "stream" }) })
+    assert(streamed.headers.get("content-type")?.includes("text/event-stream"), "stream should use SSE")
+    const reader = streamed.body!.getReader()
+    const decoder = new TextDecoder()
+    let raw = ""
+    while (!raw.includes('"partID":"prt_2"')) {
+      const { value, done } = await reader.read()
+      if (done) break
+      raw += decoder.decode(value, { stream: true })
+    }
+    assert(!raw.includes("event: done"), "deltas should arrive while the answer is still running")
+    releaseStream()
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) raw += decoder.decode(chunk.value, { stream: true })
+    const events = raw
+      .split("\n\n")
+      .filter((block) => block.startsWith("event: "))
+      .map((block) => {
+        const [head, data] = block.split("\n")
+        return { event: head?.slice("event: ".length), data: JSON.parse(data?.slice("data: ".length) ?? "null") as { text?: string } }
+      })
+    assert(events[0]?.event === "started" && events[1]?.event === "permission", "stream should announce start and session approvals")
+    const deltas = events.filter((item) => item.event === "delta").map((item) => item.data.text)
+    assert(deltas.join("|") === "Hel|lo|Done.", `deltas should carry only new text of this session, got: ${deltas.join("|")}`)
+    assert(events.at(-1)?.event === "done" && events.at(-1)?.data.text === "Hello\nDone.", "stream should end with the final answer")
+    assert(permissionListeners.size === 0 && textDeltaListeners.size === 0, "stream listeners should be released")
+    console.log("[http-api-e2e] SSE stream ok")
+
+    // index.ts shuts the daemon down on unhandled rejections, so a client hanging up must not cause one.
+    const rejections: unknown[] = []
+    const onRejection = (reason: unknown) => {
+      rejections.push(reason)
+    }
+    process.on("unhandledRejection", onRejection)
+    const abort = new AbortController()
+    const dropped = await call("/ask?stream=1", {
+      method: "POST",
+      body: JSON.stringify({ text: "slow", session: "dropped" }),
+      signal: abort.signal,
+    })
+    const droppedReader = dropped.body!.getReader()
+    let droppedRaw = ""
+    while (!droppedRaw.includes("event: delta")) {
+      const { value, done } = await droppedReader.read()
+      if (done) break
+      droppedRaw += decoder.decode(value, { stream: true })
+    }
+    abort.abort()
+    await waitFor("stream listeners released after disconnect", () => textDeltaListeners.size === 0)
+    releaseDropped()
+    await new Promise((r) => setTimeout(r, 100))
+    process.off("unhandledRejection", onRejection)
+    assert(rejections.length === 0, `a dropped stream should not raise unhandled rejections, got: ${String(rejections[0])}`)
+    const afterDrop = await call("/ask", { method: "POST", body: JSON.stringify({ text: "still there?" }) })
+    assert(afterDrop.status === 200, "the server should keep answering after a client drops a stream")
+    console.log("[http-api-e2e] dropped SSE client ok")
+
+    const listed = (await (await call("/approvals")).json()) as { permissions: unknown[]; questions: unknown[] }
+    assert(listed.permissions.length === 1 && listed.questions.length === 1, "approvals should list permissions and questions")
+    const badReply = await call("/approvals/per_1", { method: "POST", body: JSON.stringify({ reply: "maybe" }) })
+    assert(badReply.status === 400, "invalid permission reply should be rejected")
+    await call("/approvals/per_1", { method: "POST", body: JSON.stringify({ reply: "once" }) })
+    assert(permissionReplies[0]?.reply === "once" && permissionReplies[0]?.sessionID === "ses_main", "permission reply should be forwarded")
+    await call("/approvals/que_1", { method: "POST", body: JSON.stringify({ answers: ["A"] }) })
+    assert(questionReplies[0]?.answers[0]?.[0] === "A", "question answers should be forwarded")
+    assert((await call("/approvals/per_9", { method: "POST", body: "{}" })).status === 404, "unknown approvals should 404")
+    console.log("[http-api-e2e] approvals ok")
+
+    await call("/remember", { method: "POST", body: JSON.stringify({ text: "Prefers metric units" }) })
+    assert(remembered[0] === "Prefers metric units", "remember should append memory")
+    console.log("[http-api-e2e] remember ok")
+    console.log("[http-api-e2e] PASS")
+  } finally {
+    api.stop()
+  }
+}
+
+void main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("[http-api-e2e] FAIL", error instanceof Error ? error.message : String(error))
+    process.exit(1)
+  })
@@ -0,0 +1,186 @@
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import pino from "pino"
+import { startChannel } from "../src/channels/router"
+import type { ChannelAdapter, ChannelHandlers, ChannelName, ChannelPrompt } from "../src/channels/types"
+import type { AssistantCore } from "../src/core/assistant"
+import { AuditLog } from "../src/core/audit-log"
+import { IdentityStore } from "../src/core/identity-store"
+import { InviteStore } from "../src/core/invite-store"
+import { PairAttemptStore } from "../src/core/pair-attempt-store"
+import { PendingInteractionStore } from "../src/core/pending-interaction-store"
+import { WhitelistStore } from "../src/core/whitelist-store"
+
+type AskCall = {
+  channel: string
+  userID: string
+  text: string
+}
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message)
+}
+
+async function waitFor(label: string, check: () => boolean, timeoutMs = 5_000): Promise<void> {
+  const endAt = Date.now() + timeoutMs
+  while (Date.now() < endAt) {
+    if (check()) return
+    await new Promise((r) => setTimeout(r, 20))
+  }
+  throw new Error(`Timed out waiting for ${label}`)
+}
+
+// In-memory transport: records what the router sends and lets the test inject commands and messages.
+class FakeAdapter implements ChannelAdapter {
+  readonly displayName: string
+  readonly maxMessageLength = 4000
+  readonly sent: Array<{ chatID: string; text: string }> = []
+  handlers?: ChannelHandlers
+  private resolveStopped?: () => void
+
+  constructor(readonly name: ChannelName) {
+    this.displayName = name
+  }
+
+  async start(handlers: ChannelHandlers): Promise<void> {
+    this.handlers = handlers
+    await new Promise<void>((resolve) => {
+      this.resolveStopped = resolve
+    })
+  }
+
+  stop(): void {
+    this.resolveStopped?.()
+  }
+
+  async sendText(chatID: string, text: string): Promise<void> {
+    this.sent.push({ chatID, text })
+  }
+
+  async sendFile(): Promise<void> {}
+
+  async sendPrompt(chatID: string, prompt: ChannelPrompt): Promise<void> {
+    this.sent.push({ chatID, text: prompt.text })
+  }
+
+  lastText(): string {
+    return this.sent.at(-1)?.text ?? ""
+  }
+
+  async command(userID: string, name: string, args = ""): Promise<void> {
+    await this.handlers?.onCommand({ chatID: userID, userID, name, args })
+  }
+}
+
+async function main() {
+  const dataDir = await mkdtemp(join(tmpdir(), "monclaw-identity-e2e-"))
+  const asks: AskCall[] = []
+  const remembered: Array<{ note: string; source: string }> = []
+
+  // Stands in for AssistantCore so routing can be exercised without an OpenCode server.
+  const assistant = {
+    ask: async (input: AskCall) => {
+      asks.push(input)
+      return `echo: ${input.text}`
+    },
+    getMainSessionID: async () => "ses_main",
+    remember: async (note: string, source: string) => {
+      remembered.push({ note, source })
+    },
+    onPermissionAsked: () => () => {},
+    onQuestionAsked: () => () => {},
+    onTextDelta: () => () => {},
+  } as unknown as AssistantCore
+
+  const whitelist = new WhitelistStore(join(dataDir, "whitelist.json"))
+  const identities = new IdentityStore(join(dataDir, "identities.json"))
+  const pairAttempts = new PairAttemptStore(join(dataDir, "pair-attempts.json"))
+  const pendingInteractions = new PendingInteractionStore(join(dataDir, "pending-interactions.json"))
+  const auditLog = new AuditLog(join(dataDir, "audit.jsonl"))
+  await whitelist.init()
+  await identities.init()
+  await pairAttempts.init()
+  await pendingInteractions.init()
+  await auditLog.init()
+  await whitelist.add("telegram", "100")
+
+  const telegram = new FakeAdapter("telegram")
+  const slack = new FakeAdapter("slack")
+  const routerOptions = {
+    logger: pino({ level: "silent" }),
+    assistant,
+    whitelist,
+    identities,
+    pairAttempts,
+    pendingInteractions,
+    auditLog,
+    invites: new InviteStore(join(dataDir, "invites.json")),
+    inviteTtlMinutes: 60,
+    pairToken: "pair-secret",
+    pairMaxAttempts: 3,
+    pairLockMinutes: 15,
+    linkCodeTtlMinutes: 10,
+    inboxDir: join(dataDir, "inbox"),
+    inboxRetentionDays: 7,
+  }
+  const running = [startChannel(telegram, routerOptions), startChannel(slack, routerOptions)]
+
+  try {
+    await waitFor("adapters", () => Boolean(telegram.handlers && slack.handlers))
+
+    await slack.handlers?.onMessage({ chatID: "U1", userID: "U1", text: "hello" })
+    await waitFor("whitelist notice", () => slack.lastText().startsWith("Access restricted."))
+    await slack.command("U1", "link")
+    assert(slack.lastText().startsWith("Access restricted."), "unknown accounts should not create link codes")
+    console.log("[identity-e2e] unlinked accounts stay restricted ok")
+
+    await telegram.command("100", "link")
+    const code = telegram.lastText().match(/Link code: ([A-Z0-9]{8})/)?.[1]
+    assert(code, "whitelisted accounts should receive a link code")
+
+    await telegram.command("100", "link", code)
+    assert(telegram.lastText().includes("not from the one that created it"), "own codes should be refused")
+    await slack.command("U1", "link", "WRONGCODE")
+    assert(slack.lastText() === "Invalid or expired link code.", "wrong codes should be rejected")
+    await slack.command("U1", "link", code.toLowerCase())
+    assert(slack.lastText().includes("- telegram: 100") && slack.lastText().includes("- slack: U1"), "link should list both accounts")
+    await slack.command("U2", "link", code)
+    assert(slack.lastText() === "Invalid or expired link code.", "codes should work only once")
+    console.log("[identity-e2e] /link one-time codes ok")
+
+    await slack.handlers?.onMessage({ chatID: "U1", userID: "U1", text: "what is on my calendar?" })
+    await waitFor("linked reply", () => slack.lastText() === "echo: what is on my calendar?")
+    assert(asks.at(-1)?.channel === "slack" && asks.at(-1)?.userID === "U1", "linked accounts should inherit whitelist status")
+
+    await slack.command("U1", "remember", "prefers metric units")
+    const identityID = identities.identityOf("slack", "U1")
+    assert(identityID?.startsWith("person-"), "linked accounts should share an identity")
+    assert(remembered[0]?.source === identityID, "memory should be attributed to the person, not the transport")
+
+    const route = identities.routeFor("telegram", "100")
+    assert(route.channel === "slack" && route.userID === "U1", "proactive routing should follow the last used account")
+    await telegram.handlers?.onMessage({ chatID: "100", userID: "100", text: "back on telegram" })
+    await waitFor("telegram reply", () => telegram.lastText() === "echo: back on telegram")
+    assert(identities.routeFor("slack", "U1").channel === "telegram", "routing should switch when the person changes transport")
+
+    const reloaded = new IdentityStore(join(dataDir, "identities.json"))
+    await reloaded.init()
+    assert(reloaded.identityOf("telegram", "100") === identityID, "links should persist across restarts")
+    assert(reloaded.accountsFor("slack", "U1").length === 2, "reloaded identity should keep both accounts")
+    console.log("[identity-e2e] shared whitelist, memory source and routing ok")
+    console.log("[identity-e2e] PASS")
+  } finally {
+    telegram.stop()
+    slack.stop()
+    await Promise.all(running)
+    await rm(dataDir, { recursive: true, force: true })
+  }
+}
+
+void main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("[identity-e2e] FAIL", error instanceof Error ? error.message : String(error))
+    process.exit(1)
+  })
@@ -0,0 +1,184 @@
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import pino from "pino"
+import { startChannel } from "../src/channels/router"
+import type { ChannelAdapter, ChannelHandlers, ChannelPrompt } from "../src/channels/types"
+import type { AssistantCore } from "../src/core/assistant"
+import { AuditLog } from "../src/core/audit-log"
+import { IdentityStore } from "../src/core/identity-store"
+import { InviteStore } from "../src/core/invite-store"
+import { PairAttemptStore } from "../src/core/pair-attempt-store"
+import { PendingInteractionStore } from "../src/core/pending-interaction-store"
+import { WhitelistStore } from "../src/core/whitelist-store"
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message)
+}
+
+async function waitFor(label: string, check: () => boolean, timeoutMs = 5_000): Promise<void> {
+  const endAt = Date.now() + timeoutMs
+  while (Date.now() < endAt) {
+    if (check()) return
+    await new Promise((r) => setTimeout(r, 20))
+  }
+  throw new Error(`Timed out waiting for ${label}`)
+}
+
+class FakeAdapter implements ChannelAdapter {
+  readonly name = "telegram" as const
+  readonly displayName = "Telegram"
+  readonly maxMessageLength = 4000
+  readonly sent: string[] = []
+  handlers?: ChannelHandlers
+  private resolveStopped?: () => void
+
+  async start(handlers: ChannelHandlers): Promise<void> {
+    this.handlers = handlers
+    await new Promise<void>((resolve) => {
+      this.resolveStopped = resolve
+    })
+  }
+
+  stop(): void {
+    this.resolveStopped?.()
+  }
+
+  async sendText(_chatID: string, text: string): Promise<void> {
+    this.sent.push(text)
+  }
+
+  async sendFile(): Promise<void> {}
+
+  async sendPrompt(_chatID: string, prompt: ChannelPrompt): Promise<void> {
+    this.sent.push(prompt.text)
+  }
+
+  lastText(): string {
+    return this.sent.at(-1) ?? ""
+  }
+
+  async command(userID: string, name: string, args = ""): Promise<void> {
+    await this.handlers?.onCommand({ chatID: userID, userID, name, args })
+  }
+
+  // Asks the admin for a code and returns it.
+  async mint(args: string): Promise<string> {
+    await this.command("1", "invite", `code ${args}`.trim())
+    const code = this.lastText().match(/Invite code: ([A-Z0-9]{8})/)?.[1]
+    if (!code) throw new Error(`no invite code in: ${this.lastText()}`)
+    return code
+  }
+}
+
+async function main() {
+  const dataDir = await mkdtemp(join(tmpdir(), "monclaw-invites-e2e-"))
+
+  const assistant = {
+    getMainSessionID: async () => "ses_main",
+    onPermissionAsked: () => () => {},
+    onQuestionAsked: () => () => {},
+    onTextDelta: () => () => {},
+  } as unknown as AssistantCore
+
+  // Left over from before a restart: one code already expired.
+  const invitesFile = join(dataDir, "invites.json")
+  const hourAgo = new Date(Date.now() - 60 * 60_000).toISOString()
+  await Bun.write(invitesFile, JSON.stringify({ EXPIRED2: { role: "admin", createdBy: "telegram:1", createdAt: hourAgo, expiresAt: hourAgo } }))
+
+  const whitelist = new WhitelistStore(join(dataDir, "whitelist.json"))
+  const identities = new IdentityStore(join(dataDir, "identities.json"))
+  const pairAttempts = new PairAttemptStore(join(dataDir, "pair-attempts.json"))
+  const pendingInteractions = new PendingInteractionStore(join(dataDir, "pending-interactions.json"))
+  const auditLog = new AuditLog(join(dataDir, "audit.jsonl"))
+  const invites = new InviteStore(invitesFile)
+  await whitelist.init()
+  await identities.init()
+  await pairAttempts.init()
+  await pendingInteractions.init()
+  await auditLog.init()
+  await invites.init()
+  await whitelist.add("telegram", "1", "admin")
+  await whitelist.add("telegram", "2", "member")
+
+  const adapter = new FakeAdapter()
+  // No static WHITELIST_PAIR_TOKEN: invite codes are the only way in.
+  const running = startChannel(adapter, {
+    logger: pino({ level: "silent" }),
+    assistant,
+    whitelist,
+    identities,
+    pairAttempts,
+    pendingInteractions,
+    auditLog,
+    invites,
+    inviteTtlMinutes: 60,
+    pairMaxAttempts: 3,
+    pairLockMinutes: 15,
+    linkCodeTtlMinutes: 10,
+    inboxDir: join(dataDir, "inbox"),
+    inboxRetentionDays: 7,
+  })
+
+  try {
+    await waitFor("adapter", () => Boolean(adapter.handlers))
+
+    await adapter.command("2", "invite", "code")
+    assert(adapter.lastText().startsWith("Your role (member) cannot manage users"), "only admins should mint codes")
+    await adapter.command("1", "invite", "code owner")
+    assert(adapter.lastText().startsWith("Usage: /invite"), "unknown roles should show usage")
+
+    const open = await adapter.mint("viewer")
+    assert(adapter.lastText().includes("Grants viewer, for anyone") && adapter.lastText().includes("expires in 60 minute(s)"), "the admin should see scope and lifetime")
+    await adapter.command("10", "pair", open.toLowerCase())
+    assert(adapter.lastText() === "Pairing successful. You are now whitelisted as viewer.", `codes should grant their role, got: ${adapter.lastText()}`)
+    assert(whitelist.roleOf("telegram", "10") === "viewer", "the role should be stored")
+    await adapter.command("11", "pair", open)
+    assert(adapter.lastText() === "Invalid or expired invite code." && !whitelist.isWhitelisted("telegram", "11"), "codes should work once")
+    await adapter.command("12", "pair", "EXPIRED2")
+    assert(adapter.lastText() === "Invalid or expired invite code.", "expired codes should be refused")
+    console.log("[invites-e2e] single-use codes grant their role ok")
+
+    const scoped = await adapter.mint("member telegram:20")
+    assert(adapter.lastText().includes("for telegram:20"), "scoped codes should name their account")
+    await adapter.command("21", "pair", scoped)
+    assert(adapter.lastText() === "Invalid or expired invite code." && !whitelist.isWhitelisted("telegram", "21"), "other accounts should not use a scoped code")
+    const reloaded = new InviteStore(invitesFile)
+    await reloaded.init()
+    assert((await reloaded.redeem(scoped, "telegram", "22")).ok === false, "scoped codes should survive a restart")
+    await adapter.command("20", "pair", scoped)
+    assert(whitelist.roleOf("telegram", "20") === "member", "the intended account should still redeem it")
+    await adapter.command("20", "pair", "ANYTHING")
+    assert(adapter.lastText() === "You are already whitelisted as member.", "whitelisted accounts should not burn codes")
+    console.log("[invites-e2e] codes tied to one account ok")
+
+    const spare = await adapter.mint("admin")
+    await adapter.command("30", "pair", "WRONG001")
+    await adapter.command("30", "pair", "WRONG002")
+    await adapter.command("30", "pair", "WRONG003")
+    assert(adapter.lastText() === "Too many failed attempts. Please try again later.", "guessing should lock the account")
+    await adapter.command("30", "pair", spare)
+    assert(adapter.lastText() === "Too many failed attempts. Please try again later." && !whitelist.isWhitelisted("telegram", "30"), "a locked account should not pair even with a valid code")
+    await adapter.command("31", "pair", spare)
+    assert(whitelist.roleOf("telegram", "31") === "admin", "the lock should not consume the code")
+
+    const minted = await auditLog.recent({ limit: 10, action: "user.invite" })
+    assert(minted.length === 3 && minted[1]?.detail?.startsWith("code for telegram:20"), "minting codes should be audited")
+    const pairs = await auditLog.recent({ limit: 20, action: "pair" })
+    assert(pairs.some((e) => e.actor === "telegram:31" && e.detail === "admin via invite from telegram:1"), "pairing should record who invited whom")
+    assert(!JSON.stringify(minted).includes(spare), "the audit log should not contain usable codes")
+    console.log("[invites-e2e] lockout stays on top of codes ok")
+    console.log("[invites-e2e] PASS")
+  } finally {
+    adapter.stop()
+    await running
+    await rm(dataDir, { recursive: true, force: true })
+  }
+}
+
+void main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("[invites-e2e] FAIL", error instanceof Error ? error.message : String(error))
+    process.exit(1)
+  })
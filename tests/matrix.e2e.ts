@@ -0,0 +1,189 @@
+import pino from "pino"
+import { MatrixAdapter } from "../src/channels/matrix"
+import type { IncomingAction, IncomingCommand, IncomingMessage } from "../src/channels/types"
+
+type ApiCall = {
+  method: string
+  path: string
+  body: unknown
+}
+
+type RoomEvent = {
+  type: string
+  event_id: string
+  sender: string
+  content: Record<string, unknown>
+}
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message)
+}
+
+async function waitFor(label: string, check: () => boolean, timeoutMs = 5_000): Promise<void> {
+  const endAt = Date.now() + timeoutMs
+  while (Date.now() < endAt) {
+    if (check()) return
+    await new Promise((r) => setTimeout(r, 20))
+  }
+  throw new Error(`Timed out waiting for ${label}`)
+}
+
+async function main() {
+  const apiCalls: ApiCall[] = []
+  const queued: Array<{ roomID: string; event: RoomEvent }> = []
+  const invites: string[] = []
+  let batch = 0
+  let eventCount = 0
+
+  const push = (roomID: string, type: string, sender: string, content: Record<string, unknown>) => {
+    eventCount += 1
+    queued.push({ roomID, event: { type, event_id: `$e${eventCount}`, sender, content } })
+  }
+
+  // Homeserver stand-in implementing the client-server endpoints the adapter uses.
+  const server = Bun.serve({
+    hostname: "127.0.0.1",
+    port: 0,
+    async fetch(req: Request) {
+      const url = new URL(req.url)
+      const raw = req.method === "GET" ? "" : await req.text()
+      let body: unknown = raw
+      try {
+        body = raw ? JSON.parse(raw) : undefined
+      } catch {
+        // Binary upload.
+      }
+      apiCalls.push({ method: req.method, path: decodeURIComponent(url.pathname), body })
+
+      if (url.pathname.endsWith("/account/whoami")) return Response.json({ user_id: "@monclaw:local" })
+      if (url.pathname.endsWith("/sync")) {
+        if (!url.searchParams.get("since")) {
+          const history = { type: "m.room.message", event_id: "$old", sender: "@alice:local", content: { msgtype: "m.text", body: "history" } }
+          return Response.json({ next_batch: "b0", rooms: { join: { "!room:local": { timeline: { events: [history] } } } } })
+        }
+        await new Promise((r) => setTimeout(r, 30))
+        batch += 1
+        const join: Record<string, { timeline: { events: RoomEvent[] } }> = {}
+        for (const item of queued.splice(0)) {
+          join[item.roomID] ??= { timeline: { events: [] } }
+          join[item.roomID].timeline.events.push(item.event)
+        }
+        const invite = Object.fromEntries(invites.splice(0).map((roomID) => [roomID, {}]))
+        return Response.json({ next_batch: `b${batch}`, rooms: { join, invite } })
+      }
+      if (url.pathname.includes("/media/download/")) return new Response(new Uint8Array([9, 9]))
+      if (url.pathname.includes("/send/")) return Response.json({ event_id: `$sent${apiCalls.length}` })
+      if (url.pathname.endsWith("/account_data/m.direct") && req.method === "GET") {
+        return Response.json({ errcode: "M_NOT_FOUND" }, { status: 404 })
+      }
+      if (url.pathname.endsWith("/createRoom")) return Response.json({ room_id: "!dm:local" })
+      return Response.json({})
+    },
+  })
+
+  const adapter = new MatrixAdapter({
+    homeserverUrl: `http://127.0.0.1:${server.port}`,
+    accessToken: "fake-token",
+    syncTimeoutMs: 50,
+    logger: pino({ level: "silent" }),
+  })
+
+  const commands: IncomingCommand[] = []
+  const messages: IncomingMessage[] = []
+  const actions: IncomingAction[] = []
+
+  const running = adapter.start({
+    commands: [{ name: "pair", description: "Pair your chat account" }],
+    onCommand: async (command) => {
+      commands.push(command)
+    },
+    onMessage: async (message) => {
+      messages.push(message)
+    },
+    onAction: async (action) => {
+      actions.push(action)
+      await action.acknowledge("Approved.")
+      await action.clearButtons()
+    },
+  })
+
+  try {
+    await waitFor("initial sync", () => batch > 0)
+    invites.push("!room:local")
+    push("!room:local", "m.room.message", "@alice:local", { msgtype: "m.text", body: "hello" })
+    push("!room:local", "m.room.message", "@monclaw:local", { msgtype: "m.text", body: "own echo" })
+    push("!room:local", "m.room.message", "@alice:local", { msgtype: "m.text", body: "/pair secret" })
+    push("!room:local", "m.room.message", "@alice:local", {
+      msgtype: "m.audio",
+      body: "voice.ogg",
+      url: "mxc://local/abc",
+      info: { mimetype: "audio/ogg", size: 2 },
+    })
+    push("!room:local", "m.room.encrypted", "@bob:local", { algorithm: "m.megolm.v1.aes-sha2" })
+
+    await waitFor("messages", () => messages.length === 2)
+    await waitFor("commands", () => commands.length === 1)
+    assert(apiCalls.some((call) => call.path.endsWith("/rooms/!room:local/join")), "invites should be joined")
+    assert(messages[0]?.chatID === "!room:local" && messages[0]?.text === "hello", "room messages should be forwarded")
+    assert(!messages.some((message) => message.text === "history"), "history from the first sync should be skipped")
+    assert(commands[0]?.name === "pair" && commands[0]?.args === "secret", "text commands should be parsed")
+    const voice = await messages[1]?.media?.fetch()
+    assert(messages[1]?.media?.kind === "voice" && voice?.data.length === 2, "audio should be downloaded from the media repo")
+    await waitFor("encryption notice", () =>
+      apiCalls.some((call) => (call.body as { msgtype?: string } | undefined)?.msgtype === "m.notice"),
+    )
+    console.log("[matrix-e2e] sync, invites, messages, commands and media ok")
+
+    await adapter.sendPrompt("!room:local", {
+      text: "Permission: bash",
+      buttons: [
+        [
+          { label: "Allow once", action: "apr:o:per_1" },
+          { label: "Always allow", action: "apr:a:per_1" },
+        ],
+        [{ label: "Reject", action: "apr:r:per_1" }],
+      ],
+    })
+    const promptCall = apiCalls.find((call) => (call.body as { body?: string } | undefined)?.body?.startsWith("Permission: bash"))
+    const promptEventID = `$sent${apiCalls.indexOf(promptCall as ApiCall) + 1}`
+    const reactions = apiCalls.filter((call) => call.path.includes("/send/m.reaction/"))
+    assert(reactions.length === 3, "each option should be seeded as a reaction")
+
+    push("!room:local", "m.reaction", "@alice:local", {
+      "m.relates_to": { rel_type: "m.annotation", event_id: promptEventID, key: "2️⃣" },
+    })
+    await waitFor("reaction action", () => actions.length === 1)
+    assert(actions[0]?.action === "apr:a:per_1", "reaction should map to the matching option")
+
+    await adapter.sendPrompt("!room:local", { text: "Question: pick", buttons: [[{ label: "A", action: "qst:q1:0:0" }], [{ label: "B", action: "qst:q1:0:1" }]] })
+    const questionCall = apiCalls.findLast((call) => (call.body as { body?: string } | undefined)?.body?.startsWith("Question: pick"))
+    const questionEventID = `$sent${apiCalls.indexOf(questionCall as ApiCall) + 1}`
+    push("!room:local", "m.room.message", "@alice:local", {
+      msgtype: "m.text",
+      body: "> <@monclaw:local> Question: pick\n\n2",
+      "m.relates_to": { "m.in_reply_to": { event_id: questionEventID } },
+    })
+    await waitFor("reply action", () => actions.length === 2)
+    assert(actions[1]?.action === "qst:q1:0:1", "numbered reply should map to the matching option")
+    console.log("[matrix-e2e] reaction and reply prompt answers ok")
+
+    assert((await adapter.openDirectChat("@alice:local")) === "!dm:local", "direct chat should be created for proactive messages")
+    assert(
+      apiCalls.some((call) => call.method === "PUT" && call.path.endsWith("/account_data/m.direct")),
+      "new direct room should be recorded in m.direct",
+    )
+    console.log("[matrix-e2e] proactive direct rooms ok")
+    console.log("[matrix-e2e] PASS")
+  } finally {
+    await adapter.stop()
+    await running
+    server.stop(true)
+  }
+}
+
+void main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("[matrix-e2e] FAIL", error instanceof Error ? error.message : String(error))
+    process.exit(1)
+  })
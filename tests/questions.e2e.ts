@@ -0,0 +1,213 @@
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import pino from "pino"
+import { startChannel } from "../src/channels/router"
+import type { ChannelAdapter, ChannelHandlers, ChannelPrompt } from "../src/channels/types"
+import type { AssistantCore, PendingQuestion } from "../src/core/assistant"
+import { AuditLog } from "../src/core/audit-log"
+import { IdentityStore } from "../src/core/identity-store"
+import { InviteStore } from "../src/core/invite-store"
+import { PairAttemptStore } from "../src/core/pair-attempt-store"
+import { PendingInteractionStore } from "../src/core/pending-interaction-store"
+import { WhitelistStore } from "../src/core/whitelist-store"
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message)
+}
+
+async function waitFor(label: string, check: () => boolean, timeoutMs = 5_000): Promise<void> {
+  const endAt = Date.now() + timeoutMs
+  while (Date.now() < endAt) {
+    if (check()) return
+    await new Promise((r) => setTimeout(r, 20))
+  }
+  throw new Error(`Timed out waiting for ${label}`)
+}
+
+class FakeAdapter implements ChannelAdapter {
+  readonly name = "terminal" as const
+  readonly displayName = "Terminal"
+  readonly maxMessageLength = 4000
+  readonly sent: string[] = []
+  readonly prompts: ChannelPrompt[] = []
+  readonly acks: string[] = []
+  handlers?: ChannelHandlers
+  private resolveStopped?: () => void
+
+  async start(handlers: ChannelHandlers): Promise<void> {
+    this.handlers = handlers
+    await new Promise<void>((resolve) => {
+      this.resolveStopped = resolve
+    })
+  }
+
+  stop(): void {
+    this.resolveStopped?.()
+  }
+
+  async sendText(_chatID: string, text: string): Promise<void> {
+    this.sent.push(text)
+  }
+
+  async sendFile(): Promise<void> {}
+
+  async sendPrompt(_chatID: string, prompt: ChannelPrompt): Promise<void> {
+    this.prompts.push(prompt)
+    this.sent.push(prompt.text)
+  }
+
+  lastPrompt(): ChannelPrompt {
+    const prompt = this.prompts.at(-1)
+    if (!prompt) throw new Error("no prompt sent")
+    return prompt
+  }
+
+  // Taps the button with this label on the latest prompt.
+  async tap(label: string): Promise<void> {
+    const button = this.lastPrompt()
+      .buttons.flat()
+      .find((b) => b.label === label)
+    if (!button) throw new Error(`no "${label}" button on: ${this.lastPrompt().text}`)
+    await this.press(button.action)
+  }
+
+  async press(action: string): Promise<void> {
+    await this.handlers?.onAction({
+      chatID: "alice",
+      userID: "alice",
+      action,
+      acknowledge: async (text) => {
+        this.acks.push(text)
+      },
+      clearButtons: async () => {},
+    })
+  }
+}
+
+async function main() {
+  const dataDir = await mkdtemp(join(tmpdir(), "monclaw-questions-e2e-"))
+  let pending: PendingQuestion[] = []
+  const replies: Array<{ requestID: string; answers: string[][] }> = []
+
+  const assistant = {
+    getMainSessionID: async () => "ses_main",
+    listPendingPermissions: async () => [],
+    listPendingQuestions: async () => pending,
+    replyQuestion: async (requestID: string, answers: string[][]) => {
+      replies.push({ requestID, answers })
+      pending = pending.filter((item) => item.id !== requestID)
+    },
+    getLatestAssistantSignature: async () => "",
+    waitForAssistantAfter: async () => "Thanks, continuing.",
+    onPermissionAsked: () => () => {},
+    onQuestionAsked: () => () => {},
+    onTextDelta: () => () => {},
+  } as unknown as AssistantCore
+
+  const whitelist = new WhitelistStore(join(dataDir, "whitelist.json"))
+  const identities = new IdentityStore(join(dataDir, "identities.json"))
+  const pairAttempts = new PairAttemptStore(join(dataDir, "pair-attempts.json"))
+  const pendingInteractions = new PendingInteractionStore(join(dataDir, "pending-interactions.json"))
+  const auditLog = new AuditLog(join(dataDir, "audit.jsonl"))
+  await whitelist.init()
+  await identities.init()
+  await pairAttempts.init()
+  await pendingInteractions.init()
+  await auditLog.init()
+  await whitelist.add("terminal", "alice")
+
+  const adapter = new FakeAdapter()
+  const running = startChannel(adapter, {
+    logger: pino({ level: "silent" }),
+    assistant,
+    whitelist,
+    identities,
+    pairAttempts,
+    pendingInteractions,
+    auditLog,
+    invites: new InviteStore(join(dataDir, "invites.json")),
+    inviteTtlMinutes: 60,
+    pairMaxAttempts: 3,
+    pairLockMinutes: 15,
+    linkCodeTtlMinutes: 10,
+    inboxDir: join(dataDir, "inbox"),
+    inboxRetentionDays: 7,
+  })
+
+  try {
+    await waitFor("adapter", () => Boolean(adapter.handlers))
+    pending = [
+      {
+        id: "que_1",
+        sessionID: "ses_main",
+        questions: [
+          { header: "Format", question: "Which format?", options: [{ label: "PDF", description: "" }, { label: "Markdown", description: "" }] },
+          {
+            header: "Sections",
+            question: "Which sections?",
+            multiple: true,
+            options: [
+              { label: "Summary", description: "" },
+              { label: "Budget", description: "" },
+              { label: "Risks", description: "" },
+            ],
+          },
+          { header: "Title", question: "What should it be called?", options: [] },
+        ],
+      },
+    ]
+
+    await adapter.handlers?.onCommand({ chatID: "alice", userID: "alice", name: "approvals", args: "" })
+    assert(adapter.lastPrompt().text.startsWith("Question (1/3): Format"), "the wizard should start at the first question")
+    const firstStep = adapter.lastPrompt()
+    await adapter.tap("Markdown")
+    assert(adapter.lastPrompt().text.startsWith("Question (2/3): Sections"), "a single choice should move to the next question")
+
+    await adapter.tap("Summary")
+    await adapter.tap("Risks")
+    await adapter.tap("✓ Summary")
+    await adapter.tap("Budget")
+    const labels = adapter.lastPrompt().buttons.flat().map((b) => b.label)
+    assert(labels.includes("✓ Budget") && labels.includes("✓ Risks") && labels.includes("Summary"), `toggles should be marked, got: ${labels.join(", ")}`)
+    assert(labels.includes("Done") && labels.includes("Type custom answer"), "multi-select should offer Done and a custom answer")
+    await adapter.tap("Done")
+    console.log("[questions-e2e] single and multi-select steps ok")
+
+    const titleStep = adapter.lastPrompt()
+    assert(titleStep.text.startsWith("Question (3/3): Title"), "Done should move to the last question")
+    assert(titleStep.buttons.flat().length === 1, "an open question should only offer a custom answer")
+    await adapter.tap("Type custom answer")
+    assert(adapter.sent.at(-1)?.includes('Type your answer to "Title"'), "the custom button should ask for a message")
+    await adapter.handlers?.onMessage({ chatID: "alice", userID: "alice", text: "Quarterly review" })
+    await waitFor("continued reply", () => adapter.sent.at(-1) === "Thanks, continuing.")
+    assert(replies.length === 1, "answers should be submitted once")
+    assert(
+      JSON.stringify(replies[0]?.answers) === JSON.stringify([["Markdown"], ["Budget", "Risks"], ["Quarterly review"]]),
+      `answers should follow question order, got: ${JSON.stringify(replies[0]?.answers)}`,
+    )
+    console.log("[questions-e2e] custom answer and submission ok")
+
+    const stale = firstStep.buttons.flat()[0]
+    assert(stale, "first prompt should have buttons")
+    await adapter.press(stale.action)
+    assert(adapter.acks.at(-1) === "Question already handled or expired.", "stale buttons should not answer again")
+
+    pending = [{ id: "que_2", sessionID: "ses_main", questions: [{ header: "Path", question: "Where?", options: [], custom: false }] }]
+    await adapter.handlers?.onCommand({ chatID: "alice", userID: "alice", name: "approvals", args: "" })
+    assert(adapter.sent.at(-1)?.startsWith("Reply with /answer"), "questions without any way to answer inline should fall back to /answer")
+    console.log("[questions-e2e] stale buttons and /answer fallback ok")
+    console.log("[questions-e2e] PASS")
+  } finally {
+    adapter.stop()
+    await running
+    await rm(dataDir, { recursive: true, force: true })
+  }
+}
+
+void main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("[questions-e2e] FAIL", error instanceof Error ? error.message : String(error))
+    process.exit(1)
+  })
@@ -0,0 +1,228 @@
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import pino from "pino"
+import type { QueueMode } from "../src/channels/queue"
+import { startChannel } from "../src/channels/router"
+import type { ChannelAdapter, ChannelHandlers, ChannelPrompt } from "../src/channels/types"
+import type { AssistantCore } from "../src/core/assistant"
+import { AuditLog } from "../src/core/audit-log"
+import { IdentityStore } from "../src/core/identity-store"
+import { InviteStore } from "../src/core/invite-store"
+import { PairAttemptStore } from "../src/core/pair-attempt-store"
+import { PendingInteractionStore } from "../src/core/pending-interaction-store"
+import { WhitelistStore } from "../src/core/whitelist-store"
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message)
+}
+
+async function waitFor(label: string, check: () => boolean, timeoutMs = 5_000): Promise<void> {
+  const endAt = Date.now() + timeoutMs
+  while (Date.now() < endAt) {
+    if (check()) return
+    await new Promise((r) => setTimeout(r, 20))
+  }
+  throw new Error(`Timed out waiting for ${label}`)
+}
+
+class FakeAdapter implements ChannelAdapter {
+  readonly name = "terminal" as const
+  readonly displayName = "Terminal"
+  readonly maxMessageLength = 4000
+  readonly sent: string[] = []
+  handlers?: ChannelHandlers
+  private resolveStopped?: () => void
+
+  async start(handlers: ChannelHandlers): Promise<void> {
+    this.handlers = handlers
+    await new Promise<void>((resolve) => {
+      this.resolveStopped = resolve
+    })
+  }
+
+  stop(): void {
+    this.resolveStopped?.()
+  }
+
+  async sendText(_chatID: string, text: string): Promise<void> {
+    this.sent.push(text)
+  }
+
+  async sendFile(): Promise<void> {}
+
+  async sendPrompt(_chatID: string, prompt: ChannelPrompt): Promise<void> {
+    this.sent.push(prompt.text)
+  }
+
+  lastText(): string {
+    return this.sent.at(-1) ?? ""
+  }
+}
+
+async function main() {
+  const dataDir = await mkdtemp(join(tmpdir(), "monclaw-queue-e2e-"))
+  const asks: string[] = []
+  // Each ask blocks until the test releases it, so later messages arrive while the chat is busy.
+  const releases: Array<() => void> = []
+  let opencodeDown = false
+
+  const assistant = {
+    ask: async (input: { text: string }) => {
+      asks.push(input.text)
+      await new Promise<void>((resolve) => releases.push(resolve))
+      return `done: ${input.text}`
+    },
+    getMainSessionID: async () => {
+      if (opencodeDown) throw new Error("connect ECONNREFUSED 127.0.0.1:4096")
+      return "ses_main"
+    },
+    abortSession: async () => {
+      // OpenCode ends the aborted turn, so the blocked ask returns.
+      releases.shift()?.()
+      return { aborted: true, rejectedPermissions: 1, rejectedQuestions: 0 }
+    },
+    listPendingPermissions: async () => [],
+    listPendingQuestions: async () => [],
+    onPermissionAsked: () => () => {},
+    onQuestionAsked: () => () => {},
+    onTextDelta: () => () => {},
+  } as unknown as AssistantCore
+
+  const whitelist = new WhitelistStore(join(dataDir, "whitelist.json"))
+  const identities = new IdentityStore(join(dataDir, "identities.json"))
+  const pairAttempts = new PairAttemptStore(join(dataDir, "pair-attempts.json"))
+  const pendingInteractions = new PendingInteractionStore(join(dataDir, "pending-interactions.json"))
+  const auditLog = new AuditLog(join(dataDir, "audit.jsonl"))
+  await whitelist.init()
+  await identities.init()
+  await pairAttempts.init()
+  await pendingInteractions.init()
+  await auditLog.init()
+  await whitelist.add("terminal", "alice")
+
+  const run = async (queueMode: QueueMode, scenario: (adapter: FakeAdapter) => Promise<void>) => {
+    const adapter = new FakeAdapter()
+    const running = startChannel(adapter, {
+      logger: pino({ level: "silent" }),
+      assistant,
+      whitelist,
+      identities,
+      pairAttempts,
+      pendingInteractions,
+      auditLog,
+      invites: new InviteStore(join(dataDir, "invites.json")),
+      inviteTtlMinutes: 60,
+      pairMaxAttempts: 3,
+      pairLockMinutes: 15,
+      linkCodeTtlMinutes: 10,
+      queueMode,
+      queueDepth: 2,
+      inboxDir: join(dataDir, "inbox"),
+      inboxRetentionDays: 7,
+    })
+    try {
+      await waitFor("adapter", () => Boolean(adapter.handlers))
+      await scenario(adapter)
+    } finally {
+      adapter.stop()
+      await running
+    }
+  }
+
+  const say = (adapter: FakeAdapter, text: string) => adapter.handlers?.onMessage({ chatID: "alice", userID: "alice", text })
+  const release = () => releases.shift()?.()
+
+  try {
+    await run("queue", async (adapter) => {
+      await say(adapter, "first")
+      await waitFor("first ask", () => asks.length === 1)
+      await say(adapter, "second")
+      assert(adapter.lastText().includes("Queued as #1"), "busy chats should queue follow-ups")
+      await say(adapter, "third")
+      await say(adapter, "fourth")
+      assert(adapter.lastText().includes("queue is full (2 messages)"), "messages past the depth should be turned away")
+
+      await adapter.handlers?.onCommand({ chatID: "alice", userID: "alice", name: "queue", args: "" })
+      assert(adapter.lastText().includes("Queued messages (2/2)") && adapter.lastText().includes("2. third"), "/queue should list waiting messages")
+
+      release()
+      await waitFor("second ask", () => asks.length === 2)
+      release()
+      await waitFor("third ask", () => asks.length === 3)
+      release()
+      await waitFor("third reply", () => adapter.lastText() === "done: third")
+      assert(asks.join(",") === "first,second,third", "queued messages should be answered in order")
+    })
+    console.log("[queue-e2e] queue mode, depth and /queue ok")
+
+    asks.length = 0
+    await run("batch", async (adapter) => {
+      await say(adapter, "draft the report")
+      await waitFor("first ask", () => asks.length === 1)
+      await say(adapter, "use last week's numbers")
+      await say(adapter, "and keep it short")
+      release()
+      await waitFor("batched ask", () => asks.length === 2)
+      assert(asks[1] === "use last week's numbers\n\nand keep it short", "batch mode should merge queued messages into one prompt")
+      release()
+      await waitFor("batched reply", () => adapter.lastText().startsWith("done: use last"))
+
+      await say(adapter, "one more thing")
+      await waitFor("next ask", () => asks.length === 3)
+      await say(adapter, "never mind")
+      await adapter.handlers?.onCommand({ chatID: "alice", userID: "alice", name: "queue", args: "clear" })
+      assert(adapter.lastText() === "Cleared 1 queued message(s).", "/queue clear should drop waiting messages")
+      release()
+      await waitFor("last reply", () => adapter.lastText() === "done: one more thing")
+      await new Promise((r) => setTimeout(r, 100))
+      assert(asks.length === 3, "cleared messages should not be sent")
+    })
+    console.log("[queue-e2e] batch mode and /queue clear ok")
+
+    asks.length = 0
+    await run("queue", async (adapter) => {
+      await adapter.handlers?.onCommand({ chatID: "alice", userID: "alice", name: "stop", args: "" })
+      assert(adapter.lastText().includes("Rejected 1 pending approval(s)."), "/stop should report rejected approvals even when idle")
+
+      await say(adapter, "runaway task")
+      await waitFor("runaway ask", () => asks.length === 1)
+      await say(adapter, "queued behind it")
+      await adapter.handlers?.onCommand({ chatID: "alice", userID: "alice", name: "stop", args: "" })
+      const report = adapter.lastText()
+      assert(report.includes("Stopped the reply in progress.") && report.includes("Dropped 1 queued message(s)."), `/stop should report what it cancelled, got: ${report}`)
+
+      await say(adapter, "fresh start")
+      await waitFor("fresh ask", () => asks.length === 2)
+      assert(asks[1] === "fresh start", "the chat should accept new messages right after /stop")
+      release()
+      await waitFor("fresh reply", () => adapter.lastText() === "done: fresh start")
+      assert(!adapter.sent.includes("done: runaway task"), "the stopped turn's answer should be dropped")
+    })
+    console.log("[queue-e2e] /stop cancels the turn and the queue ok")
+
+    asks.length = 0
+    await run("queue", async (adapter) => {
+      // Failures before the prompt is sent (here the session lookup) must not escape the unawaited drain loop.
+      opencodeDown = true
+      await say(adapter, "while offline")
+      await waitFor("error reply", () => adapter.lastText() === "I could not handle this message. Check server logs.")
+      opencodeDown = false
+      await say(adapter, "back online")
+      await waitFor("recovered ask", () => asks.length === 1)
+      release()
+      await waitFor("recovered reply", () => adapter.lastText() === "done: back online")
+    })
+    console.log("[queue-e2e] errors before the prompt are reported ok")
+    console.log("[queue-e2e] PASS")
+  } finally {
+    await rm(dataDir, { recursive: true, force: true })
+  }
+}
+
+void main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("[queue-e2e] FAIL", error instanceof Error ? error.message : String(error))
+    process.exit(1)
+  })
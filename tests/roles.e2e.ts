@@ -0,0 +1,234 @@
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import pino from "pino"
+import { startChannel } from "../src/channels/router"
+import type { ChannelAdapter, ChannelHandlers, ChannelPrompt } from "../src/channels/types"
+import type { AssistantCore, PendingPermission } from "../src/core/assistant"
+import { AuditLog } from "../src/core/audit-log"
+import { IdentityStore } from "../src/core/identity-store"
+import { InviteStore } from "../src/core/invite-store"
+import { PairAttemptStore } from "../src/core/pair-attempt-store"
+import { PendingInteractionStore } from "../src/core/pending-interaction-store"
+import { WhitelistStore } from "../src/core/whitelist-store"
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message)
+}
+
+async function waitFor(label: string, check: () => boolean, timeoutMs = 5_000): Promise<void> {
+  const endAt = Date.now() + timeoutMs
+  while (Date.now() < endAt) {
+    if (check()) return
+    await new Promise((r) => setTimeout(r, 20))
+  }
+  throw new Error(`Timed out waiting for ${label}`)
+}
+
+class FakeAdapter implements ChannelAdapter {
+  readonly name = "telegram" as const
+  readonly displayName = "Telegram"
+  readonly maxMessageLength = 4000
+  readonly sent: string[] = []
+  readonly acks: string[] = []
+  handlers?: ChannelHandlers
+  private resolveStopped?: () => void
+
+  async start(handlers: ChannelHandlers): Promise<void> {
+    this.handlers = handlers
+    await new Promise<void>((resolve) => {
+      this.resolveStopped = resolve
+    })
+  }
+
+  stop(): void {
+    this.resolveStopped?.()
+  }
+
+  async sendText(_chatID: string, text: string): Promise<void> {
+    this.sent.push(text)
+  }
+
+  async sendFile(): Promise<void> {}
+
+  async sendPrompt(_chatID: string, prompt: ChannelPrompt): Promise<void> {
+    this.sent.push(prompt.text)
+  }
+
+  lastText(): string {
+    return this.sent.at(-1) ?? ""
+  }
+
+  async command(userID: string, name: string, args = ""): Promise<void> {
+    await this.handlers?.onCommand({ chatID: userID, userID, name, args })
+  }
+
+  async press(userID: string, action: string): Promise<void> {
+    await this.handlers?.onAction({
+      chatID: userID,
+      userID,
+      action,
+      acknowledge: async (text) => {
+        this.acks.push(text)
+      },
+      clearButtons: async () => {},
+    })
+  }
+}
+
+async function main() {
+  const dataDir = await mkdtemp(join(tmpdir(), "monclaw-roles-e2e-"))
+  let permissions: PendingPermission[] = []
+  const replies: string[] = []
+  const remembered: string[] = []
+  let newSessions = 0
+  let aborts = 0
+
+  const assistant = {
+    ask: async () => "ok",
+    getMainSessionID: async () => "ses_main",
+    startNewMainSession: async () => {
+      newSessions += 1
+      return `ses_${newSessions}`
+    },
+    remember: async (note: string) => {
+      remembered.push(note)
+    },
+    listPendingPermissions: async () => permissions,
+    listPendingQuestions: async () => [],
+    abortSession: async () => {
+      aborts += 1
+      return { aborted: false, rejectedPermissions: 0, rejectedQuestions: 0 }
+    },
+    getLatestAssistantSignature: async () => "",
+    waitForAssistantAfter: async () => "",
+    replyPermission: async (id: string, reply: string) => {
+      replies.push(`${id}:${reply}`)
+      permissions = permissions.filter((item) => item.id !== id)
+    },
+    onPermissionAsked: () => () => {},
+    onQuestionAsked: () => () => {},
+    onTextDelta: () => () => {},
+  } as unknown as AssistantCore
+
+  // A whitelist written before roles existed: plain ID arrays.
+  const whitelistFile = join(dataDir, "whitelist.json")
+  await Bun.write(whitelistFile, JSON.stringify({ telegram: ["100", "200"], slack: ["U1"] }))
+  const whitelist = new WhitelistStore(whitelistFile)
+  const identities = new IdentityStore(join(dataDir, "identities.json"))
+  const pairAttempts = new PairAttemptStore(join(dataDir, "pair-attempts.json"))
+  const pendingInteractions = new PendingInteractionStore(join(dataDir, "pending-interactions.json"))
+  const auditLog = new AuditLog(join(dataDir, "audit.jsonl"))
+  await whitelist.init()
+  await identities.init()
+  await pairAttempts.init()
+  await pendingInteractions.init()
+  await auditLog.init()
+
+  assert(whitelist.roleOf("telegram", "100") === "member" && whitelist.roleOf("slack", "U1") === "member", "legacy entries should become members")
+  const migrated = (await Bun.file(whitelistFile).json()) as Record<string, Record<string, string>>
+  assert(migrated.telegram?.["200"] === "member", "the file should be rewritten with roles")
+  await whitelist.setRole("telegram", "200", "viewer")
+  await whitelist.add("telegram", "300", "viewer")
+  assert(!(await whitelist.add("telegram", "300", "admin")) && whitelist.roleOf("telegram", "300") === "viewer", "add should not change an existing role")
+  assert(whitelist.roleFor([{ channel: "telegram", userID: "300" }, { channel: "slack", userID: "U1" }]) === "member", "linked accounts should get the strongest role")
+  console.log("[roles-e2e] legacy whitelist migrates to roles ok")
+
+  // Webhook and HTTP API user IDs are whatever the caller sends.
+  for (const id of ["constructor", "toString", "__proto__", "hasOwnProperty"]) {
+    assert(!whitelist.isWhitelisted("webhook", id) && whitelist.roleOf("webhook", id) === undefined, `${id} should not resolve to an Object.prototype member`)
+    assert(!whitelist.can([{ channel: "webhook", userID: id }], "approve"), `${id} should have no capabilities`)
+  }
+  assert(await whitelist.add("webhook", "__proto__", "viewer"), "odd IDs should still be addable")
+  const oddReload = new WhitelistStore(whitelistFile)
+  await oddReload.load()
+  assert(oddReload.roleOf("webhook", "__proto__") === "viewer" && !oddReload.isWhitelisted("webhook", "constructor"), "odd IDs should survive a reload as plain entries")
+  await whitelist.remove("webhook", "__proto__")
+  console.log("[roles-e2e] prototype-named user IDs are not whitelisted ok")
+
+  // The daemon and the terminal client each hold a copy of the same file; neither may drop the other's changes.
+  const sharedFile = join(dataDir, "shared-whitelist.json")
+  const daemonCopy = new WhitelistStore(sharedFile)
+  await daemonCopy.init()
+  await daemonCopy.add("telegram", "1", "member")
+  const terminalCopy = new WhitelistStore(sharedFile)
+  await terminalCopy.load()
+  await daemonCopy.add("slack", "U2", "member")
+  await terminalCopy.remove("telegram", "1")
+  await Promise.all([daemonCopy.add("telegram", "2", "viewer"), daemonCopy.add("telegram", "3", "viewer")])
+  const shared = new WhitelistStore(sharedFile)
+  await shared.load()
+  assert(
+    shared.roleOf("slack", "U2") === "member" && !shared.isWhitelisted("telegram", "1") && shared.isWhitelisted("telegram", "2") && shared.isWhitelisted("telegram", "3"),
+    `changes from both processes should survive, got: ${JSON.stringify(shared.list())}`,
+  )
+  console.log("[roles-e2e] whitelist shared between processes ok")
+
+  const adapter = new FakeAdapter()
+  const running = startChannel(adapter, {
+    logger: pino({ level: "silent" }),
+    assistant,
+    whitelist,
+    identities,
+    pairAttempts,
+    pendingInteractions,
+    auditLog,
+    invites: new InviteStore(join(dataDir, "invites.json")),
+    inviteTtlMinutes: 60,
+    pairToken: "pair-secret",
+    pairMaxAttempts: 3,
+    pairLockMinutes: 15,
+    linkCodeTtlMinutes: 10,
+    inboxDir: join(dataDir, "inbox"),
+    inboxRetentionDays: 7,
+  })
+
+  try {
+    await waitFor("adapter", () => Boolean(adapter.handlers))
+
+    await adapter.command("200", "remember", "likes tea")
+    assert(adapter.lastText() === "Your role (viewer) cannot write to long-term memory. Ask an admin.", "viewers should not write memory")
+    await adapter.command("200", "new")
+    assert(adapter.lastText().startsWith("Your role (viewer) cannot start new sessions"), "viewers should not reset sessions")
+    assert(remembered.length === 0 && newSessions === 0, "refused commands should not reach the assistant")
+
+    permissions = [{ id: "per_1", sessionID: "ses_main", permission: "bash", patterns: ["npm publish"], always: [] }]
+    await adapter.command("200", "approvals")
+    assert(adapter.lastText().includes("Request ID: per_1"), "viewers should still see pending approvals")
+    await adapter.press("200", "apr:o:per_1")
+    assert(adapter.acks.at(-1)?.startsWith("Your role (viewer) cannot answer approval requests") && replies.length === 0, "viewers should not approve")
+    await adapter.press("200", "qst:que_1:0:0")
+    assert(adapter.acks.at(-1)?.startsWith("Your role (viewer) cannot answer questions"), "viewers should not answer questions with buttons")
+    await adapter.command("200", "answer", "que_1 yes")
+    assert(adapter.lastText().startsWith("Your role (viewer) cannot answer questions"), "viewers should not use /answer")
+    await adapter.command("200", "stop")
+    assert(adapter.lastText().startsWith("Your role (viewer) cannot stop sessions") && aborts === 0, "viewers should not /stop, which rejects pending approvals")
+    console.log("[roles-e2e] viewers are read-only ok")
+
+    await adapter.command("100", "remember", "likes coffee")
+    assert(remembered[0] === "likes coffee", "members should write memory")
+    await adapter.press("100", "apr:o:per_1")
+    assert(replies[0] === "per_1:once", "members should approve")
+    await adapter.command("100", "audit")
+    assert(adapter.lastText().startsWith("Your role (member) cannot read the audit log"), "members should not use admin commands")
+
+    await adapter.command("400", "pair", "pair-secret")
+    assert(whitelist.roleOf("telegram", "400") === "member", "paired accounts should become members")
+    await whitelist.setRole("telegram", "100", "admin")
+    await adapter.command("100", "audit")
+    assert(adapter.lastText().startsWith("Last "), "admins should read the audit log")
+    console.log("[roles-e2e] members and admins ok")
+    console.log("[roles-e2e] PASS")
+  } finally {
+    adapter.stop()
+    await running
+    await rm(dataDir, { recursive: true, force: true })
+  }
+}
+
+void main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("[roles-e2e] FAIL", error instanceof Error ? error.message : String(error))
+    process.exit(1)
+  })
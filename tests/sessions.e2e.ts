@@ -0,0 +1,302 @@
+import { mkdir, mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import pino from "pino"
+import { startChannel } from "../src/channels/router"
+import type { ChannelAdapter, ChannelHandlers, ChannelName, ChannelPrompt } from "../src/channels/types"
+import { AssistantCore } from "../src/core/assistant"
+import { AuditLog } from "../src/core/audit-log"
+import { IdentityStore } from "../src/core/identity-store"
+import { InviteStore } from "../src/core/invite-store"
+import { PairAttemptStore } from "../src/core/pair-attempt-store"
+import { PendingInteractionStore } from "../src/core/pending-interaction-store"
+import { SessionStore, type SessionMode } from "../src/core/session-store"
+import { WhitelistStore } from "../src/core/whitelist-store"
+import { MemoryStore } from "../src/memory/store"
+import { startAsyncBashScheduler } from "../src/scheduler/async-bash"
+import { ackOutbox, listOutbox } from "../src/utils/outbox"
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message)
+}
+
+async function waitFor(label: string, check: () => boolean, timeoutMs = 5_000): Promise<void> {
+  const endAt = Date.now() + timeoutMs
+  while (Date.now() < endAt) {
+    if (check()) return
+    await new Promise((r) => setTimeout(r, 20))
+  }
+  throw new Error(`Timed out waiting for ${label}`)
+}
+
+class FakeAdapter implements ChannelAdapter {
+  readonly displayName: string
+  readonly maxMessageLength = 4000
+  readonly sent: Array<{ chatID: string; text: string }> = []
+  handlers?: ChannelHandlers
+  private resolveStopped?: () => void
+
+  constructor(readonly name: ChannelName) {
+    this.displayName = name
+  }
+
+  async start(handlers: ChannelHandlers): Promise<void> {
+    this.handlers = handlers
+    await new Promise<void>((resolve) => {
+      this.resolveStopped = resolve
+    })
+  }
+
+  stop(): void {
+    this.resolveStopped?.()
+  }
+
+  async sendText(chatID: string, text: string): Promise<void> {
+    this.sent.push({ chatID, text })
+  }
+
+  async sendFile(): Promise<void> {}
+
+  async sendPrompt(chatID: string, prompt: ChannelPrompt): Promise<void> {
+    this.sent.push({ chatID, text: prompt.text })
+  }
+
+  lastText(): string {
+    return this.sent.at(-1)?.text ?? ""
+  }
+}
+
+async function main() {
+  const dataDir = await mkdtemp(join(tmpdir(), "monclaw-sessions-e2e-"))
+  // Session IDs the stub hands out per key; "main" stands for the shared session.
+  const sessionIDs = new Map<string, string>()
+  const asks: Array<{ userID: string; sessionKey?: string }> = []
+  let created = 0
+  const sessionOf = (key = "main") => {
+    if (!sessionIDs.has(key)) sessionIDs.set(key, `ses_${++created}`)
+    return sessionIDs.get(key) ?? ""
+  }
+
+  const assistant = {
+    ask: async (input: { userID: string; sessionKey?: string; text: string }) => {
+      asks.push({ userID: input.userID, sessionKey: input.sessionKey })
+      return `${sessionOf(input.sessionKey)}: ${input.text}`
+    },
+    getMainSessionID: async () => sessionOf(),
+    getChatSessionID: async (key: string) => sessionOf(key),
+    startNewMainSession: async () => {
+      sessionIDs.delete("main")
+      return sessionOf()
+    },
+    startNewChatSession: async (key: string) => {
+      sessionIDs.delete(key)
+      return sessionOf(key)
+    },
+    listPendingPermissions: async () => [],
+    listPendingQuestions: async () => [],
+    onPermissionAsked: () => () => {},
+    onQuestionAsked: () => () => {},
+    onTextDelta: () => () => {},
+  } as unknown as AssistantCore
+
+  const whitelist = new WhitelistStore(join(dataDir, "whitelist.json"))
+  const identities = new IdentityStore(join(dataDir, "identities.json"))
+  const pairAttempts = new PairAttemptStore(join(dataDir, "pair-attempts.json"))
+  const pendingInteractions = new PendingInteractionStore(join(dataDir, "pending-interactions.json"))
+  const auditLog = new AuditLog(join(dataDir, "audit.jsonl"))
+  await whitelist.init()
+  await identities.init()
+  await pairAttempts.init()
+  await pendingInteractions.init()
+  await auditLog.init()
+  for (const userID of ["alice", "bob"]) await whitelist.add("telegram", userID)
+  await whitelist.add("slack", "U-alice")
+
+  const run = async (mode: SessionMode, scenario: (adapters: { telegram: FakeAdapter; slack: FakeAdapter }) => Promise<void>) => {
+    const telegram = new FakeAdapter("telegram")
+    const slack = new FakeAdapter("slack")
+    const options = {
+      logger: pino({ level: "silent" }),
+      assistant,
+      whitelist,
+      identities,
+      pairAttempts,
+      pendingInteractions,
+      auditLog,
+      invites: new InviteStore(join(dataDir, "invites.json")),
+      inviteTtlMinutes: 60,
+      pairMaxAttempts: 3,
+      pairLockMinutes: 15,
+      linkCodeTtlMinutes: 10,
+      sessionMode: mode,
+      inboxDir: join(dataDir, "inbox"),
+      inboxRetentionDays: 7,
+    }
+    const running = [startChannel(telegram, options), startChannel(slack, options)]
+    try {
+      await waitFor("adapters", () => Boolean(telegram.handlers && slack.handlers))
+      await scenario({ telegram, slack })
+    } finally {
+      telegram.stop()
+      slack.stop()
+      await Promise.all(running)
+    }
+  }
+
+  const say = async (adapter: FakeAdapter, chatID: string, userID: string, text: string) => {
+    await adapter.handlers?.onMessage({ chatID, userID, text })
+    await waitFor(`reply to ${text}`, () => adapter.lastText().endsWith(`: ${text}`))
+    return adapter.lastText().split(":")[0]
+  }
+
+  try {
+    await run("shared", async ({ telegram }) => {
+      const a = await say(telegram, "alice", "alice", "hi from alice")
+      const b = await say(telegram, "bob", "bob", "hi from bob")
+      assert(a === b && asks.at(-1)?.sessionKey === undefined, "shared mode should use one main session")
+      await telegram.handlers?.onCommand({ chatID: "bob", userID: "bob", name: "new", args: "" })
+      assert(telegram.lastText().startsWith("Started new shared session"), "/new in shared mode should reset the shared session")
+    })
+    console.log("[sessions-e2e] shared mode ok")
+
+    await run("per-user", async ({ telegram, slack }) => {
+      const alice = await say(telegram, "group-1", "alice", "alice in group")
+      const bob = await say(telegram, "group-1", "bob", "bob in group")
+      assert(alice !== bob, "per-user mode should separate people even in the same chat")
+      assert(asks.at(-1)?.sessionKey === "user:telegram:bob", "unlinked users should be keyed by account")
+
+      await telegram.handlers?.onCommand({ chatID: "alice", userID: "alice", name: "link", args: "" })
+      const code = telegram.lastText().match(/Link code: ([A-Z0-9]{8})/)?.[1]
+      assert(code, "alice should receive a link code")
+      await slack.handlers?.onCommand({ chatID: "U-alice", userID: "U-alice", name: "link", args: code })
+      const onTelegram = await say(telegram, "alice", "alice", "linked telegram")
+      const onSlack = await say(slack, "U-alice", "U-alice", "linked slack")
+      assert(onTelegram === onSlack, "linked accounts should share one per-user session")
+
+      await telegram.handlers?.onCommand({ chatID: "group-1", userID: "bob", name: "new", args: "" })
+      assert(telegram.lastText().startsWith("Started new session for you"), "/new should name the caller's scope")
+      assert((await say(telegram, "bob", "bob", "bob again")) !== bob, "/new should replace the caller's session")
+      assert((await say(telegram, "alice", "alice", "alice again")) === onTelegram, "/new should not touch other users")
+    })
+    console.log("[sessions-e2e] per-user mode and /new scope ok")
+
+    await run("per-chat", async ({ telegram }) => {
+      const group = await say(telegram, "group-1", "alice", "alice in group")
+      assert((await say(telegram, "group-1", "bob", "bob in group")) === group, "per-chat mode should share a chat's session")
+      assert((await say(telegram, "alice", "alice", "alice direct")) !== group, "per-chat mode should separate chats")
+      assert(asks.at(-1)?.sessionKey === "telegram:alice", "per-chat keys should name the channel and chat")
+    })
+    console.log("[sessions-e2e] per-chat mode ok")
+
+    await backgroundTargets(dataDir)
+    console.log("[sessions-e2e] async_bash feedback and heartbeat targets ok")
+    console.log("[sessions-e2e] PASS")
+  } finally {
+    await rm(dataDir, { recursive: true, force: true })
+  }
+}
+
+// Real AssistantCore against an OpenCode stand-in that records which session got which prompt.
+async function backgroundTargets(dataDir: string): Promise<void> {
+  const prompts = new Map<string, string[]>()
+  let nextSession = 1
+  let nextMessage = 1
+  const opencode = Bun.serve({
+    hostname: "127.0.0.1",
+    port: 0,
+    idleTimeout: 0,
+    async fetch(req: Request) {
+      const path = new URL(req.url).pathname
+      if (path === "/event") {
+        const body = new ReadableStream<Uint8Array>({
+          start(controller) {
+            controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify({ type: "server.connected", properties: {} })}\n\n`))
+          },
+        })
+        return new Response(body, { headers: { "Content-Type": "text/event-stream" } })
+      }
+      if (path === "/session" && req.method === "POST") {
+        const id = `ses_${nextSession++}`
+        prompts.set(id, [])
+        return Response.json({ id, title: "chat", time: { created: Date.now(), updated: Date.now() } })
+      }
+      const match = path.match(/^\/session\/([^/]+)\/message$/)
+      if (match) {
+        if (req.method === "GET") return Response.json([])
+        const body = (await req.json()) as { noReply?: boolean; parts?: Array<{ text?: string }> }
+        prompts.get(match[1] ?? "")?.push(body.parts?.[0]?.text ?? "")
+        if (body.noReply) return Response.json({})
+        const now = Date.now()
+        return Response.json({
+          info: { id: `msg_${nextMessage++}`, role: "assistant", time: { created: now, completed: now } },
+          parts: [{ type: "text", text: "noted" }],
+        })
+      }
+      return Response.json([])
+    },
+  })
+
+  // Asks from chat channels overwrite .data/last-channel.json in the working directory; put it back afterwards.
+  const lastChannelFile = join(process.cwd(), ".data", "last-channel.json")
+  const previousLastChannel = (await Bun.file(lastChannelFile).exists()) ? await Bun.file(lastChannelFile).text() : null
+  const workDir = join(dataDir, "background")
+  await mkdir(workDir, { recursive: true })
+  const sessions = new SessionStore(join(workDir, "sessions.json"))
+  const heartbeatFile = join(workDir, "heartbeat.md")
+  await Bun.write(heartbeatFile, "- check the backups\n")
+  const assistant = new AssistantCore(pino({ level: "silent" }), new MemoryStore(join(workDir, "workspace")), sessions, {
+    serverUrl: `http://127.0.0.1:${opencode.port}`,
+    heartbeatFile,
+    heartbeatIntervalMinutes: 30,
+    inboxDir: join(workDir, "inbox"),
+    inboxRetentionDays: 7,
+    replyTimeoutMinutes: 1,
+  })
+
+  try {
+    await assistant.init()
+    await assistant.ask({ channel: "telegram", userID: "alice", text: "start the backup", sessionKey: "user:telegram:alice" })
+    await assistant.ask({ channel: "telegram", userID: "bob", text: "hello", sessionKey: "user:telegram:bob" })
+    const aliceSession = await assistant.getChatSessionID("user:telegram:alice")
+    const bobSession = await assistant.getChatSessionID("user:telegram:bob")
+    assert(assistant.sessionKeyOf(aliceSession) === "user:telegram:alice", "session IDs should map back to their key")
+
+    // Alice's job finishes after Bob spoke: its feedback belongs to Alice's session.
+    const queueDir = join(workDir, "async-jobs")
+    await mkdir(queueDir, { recursive: true })
+    const now = new Date().toISOString()
+    await Bun.write(
+      join(queueDir, "job-a.json"),
+      JSON.stringify({ id: "job-a", command: "echo done", timeoutMs: 5_000, status: "queued", channel: "telegram", userID: "alice", sessionID: aliceSession, createdAt: now, updatedAt: now }),
+    )
+    startAsyncBashScheduler({ queueDir, concurrency: 1, reportSeconds: 60, defaultTimeoutMs: 5_000, assistant, logger: pino({ level: "silent" }) })
+    const isFeedback = (text: string) => text.includes("async_bash completion update")
+    await waitFor("async_bash feedback", () => (prompts.get(aliceSession) ?? []).some(isFeedback), 10_000)
+    assert(!(prompts.get(bobSession) ?? []).some(isFeedback), "job feedback should not reach other sessions")
+    // Drop the owner's notifications so they are not delivered by later tests.
+    const notified = async () => Boolean(((await Bun.file(join(queueDir, "job-a.json")).json()) as { completionNotifiedAt?: string }).completionNotifiedAt)
+    for (let i = 0; i < 250 && !(await notified()); i += 1) await new Promise((r) => setTimeout(r, 20))
+    assert(await notified(), "the job owner should be notified")
+    for (const item of await listOutbox("telegram")) {
+      if (item.message.text.startsWith("[async_bash job-a]")) await ackOutbox(item.filePath)
+    }
+    assert(sessions.getLastSessionKey() === "user:telegram:bob", "background asks should not move the heartbeat target")
+
+    const heartbeat = await assistant.runHeartbeatTasks()
+    assert(heartbeat.startsWith("Heartbeat completed"), `heartbeat should run, got: ${heartbeat}`)
+    const isSummary = (text: string) => text.startsWith("[Heartbeat summary]")
+    assert((prompts.get(bobSession) ?? []).some(isSummary), "the heartbeat summary should go to the latest conversation")
+    assert(!(prompts.get(aliceSession) ?? []).some(isSummary), "the heartbeat summary should go to a single session only")
+  } finally {
+    if (previousLastChannel === null) await rm(lastChannelFile, { force: true })
+    else await Bun.write(lastChannelFile, previousLastChannel)
+    opencode.stop(true)
+  }
+}
+
+void main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("[sessions-e2e] FAIL", error instanceof Error ? error.message : String(error))
+    process.exit(1)
+  })
@@ -0,0 +1,158 @@
+import pino from "pino"
+import { SlackAdapter } from "../src/channels/slack"
+import type { IncomingAction, IncomingCommand, IncomingMessage } from "../src/channels/types"
+
+type ApiCall = {
+  method: string
+  token: string
+  body: Record<string, unknown>
+}
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message)
+}
+
+async function waitFor(label: string, check: () => boolean, timeoutMs = 5_000): Promise<void> {
+  const endAt = Date.now() + timeoutMs
+  while (Date.now() < endAt) {
+    if (check()) return
+    await new Promise((r) => setTimeout(r, 20))
+  }
+  throw new Error(`Timed out waiting for ${label}`)
+}
+
+async function main() {
+  const apiCalls: ApiCall[] = []
+  const acks: string[] = []
+  let socket: { send: (data: string) => void } | null = null
+  let envelopeCount = 0
+
+  const push = (type: string, payload: unknown) => {
+    envelopeCount += 1
+    socket?.send(JSON.stringify({ envelope_id: `env-${envelopeCount}`, type, payload }))
+  }
+
+  // Fake Slack: Web API methods under /api and a Socket Mode WebSocket under /socket.
+  const server = Bun.serve({
+    hostname: "127.0.0.1",
+    port: 0,
+    async fetch(req: Request, srv: { upgrade: (req: Request) => boolean }) {
+      const url = new URL(req.url)
+      if (url.pathname === "/socket") {
+        if (srv.upgrade(req)) return undefined
+        return new Response("upgrade failed", { status: 400 })
+      }
+
+      const method = url.pathname.replace(/^\/api\//, "")
+      const raw = await req.text()
+      apiCalls.push({
+        method,
+        token: (req.headers.get("authorization") ?? "").replace(/^Bearer /, ""),
+        body: raw ? (JSON.parse(raw) as Record<string, unknown>) : {},
+      })
+
+      if (method === "apps.connections.open") return Response.json({ ok: true, url: `ws://127.0.0.1:${server.port}/socket` })
+      if (method === "conversations.open") return Response.json({ ok: true, channel: { id: "D-dm" } })
+      if (method === "chat.postMessage") return Response.json({ ok: true, ts: `17000000.00${apiCalls.length}` })
+      return Response.json({ ok: true })
+    },
+    websocket: {
+      open(ws: { send: (data: string) => void }) {
+        socket = ws
+        ws.send(JSON.stringify({ type: "hello" }))
+      },
+      message(_ws: unknown, data: string) {
+        const frame = JSON.parse(String(data)) as { envelope_id?: string }
+        if (frame.envelope_id) acks.push(frame.envelope_id)
+      },
+    },
+  })
+
+  const adapter = new SlackAdapter({
+    appToken: "xapp-fake",
+    botToken: "xoxb-fake",
+    apiUrl: `http://127.0.0.1:${server.port}/api`,
+    logger: pino({ level: "silent" }),
+  })
+
+  const commands: IncomingCommand[] = []
+  const messages: IncomingMessage[] = []
+  const actions: IncomingAction[] = []
+
+  const running = adapter.start({
+    commands: [{ name: "answer", description: "Answer a pending question" }],
+    onCommand: async (command) => {
+      commands.push(command)
+    },
+    onMessage: async (message) => {
+      messages.push(message)
+    },
+    onAction: async (action) => {
+      actions.push(action)
+      await action.acknowledge("Approved.")
+      await action.clearButtons()
+    },
+  })
+
+  try {
+    await waitFor("socket", () => socket !== null)
+    assert(apiCalls[0]?.method === "apps.connections.open" && apiCalls[0]?.token === "xapp-fake", "socket url should use the app token")
+    console.log("[slack-e2e] socket mode connected")
+
+    push("events_api", { event: { type: "message", channel_type: "im", channel: "D1", user: "U1", text: "hi", ts: "1.1" } })
+    push("events_api", { event: { type: "message", channel_type: "channel", channel: "C1", user: "U1", text: "ignored", ts: "1.2" } })
+    push("events_api", { event: { type: "app_mention", channel: "C1", user: "U2", text: "<@UBOT> status?", ts: "1.3" } })
+    push("events_api", { event: { type: "message", channel_type: "im", channel: "D1", bot_id: "B1", text: "own", ts: "1.4" } })
+    push("slash_commands", { command: "/monclaw-answer", text: "que_1 yes", user_id: "U1", channel_id: "D1" })
+    push("interactive", {
+      type: "block_actions",
+      user: { id: "U1" },
+      channel: { id: "D1" },
+      container: { channel_id: "D1", message_ts: "2.0" },
+      message: { ts: "2.0", text: "Permission: bash" },
+      actions: [{ action_id: "apr:o:per_1", value: "apr:o:per_1" }],
+    })
+
+    await waitFor("messages", () => messages.length === 2)
+    await waitFor("commands", () => commands.length === 1)
+    await waitFor("actions", () => actions.length === 1)
+    await waitFor("envelope acks", () => acks.length === envelopeCount)
+
+    assert(messages[0]?.chatID === "D1" && messages[0]?.text === "hi", "direct messages should be forwarded")
+    assert(messages[1]?.chatID === "C1:1.3" && messages[1]?.text === "status?", "mentions should reply in a thread without the mention")
+    assert(commands[0]?.name === "answer" && commands[0]?.args === "que_1 yes", "prefixed slash command should map to answer")
+    assert(actions[0]?.chatID === "D1:2.0" && actions[0]?.action === "apr:o:per_1", "button press should target the prompt thread")
+    await waitFor("ephemeral ack", () => apiCalls.some((call) => call.method === "chat.postEphemeral"))
+    await waitFor("buttons cleared", () => apiCalls.some((call) => call.method === "chat.update" && call.body.ts === "2.0"))
+    console.log("[slack-e2e] events, slash commands and block actions ok")
+
+    const ref = await adapter.sendText(actions[0].chatID, "Approval submitted. Waiting for assistant to continue...")
+    const lastPost = apiCalls.findLast((call) => call.method === "chat.postMessage")
+    assert(lastPost?.body.thread_ts === "2.0" && lastPost?.token === "xoxb-fake", "follow-ups should post in the prompt thread")
+    assert(adapter.threadChatID("D1", ref) === `D1:${ref}`, "thread target should use the posted message ts")
+
+    await adapter.sendPrompt("D1", {
+      text: "Permission: bash",
+      buttons: [[{ label: "Allow once", action: "apr:o:per_2" }], [{ label: "Reject", action: "apr:r:per_2" }]],
+    })
+    const promptPost = apiCalls.findLast((call) => call.method === "chat.postMessage")
+    const blocks = promptPost?.body.blocks as Array<{ type: string; elements?: Array<{ style?: string }> }>
+    assert(blocks?.filter((block) => block.type === "actions").length === 2, "prompt should render one actions block per row")
+    assert(blocks[2]?.elements?.[0]?.style === "danger", "reject button should use danger style")
+
+    assert((await adapter.openDirectChat("U1")) === "D-dm", "direct chat should resolve through conversations.open")
+    console.log("[slack-e2e] threaded replies, prompts and proactive DMs ok")
+    console.log("[slack-e2e] PASS")
+  } finally {
+    await adapter.stop()
+    await running
+    server.stop(true)
+  }
+}
+
+void main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("[slack-e2e] FAIL", error instanceof Error ? error.message : String(error))
+    process.exit(1)
+  })
@@ -0,0 +1,271 @@
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import pino from "pino"
+import { startChannel } from "../src/channels/router"
+import { TelegramAdapter } from "../src/channels/telegram"
+import type { AssistantCore, AssistantTextDelta } from "../src/core/assistant"
+import { AuditLog } from "../src/core/audit-log"
+import { IdentityStore } from "../src/core/identity-store"
+import { InviteStore } from "../src/core/invite-store"
+import { PairAttemptStore } from "../src/core/pair-attempt-store"
+import { PendingInteractionStore } from "../src/core/pending-interaction-store"
+import { WhitelistStore } from "../src/core/whitelist-store"
+
+type BotCall = {
+  method: string
+  body: Record<string, unknown>
+}
+
+const TOKEN = "123:fake"
+const CHAT_ID = 42
+const GROUP_ID = -100500
+const BOT_USERNAME = "monclaw_bot"
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message)
+}
+
+async function waitFor(label: string, check: () => boolean, timeoutMs = 10_000): Promise<void> {
+  const endAt = Date.now() + timeoutMs
+  while (Date.now() < endAt) {
+    if (check()) return
+    await new Promise((r) => setTimeout(r, 20))
+  }
+  throw new Error(`Timed out waiting for ${label}`)
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms))
+
+async function main() {
+  const dataDir = await mkdtemp(join(tmpdir(), "monclaw-telegram-e2e-"))
+  const calls: BotCall[] = []
+  const updates: unknown[] = []
+  // Current text of every message the bot has posted and not deleted, by message_id.
+  const chat = new Map<number, string>()
+  let nextMessageID = 1000
+  let nextUpdateID = 1
+
+  // Bot API stand-in: long polling, sends, edits and deletes.
+  const api = Bun.serve({
+    hostname: "127.0.0.1",
+    port: 0,
+    async fetch(req: Request) {
+      const method = new URL(req.url).pathname.split("/").pop() ?? ""
+      const body = req.method === "POST" ? ((await req.json().catch(() => ({}))) as Record<string, unknown>) : {}
+      if (method !== "getUpdates") calls.push({ method, body })
+
+      switch (method) {
+        case "getMe":
+          return Response.json({ ok: true, result: { id: 1, is_bot: true, first_name: "MonClaw", username: BOT_USERNAME } })
+        case "getUpdates": {
+          if (updates.length === 0) await sleep(50)
+          return Response.json({ ok: true, result: updates.splice(0) })
+        }
+        case "sendMessage": {
+          const messageID = nextMessageID++
+          chat.set(messageID, String(body.text))
+          return Response.json({
+            ok: true,
+            result: { message_id: messageID, date: 0, chat: { id: CHAT_ID, type: "private" }, text: body.text },
+          })
+        }
+        case "editMessageText": {
+          const messageID = Number(body.message_id)
+          if (chat.get(messageID) === body.text) {
+            return Response.json({ ok: false, error_code: 400, description: "Bad Request: message is not modified" }, { status: 400 })
+          }
+          chat.set(messageID, String(body.text))
+          return Response.json({
+            ok: true,
+            result: { message_id: messageID, date: 0, chat: { id: CHAT_ID, type: "private" }, text: body.text },
+          })
+        }
+        case "deleteMessage":
+          chat.delete(Number(body.message_id))
+          return Response.json({ ok: true, result: true })
+        default:
+          return Response.json({ ok: true, result: true })
+      }
+    },
+  })
+
+  const deltaListeners = new Set<(delta: AssistantTextDelta) => void>()
+  const emit = (text: string) => {
+    for (const listener of deltaListeners) listener({ sessionID: "ses_main", messageID: "msg_1", partID: "prt_1", text })
+  }
+  const longTail = "streamed ".repeat(400).trim()
+  let script: (text: string) => Promise<string> = async () => "unused"
+  const asked: Array<{ text: string; sessionKey?: string }> = []
+
+  // Stands in for AssistantCore: each scenario scripts the deltas it emits before resolving.
+  const assistant = {
+    ask: async (input: { text: string; sessionKey?: string }) => {
+      asked.push({ text: input.text, sessionKey: input.sessionKey })
+      return script(input.text)
+    },
+    getMainSessionID: async () => "ses_main",
+    getChatSessionID: async (key: string) => `ses_${key}`,
+    listPendingPermissions: async () => [],
+    listPendingQuestions: async () => [],
+    onPermissionAsked: () => () => {},
+    onQuestionAsked: () => () => {},
+    onTextDelta: (listener: (delta: AssistantTextDelta) => void) => {
+      deltaListeners.add(listener)
+      return () => deltaListeners.delete(listener)
+    },
+  } as unknown as AssistantCore
+
+  const whitelist = new WhitelistStore(join(dataDir, "whitelist.json"))
+  const identities = new IdentityStore(join(dataDir, "identities.json"))
+  const pairAttempts = new PairAttemptStore(join(dataDir, "pair-attempts.json"))
+  const pendingInteractions = new PendingInteractionStore(join(dataDir, "pending-interactions.json"))
+  const auditLog = new AuditLog(join(dataDir, "audit.jsonl"))
+  await whitelist.init()
+  await identities.init()
+  await pairAttempts.init()
+  await pendingInteractions.init()
+  await auditLog.init()
+  await whitelist.add("telegram", String(CHAT_ID))
+
+  const adapter = new TelegramAdapter({
+    token: TOKEN,
+    apiUrl: `http://127.0.0.1:${api.port}`,
+    allowedGroups: [String(GROUP_ID)],
+    logger: pino({ level: "silent" }),
+  })
+  const running = startChannel(adapter, {
+    logger: pino({ level: "silent" }),
+    assistant,
+    whitelist,
+    identities,
+    pairAttempts,
+    pendingInteractions,
+    auditLog,
+    invites: new InviteStore(join(dataDir, "invites.json")),
+    inviteTtlMinutes: 60,
+    pairMaxAttempts: 3,
+    pairLockMinutes: 15,
+    linkCodeTtlMinutes: 10,
+    inboxDir: join(dataDir, "inbox"),
+    inboxRetentionDays: 7,
+  })
+
+  const sendUser = (text: string) => {
+    updates.push({
+      update_id: nextUpdateID++,
+      message: {
+        message_id: nextUpdateID,
+        date: 0,
+        chat: { id: CHAT_ID, type: "private" },
+        from: { id: CHAT_ID, is_bot: false, first_name: "Alice" },
+        text,
+      },
+    })
+  }
+  // Group message from the whitelisted user; `extra` carries mentions, replies and topic fields.
+  const sendGroup = (chatID: number, text: string, extra: Record<string, unknown> = {}) => {
+    const mention = `@${BOT_USERNAME}`
+    const offset = text.indexOf(mention)
+    updates.push({
+      update_id: nextUpdateID++,
+      message: {
+        message_id: nextUpdateID,
+        date: 0,
+        chat: { id: chatID, type: "supergroup", title: "Team", is_forum: true },
+        from: { id: CHAT_ID, is_bot: false, first_name: "Alice" },
+        text,
+        ...(offset >= 0 ? { entities: [{ type: "mention", offset, length: mention.length }] } : {}),
+        ...extra,
+      },
+    })
+  }
+  const visible = () => Array.from(chat.values())
+  let done = false
+
+  try {
+    await waitFor("polling", () => calls.some((call) => call.method === "setMyCommands"))
+
+    script = async () => {
+      await waitFor("placeholder", () => visible().includes("…"))
+      emit("Hello")
+      await waitFor("first edit", () => visible().includes("Hello"))
+      emit(`Hello\n${longTail}`)
+      await waitFor("rollover", () => chat.size === 2)
+      done = true
+      return `Hello\n${longTail}\nDone.`
+    }
+    sendUser("tell me a long story")
+    await waitFor("streamed answer", () => done && visible().at(-1)?.endsWith("Done.") === true)
+    await sleep(100)
+    const sends = calls.filter((call) => call.method === "sendMessage")
+    assert(sends[0]?.body.text === "…", "a placeholder should be posted first")
+    assert(calls.some((call) => call.method === "editMessageText"), "the placeholder should be edited as text streams in")
+    assert(sends.length === 2, "text past the limit should roll over into exactly one more message")
+    assert(visible()[0]?.startsWith("Hello") && visible().every((text) => text.length <= adapter.maxMessageLength), "chunks should respect the limit")
+    console.log("[telegram-e2e] streamed reply with rollover ok")
+
+    chat.clear()
+    done = false
+    script = async () => {
+      emit(`Thinking out loud\n${longTail}\n${longTail}`)
+      await waitFor("long draft", () => chat.size === 3)
+      done = true
+      return "Short final answer."
+    }
+    sendUser("quick question")
+    await waitFor("short answer", () => done && visible().length === 1 && visible()[0] === "Short final answer.")
+    console.log("[telegram-e2e] surplus streamed messages removed ok")
+
+    chat.clear()
+    done = false
+    script = async () => {
+      emit("partial")
+      await waitFor("partial edit", () => visible().includes("partial"))
+      done = true
+      throw new Error("provider down")
+    }
+    sendUser("break please")
+    await waitFor("error reply", () => done && visible().at(-1)?.startsWith("I hit an internal error") === true)
+    assert(!visible().includes("partial") && !visible().includes("…"), "the streamed draft should be removed on failure")
+    console.log("[telegram-e2e] failed request clears the live message ok")
+
+    script = async (text) => `echo: ${text}`
+    const bot = { id: 1, is_bot: true, first_name: "MonClaw", username: BOT_USERNAME }
+    const askedBefore = asked.length
+    sendGroup(GROUP_ID, "just chatting among humans")
+    sendGroup(-100900, `@${BOT_USERNAME} hello from elsewhere`)
+    sendGroup(GROUP_ID, `@${BOT_USERNAME} what is the status?`)
+    await waitFor("mention reply", () => visible().includes("echo: what is the status?"))
+    assert(asked.length === askedBefore + 1, "unmentioned messages and other groups should be ignored")
+    assert(String(calls.at(-1)?.body.chat_id) === String(GROUP_ID), "group replies should go to the group")
+
+    sendGroup(GROUP_ID, "and the follow-up?", { reply_to_message: { message_id: 1000, date: 0, chat: { id: GROUP_ID, type: "supergroup" }, from: bot, text: "earlier" } })
+    await waitFor("reply-to-bot reply", () => visible().includes("echo: and the follow-up?"))
+    assert(asked.at(-1)?.sessionKey === undefined, "plain groups should follow the session mode")
+    console.log("[telegram-e2e] group mentions, replies and allow-list ok")
+
+    const topicCreated = { message_id: 7, date: 0, chat: { id: GROUP_ID, type: "supergroup" }, from: bot, forum_topic_created: { name: "infra", icon_color: 1 } }
+    sendGroup(GROUP_ID, "topic chatter", { is_topic_message: true, message_thread_id: 7, reply_to_message: topicCreated })
+    sendGroup(GROUP_ID, `@${BOT_USERNAME} disk usage?`, { is_topic_message: true, message_thread_id: 7, reply_to_message: topicCreated })
+    await waitFor("topic reply", () => visible().includes("echo: disk usage?"))
+    assert(asked.at(-1)?.text === "disk usage?" && asked.length === askedBefore + 3, "only the mention inside the topic should be handled")
+    assert(asked.at(-1)?.sessionKey === `telegram:${GROUP_ID}:7`, "each forum topic should get its own session")
+    const topicSend = calls.filter((call) => call.method === "sendMessage").at(-1)
+    assert(topicSend?.body.message_thread_id === 7, "topic replies should stay in the topic")
+    console.log("[telegram-e2e] forum topics map to their own sessions ok")
+    console.log("[telegram-e2e] PASS")
+  } finally {
+    await adapter.stop()
+    await running
+    api.stop(true)
+    await rm(dataDir, { recursive: true, force: true })
+  }
+}
+
+void main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("[telegram-e2e] FAIL", error instanceof Error ? error.message : String(error))
+    process.exit(1)
+  })
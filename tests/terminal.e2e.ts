@@ -0,0 +1,108 @@
+import { PassThrough } from "node:stream"
+import pino from "pino"
+import { TerminalAdapter } from "../src/channels/terminal"
+import type { IncomingAction, IncomingCommand, IncomingMessage } from "../src/channels/types"
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message)
+}
+
+async function waitFor(label: string, check: () => boolean, timeoutMs = 5_000): Promise<void> {
+  const endAt = Date.now() + timeoutMs
+  while (Date.now() < endAt) {
+    if (check()) return
+    await new Promise((r) => setTimeout(r, 20))
+  }
+  throw new Error(`Timed out waiting for ${label}`)
+}
+
+async function main() {
+  const input = new PassThrough()
+  const output = new PassThrough()
+  let printed = ""
+  output.on("data", (chunk: Buffer) => {
+    printed += chunk.toString("utf8")
+  })
+
+  let heartbeatRuns = 0
+  const adapter = new TerminalAdapter({
+    userID: "dev",
+    logger: pino({ level: "silent" }),
+    input,
+    output,
+    localCommands: {
+      heartbeat: {
+        description: "Run heartbeat tasks now",
+        run: async () => {
+          heartbeatRuns += 1
+          return "heartbeat> nothing to report"
+        },
+      },
+    },
+  })
+
+  const commands: IncomingCommand[] = []
+  const messages: IncomingMessage[] = []
+  const actions: IncomingAction[] = []
+
+  const running = adapter.start({
+    commands: [{ name: "approvals", description: "Show pending approvals" }],
+    onCommand: async (command) => {
+      commands.push(command)
+    },
+    onMessage: async (message) => {
+      messages.push(message)
+      await adapter.sendText(message.chatID, `echo ${message.text}`)
+    },
+    onAction: async (action) => {
+      actions.push(action)
+      await action.acknowledge("Approved.")
+      await action.clearButtons()
+    },
+  })
+  const type = (line: string) => input.write(`${line}\n`)
+
+  try {
+    type("hello there")
+    type("/approvals")
+    type("/heartbeat")
+    type("/bogus")
+    await waitFor("message", () => messages.length === 1)
+    await waitFor("command", () => commands.length === 1)
+    await waitFor("local command", () => heartbeatRuns === 1)
+    await waitFor("unknown command notice", () => printed.includes("Unknown command /bogus"))
+    assert(messages[0]?.userID === "dev" && messages[0]?.text === "hello there", "plain lines should become messages")
+    assert(printed.includes("monclaw> echo hello there"), "replies should be printed")
+    assert(printed.includes("heartbeat> nothing to report"), "local command output should be printed")
+    console.log("[terminal-e2e] messages and commands ok")
+
+    await adapter.sendPrompt("local", {
+      text: "Permission: bash",
+      buttons: [[{ label: "Allow once", action: "apr:o:per_1" }], [{ label: "Reject", action: "apr:r:per_1" }]],
+    })
+    assert(printed.includes("  2. Reject"), "prompt options should be numbered")
+    type("7")
+    await waitFor("range notice", () => printed.includes("Pick a number between 1 and 2."))
+    type("2")
+    await waitFor("prompt answer", () => actions.length === 1)
+    assert(actions[0]?.action === "apr:r:per_1", "number should select the matching option")
+    type("2")
+    await waitFor("number as message once prompt is cleared", () => messages.length === 2)
+    console.log("[terminal-e2e] inline prompt answers ok")
+
+    type("/help")
+    await waitFor("help", () => printed.includes("/heartbeat - Run heartbeat tasks now"))
+    type("/quit")
+    await running
+    console.log("[terminal-e2e] PASS")
+  } finally {
+    await adapter.stop()
+  }
+}
+
+void main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("[terminal-e2e] FAIL", error instanceof Error ? error.message : String(error))
+    process.exit(1)
+  })
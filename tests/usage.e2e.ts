@@ -0,0 +1,241 @@
+import { mkdir, mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import pino from "pino"
+import { startChannel } from "../src/channels/router"
+import type { ChannelAdapter, ChannelHandlers, ChannelPrompt } from "../src/channels/types"
+import type { AssistantCore } from "../src/core/assistant"
+import { AuditLog } from "../src/core/audit-log"
+import { IdentityStore } from "../src/core/identity-store"
+import { InviteStore } from "../src/core/invite-store"
+import { PairAttemptStore } from "../src/core/pair-attempt-store"
+import { PendingInteractionStore } from "../src/core/pending-interaction-store"
+import { describeUsageRefusal, usageSubject, UsageStore, type UsageLimits } from "../src/core/usage-store"
+import { WhitelistStore } from "../src/core/whitelist-store"
+import { startAsyncBashScheduler } from "../src/scheduler/async-bash"
+import { ackOutbox, listOutbox } from "../src/utils/outbox"
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message)
+}
+
+async function waitFor(label: string, check: () => boolean | Promise<boolean>, timeoutMs = 5_000): Promise<void> {
+  const endAt = Date.now() + timeoutMs
+  while (Date.now() < endAt) {
+    if (await check()) return
+    await new Promise((r) => setTimeout(r, 20))
+  }
+  throw new Error(`Timed out waiting for ${label}`)
+}
+
+class FakeAdapter implements ChannelAdapter {
+  readonly name = "telegram" as const
+  readonly displayName = "Telegram"
+  readonly maxMessageLength = 4000
+  readonly sent: string[] = []
+  handlers?: ChannelHandlers
+  private resolveStopped?: () => void
+
+  async start(handlers: ChannelHandlers): Promise<void> {
+    this.handlers = handlers
+    await new Promise<void>((resolve) => {
+      this.resolveStopped = resolve
+    })
+  }
+
+  stop(): void {
+    this.resolveStopped?.()
+  }
+
+  async sendText(_chatID: string, text: string): Promise<void> {
+    this.sent.push(text)
+  }
+
+  async sendFile(): Promise<void> {}
+
+  async sendPrompt(_chatID: string, prompt: ChannelPrompt): Promise<void> {
+    this.sent.push(prompt.text)
+  }
+
+  lastText(): string {
+    return this.sent.at(-1) ?? ""
+  }
+
+  async command(userID: string, name: string, args = ""): Promise<void> {
+    await this.handlers?.onCommand({ chatID: userID, userID, name, args })
+  }
+
+  // Waits for the reply so the next message is not queued behind this one.
+  async say(userID: string, text: string): Promise<string> {
+    const before = this.sent.length
+    await this.handlers?.onMessage({ chatID: userID, userID, text })
+    await waitFor(`reply to ${text}`, () => this.sent.length > before)
+    return this.lastText()
+  }
+
+  async upload(userID: string): Promise<string> {
+    const before = this.sent.length
+    await this.handlers?.onMessage({ chatID: userID, userID, text: "", media: { kind: "photo", fetch: async () => null } })
+    await waitFor("media reply", () => this.sent.length > before)
+    return this.lastText()
+  }
+}
+
+const limits: UsageLimits = {
+  admin: {
+    prompt: { perMinute: 0, perDay: 0 },
+    media: { perMinute: 0, perDay: 0 },
+    async_bash: { perMinute: 0, perDay: 0 },
+  },
+  member: {
+    prompt: { perMinute: 2, perDay: 3 },
+    media: { perMinute: 1, perDay: 0 },
+    async_bash: { perMinute: 5, perDay: 1 },
+  },
+  viewer: {
+    prompt: { perMinute: 1, perDay: 1 },
+    media: { perMinute: 1, perDay: 1 },
+    async_bash: { perMinute: 1, perDay: 1 },
+  },
+}
+
+async function main() {
+  const dataDir = await mkdtemp(join(tmpdir(), "monclaw-usage-e2e-"))
+  let asks = 0
+
+  const assistant = {
+    ask: async () => {
+      asks += 1
+      return `answer ${asks}`
+    },
+    getMainSessionID: async () => "ses_main",
+    onPermissionAsked: () => () => {},
+    onQuestionAsked: () => () => {},
+    onTextDelta: () => () => {},
+  } as unknown as AssistantCore
+
+  const whitelist = new WhitelistStore(join(dataDir, "whitelist.json"))
+  const identities = new IdentityStore(join(dataDir, "identities.json"))
+  const pairAttempts = new PairAttemptStore(join(dataDir, "pair-attempts.json"))
+  const pendingInteractions = new PendingInteractionStore(join(dataDir, "pending-interactions.json"))
+  const auditLog = new AuditLog(join(dataDir, "audit.jsonl"))
+  const usageFile = join(dataDir, "usage.json")
+  const usage = new UsageStore(limits, usageFile)
+  await whitelist.init()
+  await identities.init()
+  await pairAttempts.init()
+  await pendingInteractions.init()
+  await auditLog.init()
+  await usage.init()
+  await whitelist.add("telegram", "1", "admin")
+  await whitelist.add("telegram", "2", "member")
+  await whitelist.add("telegram", "3", "viewer")
+
+  // Token buckets refill continuously; daily counters reset at midnight UTC.
+  const t0 = Date.parse("2026-03-01T12:00:00Z")
+  const probe = { key: "telegram:99", role: "member" as const }
+  assert((await usage.consume(probe, "prompt", t0)).ok && (await usage.consume(probe, "prompt", t0)).ok, "the bucket should allow a burst")
+  const limited = await usage.consume(probe, "prompt", t0 + 1_000)
+  assert(!limited.ok && limited.reason === "rate" && limited.retryAfterSeconds === 29, `an empty bucket should refuse, got: ${JSON.stringify(limited)}`)
+  assert((await usage.consume(probe, "prompt", t0 + 30_000)).ok, "one token should be back after 30s at 2/min")
+  const capped = await usage.consume(probe, "prompt", t0 + 10 * 60_000)
+  assert(!capped.ok && capped.reason === "quota", "the daily quota should hold after the bucket refills")
+  assert((await usage.consume(probe, "prompt", t0 + 12 * 60 * 60_000)).ok, "the quota should reset the next day")
+  console.log("[usage-e2e] token bucket and daily quota ok")
+
+  const adapter = new FakeAdapter()
+  const running = startChannel(adapter, {
+    logger: pino({ level: "silent" }),
+    assistant,
+    whitelist,
+    identities,
+    pairAttempts,
+    pendingInteractions,
+    auditLog,
+    invites: new InviteStore(join(dataDir, "invites.json")),
+    inviteTtlMinutes: 60,
+    pairMaxAttempts: 3,
+    pairLockMinutes: 15,
+    linkCodeTtlMinutes: 10,
+    usage,
+    inboxDir: join(dataDir, "inbox"),
+    inboxRetentionDays: 7,
+  })
+
+  try {
+    await waitFor("adapter", () => Boolean(adapter.handlers))
+
+    assert((await adapter.say("2", "one")) === "answer 1" && (await adapter.say("2", "two")) === "answer 2", "members should chat within their rate")
+    const refusal = await adapter.say("2", "three")
+    assert(refusal.startsWith("Slow down a little: your allowance is 2 messages per minute. Try again in "), `fast senders should be told to wait, got: ${refusal}`)
+    assert(asks === 2, "refused messages should not reach the model")
+    assert((await adapter.upload("2")).startsWith("I could not read this media file"), "media should have its own allowance")
+    assert((await adapter.upload("2")).includes("1 media upload per minute"), "media uploads should be rate limited")
+
+    await adapter.say("3", "hello")
+    assert((await adapter.say("3", "again")) === "You have used today's 1 message. It resets at 00:00 UTC. Send /usage to see what is left.", "viewers should hit their daily quota")
+
+    for (let i = 0; i < 5; i += 1) await adapter.say("1", `admin ${i}`)
+    assert(asks === 8, `admins should be unlimited, got ${asks} answers`)
+    console.log("[usage-e2e] prompts and media are limited per role ok")
+
+    await adapter.command("2", "usage")
+    assert(
+      adapter.lastText() ===
+        [
+          "Your allowance (member):",
+          "Messages: 0 of 2 available this minute, 1 of 3 left today",
+          "Media uploads: 0 of 1 available this minute, 1 used today, no daily cap",
+          "async_bash jobs: 5 of 5 available this minute, 1 of 1 left today",
+          "Daily counts reset at 00:00 UTC.",
+        ].join("\n"),
+      `/usage should show what is left, got: ${adapter.lastText()}`,
+    )
+    await adapter.command("1", "usage")
+    assert(adapter.lastText().includes("Messages: unlimited"), "admins should see they are unlimited")
+
+    const reloaded = new UsageStore(limits, usageFile)
+    await reloaded.init()
+    const member = usageSubject(whitelist, identities, "telegram", "2")
+    assert(reloaded.allowance(member).find((item) => item.kind === "prompt")?.usedToday === 2, "counters should survive a restart")
+    console.log("[usage-e2e] /usage and persistence ok")
+
+    // async_bash jobs are charged by the scheduler when it first sees them.
+    const queueDir = join(dataDir, "async-jobs")
+    await mkdir(queueDir, { recursive: true })
+    const job = (id: string) => ({ id, command: "true", timeoutMs: 1000, status: "queued", channel: "telegram", userID: "2", createdAt: new Date().toISOString(), updatedAt: new Date().toISOString() })
+    assert((await usage.consume(member, "async_bash")).ok, "the member's only job today")
+    await Bun.write(join(queueDir, "job-a.json"), JSON.stringify(job("job-a")))
+    startAsyncBashScheduler({
+      queueDir,
+      concurrency: 1,
+      reportSeconds: 60,
+      defaultTimeoutMs: 1000,
+      assistant,
+      logger: pino({ level: "silent" }),
+      admitJob: async ({ channel, userID }) => {
+        const decision = await usage.consume(usageSubject(whitelist, identities, channel, userID), "async_bash")
+        return decision.ok ? undefined : describeUsageRefusal("async_bash", decision)
+      },
+    })
+    const readJob = async () => (await Bun.file(join(queueDir, "job-a.json")).json()) as { status: string; error?: string }
+    await waitFor("job refused", async () => (await readJob()).status === "cancelled")
+    assert((await readJob()).error?.startsWith("You have used today's 1 async_bash job."), "the job should record why it did not run")
+    const notices = (await listOutbox("telegram")).filter((item) => item.message.text.startsWith("[async_bash job-a] Not started."))
+    assert(notices.length === 1 && notices[0]?.message.userID === "2", "the owner should be told")
+    for (const notice of notices) await ackOutbox(notice.filePath)
+    console.log("[usage-e2e] async_bash jobs over quota are refused ok")
+    console.log("[usage-e2e] PASS")
+  } finally {
+    adapter.stop()
+    await running
+    await rm(dataDir, { recursive: true, force: true })
+  }
+}
+
+void main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("[usage-e2e] FAIL", error instanceof Error ? error.message : String(error))
+    process.exit(1)
+  })
@@ -0,0 +1,189 @@
+import { mkdir, mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import pino from "pino"
+import { startChannel } from "../src/channels/router"
+import type { ChannelAdapter, ChannelHandlers, ChannelPrompt } from "../src/channels/types"
+import type { AssistantCore, PendingPermission } from "../src/core/assistant"
+import { AuditLog } from "../src/core/audit-log"
+import { IdentityStore } from "../src/core/identity-store"
+import { InviteStore } from "../src/core/invite-store"
+import { PairAttemptStore } from "../src/core/pair-attempt-store"
+import { PendingInteractionStore } from "../src/core/pending-interaction-store"
+import { WhitelistStore } from "../src/core/whitelist-store"
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message)
+}
+
+async function waitFor(label: string, check: () => boolean, timeoutMs = 5_000): Promise<void> {
+  const endAt = Date.now() + timeoutMs
+  while (Date.now() < endAt) {
+    if (check()) return
+    await new Promise((r) => setTimeout(r, 20))
+  }
+  throw new Error(`Timed out waiting for ${label}`)
+}
+
+class FakeAdapter implements ChannelAdapter {
+  readonly name = "telegram" as const
+  readonly displayName = "Telegram"
+  readonly maxMessageLength = 4000
+  readonly sent: string[] = []
+  handlers?: ChannelHandlers
+  private resolveStopped?: () => void
+
+  async start(handlers: ChannelHandlers): Promise<void> {
+    this.handlers = handlers
+    await new Promise<void>((resolve) => {
+      this.resolveStopped = resolve
+    })
+  }
+
+  stop(): void {
+    this.resolveStopped?.()
+  }
+
+  async sendText(_chatID: string, text: string): Promise<void> {
+    this.sent.push(text)
+  }
+
+  async sendFile(): Promise<void> {}
+
+  async sendPrompt(_chatID: string, prompt: ChannelPrompt): Promise<void> {
+    this.sent.push(prompt.text)
+  }
+
+  lastText(): string {
+    return this.sent.at(-1) ?? ""
+  }
+
+  async command(userID: string, name: string, args = ""): Promise<void> {
+    await this.handlers?.onCommand({ chatID: userID, userID, name, args })
+  }
+}
+
+async function main() {
+  const dataDir = await mkdtemp(join(tmpdir(), "monclaw-users-e2e-"))
+  let permissions: PendingPermission[] = [{ id: "per_1", sessionID: "ses_main", permission: "bash", patterns: ["make deploy"], always: [] }]
+  const replies: Array<{ id: string; reply: string; actor?: string }> = []
+
+  const assistant = {
+    ask: async () => "ok",
+    getMainSessionID: async () => "ses_main",
+    listPendingPermissions: async () => permissions,
+    listPendingQuestions: async () => [],
+    replyPermission: async (id: string, reply: string, _message?: string, _sessionID?: string, actor?: string) => {
+      replies.push({ id, reply, actor })
+      permissions = permissions.filter((item) => item.id !== id)
+    },
+    onPermissionAsked: () => () => {},
+    onQuestionAsked: () => () => {},
+    onTextDelta: () => () => {},
+  } as unknown as AssistantCore
+
+  const whitelist = new WhitelistStore(join(dataDir, "whitelist.json"))
+  const identities = new IdentityStore(join(dataDir, "identities.json"))
+  const pairAttempts = new PairAttemptStore(join(dataDir, "pair-attempts.json"))
+  const pendingInteractions = new PendingInteractionStore(join(dataDir, "pending-interactions.json"))
+  const auditLog = new AuditLog(join(dataDir, "audit.jsonl"))
+  await whitelist.init()
+  await identities.init()
+  await pairAttempts.init()
+  await pendingInteractions.init()
+  await auditLog.init()
+  await whitelist.add("telegram", "1", "admin")
+  await whitelist.add("telegram", "2", "member")
+  await whitelist.add("telegram", "3", "viewer")
+
+  // Member 2 has an approval waiting in their chat and async_bash jobs queued.
+  const [per1] = permissions
+  assert(per1, "fixture permission")
+  await pendingInteractions.markAnnounced("permission", per1, "bash: make deploy", { channel: "telegram", chatID: "2", userID: "2" })
+  const queueDir = join(dataDir, "async-jobs")
+  await mkdir(queueDir, { recursive: true })
+  const job = (id: string, userID: string, status: string) => ({ id, command: "sleep 1", timeoutMs: 1000, status, channel: "telegram", userID, createdAt: new Date().toISOString(), updatedAt: new Date().toISOString() })
+  await Bun.write(join(queueDir, "job-a.json"), JSON.stringify(job("job-a", "2", "queued")))
+  await Bun.write(join(queueDir, "job-b.json"), JSON.stringify(job("job-b", "2", "completed")))
+  await Bun.write(join(queueDir, "job-c.json"), JSON.stringify(job("job-c", "3", "queued")))
+
+  const adapter = new FakeAdapter()
+  const running = startChannel(adapter, {
+    logger: pino({ level: "silent" }),
+    assistant,
+    whitelist,
+    identities,
+    pairAttempts,
+    pendingInteractions,
+    auditLog,
+    invites: new InviteStore(join(dataDir, "invites.json")),
+    inviteTtlMinutes: 60,
+    pairMaxAttempts: 3,
+    pairLockMinutes: 15,
+    linkCodeTtlMinutes: 10,
+    inboxDir: join(dataDir, "inbox"),
+    inboxRetentionDays: 7,
+    asyncBashQueueDir: queueDir,
+  })
+
+  try {
+    await waitFor("adapter", () => Boolean(adapter.handlers))
+
+    await adapter.command("2", "users")
+    assert(adapter.lastText().startsWith("Your role (member) cannot manage users"), "members should not manage users")
+    await adapter.command("1", "users")
+    assert(
+      adapter.lastText() === ["Whitelisted users (3):", "- telegram:1 admin (you)", "- telegram:2 member", "- telegram:3 viewer"].join("\n"),
+      `/users should list accounts and roles, got: ${adapter.lastText()}`,
+    )
+    console.log("[users-e2e] /users lists roles for admins only ok")
+
+    await adapter.command("1", "invite", "slack:U9 viewer")
+    assert(whitelist.roleOf("slack", "U9") === "viewer" && adapter.lastText() === "Whitelisted slack:U9 as viewer.", "/invite should whitelist other channels")
+    await adapter.command("1", "invite", "slack:U9")
+    assert(adapter.lastText().includes("already whitelisted as viewer"), "/invite should not change existing roles")
+    await adapter.command("1", "invite", "4 owner")
+    assert(adapter.lastText().startsWith("Usage: /invite"), "unknown roles should show usage")
+
+    await adapter.command("1", "promote", "slack:U9 member")
+    assert(whitelist.roleOf("slack", "U9") === "member" && adapter.lastText().endsWith("(was viewer)."), "/promote should change the role")
+    await adapter.command("1", "promote", "1 viewer")
+    assert(adapter.lastText().startsWith("You cannot change your own role") && whitelist.roleOf("telegram", "1") === "admin", "admins should not demote themselves")
+    await adapter.command("1", "promote", "99 member")
+    assert(adapter.lastText().includes("not whitelisted"), "/promote should not add users")
+    console.log("[users-e2e] /invite and /promote ok")
+
+    await adapter.command("1", "revoke", "1")
+    assert(adapter.lastText().startsWith("You cannot revoke your own access"), "admins should not lock themselves out")
+    await adapter.command("1", "revoke", "telegram:2")
+    assert(!whitelist.isWhitelisted("telegram", "2"), "/revoke should remove the account")
+    assert(replies[0]?.id === "per_1" && replies[0].reply === "reject" && replies[0].actor === "telegram:1", "their pending approvals should be rejected")
+    assert(!pendingInteractions.get("per_1"), "rejected requests should no longer be tracked")
+    const jobs = await Promise.all(["job-a", "job-b", "job-c"].map(async (id) => (await Bun.file(join(queueDir, `${id}.json`)).json()) as { status: string }))
+    assert(jobs.map((j) => j.status).join(",") === "cancelled,completed,queued", `only their queued jobs should be cancelled, got: ${jobs.map((j) => j.status)}`)
+    assert(adapter.lastText().includes("Rejected 1 pending") && adapter.lastText().includes("Cancelled 1 queued"), "the admin should see the cleanup")
+
+    await adapter.handlers?.onMessage({ chatID: "2", userID: "2", text: "still here?" })
+    await waitFor("restricted", () => adapter.lastText().startsWith("Access restricted."))
+
+    const changes = await auditLog.recent({ limit: 10, action: "user." })
+    assert(
+      changes.map((e) => `${e.action} ${e.decision} ${e.detail?.split(";")[0]}`).join("|") ===
+        "user.invite viewer slack:U9|user.promote member slack:U9 was viewer|user.revoke member telegram:2",
+      `user changes should be audited, got: ${JSON.stringify(changes)}`,
+    )
+    console.log("[users-e2e] /revoke cleans up requests and jobs ok")
+    console.log("[users-e2e] PASS")
+  } finally {
+    adapter.stop()
+    await running
+    await rm(dataDir, { recursive: true, force: true })
+  }
+}
+
+void main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("[users-e2e] FAIL", error instanceof Error ? error.message : String(error))
+    process.exit(1)
+  })
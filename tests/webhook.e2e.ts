@@ -0,0 +1,184 @@
+import { createHmac } from "node:crypto"
+import { rm } from "node:fs/promises"
+import pino from "pino"
+import { WebhookAdapter } from "../src/channels/webhook"
+import type { IncomingAction, IncomingCommand, IncomingMessage } from "../src/channels/types"
+
+type OutboundCall = {
+  signature: string | null
+  timestamp: string | null
+  raw: string
+  body: Record<string, unknown>
+}
+
+const SECRET = "bridge-secret"
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message)
+}
+
+async function waitFor(label: string, check: () => boolean, timeoutMs = 5_000): Promise<void> {
+  const endAt = Date.now() + timeoutMs
+  while (Date.now() < endAt) {
+    if (check()) return
+    await new Promise((r) => setTimeout(r, 20))
+  }
+  throw new Error(`Timed out waiting for ${label}`)
+}
+
+function unixNow(): string {
+  return String(Math.floor(Date.now() / 1000))
+}
+
+function sign(raw: string, timestamp: string, secret = SECRET): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${raw}`).digest("hex")}`
+}
+
+async function main() {
+  const outbound: OutboundCall[] = []
+  let failNext = false
+
+  // Receiving side of the bridge (Mattermost, ntfy, ...): records every signed POST.
+  const receiver = Bun.serve({
+    hostname: "127.0.0.1",
+    port: 0,
+    async fetch(req: Request) {
+      if (failNext) {
+        failNext = false
+        return new Response("busy", { status: 503 })
+      }
+      const raw = await req.text()
+      outbound.push({ signature: req.headers.get("x-monclaw-signature"), timestamp: req.headers.get("x-monclaw-timestamp"), raw, body: JSON.parse(raw) as Record<string, unknown> })
+      return Response.json({ ok: true })
+    },
+  })
+
+  const adapter = new WebhookAdapter({
+    secret: SECRET,
+    outboundUrl: `http://127.0.0.1:${receiver.port}/hooks/monclaw`,
+    port: 0,
+    logger: pino({ level: "silent" }),
+  })
+
+  const commands: IncomingCommand[] = []
+  const messages: IncomingMessage[] = []
+  const actions: IncomingAction[] = []
+
+  const running = adapter.start({
+    commands: [{ name: "pair", description: "Pair your chat account" }],
+    onCommand: async (command) => {
+      commands.push(command)
+    },
+    onMessage: async (message) => {
+      messages.push(message)
+    },
+    onAction: async (action) => {
+      actions.push(action)
+      await action.acknowledge("Approved.")
+      await action.clearButtons()
+    },
+  })
+
+  const attachmentPath = `${Bun.cwd}/.data/webhook-e2e-report.txt`
+
+  try {
+    await waitFor("inbound listener", () => adapter.port !== undefined)
+    const inboundUrl = `http://127.0.0.1:${adapter.port}/webhook/inbound`
+    const post = (payload: unknown, options: { timestamp?: string; signature?: string } = {}) => {
+      const raw = JSON.stringify(payload)
+      const timestamp = options.timestamp ?? unixNow()
+      return fetch(inboundUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-MonClaw-Timestamp": timestamp,
+          "X-MonClaw-Signature": options.signature ?? sign(raw, timestamp),
+        },
+        body: raw,
+      })
+    }
+
+    const forged = await post({ userID: "alice", text: "hi" }, { signature: sign("{}", unixNow(), "wrong-secret") })
+    assert(forged.status === 401, "payloads signed with another secret should be rejected")
+    const unsigned = await fetch(inboundUrl, { method: "POST", body: JSON.stringify({ userID: "alice", text: "hi" }) })
+    assert(unsigned.status === 401, "unsigned payloads should be rejected")
+    const stale = await post({ userID: "alice", text: "hi" }, { timestamp: String(Number(unixNow()) - 600) })
+    assert(stale.status === 401, "payloads signed ten minutes ago should be rejected")
+    const early = await post({ userID: "alice", text: "hi" }, { timestamp: String(Number(unixNow()) + 600) })
+    assert(early.status === 401, "payloads dated ten minutes ahead should be rejected")
+    const bodyOnly = JSON.stringify({ userID: "alice", text: "hi" })
+    const legacy = await fetch(inboundUrl, {
+      method: "POST",
+      headers: { "X-MonClaw-Timestamp": unixNow(), "X-MonClaw-Signature": `sha256=${createHmac("sha256", SECRET).update(bodyOnly).digest("hex")}` },
+      body: bodyOnly,
+    })
+    assert(legacy.status === 401, "signatures that leave out the timestamp should be rejected")
+    const missingUser = await post({ text: "hi" })
+    assert(missingUser.status === 400, "payloads without userID should be rejected")
+    console.log("[webhook-e2e] signature and payload validation ok")
+
+    const acceptedAt = unixNow()
+    const accepted = await post({ userID: "alice", chatID: "town-square", text: "hello" }, { timestamp: acceptedAt })
+    assert(accepted.status === 202, "signed payloads should be accepted")
+    assert(((await accepted.json()) as { chatID?: string }).chatID === "town-square", "accepted payload should echo the chat")
+    const replayed = await post({ userID: "alice", chatID: "town-square", text: "hello" }, { timestamp: acceptedAt })
+    assert(replayed.status === 409, "the same signed request should not be handled twice")
+    await post({ userID: "bob", text: "/pair secret" })
+    await post({ userID: "alice", chatID: "town-square", action: "apr:o:per_1" })
+
+    await waitFor("message", () => messages.length === 1)
+    await waitFor("command", () => commands.length === 1)
+    await waitFor("action", () => actions.length === 1)
+    assert(messages[0]?.chatID === "town-square" && messages[0]?.userID === "alice", "messages should keep chat and user")
+    assert(commands[0]?.name === "pair" && commands[0]?.chatID === "bob", "commands should be parsed and default the chat to the user")
+    assert(actions[0]?.action === "apr:o:per_1", "actions should be forwarded")
+    await waitFor("action ack", () => outbound.some((call) => call.body.text === "Approved."))
+    console.log("[webhook-e2e] messages, commands and actions ok")
+
+    await adapter.sendText("town-square", "Here is the answer.")
+    const reply = outbound.at(-1)
+    assert(reply?.body.type === "message" && reply.body.chatID === "town-square", "replies should be posted to the outbound url")
+    assert(reply.timestamp !== null && Math.abs(Number(reply.timestamp) - Number(unixNow())) <= 5, "outbound posts should carry the current time")
+    assert(reply.signature === sign(reply.raw, reply.timestamp), "outbound posts should sign the timestamp and body with the shared secret")
+
+    await adapter.sendPrompt("town-square", {
+      text: "Permission: bash",
+      buttons: [
+        [
+          { label: "Allow once", action: "apr:o:per_2" },
+          { label: "Always allow", action: "apr:a:per_2" },
+        ],
+        [{ label: "Reject", action: "apr:r:per_2" }],
+      ],
+    })
+    const prompt = outbound.at(-1)?.body as { type?: string; buttons?: Array<{ label: string; action: string }> }
+    assert(prompt.type === "prompt" && prompt.buttons?.length === 3 && prompt.buttons[2]?.action === "apr:r:per_2", "prompts should carry flat buttons")
+
+    await Bun.write(attachmentPath, "report")
+    await adapter.sendFile("town-square", attachmentPath, "Weekly report")
+    const file = outbound.at(-1)?.body as { type?: string; fileName?: string; caption?: string; data?: string }
+    assert(file.type === "file" && file.fileName === "webhook-e2e-report.txt" && file.caption === "Weekly report", "files should be posted")
+    assert(Buffer.from(file.data ?? "", "base64").toString() === "report", "file content should be base64 encoded")
+
+    failNext = true
+    let failed = false
+    await adapter.sendText("town-square", "retry me").catch(() => {
+      failed = true
+    })
+    assert(failed, "non-2xx responses should fail the send so the outbox retries it")
+    console.log("[webhook-e2e] outbound messages, prompts and files ok")
+    console.log("[webhook-e2e] PASS")
+  } finally {
+    await rm(attachmentPath, { force: true })
+    await adapter.stop()
+    await running
+    receiver.stop(true)
+  }
+}
+
+void main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("[webhook-e2e] FAIL", error instanceof Error ? error.message : String(error))
+    process.exit(1)
+  })
@@ -0,0 +1,194 @@
+import { createHmac } from "node:crypto"
+import { rm } from "node:fs/promises"
+import pino from "pino"
+import { WhatsAppAdapter } from "../src/channels/whatsapp"
+import type { IncomingAction, IncomingCommand, IncomingMessage } from "../src/channels/types"
+
+type GraphCall = {
+  method: string
+  path: string
+  body: unknown
+}
+
+const APP_SECRET = "app-secret"
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message)
+}
+
+async function waitFor(label: string, check: () => boolean, timeoutMs = 5_000): Promise<void> {
+  const endAt = Date.now() + timeoutMs
+  while (Date.now() < endAt) {
+    if (check()) return
+    await new Promise((r) => setTimeout(r, 20))
+  }
+  throw new Error(`Timed out waiting for ${label}`)
+}
+
+function webhookBody(messages: unknown[]): string {
+  return JSON.stringify({
+    object: "whatsapp_business_account",
+    entry: [
+      {
+        id: "waba-1",
+        changes: [{ field: "messages", value: { messaging_product: "whatsapp", metadata: { phone_number_id: "pn-1" }, messages } }],
+      },
+    ],
+  })
+}
+
+async function main() {
+  const graphCalls: GraphCall[] = []
+
+  // Graph API stand-in: message sends, media uploads, media lookups and the media CDN.
+  const graph = Bun.serve({
+    hostname: "127.0.0.1",
+    port: 0,
+    async fetch(req: Request) {
+      const url = new URL(req.url)
+      if (url.pathname === "/cdn/voice.ogg") return new Response(new Uint8Array([4, 5, 6, 7]))
+
+      const path = url.pathname.replace(/^\/graph/, "")
+      let body: unknown
+      if (req.headers.get("content-type")?.includes("multipart/form-data")) {
+        const form = await req.formData()
+        body = { type: form.get("type"), file: (form.get("file") as File | null)?.name }
+      } else if (req.method !== "GET") {
+        body = await req.json()
+      }
+      graphCalls.push({ method: req.method, path, body })
+
+      if (path === "/media-voice") {
+        return Response.json({ url: `http://127.0.0.1:${graph.port}/cdn/voice.ogg`, mime_type: "audio/ogg; codecs=opus", file_size: 4 })
+      }
+      if (path === "/pn-1/media") return Response.json({ id: "uploaded-1" })
+      if (path === "/pn-1/messages") return Response.json({ messages: [{ id: `wamid.${graphCalls.length}` }] })
+      return Response.json({ error: { message: "unknown path" } }, { status: 404 })
+    },
+  })
+
+  const adapter = new WhatsAppAdapter({
+    accessToken: "fake-token",
+    phoneNumberID: "pn-1",
+    verifyToken: "verify-me",
+    appSecret: APP_SECRET,
+    port: 0,
+    apiUrl: `http://127.0.0.1:${graph.port}/graph`,
+    logger: pino({ level: "silent" }),
+  })
+
+  const commands: IncomingCommand[] = []
+  const messages: IncomingMessage[] = []
+  const actions: IncomingAction[] = []
+
+  const running = adapter.start({
+    commands: [{ name: "pair", description: "Pair your chat account" }],
+    onCommand: async (command) => {
+      commands.push(command)
+    },
+    onMessage: async (message) => {
+      messages.push(message)
+    },
+    onAction: async (action) => {
+      actions.push(action)
+      await action.acknowledge("Approved.")
+      await action.clearButtons()
+    },
+  })
+
+  const attachmentPath = `${Bun.cwd}/.data/whatsapp-e2e-report.pdf`
+
+  try {
+    await waitFor("webhook listener", () => adapter.port !== undefined)
+    const webhookUrl = `http://127.0.0.1:${adapter.port}/webhook/whatsapp`
+    const post = (raw: string, signature = `sha256=${createHmac("sha256", APP_SECRET).update(raw).digest("hex")}`) =>
+      fetch(webhookUrl, { method: "POST", headers: { "Content-Type": "application/json", "X-Hub-Signature-256": signature }, body: raw })
+
+    const verified = await fetch(`${webhookUrl}?hub.mode=subscribe&hub.verify_token=verify-me&hub.challenge=12345`)
+    assert(verified.status === 200 && (await verified.text()) === "12345", "verify handshake should echo the challenge")
+    const rejected = await fetch(`${webhookUrl}?hub.mode=subscribe&hub.verify_token=wrong&hub.challenge=12345`)
+    assert(rejected.status === 403, "verify handshake should reject a wrong token")
+    const forged = await post(webhookBody([{ from: "15550001", id: "m0", type: "text", text: { body: "forged" } }]), "sha256=00")
+    assert(forged.status === 401, "unsigned payloads should be rejected")
+    console.log("[whatsapp-e2e] webhook verification and signatures ok")
+
+    const delivered = await post(
+      webhookBody([
+        { from: "15550001", id: "m1", type: "text", text: { body: "hello" } },
+        { from: "15550001", id: "m2", type: "text", text: { body: "/pair secret" } },
+        { from: "15550001", id: "m3", type: "audio", audio: { id: "media-voice", mime_type: "audio/ogg; codecs=opus", voice: true } },
+        { from: "15550001", id: "m4", type: "image", image: { id: "media-photo", mime_type: "image/jpeg", caption: "look" } },
+        {
+          from: "15550001",
+          id: "m5",
+          type: "interactive",
+          interactive: { type: "button_reply", button_reply: { id: "apr:o:per_1", title: "Allow once" } },
+        },
+      ]),
+    )
+    assert(delivered.status === 200, "signed payloads should be accepted")
+
+    await waitFor("messages", () => messages.length === 3)
+    await waitFor("commands", () => commands.length === 1)
+    await waitFor("actions", () => actions.length === 1)
+    assert(messages[0]?.chatID === "15550001" && messages[0]?.text === "hello", "text messages should be forwarded")
+    assert(commands[0]?.name === "pair" && commands[0]?.args === "secret", "text commands should be parsed")
+    const voice = await messages[1]?.media?.fetch()
+    assert(messages[1]?.media?.kind === "voice" && voice?.data.length === 4, "voice notes should be downloaded via the media url")
+    assert(voice?.extension === ".ogg", "voice note extension should come from the mime type")
+    assert(messages[2]?.media?.kind === "photo" && messages[2]?.text === "look", "image captions should be forwarded")
+    assert(actions[0]?.action === "apr:o:per_1" && actions[0]?.userID === "15550001", "button replies should map to actions")
+    await waitFor("action ack", () =>
+      graphCalls.some((call) => (call.body as { text?: { body?: string } } | undefined)?.text?.body === "Approved."),
+    )
+    console.log("[whatsapp-e2e] text, voice, image and button replies ok")
+
+    await adapter.sendPrompt("15550001", {
+      text: "Permission: bash",
+      buttons: [
+        [
+          { label: "Allow once", action: "apr:o:per_2" },
+          { label: "Always allow", action: "apr:a:per_2" },
+        ],
+        [{ label: "Reject", action: "apr:r:per_2" }],
+      ],
+    })
+    const buttonPrompt = graphCalls.findLast((call) => call.path === "/pn-1/messages")?.body as {
+      interactive?: { type?: string; action?: { buttons?: unknown[] } }
+    }
+    assert(buttonPrompt.interactive?.type === "button" && buttonPrompt.interactive.action?.buttons?.length === 3, "three options should use reply buttons")
+
+    await adapter.sendPrompt("15550001", {
+      text: "Question: pick",
+      buttons: ["A", "B", "C", "D"].map((label, i) => [{ label, action: `qst:q1:0:${i}` }]),
+    })
+    const listPrompt = graphCalls.findLast((call) => call.path === "/pn-1/messages")?.body as {
+      interactive?: { type?: string; action?: { sections?: Array<{ rows?: unknown[] }> } }
+    }
+    assert(listPrompt.interactive?.type === "list" && listPrompt.interactive.action?.sections?.[0]?.rows?.length === 4, "more options should use a list")
+
+    await Bun.write(attachmentPath, "report")
+    await adapter.sendFile("15550001", attachmentPath, "Weekly report")
+    const upload = graphCalls.find((call) => call.path === "/pn-1/media")
+    const documentSend = graphCalls.findLast((call) => call.path === "/pn-1/messages")?.body as {
+      type?: string
+      document?: { id?: string; caption?: string; filename?: string }
+    }
+    assert((upload?.body as { type?: string })?.type === "application/pdf", "files should be uploaded as media first")
+    assert(documentSend.type === "document" && documentSend.document?.id === "uploaded-1", "documents should reference the uploaded media")
+    console.log("[whatsapp-e2e] prompts and file sends ok")
+    console.log("[whatsapp-e2e] PASS")
+  } finally {
+    await rm(attachmentPath, { force: true })
+    await adapter.stop()
+    await running
+    graph.stop(true)
+  }
+}
+
+void main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("[whatsapp-e2e] FAIL", error instanceof Error ? error.message : String(error))
+    process.exit(1)
+  })